@@ -0,0 +1,99 @@
+import { ActionPlanItem } from '@/types/audit';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ACTION_OWNER_LABELS, ACTION_PHASE_LABELS } from '@/lib/actionPlan';
+import { ACTION_PHASES } from '@/lib/decisionRules';
+import { CalendarRange, Link2 } from 'lucide-react';
+
+interface ActionPlanTimelineProps {
+  plan: ActionPlanItem[];
+}
+
+function formatCurrency(value: number): string {
+  if (value >= 1000000) {
+    return `${(value / 1000000).toFixed(1)}M €`;
+  }
+  if (value >= 1000) {
+    return `${(value / 1000).toFixed(0)}k €`;
+  }
+  return `${value.toFixed(0)} €`;
+}
+
+/**
+ * 30/60/90-day plan as a Gantt view: one row per action, a bar in its phase column
+ */
+export function ActionPlanTimeline({ plan }: ActionPlanTimelineProps) {
+  if (plan.length === 0) {
+    return null;
+  }
+
+  const titleOf = (id: string) => plan.find(item => item.id === id)?.title ?? id;
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarRange className="w-5 h-5 text-primary" />
+          Plan d'actions 30 / 60 / 90 jours
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <div className="min-w-[640px]">
+            {/* Phase header */}
+            <div className="grid grid-cols-[minmax(0,2fr)_repeat(4,minmax(0,1fr))] gap-2 pb-2 border-b border-border">
+              <span className="text-xs font-medium text-muted-foreground">Action</span>
+              {ACTION_PHASES.map(phase => (
+                <span key={phase} className="text-xs font-medium text-muted-foreground text-center">
+                  {ACTION_PHASE_LABELS[phase]}
+                </span>
+              ))}
+            </div>
+
+            {plan.map(item => {
+              const column = ACTION_PHASES.indexOf(item.phase);
+              return (
+                <div
+                  key={item.id}
+                  className="grid grid-cols-[minmax(0,2fr)_repeat(4,minmax(0,1fr))] gap-2 py-3 border-b border-border/50 items-center"
+                >
+                  <div className="space-y-1">
+                    <p className="text-sm text-foreground">{item.title}</p>
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge variant="outline" className="text-xs">{ACTION_OWNER_LABELS[item.owner]}</Badge>
+                      <span className="text-xs text-muted-foreground">{item.kpiEffect}</span>
+                    </div>
+                    {item.dependencies.length > 0 && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Link2 className="w-3 h-3 flex-shrink-0" />
+                        Après : {item.dependencies.map(titleOf).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  {ACTION_PHASES.map((phase, index) => (
+                    <div key={phase} className="h-7">
+                      {index === column && (
+                        <div
+                          className={`h-full rounded-md flex items-center justify-center px-1 text-xs font-medium ${
+                            item.sourceKind === 'quantification'
+                              ? 'bg-primary/20 text-primary'
+                              : 'bg-accent text-accent-foreground'
+                          }`}
+                          title={`Règle ${item.sourceRuleId}`}
+                        >
+                          {item.estimatedImpact
+                            ? `${formatCurrency(item.estimatedImpact.min)} – ${formatCurrency(item.estimatedImpact.max)}`
+                            : ACTION_PHASE_LABELS[phase]}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,97 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { AuditDataV2, defaultAuditDataV2, DataOrigin } from '@/types/audit';
-import { getAllSectors, getSectorVariants } from '@/lib/benchmarks';
-import { Building2, TrendingUp, Users, Wifi, Heart, BarChart3, Briefcase, ChevronDown, AlertTriangle, DollarSign, Target, Gauge } from 'lucide-react';
+import { VariantSelect } from '@/components/VariantSelect';
+import { AuditDataV2, AuditWarning, defaultAuditDataV2, DataOrigin, FiscalYearData, Region } from '@/types/audit';
+import { getSector, getSectors } from '@/lib/sectorRegistry';
+import { suggestVariant } from '@/lib/variantClassifier';
+import { REGION_LABELS } from '@/lib/benchmarks';
+import { DEFAULT_TOLERANCE_BY_ORIGIN, getUncertainFields } from '@/lib/uncertaintyEngine';
+import { getAuditFiscalYear } from '@/lib/trendAnalysis';
+import { getFieldValue, getFormMetrics, setFieldValue } from '@/lib/metricRegistry';
+import { getAuditWarnings } from '@/lib/warnings';
+import { AUDIT_FIELD_FOCUS_EVENT, getInputId, groupWarningsByInput, validateAuditForm } from '@/lib/auditFormValidation';
+import { toast } from 'sonner';
+import { Building2, TrendingUp, Users, Wifi, Heart, BarChart3, Briefcase, ChevronDown, AlertTriangle, DollarSign, Target, Gauge, History, MapPin, Plus, Trash2 } from 'lucide-react';
+
+// Select value for an audit without location (Radix selects reject empty values)
+const UNSPECIFIED_REGION = 'non_precisee';
+
+// Inputs of the "Indicateurs Avancés" section besides the registry metrics, hidden while it is collapsed
+const ADVANCED_COST_INPUT_IDS = ['cogsPercent', 'fixedCostsPercent'];
+
+// Inputs hidden while the "Indicateurs Avancés" section is collapsed
+function getAdvancedInputIds(): string[] {
+  return [...ADVANCED_COST_INPUT_IDS, ...getFormMetrics().map(metric => getInputId(metric.path))];
+}
+
+// Sliders take the focus on their thumb
+function focusInput(inputId: string) {
+  const element = document.getElementById(inputId);
+  if (!element) return;
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  const focusable = element.querySelector<HTMLElement>('[role="slider"]') ?? element;
+  focusable.focus({ preventScroll: true });
+}
+
+/**
+ * Schema error and coherence warnings of one input, shown under it
+ */
+function FieldFeedback({ error, warnings }: { error?: string; warnings?: AuditWarning[] }) {
+  if (!error && !warnings?.length) return null;
+  return (
+    <div className="space-y-1">
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {warnings?.map((warning, i) => (
+        <p key={i} className={`text-xs ${warning.type === 'critical' ? 'text-destructive' : 'text-warning'}`}>
+          {warning.type === 'critical' ? '🚨' : '⚠️'} {warning.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+interface MetricInputsProps {
+  metrics: ReturnType<typeof getFormMetrics>;
+  data: AuditDataV2;
+  errors: Record<string, string>;
+  warningsByInput: Record<string, AuditWarning[]>;
+  onChange: (data: AuditDataV2) => void;
+}
+
+/**
+ * Inputs of the metrics declaring a `form` in the metric registry
+ */
+function MetricInputs({ metrics, data, errors, warningsByInput, onChange }: MetricInputsProps) {
+  return (
+    <>
+      {metrics.map((metric) => {
+        const inputId = getInputId(metric.path);
+        return (
+          <div key={metric.path} className="space-y-2">
+            <Label htmlFor={inputId}>{metric.form.label}</Label>
+            <Input
+              id={inputId}
+              aria-invalid={!!errors[inputId]}
+              type="number"
+              min={metric.form.min}
+              max={metric.form.max}
+              step={metric.form.step}
+              placeholder={metric.form.placeholder}
+              value={getFieldValue(data, metric.path) ?? ''}
+              onChange={(e) => onChange(setFieldValue(data, metric.path, e.target.value ? Number(e.target.value) : undefined))}
+            />
+            <FieldFeedback error={errors[inputId]} warnings={warningsByInput[inputId]} />
+          </div>
+        );
+      })}
+    </>
+  );
+}
 
 interface AuditFormProps {
   onSubmit: (data: AuditDataV2) => void;
@@ -15,20 +99,105 @@ interface AuditFormProps {
 
 export function AuditForm({ onSubmit }: AuditFormProps) {
   const [formData, setFormData] = useState<AuditDataV2>(defaultAuditDataV2);
-  const sectors = getAllSectors();
-  const variants = getSectorVariants(formData.sector);
+  const sectors = getSectors();
+  const variants = getSector(formData.sector)?.variants ?? [];
+  const variantSuggestion = useMemo(() => suggestVariant(formData), [formData]);
+  const additionalMetrics = getFormMetrics(null);
+  const [openSection, setOpenSection] = useState('');
+
+  // Re-evaluated on every change: ranges of the schema, coherence rules of the audit
+  const validationErrors = useMemo(() => validateAuditForm(formData), [formData]);
+  const warningsByInput = useMemo(() => groupWarningsByInput(getAuditWarnings(formData)), [formData]);
+
+  // Errors show once the input was left, or on every input after a submit attempt
+  const [touchedInputs, setTouchedInputs] = useState<Set<string>>(() => new Set());
+  const [submitted, setSubmitted] = useState(false);
+  const errors = useMemo(
+    () => submitted
+      ? validationErrors
+      : Object.fromEntries(Object.entries(validationErrors).filter(([inputId]) => touchedInputs.has(inputId))),
+    [validationErrors, submitted, touchedInputs]
+  );
+
+  // Sliders blur from their thumb, inside the element carrying the input id
+  const handleBlur = (e: React.FocusEvent<HTMLFormElement>) => {
+    const inputId = (e.target as HTMLElement).closest('[id]')?.id;
+    if (inputId && !touchedInputs.has(inputId)) setTouchedInputs(new Set(touchedInputs).add(inputId));
+  };
+  const advancedIssueCount = getAdvancedInputIds().filter(id => errors[id] || warningsByInput[id]).length;
+
+  const revealInput = (inputId: string) => {
+    if (getAdvancedInputIds().includes(inputId)) setOpenSection('advanced');
+    // Let the accordion mount its content first
+    setTimeout(() => focusInput(inputId), 100);
+  };
+
+  // Warnings clicked in the results point back to their input
+  useEffect(() => {
+    const handleFocusRequest = (event: Event) => {
+      const inputId = (event as CustomEvent<string>).detail;
+      event.preventDefault();
+      revealInput(inputId);
+    };
+    window.addEventListener(AUDIT_FIELD_FOCUS_EVENT, handleFocusRequest);
+    return () => window.removeEventListener(AUDIT_FIELD_FOCUS_EVENT, handleFocusRequest);
+  }, []);
 
   const handleSectorChange = (sector: string) => {
-    const newVariants = getSectorVariants(sector);
     setFormData({
       ...formData,
       sector: sector,
-      variant: newVariants[0]?.id || undefined
+      variant: getSector(sector)?.defaultVariant
+    });
+  };
+
+  const handleToleranceChange = (fieldId: string, value: string) => {
+    const tolerances = { ...formData.tolerances };
+    if (value === '') {
+      delete tolerances[fieldId];
+    } else {
+      tolerances[fieldId] = Math.max(0, Number(value));
+    }
+    setFormData({ ...formData, tolerances });
+  };
+
+  const priorYears = formData.priorYears ?? [];
+
+  // New years are added going back in time from the oldest one entered
+  const handleAddPriorYear = () => {
+    const oldest = priorYears.reduce((min, year) => Math.min(min, year.fiscalYear), getAuditFiscalYear(formData));
+    setFormData({
+      ...formData,
+      priorYears: [...priorYears, {
+        fiscalYear: oldest - 1,
+        annualRevenue: formData.finance.annualRevenue,
+        grossMarginPercent: formData.finance.grossMarginPercent,
+        hrCostsPercent: formData.costs.hrCostsPercent,
+      }],
+    });
+  };
+
+  const handlePriorYearChange = (index: number, update: Partial<FiscalYearData>) => {
+    setFormData({
+      ...formData,
+      priorYears: priorYears.map((year, i) => i === index ? { ...year, ...update } : year),
     });
   };
 
+  const handleRemovePriorYear = (index: number) => {
+    const remaining = priorYears.filter((_, i) => i !== index);
+    setFormData({ ...formData, priorYears: remaining.length > 0 ? remaining : undefined });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    setSubmitted(true);
+    const invalidInputs = Object.keys(validationErrors);
+    if (invalidInputs.length > 0) {
+      toast.error('Corrigez les champs signalés avant de calculer le score');
+      revealInput(invalidInputs[0]);
+      return;
+    }
     // Compute revenuePerFte before submit
     const updatedData = {
       ...formData,
@@ -44,7 +213,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
   };
 
   return (
-    <form onSubmit={handleSubmit} className="animate-fade-in bg-card rounded-2xl p-8 shadow-soft border border-border/50">
+    <form onSubmit={handleSubmit} onBlur={handleBlur} noValidate className="animate-fade-in bg-card rounded-2xl p-8 shadow-soft border border-border/50">
       <h2 className="font-display font-bold text-2xl text-foreground mb-6 flex items-center gap-3">
         <div className="p-2 rounded-lg bg-primary text-primary-foreground">
           <BarChart3 className="w-5 h-5" />
@@ -69,11 +238,13 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
               </Label>
               <Input
                 id="businessName"
+                aria-invalid={!!errors.businessName}
                 placeholder="Clinique Dubois"
                 value={formData.businessName}
                 onChange={(e) => setFormData({ ...formData, businessName: e.target.value })}
                 required
               />
+              <FieldFeedback error={errors.businessName} warnings={warningsByInput.businessName} />
             </div>
             
             <div className="space-y-2">
@@ -87,28 +258,45 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                 </SelectTrigger>
                 <SelectContent>
                   {sectors.map((sector) => (
-                    <SelectItem key={sector} value={sector}>{sector}</SelectItem>
+                    <SelectItem key={sector.id} value={sector.label}>{sector.label}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
-          {variants.length > 1 && (
-            <div className="space-y-2 mb-6">
-              <Label htmlFor="variant">Type d'établissement</Label>
-              <Select value={formData.variant} onValueChange={(v) => setFormData({ ...formData, variant: v })}>
-                <SelectTrigger>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            {variants.length > 1 && (
+              <VariantSelect
+                variants={variants}
+                value={formData.variant}
+                suggestion={variantSuggestion}
+                onChange={(v) => setFormData({ ...formData, variant: v })}
+              />
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="region" className="flex items-center gap-2">
+                <MapPin className="w-4 h-4 text-muted-foreground" />
+                Localisation
+              </Label>
+              <Select
+                value={formData.region ?? UNSPECIFIED_REGION}
+                onValueChange={(v) => setFormData({ ...formData, region: v === UNSPECIFIED_REGION ? undefined : v as Region })}
+              >
+                <SelectTrigger id="region">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {variants.map((v) => (
-                    <SelectItem key={v.id} value={v.id}>{v.description}</SelectItem>
+                  <SelectItem value={UNSPECIFIED_REGION}>Non précisée</SelectItem>
+                  {(Object.keys(REGION_LABELS) as Region[]).map((region) => (
+                    <SelectItem key={region} value={region}>{REGION_LABELS[region]}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">Sélectionne les benchmarks régionaux quand le secteur en dispose</p>
             </div>
-          )}
+          </div>
 
           {/* Financial Metrics - Essential */}
           <div className="pt-4 border-t border-border/50">
@@ -122,6 +310,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                 <Label htmlFor="annualRevenue">CA Annuel (€) *</Label>
                 <Input
                   id="annualRevenue"
+                  aria-invalid={!!errors.annualRevenue}
                   type="number"
                   min="1"
                   value={formData.finance.annualRevenue}
@@ -131,12 +320,14 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                   })}
                   required
                 />
+                <FieldFeedback error={errors.annualRevenue} warnings={warningsByInput.annualRevenue} />
               </div>
               
               <div className="space-y-2">
                 <Label htmlFor="grossMarginPercent">Marge brute (%) *</Label>
                 <div className="flex items-center gap-3">
                   <Slider
+                    id="grossMarginPercent"
                     value={[formData.finance.grossMarginPercent]}
                     onValueChange={([v]) => setFormData({ 
                       ...formData, 
@@ -148,12 +339,14 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                   />
                   <span className="w-12 text-sm text-muted-foreground">{formData.finance.grossMarginPercent}%</span>
                 </div>
+                <FieldFeedback error={errors.grossMarginPercent} warnings={warningsByInput.grossMarginPercent} />
               </div>
               
               <div className="space-y-2">
                 <Label htmlFor="hrCostsPercent">Charges RH (%) *</Label>
                 <div className="flex items-center gap-3">
                   <Slider
+                    id="hrCostsPercent"
                     value={[formData.costs.hrCostsPercent]}
                     onValueChange={([v]) => setFormData({ 
                       ...formData, 
@@ -165,6 +358,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                   />
                   <span className="w-12 text-sm text-muted-foreground">{formData.costs.hrCostsPercent}%</span>
                 </div>
+                <FieldFeedback error={errors.hrCostsPercent} warnings={warningsByInput.hrCostsPercent} />
               </div>
             </div>
           </div>
@@ -181,6 +375,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                 <Label htmlFor="fte">Effectif (ETP) *</Label>
                 <Input
                   id="fte"
+                  aria-invalid={!!errors.fte}
                   type="number"
                   step="0.5"
                   min="0.1"
@@ -194,12 +389,14 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                   })}
                   required
                 />
+                <FieldFeedback error={errors.fte} warnings={warningsByInput.fte} />
               </div>
               
               <div className="space-y-2">
                 <Label htmlFor="occupancyRatePercent">Taux d'occupation (%) *</Label>
                 <div className="flex items-center gap-3">
                   <Slider
+                    id="occupancyRatePercent"
                     value={[formData.ops.occupancyRatePercent]}
                     onValueChange={([v]) => setFormData({ 
                       ...formData, 
@@ -211,6 +408,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                   />
                   <span className="w-12 text-sm text-muted-foreground">{formData.ops.occupancyRatePercent}%</span>
                 </div>
+                <FieldFeedback error={errors.occupancyRatePercent} warnings={warningsByInput.occupancyRatePercent} />
               </div>
             </div>
           </div>
@@ -227,6 +425,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                 <Label htmlFor="digitalizationPercent">Digitalisation (%) *</Label>
                 <div className="flex items-center gap-3">
                   <Slider
+                    id="digitalizationPercent"
                     value={[formData.commercial.digitalizationPercent]}
                     onValueChange={([v]) => setFormData({ 
                       ...formData, 
@@ -238,12 +437,14 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                   />
                   <span className="w-12 text-sm text-muted-foreground">{formData.commercial.digitalizationPercent}%</span>
                 </div>
+                <FieldFeedback error={errors.digitalizationPercent} warnings={warningsByInput.digitalizationPercent} />
               </div>
               
               <div className="space-y-2">
                 <Label htmlFor="loyaltyPercent">Fidélisation clients (%)</Label>
                 <div className="flex items-center gap-3">
                   <Slider
+                    id="loyaltyPercent"
                     value={[formData.commercial.loyaltyPercent ?? 0]}
                     onValueChange={([v]) => setFormData({ 
                       ...formData, 
@@ -255,6 +456,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                   />
                   <span className="w-12 text-sm text-muted-foreground">{formData.commercial.loyaltyPercent ?? 0}%</span>
                 </div>
+                <FieldFeedback error={errors.loyaltyPercent} warnings={warningsByInput.loyaltyPercent} />
               </div>
             </div>
           </div>
@@ -270,24 +472,29 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
               <Label htmlFor="nbServices">Nombre de services/produits</Label>
               <Input
                 id="nbServices"
+                aria-invalid={!!errors.nbServices}
                 type="number"
                 min="1"
                 max="20"
                 value={formData.nbServices ?? 1}
                 onChange={(e) => setFormData({ ...formData, nbServices: Number(e.target.value) })}
               />
+              <FieldFeedback error={errors.nbServices} warnings={warningsByInput.nbServices} />
             </div>
           </div>
         </div>
 
         {/* ===================== SECTION AVANCÉE (ACCORDÉON) ===================== */}
-        <Accordion type="single" collapsible className="w-full">
+        <Accordion type="single" collapsible value={openSection} onValueChange={setOpenSection} className="w-full">
           <AccordionItem value="advanced" className="border rounded-xl px-6 border-border/50 bg-muted/30">
             <AccordionTrigger className="hover:no-underline py-4">
               <div className="flex items-center gap-2 text-foreground">
                 <Gauge className="w-5 h-5 text-muted-foreground" />
                 <span className="font-semibold">Indicateurs Avancés</span>
                 <span className="text-xs text-muted-foreground ml-2">(optionnel)</span>
+                {advancedIssueCount > 0 && (
+                  <span className="text-xs text-warning ml-2">{advancedIssueCount} champ(s) à vérifier</span>
+                )}
               </div>
             </AccordionTrigger>
             <AccordionContent className="pb-6">
@@ -300,41 +507,13 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                     Finance Avancée
                   </h4>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="netMarginPercent">Marge nette (%)</Label>
-                      <Input
-                        id="netMarginPercent"
-                        type="number"
-                        min="0"
-                        max="100"
-                        placeholder="ex: 12"
-                        value={formData.finance.netMarginPercent ?? ''}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          finance: { 
-                            ...formData.finance, 
-                            netMarginPercent: e.target.value ? Number(e.target.value) : undefined 
-                          }
-                        })}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="cashRunwayMonths">Trésorerie / Runway (mois)</Label>
-                      <Input
-                        id="cashRunwayMonths"
-                        type="number"
-                        min="0"
-                        placeholder="ex: 6"
-                        value={formData.finance.cashRunwayMonths ?? ''}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          finance: { 
-                            ...formData.finance, 
-                            cashRunwayMonths: e.target.value ? Number(e.target.value) : undefined 
-                          }
-                        })}
-                      />
-                    </div>
+                    <MetricInputs
+                      metrics={getFormMetrics('finance')}
+                      data={formData}
+                      errors={errors}
+                      warningsByInput={warningsByInput}
+                      onChange={setFormData}
+                    />
                   </div>
                 </div>
 
@@ -349,6 +528,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                       <Label htmlFor="cogsPercent">COGS / Coût des ventes (% du CA)</Label>
                       <Input
                         id="cogsPercent"
+                        aria-invalid={!!errors.cogsPercent}
                         type="number"
                         min="0"
                         max="100"
@@ -362,11 +542,13 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                           }
                         })}
                       />
+                      <FieldFeedback error={errors.cogsPercent} warnings={warningsByInput.cogsPercent} />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="fixedCostsPercent">Charges fixes (% du CA)</Label>
                       <Input
                         id="fixedCostsPercent"
+                        aria-invalid={!!errors.fixedCostsPercent}
                         type="number"
                         min="0"
                         max="100"
@@ -380,6 +562,7 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                           }
                         })}
                       />
+                      <FieldFeedback error={errors.fixedCostsPercent} warnings={warningsByInput.fixedCostsPercent} />
                     </div>
                   </div>
                 </div>
@@ -391,42 +574,13 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                     Ressources Humaines
                   </h4>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="absenteeismRatePercent">Absentéisme (%)</Label>
-                      <Input
-                        id="absenteeismRatePercent"
-                        type="number"
-                        min="0"
-                        max="100"
-                        placeholder="ex: 5"
-                        value={formData.hr?.absenteeismRatePercent ?? ''}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          hr: { 
-                            ...formData.hr, 
-                            absenteeismRatePercent: e.target.value ? Number(e.target.value) : undefined 
-                          }
-                        })}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="turnoverRatePercent">Turnover (%)</Label>
-                      <Input
-                        id="turnoverRatePercent"
-                        type="number"
-                        min="0"
-                        max="100"
-                        placeholder="ex: 15"
-                        value={formData.hr?.turnoverRatePercent ?? ''}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          hr: { 
-                            ...formData.hr, 
-                            turnoverRatePercent: e.target.value ? Number(e.target.value) : undefined 
-                          }
-                        })}
-                      />
-                    </div>
+                    <MetricInputs
+                      metrics={getFormMetrics('rh')}
+                      data={formData}
+                      errors={errors}
+                      warningsByInput={warningsByInput}
+                      onChange={setFormData}
+                    />
                   </div>
                 </div>
 
@@ -437,47 +591,13 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                     Qualité
                   </h4>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="returnRatePercent">Taux de retours/erreurs (%)</Label>
-                      <Input
-                        id="returnRatePercent"
-                        type="number"
-                        min="0"
-                        max="100"
-                        placeholder="ex: 3"
-                        value={formData.ops.quality?.returnRatePercent ?? ''}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          ops: { 
-                            ...formData.ops, 
-                            quality: { 
-                              ...formData.ops.quality, 
-                              returnRatePercent: e.target.value ? Number(e.target.value) : undefined 
-                            }
-                          }
-                        })}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="incidentsPerMonth">Incidents par mois</Label>
-                      <Input
-                        id="incidentsPerMonth"
-                        type="number"
-                        min="0"
-                        placeholder="ex: 2"
-                        value={formData.ops.quality?.incidentsPerMonth ?? ''}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          ops: { 
-                            ...formData.ops, 
-                            quality: { 
-                              ...formData.ops.quality, 
-                              incidentsPerMonth: e.target.value ? Number(e.target.value) : undefined 
-                            }
-                          }
-                        })}
-                      />
-                    </div>
+                    <MetricInputs
+                      metrics={getFormMetrics('qualite')}
+                      data={formData}
+                      errors={errors}
+                      warningsByInput={warningsByInput}
+                      onChange={setFormData}
+                    />
                   </div>
                 </div>
 
@@ -488,50 +608,31 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                     Satisfaction Client
                   </h4>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="csatPercent">CSAT (%)</Label>
-                      <Input
-                        id="csatPercent"
-                        type="number"
-                        min="0"
-                        max="100"
-                        placeholder="ex: 85"
-                        value={formData.commercial.satisfaction?.csatPercent ?? ''}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          commercial: { 
-                            ...formData.commercial, 
-                            satisfaction: { 
-                              ...formData.commercial.satisfaction, 
-                              csatPercent: e.target.value ? Number(e.target.value) : undefined 
-                            }
-                          }
-                        })}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="nps">NPS (-100 à 100)</Label>
-                      <Input
-                        id="nps"
-                        type="number"
-                        min="-100"
-                        max="100"
-                        placeholder="ex: 42"
-                        value={formData.commercial.satisfaction?.nps ?? ''}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          commercial: { 
-                            ...formData.commercial, 
-                            satisfaction: { 
-                              ...formData.commercial.satisfaction, 
-                              nps: e.target.value ? Number(e.target.value) : undefined 
-                            }
-                          }
-                        })}
+                    <MetricInputs
+                      metrics={getFormMetrics('satisfaction')}
+                      data={formData}
+                      errors={errors}
+                      warningsByInput={warningsByInput}
+                      onChange={setFormData}
+                    />
+                  </div>
+                </div>
+
+                {/* Registry metrics without a section of their own */}
+                {additionalMetrics.length > 0 && (
+                  <div className="space-y-4 pt-4 border-t border-border/50">
+                    <h4 className="font-medium text-foreground">Indicateurs complémentaires</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <MetricInputs
+                        metrics={additionalMetrics}
+                        data={formData}
+                        errors={errors}
+                        warningsByInput={warningsByInput}
+                        onChange={setFormData}
                       />
                     </div>
                   </div>
-                </div>
+                )}
 
                 {/* Data Origin */}
                 <div className="space-y-4 pt-4 border-t border-border/50">
@@ -551,6 +652,115 @@ export function AuditForm({ onSubmit }: AuditFormProps) {
                     </SelectContent>
                   </Select>
                 </div>
+
+                {/* Tolerances */}
+                <div className="space-y-4 pt-4 border-t border-border/50">
+                  <h4 className="font-medium text-foreground">Tolérances de saisie (± %)</h4>
+                  <p className="text-xs text-muted-foreground">
+                    Marge d'incertitude de chaque valeur, utilisée pour les bandes P10–P90.
+                    Vide = {DEFAULT_TOLERANCE_BY_ORIGIN[formData.dataOrigin]} % selon la source des données.
+                  </p>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {getUncertainFields().map((field) => (
+                      <div key={field.id} className="space-y-1">
+                        <Label htmlFor={`tolerance-${field.id}`} className="text-xs">{field.label}</Label>
+                        <Input
+                          id={`tolerance-${field.id}`}
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="1"
+                          placeholder={`${DEFAULT_TOLERANCE_BY_ORIGIN[formData.dataOrigin]}`}
+                          value={formData.tolerances?.[field.id] ?? ''}
+                          onChange={(e) => handleToleranceChange(field.id, e.target.value)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+
+          {/* ===================== HISTORIQUE PLURIANNUEL ===================== */}
+          <AccordionItem value="history" className="border rounded-xl px-6 border-border/50 bg-muted/30 mt-4">
+            <AccordionTrigger className="hover:no-underline py-4">
+              <div className="flex items-center gap-2 text-foreground">
+                <History className="w-5 h-5 text-muted-foreground" />
+                <span className="font-semibold">Exercices précédents</span>
+                <span className="text-xs text-muted-foreground ml-2">(optionnel, 3 ans recommandés)</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="pb-6">
+              <div className="space-y-4 pt-2">
+                <p className="text-xs text-muted-foreground">
+                  Les exercices antérieurs permettent de noter la tendance : croissance du CA,
+                  évolution des marges et dérive des charges RH.
+                </p>
+                {priorYears.map((year, index) => (
+                  <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end border-b border-border/50 pb-4">
+                    <div className="space-y-1">
+                      <Label htmlFor={`prior-year-${index}`} className="text-xs">Exercice</Label>
+                      <Input
+                        id={`prior-year-${index}`}
+                        type="number"
+                        value={year.fiscalYear}
+                        onChange={(e) => handlePriorYearChange(index, { fiscalYear: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`prior-revenue-${index}`} className="text-xs">CA (€)</Label>
+                      <Input
+                        id={`prior-revenue-${index}`}
+                        type="number"
+                        min="0"
+                        value={year.annualRevenue}
+                        onChange={(e) => handlePriorYearChange(index, { annualRevenue: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`prior-gross-${index}`} className="text-xs">Marge brute (%)</Label>
+                      <Input
+                        id={`prior-gross-${index}`}
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={year.grossMarginPercent}
+                        onChange={(e) => handlePriorYearChange(index, { grossMarginPercent: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`prior-net-${index}`} className="text-xs">Marge nette (%)</Label>
+                      <Input
+                        id={`prior-net-${index}`}
+                        type="number"
+                        min="-50"
+                        max="100"
+                        placeholder="optionnel"
+                        value={year.netMarginPercent ?? ''}
+                        onChange={(e) => handlePriorYearChange(index, { netMarginPercent: e.target.value ? Number(e.target.value) : undefined })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`prior-hr-${index}`} className="text-xs">Charges RH (%)</Label>
+                      <Input
+                        id={`prior-hr-${index}`}
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={year.hrCostsPercent}
+                        onChange={(e) => handlePriorYearChange(index, { hrCostsPercent: Number(e.target.value) })}
+                      />
+                    </div>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => handleRemovePriorYear(index)} aria-label="Supprimer l'exercice">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={handleAddPriorYear}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Ajouter un exercice
+                </Button>
               </div>
             </AccordionContent>
           </AccordionItem>
@@ -0,0 +1,165 @@
+import { GlobalScoreDisplay } from '@/components/GlobalScoreDisplay';
+import { ScoreCard } from '@/components/ScoreCard';
+import { RadarChartDisplay } from '@/components/RadarChart';
+import { PDFDownloadButton } from '@/components/PDFDownloadButton';
+import { EmailPdfButton } from '@/components/EmailPdfButton';
+import { WarningsDisplay } from '@/components/WarningsDisplay';
+import { DecisionPanel } from '@/components/DecisionPanel';
+import { DecisionOverridesPanel } from '@/components/DecisionOverridesPanel';
+import { SimulationModule } from '@/components/SimulationModule';
+import { ScoringModeToggle } from '@/components/ScoringModeToggle';
+import { YearOverYearChart } from '@/components/YearOverYearChart';
+import { ModelVersionComparison } from '@/components/ModelVersionComparison';
+import { SensitivityTornadoChart } from '@/components/SensitivityTornadoChart';
+import { TargetScoreSolver } from '@/components/TargetScoreSolver';
+import { useAudit } from '@/hooks/useAudit';
+import { requestAuditFieldFocus } from '@/lib/auditFormValidation';
+import { toast } from 'sonner';
+import { TrendingUp, Users, ShoppingCart, Target } from 'lucide-react';
+
+interface AuditResultsProps {
+  // Warnings link to the inputs of the audit form on the page (off when the form enters another audit)
+  linkWarningsToForm?: boolean;
+}
+
+/**
+ * Results panel of the audit held by the nearest AuditProvider
+ */
+export function AuditResults({ linkWarningsToForm = true }: AuditResultsProps) {
+  const { scores, auditData, businessName, warnings, decision, confidence, uncertainty } = useAudit();
+
+  if (!scores) return null;
+
+  const handleSelectField = (field: string) => {
+    if (!requestAuditFieldFocus(field)) {
+      toast.info('Ouvrez la saisie manuelle pour corriger ce champ');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+          {/* Warnings */}
+          {warnings && warnings.length > 0 && (
+            <div className="max-w-2xl mx-auto">
+              <WarningsDisplay warnings={warnings} onSelectField={linkWarningsToForm ? handleSelectField : undefined} />
+            </div>
+          )}
+          
+          {/* Global Score */}
+          <div className="flex flex-col items-center gap-4">
+            <GlobalScoreDisplay
+              score={scores.global}
+              businessName={businessName}
+              confidence={confidence}
+              range={uncertainty?.percentiles.global}
+              ambiguous={uncertainty?.ambiguous.global}
+            />
+            <div className="flex flex-wrap items-center justify-center gap-3">
+              {auditData && <PDFDownloadButton />}
+              {auditData && <EmailPdfButton />}
+            </div>
+          </div>
+
+          {/* Decision Panel */}
+          {decision && (
+            <div className="max-w-4xl mx-auto space-y-6">
+              <DecisionPanel decision={decision} />
+              <DecisionOverridesPanel />
+            </div>
+          )}
+          
+          {/* Scoring mode */}
+          <ScoringModeToggle />
+
+          {/* Dimension Scores */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <ScoreCard 
+              title="Financier" 
+              score={scores.financier} 
+              breakdown={scores.breakdown?.dimensions.financier}
+              range={uncertainty?.percentiles.financier}
+              ambiguous={uncertainty?.ambiguous.financier}
+              icon={<TrendingUp className="w-5 h-5" />}
+              delay={0}
+            />
+            <ScoreCard 
+              title="Opérationnel" 
+              score={scores.operationnel} 
+              breakdown={scores.breakdown?.dimensions.operationnel}
+              range={uncertainty?.percentiles.operationnel}
+              ambiguous={uncertainty?.ambiguous.operationnel}
+              icon={<Users className="w-5 h-5" />}
+              delay={100}
+            />
+            <ScoreCard 
+              title="Commercial" 
+              score={scores.commercial} 
+              breakdown={scores.breakdown?.dimensions.commercial}
+              range={uncertainty?.percentiles.commercial}
+              ambiguous={uncertainty?.ambiguous.commercial}
+              icon={<ShoppingCart className="w-5 h-5" />}
+              delay={200}
+            />
+            <ScoreCard 
+              title="Stratégique" 
+              score={scores.strategique} 
+              breakdown={scores.breakdown?.dimensions.strategique}
+              range={uncertainty?.percentiles.strategique}
+              ambiguous={uncertainty?.ambiguous.strategique}
+              icon={<Target className="w-5 h-5" />}
+              delay={300}
+            />
+          </div>
+          {scores.breakdown && (
+            <p className="text-center text-xs text-muted-foreground">
+              Pondération {scores.breakdown.weightSource === 'sector' ? 'spécifique au secteur' : 'standard'} :{' '}
+              {Object.values(scores.breakdown.dimensions)
+                .map((dimension) => `${dimension.label} ${dimension.globalWeight}%`)
+                .join(' · ')}
+            </p>
+          )}
+          {scores.breakdown?.benchmarkSegment && (
+            <p className="text-center text-xs text-muted-foreground">
+              Benchmarks v{scores.benchmarkVersion} ajustés au segment « {scores.breakdown.benchmarkSegment.label} »
+            </p>
+          )}
+          {scores.breakdown && scores.breakdown.missingDataPenalty > 0 && (
+            <p className="text-center text-xs text-muted-foreground">
+              Score global minoré de {scores.breakdown.missingDataPenalty} pt{scores.breakdown.missingDataPenalty > 1 ? 's' : ''} pour données optionnelles manquantes : {scores.breakdown.missingOptionalFields.join(', ')}
+            </p>
+          )}
+          
+          {/* Radar Chart + Sensitivity */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <RadarChartDisplay scores={scores} uncertainty={uncertainty} />
+            {auditData && (
+              <SensitivityTornadoChart auditData={auditData} scoringMode={scores.breakdown?.mode} />
+            )}
+          </div>
+
+          {/* Multi-year trends (only when prior fiscal years were entered) */}
+          {auditData && <YearOverYearChart auditData={auditData} />}
+
+          {/* Target score solver */}
+          {auditData && (
+            <div className="max-w-4xl mx-auto">
+              <TargetScoreSolver auditData={auditData} scores={scores} />
+            </div>
+          )}
+
+          {/* Model version comparison */}
+          {auditData && (
+            <div className="max-w-4xl mx-auto">
+              <ModelVersionComparison auditData={auditData} scores={scores} />
+            </div>
+          )}
+          
+          {/* Simulation Module */}
+          {auditData && (
+            <div className="max-w-5xl mx-auto pt-8 border-t border-border">
+              <SimulationModule auditData={auditData} scores={scores} />
+            </div>
+          )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Trash2, UserCog } from 'lucide-react';
+import { toast } from 'sonner';
+import { DecisionOverride, RiskSeverity } from '@/types/audit';
+import { useDecisionOverrides } from '@/hooks/useAudit';
+import {
+  OVERRIDE_ACTION_LABELS,
+  SEVERITY_LABELS,
+  SEVERITY_ORDER,
+  validateDecisionOverride,
+} from '@/lib/decisionOverrides';
+
+type OverrideAction = DecisionOverride['action'];
+
+const SEVERITIES: RiskSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+const ACTION_OPTIONS: Record<OverrideAction, string> = {
+  dismiss: 'Écarter un risque',
+  downgrade: 'Abaisser la sévérité',
+  edit_lever: 'Reformuler le levier',
+  add_risk: 'Ajouter un risque',
+};
+
+/**
+ * Consultant adjustments of the decision output, each with its justification
+ * Stored with the audit, the decision is recomputed on every change
+ */
+export function DecisionOverridesPanel() {
+  const { overrides, decision, setDecisionOverrides } = useDecisionOverrides();
+  const [action, setAction] = useState<OverrideAction>('dismiss');
+  const [ruleId, setRuleId] = useState('');
+  const [severity, setSeverity] = useState<RiskSeverity>('medium');
+  const [risk, setRisk] = useState('');
+  const [lever, setLever] = useState('');
+  const [justification, setJustification] = useState('');
+
+  if (!decision) return null;
+
+  // Computed risks that can be adjusted: fired rules of the pack
+  const firedRisks = (decision.trace ?? []).filter(entry =>
+    entry.kind === 'risk' && entry.fired && entry.adjustment?.action !== 'add_risk'
+  );
+  const selectedRisk = firedRisks.find(entry => entry.ruleId === ruleId);
+  const lowerSeverities = SEVERITIES.filter(s =>
+    !selectedRisk?.severity || SEVERITY_ORDER[s] > SEVERITY_ORDER[selectedRisk.severity]
+  );
+
+  const buildOverride = (): DecisionOverride => {
+    const base = { id: `${action}_${Date.now()}`, justification: justification.trim(), createdAt: new Date().toISOString() };
+    switch (action) {
+      case 'dismiss':
+        return { ...base, action, ruleId };
+      case 'downgrade':
+        return { ...base, action, ruleId, severity };
+      case 'edit_lever':
+        return { ...base, action, ruleId, lever: lever.trim() };
+      case 'add_risk':
+        return { ...base, action, risk: risk.trim(), lever: lever.trim(), severity };
+    }
+  };
+
+  const handleAdd = () => {
+    const override = buildOverride();
+    const error = validateDecisionOverride(override);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setDecisionOverrides([...overrides, override]);
+    setRisk('');
+    setLever('');
+    setJustification('');
+    toast.success('Ajustement enregistré, lecture décisionnelle recalculée');
+  };
+
+  const handleRemove = (overrideId: string) => {
+    setDecisionOverrides(overrides.filter(o => o.id !== overrideId));
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <UserCog className="w-5 h-5" />
+          Ajustements du consultant
+        </CardTitle>
+        <CardDescription>
+          Écarter, nuancer ou compléter les risques calculés quand le contexte l'explique (travaux, saisonnalité…).
+          Chaque ajustement est justifié, conservé avec l'audit et signalé dans le rapport.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(decision.adjustments ?? []).length > 0 && (
+          <ul className="space-y-2">
+            {decision.adjustments.map(adjustment => (
+              <li key={adjustment.overrideId} className="flex items-start justify-between gap-3 rounded-lg border p-3 text-sm">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline">{OVERRIDE_ACTION_LABELS[adjustment.action]}</Badge>
+                    {!adjustment.applied && (
+                      <Badge variant="outline" className="text-muted-foreground">Inactif sur cet audit</Badge>
+                    )}
+                    <span className="font-medium text-foreground">{adjustment.label}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{adjustment.detail}</p>
+                  <p className="text-xs italic text-muted-foreground">Justification : {adjustment.justification}</p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleRemove(adjustment.overrideId)} aria-label="Supprimer l'ajustement">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Ajustement</Label>
+            <Select value={action} onValueChange={(v) => setAction(v as OverrideAction)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACTION_OPTIONS) as OverrideAction[]).map(a => (
+                  <SelectItem key={a} value={a}>{ACTION_OPTIONS[a]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {action !== 'add_risk' ? (
+            <div className="space-y-2">
+              <Label>Risque concerné</Label>
+              <Select value={ruleId} onValueChange={setRuleId} disabled={firedRisks.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder={firedRisks.length === 0 ? 'Aucun risque déclenché' : 'Choisir un risque'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {firedRisks.map(entry => (
+                    <SelectItem key={entry.ruleId} value={entry.ruleId}>{entry.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="override-risk">Risque</Label>
+              <Input id="override-risk" value={risk} onChange={(e) => setRisk(e.target.value)} />
+            </div>
+          )}
+
+          {(action === 'downgrade' || action === 'add_risk') && (
+            <div className="space-y-2">
+              <Label>Sévérité</Label>
+              <Select value={severity} onValueChange={(v) => setSeverity(v as RiskSeverity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(action === 'downgrade' ? lowerSeverities : SEVERITIES).map(s => (
+                    <SelectItem key={s} value={s}>{SEVERITY_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {(action === 'edit_lever' || action === 'add_risk') && (
+            <div className="space-y-2">
+              <Label htmlFor="override-lever">{action === 'edit_lever' ? 'Nouveau libellé du levier' : 'Levier associé'}</Label>
+              <Input id="override-lever" value={lever} onChange={(e) => setLever(e.target.value)} />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="override-justification">Justification (obligatoire)</Label>
+          <Textarea
+            id="override-justification"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="Ex. : taux d'occupation volontairement réduit pendant les travaux de rénovation"
+          />
+        </div>
+
+        <Button onClick={handleAdd}>Enregistrer l'ajustement</Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,11 @@
-import { DecisionOutput, PriorityLevel } from '@/types/audit';
+import { DecisionOrigin, DecisionOutput, PriorityLevel } from '@/types/audit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { AlertTriangle, TrendingUp, Zap, Target, Info } from 'lucide-react';
+import { AlertTriangle, TrendingUp, Zap, Target, Info, Award } from 'lucide-react';
 import { DECISION_DISCLAIMER, getPriorityBadgeClass } from '@/lib/decisionEngine';
 import { QuantifiedRecommendationsTable } from './QuantifiedRecommendationsTable';
+import { DecisionTrace } from './DecisionTrace';
+import { ActionPlanTimeline } from './ActionPlanTimeline';
 
 interface DecisionPanelProps {
   decision: DecisionOutput;
@@ -22,8 +24,18 @@ function getPriorityIcon(level: PriorityLevel) {
   }
 }
 
+// Marks risks and levers the consultant adjusted or added
+function OriginBadge({ origin }: { origin?: DecisionOrigin }) {
+  if (!origin || origin === 'computed') return null;
+  return (
+    <Badge variant="outline" className="ml-2 text-xs border-warning/40 text-warning">
+      {origin === 'manual' ? 'Ajout manuel' : 'Ajusté'}
+    </Badge>
+  );
+}
+
 export function DecisionPanel({ decision }: DecisionPanelProps) {
-  const { priorityLevel, topRisks, topLevers, quickWins, structuralActions, decisionSummary, quantifiedRecommendations } = decision;
+  const { priorityLevel, topRisks, topLevers, riskOrigins, quickWins, structuralActions, decisionSummary, quantifiedRecommendations, strengths, trace, actionPlan } = decision;
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -57,7 +69,10 @@ export function DecisionPanel({ decision }: DecisionPanelProps) {
                 {topRisks.map((risk, index) => (
                   <li key={index} className="flex items-start gap-2 text-sm text-foreground">
                     <span className="text-destructive font-bold mt-0.5">{index + 1}.</span>
-                    {risk}
+                    <span>
+                      {risk}
+                      <OriginBadge origin={riskOrigins?.[index]} />
+                    </span>
                   </li>
                 ))}
               </ul>
@@ -79,7 +94,10 @@ export function DecisionPanel({ decision }: DecisionPanelProps) {
                 {topLevers.map((lever, index) => (
                   <li key={index} className="flex items-start gap-2 text-sm text-foreground">
                     <span className="text-primary font-bold mt-0.5">{index + 1}.</span>
-                    {lever}
+                    <span>
+                      {lever}
+                      <OriginBadge origin={riskOrigins?.[index]} />
+                    </span>
                   </li>
                 ))}
               </ul>
@@ -88,6 +106,31 @@ export function DecisionPanel({ decision }: DecisionPanelProps) {
         )}
       </div>
 
+      {/* Strengths & Opportunities */}
+      {strengths && strengths.length > 0 && (
+        <Card className="border-success/30 bg-success/5">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-success text-lg">
+              <Award className="w-5 h-5" />
+              Atouts & Opportunités
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {strengths.map((item) => (
+                <li key={item.ruleId} className="text-sm">
+                  <p className="flex items-start gap-2 font-medium text-foreground">
+                    <span className="text-success">✓</span>
+                    {item.strength}
+                  </p>
+                  <p className="pl-5 text-muted-foreground">→ {item.opportunity}</p>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Actions Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Quick Wins */}
@@ -142,6 +185,12 @@ export function DecisionPanel({ decision }: DecisionPanelProps) {
         <QuantifiedRecommendationsTable recommendations={quantifiedRecommendations} />
       )}
 
+      {/* 30/60/90-day plan */}
+      {actionPlan && actionPlan.length > 0 && <ActionPlanTimeline plan={actionPlan} />}
+
+      {/* Rule trace */}
+      {trace && trace.length > 0 && <DecisionTrace trace={trace} />}
+
       {/* Disclaimer */}
       <div className="flex items-start gap-2 p-4 bg-muted/50 rounded-lg border border-border">
         <Info className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
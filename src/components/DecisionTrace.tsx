@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { DecisionTraceEntry, RuleComparisonTrace } from '@/types/audit';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Check, ChevronDown, HelpCircle, X } from 'lucide-react';
+import { OVERRIDE_ACTION_LABELS } from '@/lib/decisionOverrides';
+
+interface DecisionTraceProps {
+  trace: DecisionTraceEntry[];
+}
+
+const KIND_LABELS: Record<DecisionTraceEntry['kind'], string> = {
+  risk: 'Risque',
+  quantification: 'Chiffrage',
+  strength: 'Atout',
+};
+
+const SEVERITY_LABELS: Record<NonNullable<DecisionTraceEntry['severity']>, string> = {
+  critical: 'Critique',
+  high: 'Élevée',
+  medium: 'Modérée',
+  low: 'Faible',
+};
+
+function formatTraceValue(value: number | undefined): string {
+  return value === undefined ? 'non renseigné' : value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+}
+
+function ComparisonLine({ comparison }: { comparison: RuleComparisonTrace }) {
+  const Icon = comparison.result ? Check : X;
+  return (
+    <li className="flex items-start gap-2 text-xs text-muted-foreground">
+      <Icon className={`w-3 h-3 mt-0.5 flex-shrink-0 ${comparison.result ? 'text-success' : 'text-muted-foreground/60'}`} />
+      <span>
+        {comparison.left} (<span className="font-medium text-foreground">{formatTraceValue(comparison.leftValue)}</span>)
+        {' '}{comparison.operator}{' '}
+        {comparison.right}
+        {/* Literal thresholds are their own value */}
+        {comparison.right !== String(comparison.rightValue) && (
+          <> (<span className="font-medium text-foreground">{formatTraceValue(comparison.rightValue)}</span>)</>
+        )}
+      </span>
+    </li>
+  );
+}
+
+function TraceEntry({ entry }: { entry: DecisionTraceEntry }) {
+  return (
+    <div className={`rounded-lg border p-3 space-y-2 ${entry.fired ? 'border-border bg-card' : 'border-border/50 bg-muted/20'}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{KIND_LABELS[entry.kind]}</Badge>
+        {entry.severity && <Badge variant="outline">Sévérité {SEVERITY_LABELS[entry.severity]}</Badge>}
+        {entry.fired
+          ? <Badge className="bg-primary/15 text-primary border-primary/30" variant="outline">Déclenchée</Badge>
+          : <Badge variant="outline" className="text-muted-foreground">Non déclenchée</Badge>}
+        {entry.retained && (
+          <Badge className="bg-success/15 text-success border-success/30" variant="outline">
+            {entry.kind === 'risk' ? 'Top 3' : 'Retenue'}
+          </Badge>
+        )}
+        {entry.adjustment && (
+          <Badge variant="outline" className="border-warning/40 text-warning">
+            {OVERRIDE_ACTION_LABELS[entry.adjustment.action]}
+          </Badge>
+        )}
+        <code className="text-xs text-muted-foreground ml-auto">{entry.ruleId}</code>
+      </div>
+      <p className="text-sm text-foreground">{entry.label}</p>
+      {entry.adjustment && (
+        <p className="text-xs italic text-muted-foreground">Ajustement du consultant : {entry.adjustment.justification}</p>
+      )}
+      {entry.comparisons.length > 0 && (
+        <ul className="space-y-1">
+          {entry.comparisons.map((comparison, index) => (
+            <ComparisonLine key={index} comparison={comparison} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * "Why" section of the decision panel: every rule of the pack with the values it compared
+ */
+export function DecisionTrace({ trace }: DecisionTraceProps) {
+  const [open, setOpen] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const fired = trace.filter(entry => entry.fired);
+  const notFired = trace.filter(entry => !entry.fired);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card className="border-border/50">
+        <CardHeader className="pb-3">
+          <CollapsibleTrigger asChild>
+            <button className="flex w-full items-center justify-between gap-2 text-left">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <HelpCircle className="w-5 h-5 text-muted-foreground" />
+                Pourquoi ces résultats ?
+                <span className="text-xs text-muted-foreground font-normal">
+                  ({fired.length} règle{fired.length > 1 ? 's' : ''} déclenchée{fired.length > 1 ? 's' : ''} sur {trace.length})
+                </span>
+              </CardTitle>
+              <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${open ? 'rotate-180' : ''}`} />
+            </button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            {fired.map(entry => <TraceEntry key={`${entry.kind}-${entry.ruleId}`} entry={entry} />)}
+            {fired.length === 0 && (
+              <p className="text-sm text-muted-foreground">Aucune règle déclenchée pour cet audit.</p>
+            )}
+            {notFired.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+                {showAll ? 'Masquer' : 'Afficher'} les {notFired.length} règles non déclenchées
+              </Button>
+            )}
+            {showAll && notFired.map(entry => <TraceEntry key={`${entry.kind}-${entry.ruleId}`} entry={entry} />)}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -1,13 +1,28 @@
 import { getScoreLevel } from '@/lib/scoring';
+import { CONFIDENCE_LEVEL_LABELS } from '@/lib/dataConfidence';
 import { cn } from '@/lib/utils';
+import { ConfidenceLevel, DataConfidence, ScorePercentiles } from '@/types/audit';
+import { ShieldCheck } from 'lucide-react';
 
 interface GlobalScoreDisplayProps {
   score: number;
   businessName: string;
+  confidence?: DataConfidence | null;
+  range?: ScorePercentiles;
+  ambiguous?: boolean;
 }
 
-export function GlobalScoreDisplay({ score, businessName }: GlobalScoreDisplayProps) {
+export function GlobalScoreDisplay({ score, businessName, confidence, range, ambiguous }: GlobalScoreDisplayProps) {
   const { level, label } = getScoreLevel(score);
+  // Less reliable data gets a visibly less assertive score
+  const uncertain = confidence?.level === 'FAIBLE';
+  const approximate = confidence && confidence.level !== 'BON';
+
+  const confidenceColors: Record<ConfidenceLevel, string> = {
+    BON: 'bg-success/15 text-success border-success/30',
+    MOYEN: 'bg-warning/15 text-warning border-warning/30',
+    FAIBLE: 'bg-destructive/10 text-destructive border-destructive/30',
+  };
   
   const levelGradients = {
     excellent: 'from-score-excellent to-emerald-400',
@@ -23,7 +38,7 @@ export function GlobalScoreDisplay({ score, businessName }: GlobalScoreDisplayPr
     <div className="animate-scale-in bg-gradient-card rounded-2xl p-8 shadow-lifted border border-border/50">
       <div className="flex flex-col lg:flex-row items-center gap-8">
         {/* Circular Score */}
-        <div className="relative w-48 h-48 flex-shrink-0">
+        <div className={cn("relative w-48 h-48 flex-shrink-0", uncertain && "opacity-60")}>
           <svg className="w-full h-full transform -rotate-90" viewBox="0 0 180 180">
             {/* Background circle */}
             <circle
@@ -48,6 +63,19 @@ export function GlobalScoreDisplay({ score, businessName }: GlobalScoreDisplayPr
               strokeDashoffset={strokeDashoffset}
               className="transition-all duration-1000 ease-out"
             />
+            {/* Dashed halo for low-confidence data */}
+            {uncertain && (
+              <circle
+                cx="90"
+                cy="90"
+                r="88"
+                fill="none"
+                stroke="currentColor"
+                className="text-muted-foreground"
+                strokeWidth="1.5"
+                strokeDasharray="4 6"
+              />
+            )}
             <defs>
               <linearGradient id="scoreGradient" x1="0%" y1="0%" x2="100%" y2="0%">
                 <stop offset="0%" className={cn(
@@ -64,6 +92,7 @@ export function GlobalScoreDisplay({ score, businessName }: GlobalScoreDisplayPr
           {/* Center content */}
           <div className="absolute inset-0 flex flex-col items-center justify-center">
             <span className="text-5xl font-display font-bold text-foreground animate-score-reveal">
+              {approximate && <span className="text-3xl align-top mr-1">≈</span>}
               {score.toFixed(1)}
             </span>
             <span className="text-sm text-muted-foreground mt-1">/100</span>
@@ -86,6 +115,28 @@ export function GlobalScoreDisplay({ score, businessName }: GlobalScoreDisplayPr
             <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
             {label}
           </div>
+          {confidence && (
+            <div
+              className={cn(
+                "ml-2 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border",
+                confidenceColors[confidence.level]
+              )}
+              title={`Origine ${confidence.originScore}/100 • Complétude ${confidence.providedOptionalFields}/${confidence.totalOptionalFields} champs optionnels • ${confidence.incoherenceCount} incohérence(s)`}
+            >
+              <ShieldCheck className="w-3.5 h-3.5" />
+              Confiance données : {confidence.score}/100 ({CONFIDENCE_LEVEL_LABELS[confidence.level]})
+            </div>
+          )}
+          {range && (
+            <p className="mt-3 text-sm text-muted-foreground">
+              Intervalle P10–P90 : {range.p10.toFixed(1)} – {range.p90.toFixed(1)}
+              {ambiguous && (
+                <span className="block text-xs text-warning">
+                  Niveau incertain : l'intervalle chevauche deux niveaux ({getScoreLevel(range.p10).label} / {getScoreLevel(range.p90).label})
+                </span>
+              )}
+            </p>
+          )}
           
           <p className="mt-4 text-muted-foreground max-w-md">
             {level === 'excellent' && "Performance exceptionnelle ! Votre entreprise atteint les standards les plus élevés du secteur."}
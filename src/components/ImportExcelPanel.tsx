@@ -14,6 +14,8 @@ import {
   ImportValidationResult,
   ExcelParseResult
 } from '@/lib/importHelpers';
+import { VariantSelect } from '@/components/VariantSelect';
+import { getSector } from '@/lib/sectorRegistry';
 import { AuditDataV2 } from '@/types/audit';
 import { CheckCircle2, XCircle, AlertTriangle, FileSpreadsheet, Loader2, Check, X } from 'lucide-react';
 
@@ -28,6 +30,7 @@ export function ImportExcelPanel({ onImport, disabled }: ImportExcelPanelProps)
   const [validationResult, setValidationResult] = useState<ImportValidationResult | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [selectedVariant, setSelectedVariant] = useState<string | undefined>(undefined);
   const [hash, setHash] = useState<string | null>(null);
 
   const handleValidate = async () => {
@@ -63,6 +66,7 @@ export function ImportExcelPanel({ onImport, disabled }: ImportExcelPanelProps)
       // Validate parsed data
       const result = validateExcelData(parsed);
       setValidationResult(result);
+      setSelectedVariant(result.parsedData?.variant);
     } catch (error) {
       setImportError('Erreur lors de la validation.');
       console.error('Validation error:', error);
@@ -71,13 +75,17 @@ export function ImportExcelPanel({ onImport, disabled }: ImportExcelPanelProps)
     }
   };
 
+  const importedVariants = validationResult?.parsedData?.sector
+    ? getSector(validationResult.parsedData.sector)?.variants ?? []
+    : [];
+
   const handleImport = () => {
     if (!validationResult?.isValid || !validationResult.parsedData || !hash) return;
 
     const timestamp = Date.now();
     recordImport(hash);
     
-    onImport(validationResult.parsedData, {
+    onImport({ ...validationResult.parsedData, variant: selectedVariant }, {
       hash,
       timestamp,
       origin: 'excel_champ_valeur',
@@ -86,6 +94,7 @@ export function ImportExcelPanel({ onImport, disabled }: ImportExcelPanelProps)
 
   const exampleExcel = `Nom entreprise	Clinique Vétérinaire Dupont
 Secteur	Veterinaire
+Variante	veto_standard
 Année	2024
 CA Annuel	850 000 €
 Résultat Net	68 000 €
@@ -240,6 +249,16 @@ Turnover (%)	15`;
               </Alert>
             )}
 
+            {/* Variant (suggested from the imported figures when not specified) */}
+            {validationResult.isValid && importedVariants.length > 1 && (
+              <VariantSelect
+                variants={importedVariants}
+                value={selectedVariant}
+                suggestion={validationResult.variantSuggestion ?? null}
+                onChange={setSelectedVariant}
+              />
+            )}
+
             {/* Success */}
             {validationResult.isValid && (
               <Alert className="border-green-500 bg-green-500/10">
@@ -11,6 +11,8 @@ import {
   getShortHash,
   ImportValidationResult 
 } from '@/lib/importHelpers';
+import { VariantSelect } from '@/components/VariantSelect';
+import { getSector } from '@/lib/sectorRegistry';
 import { AuditDataV2 } from '@/types/audit';
 import { CheckCircle2, XCircle, AlertTriangle, FileJson, Loader2 } from 'lucide-react';
 
@@ -24,6 +26,7 @@ export function ImportJsonPanel({ onImport, disabled }: ImportJsonPanelProps) {
   const [validationResult, setValidationResult] = useState<ImportValidationResult | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [selectedVariant, setSelectedVariant] = useState<string | undefined>(undefined);
   const [hash, setHash] = useState<string | null>(null);
 
   const handleValidate = async () => {
@@ -53,6 +56,7 @@ export function ImportJsonPanel({ onImport, disabled }: ImportJsonPanelProps) {
       // Validate JSON
       const result = validateJsonImport(jsonInput);
       setValidationResult(result);
+      setSelectedVariant(result.parsedData?.variant);
     } catch (error) {
       setImportError('Erreur lors de la validation.');
       console.error('Validation error:', error);
@@ -61,13 +65,17 @@ export function ImportJsonPanel({ onImport, disabled }: ImportJsonPanelProps) {
     }
   };
 
+  const importedVariants = validationResult?.parsedData?.sector
+    ? getSector(validationResult.parsedData.sector)?.variants ?? []
+    : [];
+
   const handleImport = () => {
     if (!validationResult?.isValid || !validationResult.parsedData || !hash) return;
 
     const timestamp = Date.now();
     recordImport(hash);
     
-    onImport(validationResult.parsedData, {
+    onImport({ ...validationResult.parsedData, variant: selectedVariant }, {
       hash,
       timestamp,
       origin: 'declaratif_client',
@@ -78,6 +86,7 @@ export function ImportJsonPanel({ onImport, disabled }: ImportJsonPanelProps) {
   "meta": {
     "companyName": "Clinique Vétérinaire Dupont",
     "sector": "Veterinaire",
+    "variant": "veto_standard",
     "year": 2024
   },
   "finance": {
@@ -195,6 +204,16 @@ export function ImportJsonPanel({ onImport, disabled }: ImportJsonPanelProps) {
               </Alert>
             )}
 
+            {/* Variant (suggested from the imported figures when not specified) */}
+            {validationResult.isValid && importedVariants.length > 1 && (
+              <VariantSelect
+                variants={importedVariants}
+                value={selectedVariant}
+                suggestion={validationResult.variantSuggestion ?? null}
+                onChange={setSelectedVariant}
+              />
+            )}
+
             {/* Success */}
             {validationResult.isValid && (
               <Alert className="border-green-500 bg-green-500/10">
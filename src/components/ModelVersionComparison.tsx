@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { GitCompare, Info } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AuditData, Scores, isAuditDataV2, MetricThresholds } from '@/types/audit';
+import { getBenchmarkVersions } from '@/lib/benchmarks';
+import { diffScores, getScoringModel, getScoringModels, rescoreAudit } from '@/lib/scoringModels';
+
+interface ModelVersionComparisonProps {
+  auditData: AuditData;
+  scores: Scores;
+}
+
+function formatDelta(delta: number): string {
+  if (delta === 0) return '=';
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+}
+
+function deltaClass(delta: number): string {
+  if (delta > 0) return 'text-score-excellent';
+  if (delta < 0) return 'text-score-danger';
+  return 'text-muted-foreground';
+}
+
+function formatThresholds(thresholds?: MetricThresholds): string {
+  if (!thresholds) return '—';
+  return `${thresholds.crit} / ${thresholds.bon} / ${thresholds.excellent}`;
+}
+
+export function ModelVersionComparison({ auditData, scores }: ModelVersionComparisonProps) {
+  const models = getScoringModels();
+  const storedReference = isAuditDataV2(auditData) ? auditData.scoringReference : undefined;
+
+  // Compare against the model the audit was stored with, or the oldest registered model
+  const initialModel = models.find(m => m.version === storedReference?.modelVersion) ?? models[0];
+  const [modelVersion, setModelVersion] = useState(initialModel.version);
+  const [benchmarkVersion, setBenchmarkVersion] = useState(
+    storedReference && storedReference.benchmarkVersion in getBenchmarkVersions()
+      ? storedReference.benchmarkVersion
+      : initialModel.defaultBenchmarkVersion
+  );
+
+  const diff = useMemo(() => {
+    // Same scoring mode as the current result, when the reference model supports it
+    const reference = rescoreAudit(auditData, { modelVersion, benchmarkVersion }, scores.breakdown?.mode);
+    return diffScores(reference, scores);
+  }, [auditData, scores, modelVersion, benchmarkVersion]);
+
+  const handleModelChange = (version: string) => {
+    setModelVersion(version);
+    setBenchmarkVersion(getScoringModel(version).defaultBenchmarkVersion);
+  };
+
+  const modelChanged = diff.before.modelVersion !== diff.after.modelVersion;
+  const benchmarksChanged = diff.before.benchmarkVersion !== diff.after.benchmarkVersion;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <GitCompare className="w-5 h-5" />
+          Comparaison des versions du modèle
+        </CardTitle>
+        <CardDescription>
+          Score actuel : modèle {diff.after.modelVersion} • benchmarks v{diff.after.benchmarkVersion}
+          {storedReference && ` • audit enregistré avec le modèle ${storedReference.modelVersion} / benchmarks v${storedReference.benchmarkVersion}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Modèle de référence</Label>
+            <Select value={modelVersion} onValueChange={handleModelChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {models.map((model) => (
+                  <SelectItem key={model.version} value={model.version}>
+                    {model.version} ({model.releaseDate}) — {model.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Benchmarks de référence</Label>
+            <Select value={benchmarkVersion} onValueChange={setBenchmarkVersion}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(getBenchmarkVersions()).map((table) => (
+                  <SelectItem key={table.version} value={table.version}>
+                    v{table.version} ({table.last_update})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {(modelChanged || benchmarksChanged) && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              À données identiques, l'écart provient uniquement
+              {modelChanged && ` du modèle de calcul (${diff.before.modelVersion} → ${diff.after.modelVersion})`}
+              {modelChanged && benchmarksChanged && ' et'}
+              {benchmarksChanged && ` des benchmarks sectoriels (v${diff.before.benchmarkVersion} → v${diff.after.benchmarkVersion})`}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Dimension</TableHead>
+              <TableHead className="text-right">Référence</TableHead>
+              <TableHead className="text-right">Actuel</TableHead>
+              <TableHead className="text-right">Écart</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow className="font-semibold">
+              <TableCell>Score global</TableCell>
+              <TableCell className="text-right">{diff.global.before.toFixed(1)}</TableCell>
+              <TableCell className="text-right">{diff.global.after.toFixed(1)}</TableCell>
+              <TableCell className={cn('text-right', deltaClass(diff.global.delta))}>{formatDelta(diff.global.delta)}</TableCell>
+            </TableRow>
+            {diff.dimensions.map((dimension) => (
+              <TableRow key={dimension.dimension}>
+                <TableCell>
+                  {dimension.label}
+                  {dimension.weightBefore !== undefined && dimension.weightAfter !== undefined && dimension.weightBefore !== dimension.weightAfter && (
+                    <span className="block text-xs text-muted-foreground">
+                      Poids {dimension.weightBefore}% → {dimension.weightAfter}%
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{dimension.before.toFixed(1)}</TableCell>
+                <TableCell className="text-right">{dimension.after.toFixed(1)}</TableCell>
+                <TableCell className={cn('text-right', deltaClass(dimension.delta))}>{formatDelta(dimension.delta)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {diff.metricDetailAvailable ? (
+          diff.metrics.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-foreground">Indicateurs dont la notation a changé</h4>
+              <ul className="space-y-1 text-xs text-muted-foreground">
+                {diff.metrics.map((metric) => (
+                  <li key={`${metric.dimension}-${metric.id}`}>
+                    <span className="font-medium text-foreground">{metric.label}</span>
+                    {' : note '}{metric.scoreBefore ?? '—'} → {metric.scoreAfter ?? '—'}
+                    {', poids '}{metric.weightBefore ?? '—'}% → {metric.weightAfter ?? '—'}%
+                    {metric.thresholdsChanged && `, seuils ${formatThresholds(metric.thresholdsBefore)} → ${formatThresholds(metric.thresholdsAfter)}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Le modèle {diff.before.modelVersion} ne fournit pas le détail par indicateur : seul l'écart par dimension est disponible.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,10 +2,12 @@ import { useState } from 'react';
 import { QuantifiedRecommendation, ConfidenceLevel, ImpactType } from '@/types/audit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Table, 
   TableBody, 
   TableCell, 
+  TableFooter,
   TableHead, 
   TableHeader, 
   TableRow 
@@ -15,6 +17,7 @@ import {
   CollapsibleContent, 
   CollapsibleTrigger 
 } from '@/components/ui/collapsible';
+import { combineRecommendations } from '@/lib/recommendationCombination';
 import { Calculator, Info, ChevronDown, TrendingUp, Wallet, PiggyBank, Receipt } from 'lucide-react';
 
 interface QuantifiedRecommendationsTableProps {
@@ -70,6 +73,8 @@ function formatCurrency(value: number): string {
 
 export function QuantifiedRecommendationsTable({ recommendations }: QuantifiedRecommendationsTableProps) {
   const [openItems, setOpenItems] = useState<Set<number>>(new Set());
+  // Levers included in the totals, all of them by default
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
 
   const toggleItem = (index: number) => {
     const newOpenItems = new Set(openItems);
@@ -81,10 +86,24 @@ export function QuantifiedRecommendationsTable({ recommendations }: QuantifiedRe
     setOpenItems(newOpenItems);
   };
 
+  const toggleSelected = (ruleId: string) => {
+    const newExcluded = new Set(excluded);
+    if (newExcluded.has(ruleId)) {
+      newExcluded.delete(ruleId);
+    } else {
+      newExcluded.add(ruleId);
+    }
+    setExcluded(newExcluded);
+  };
+
   if (recommendations.length === 0) {
     return null;
   }
 
+  const selected = recommendations.filter(rec => !excluded.has(rec.ruleId));
+  const combined = combineRecommendations(selected);
+  const leverOf = (ruleId: string) => recommendations.find(rec => rec.ruleId === ruleId)?.lever ?? ruleId;
+
   return (
     <Card className="border-primary/20 bg-gradient-to-br from-primary/5 to-transparent">
       <CardHeader className="pb-3">
@@ -99,6 +118,7 @@ export function QuantifiedRecommendationsTable({ recommendations }: QuantifiedRe
           <Table>
             <TableHeader>
               <TableRow className="bg-muted/50">
+                <TableHead className="w-10"></TableHead>
                 <TableHead className="font-semibold">Levier</TableHead>
                 <TableHead className="font-semibold">Type d'impact</TableHead>
                 <TableHead className="font-semibold text-right">Estimation</TableHead>
@@ -116,6 +136,13 @@ export function QuantifiedRecommendationsTable({ recommendations }: QuantifiedRe
                 >
                   <>
                     <TableRow className="hover:bg-muted/30 transition-colors">
+                      <TableCell>
+                        <Checkbox
+                          checked={!excluded.has(rec.ruleId)}
+                          onCheckedChange={() => toggleSelected(rec.ruleId)}
+                          aria-label={`Inclure « ${rec.lever} » dans le total`}
+                        />
+                      </TableCell>
                       <TableCell className="font-medium">{rec.lever}</TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
@@ -147,11 +174,13 @@ export function QuantifiedRecommendationsTable({ recommendations }: QuantifiedRe
                     </TableRow>
                     <CollapsibleContent asChild>
                       <TableRow className="bg-muted/20">
-                        <TableCell colSpan={5} className="py-3">
+                        <TableCell colSpan={6} className="py-3">
                           <div className="flex items-start gap-2 pl-4">
                             <Info className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
                             <div className="space-y-1">
-                              <p className="text-xs font-medium text-muted-foreground">Hypothèses de calcul :</p>
+                              <p className="text-xs font-medium text-muted-foreground">
+                                Hypothèses de calcul {rec.calibrated ? '(chiffres de l\'audit)' : '(génériques, données insuffisantes)'} :
+                              </p>
                               <ul className="text-xs text-muted-foreground space-y-0.5">
                                 {rec.assumptions.map((assumption, i) => (
                                   <li key={i} className="flex items-start gap-1">
@@ -169,9 +198,51 @@ export function QuantifiedRecommendationsTable({ recommendations }: QuantifiedRe
                 </Collapsible>
               ))}
             </TableBody>
+            <TableFooter>
+              {combined.totals.map(total => (
+                <TableRow key={total.impactType}>
+                  <TableCell></TableCell>
+                  <TableCell colSpan={2}>
+                    <div className="flex items-center gap-2 font-semibold">
+                      {getImpactTypeIcon(total.impactType)}
+                      {getImpactTypeLabel(total.impactType)}
+                      {total.impactType === 'TRÉSORERIE' && (
+                        <span className="text-xs text-muted-foreground font-normal">(gain ponctuel, non annuel)</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground font-normal">
+                      Somme des estimations : {formatCurrency(total.additiveMin)} - {formatCurrency(total.additiveMax)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <span className="font-bold text-primary">
+                      {formatCurrency(total.combinedMin)} - {formatCurrency(total.combinedMax)}
+                    </span>
+                    <div className="text-xs text-muted-foreground font-normal">chevauchements déduits</div>
+                  </TableCell>
+                  <TableCell colSpan={2}></TableCell>
+                </TableRow>
+              ))}
+            </TableFooter>
           </Table>
         </div>
 
+        {/* Overlaps between selected levers */}
+        {combined.overlaps.length > 0 && (
+          <ul className="mt-3 space-y-1 text-xs text-muted-foreground">
+            {combined.overlaps.map(overlap => (
+              <li key={`${overlap.first}-${overlap.second}`} className="flex items-start gap-1">
+                <span className="text-muted-foreground/60">•</span>
+                « {leverOf(overlap.second)} » recoupe « {leverOf(overlap.first)} »
+                {overlap.reason === 'driver'
+                  ? ` (moteur commun : ${overlap.drivers.join(', ')})`
+                  : ' (même ligne du compte de résultat)'}
+                {' '}: {Math.round(overlap.coefficient * 100)} % de son gain déjà compté
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Disclaimer */}
         <div className="flex items-start gap-2 mt-4 p-3 bg-muted/30 rounded-lg border border-border/50">
           <Info className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
@@ -1,17 +1,26 @@
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, Tooltip } from 'recharts';
-import { Scores } from '@/types/audit';
+import { DimensionKey, Scores, ScoreUncertainty } from '@/types/audit';
 
 interface RadarChartDisplayProps {
   scores: Scores;
+  uncertainty?: ScoreUncertainty | null;
 }
 
-export function RadarChartDisplay({ scores }: RadarChartDisplayProps) {
-  const data = [
-    { dimension: 'Financier', score: scores.financier, fullMark: 100 },
-    { dimension: 'Opérationnel', score: scores.operationnel, fullMark: 100 },
-    { dimension: 'Commercial', score: scores.commercial, fullMark: 100 },
-    { dimension: 'Stratégique', score: scores.strategique, fullMark: 100 },
-  ];
+const DIMENSIONS: { key: DimensionKey; label: string }[] = [
+  { key: 'financier', label: 'Financier' },
+  { key: 'operationnel', label: 'Opérationnel' },
+  { key: 'commercial', label: 'Commercial' },
+  { key: 'strategique', label: 'Stratégique' },
+];
+
+export function RadarChartDisplay({ scores, uncertainty }: RadarChartDisplayProps) {
+  const data = DIMENSIONS.map(({ key, label }) => ({
+    dimension: label,
+    score: scores[key],
+    p10: uncertainty?.percentiles[key].p10,
+    p90: uncertainty?.percentiles[key].p90,
+    fullMark: 100,
+  }));
 
   return (
     <div className="animate-fade-in bg-card rounded-xl p-6 shadow-soft border border-border/50" style={{ animationDelay: '200ms' }}>
@@ -46,9 +55,34 @@ export function RadarChartDisplay({ scores }: RadarChartDisplayProps) {
               fillOpacity={0.3}
               strokeWidth={2}
             />
+            {uncertainty && (
+              <Radar
+                name="P90"
+                dataKey="p90"
+                stroke="hsl(var(--muted-foreground))"
+                fill="none"
+                strokeDasharray="4 4"
+                strokeWidth={1}
+              />
+            )}
+            {uncertainty && (
+              <Radar
+                name="P10"
+                dataKey="p10"
+                stroke="hsl(var(--muted-foreground))"
+                fill="none"
+                strokeDasharray="4 4"
+                strokeWidth={1}
+              />
+            )}
           </RadarChart>
         </ResponsiveContainer>
       </div>
+      {uncertainty && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Pointillés : bande P10–P90 ({uncertainty.samples} tirages selon les tolérances de saisie)
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,82 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DEFAULT_RULE_PACK,
+  getActiveRulePack,
+  getRulePackOverride,
+  parseRulePackJson,
+  serializeRulePack,
+  setRulePackOverride,
+} from '@/lib/decisionRules';
+import { Download, ListChecks, RotateCcw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+/**
+ * Export / import of the decision engine rule pack (JSON), stored on this device
+ */
+export function RulePackPanel() {
+  const [pack, setPack] = useState(getActiveRulePack);
+  const [isOverride, setIsOverride] = useState(() => getRulePackOverride() !== null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([serializeRulePack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `regles-decision-v${pack.version}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRulePackJson(await file.text());
+      setRulePackOverride(imported);
+      setPack(imported);
+      setIsOverride(true);
+      toast.success(`Règles v${imported.version} actives pour les prochains audits`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import impossible');
+    }
+  };
+
+  const handleReset = () => {
+    setRulePackOverride(null);
+    setPack(DEFAULT_RULE_PACK);
+    setIsOverride(false);
+    toast.success(`Règles par défaut v${DEFAULT_RULE_PACK.version} rétablies`);
+  };
+
+  return (
+    <div className="bg-card rounded-2xl p-6 shadow-soft border border-border/50 space-y-4">
+      <h3 className="font-display font-semibold text-lg text-foreground flex items-center gap-2">
+        <ListChecks className="w-5 h-5 text-primary" />
+        Règles de décision
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        Jeu actif : <span className="font-semibold text-foreground">v{pack.version}</span>
+        {isOverride ? ' (importé)' : ' (par défaut)'} — {pack.riskRules.length} règles de risque,{' '}
+        {pack.quantificationRules.length} règles de chiffrage, {pack.strengthRules?.length ?? 0} règles d'atouts
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="w-4 h-4 mr-2" />
+          Exporter JSON
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Importer JSON
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        <Button variant="ghost" onClick={handleReset} disabled={!isOverride}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Rétablir les règles par défaut
+        </Button>
+      </div>
+    </div>
+  );
+}
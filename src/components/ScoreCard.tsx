@@ -1,14 +1,47 @@
+import { useState } from 'react';
 import { cn } from '@/lib/utils';
 import { getScoreLevel } from '@/lib/scoring';
+import { SCORE_BAND_LABELS } from '@/lib/scoringV2';
+import { DimensionBreakdown, MetricScoreDetail, ScoreBand, ScorePercentiles } from '@/types/audit';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown } from 'lucide-react';
 
 interface ScoreCardProps {
   title: string;
   score: number;
   icon: React.ReactNode;
   delay?: number;
+  breakdown?: DimensionBreakdown;
+  range?: ScorePercentiles;
+  ambiguous?: boolean;
 }
 
-export function ScoreCard({ title, score, icon, delay = 0 }: ScoreCardProps) {
+const bandColors: Record<ScoreBand, string> = {
+  excellent: 'text-score-excellent',
+  bon: 'text-score-bon',
+  crit: 'text-score-critique',
+  sous_crit: 'text-score-danger',
+};
+
+function formatMetricValue(value: number, unit: string): string {
+  if (unit === '€') {
+    return `${Math.round(value).toLocaleString('fr-FR')} €`;
+  }
+  if (unit === '%') {
+    return `${value}%`;
+  }
+  return `${value} ${unit}`;
+}
+
+function formatThresholds(metric: MetricScoreDetail): string {
+  if (!metric.thresholds) return '';
+  const sign = metric.direction === 'higher' ? '≥' : '≤';
+  const { crit, bon, excellent } = metric.thresholds;
+  return `${sign} ${formatMetricValue(excellent, metric.unit)} / ${formatMetricValue(bon, metric.unit)} / ${formatMetricValue(crit, metric.unit)}`;
+}
+
+export function ScoreCard({ title, score, icon, delay = 0, breakdown, range, ambiguous }: ScoreCardProps) {
+  const [showDetail, setShowDetail] = useState(false);
   const { level, label } = getScoreLevel(score);
   
   const levelColors = {
@@ -52,12 +85,68 @@ export function ScoreCard({ title, score, icon, delay = 0 }: ScoreCardProps) {
         <span className="text-muted-foreground text-sm mb-1">/100</span>
       </div>
       
-      <div className="mt-4 h-2 bg-secondary rounded-full overflow-hidden">
-        <div 
-          className={cn("h-full rounded-full transition-all duration-1000 ease-out", progressColors[level])}
-          style={{ width: `${score}%` }}
-        />
+      <div className="relative mt-4">
+        <div className="h-2 bg-secondary rounded-full overflow-hidden">
+          <div 
+            className={cn("h-full rounded-full transition-all duration-1000 ease-out", progressColors[level])}
+            style={{ width: `${score}%` }}
+          />
+        </div>
+        {/* P10-P90 error bar */}
+        {range && (
+          <div
+            className="absolute -top-1 h-4 border-x-2 border-foreground/60"
+            style={{ left: `${range.p10}%`, width: `${Math.max(range.p90 - range.p10, 0.5)}%` }}
+            title={`P10 ${range.p10.toFixed(1)} • P50 ${range.p50.toFixed(1)} • P90 ${range.p90.toFixed(1)}`}
+          >
+            <div className="absolute top-1/2 w-full border-t border-foreground/60" />
+          </div>
+        )}
       </div>
+      {range && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          P10–P90 : {range.p10.toFixed(1)} – {range.p90.toFixed(1)}
+          {ambiguous && (
+            <span className="block text-warning">
+              Niveau incertain ({getScoreLevel(range.p10).label} / {getScoreLevel(range.p90).label})
+            </span>
+          )}
+        </p>
+      )}
+
+      {/* Score explanation */}
+      {breakdown && breakdown.metrics.length > 0 && (
+        <Collapsible open={showDetail} onOpenChange={setShowDetail} className="mt-4">
+          <CollapsibleTrigger asChild>
+            <button className="w-full flex items-center justify-between text-xs text-muted-foreground hover:text-foreground transition-colors">
+              <span>Pourquoi ce score ? (poids global {breakdown.globalWeight}%)</span>
+              <ChevronDown className={cn("w-4 h-4 transition-transform", showDetail && "rotate-180")} />
+            </button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ul className="mt-3 space-y-3">
+              {breakdown.metrics.map((metric) => (
+                <li key={`${metric.id}-${metric.label}`} className="text-xs border-t border-border/50 pt-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">{metric.label}</span>
+                    <span className="font-semibold text-foreground">+{metric.contribution.toFixed(1)} pts</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-muted-foreground">
+                    <span>{metric.rawValue === undefined ? 'Non renseigné' : formatMetricValue(metric.rawValue, metric.unit)}</span>
+                    <span className={bandColors[metric.band]}>{SCORE_BAND_LABELS[metric.band]}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-muted-foreground">
+                    <span>Note {metric.score.toFixed(0)}/100 × {metric.effectiveWeight.toFixed(1)}%</span>
+                    {metric.thresholds && (
+                      <span title="Seuils excellent / bon / critique">{formatThresholds(metric)}</span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
     </div>
   );
 }
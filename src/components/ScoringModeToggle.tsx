@@ -0,0 +1,26 @@
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useScoringMode } from '@/hooks/useAudit';
+
+export function ScoringModeToggle() {
+  const { scoringMode, setScoringMode } = useScoringMode();
+  const isContinuous = scoringMode === 'continuous';
+
+  return (
+    <div className="flex items-center justify-center gap-3 text-sm">
+      <Switch
+        id="scoring-mode"
+        checked={isContinuous}
+        onCheckedChange={(checked) => setScoringMode(checked ? 'continuous' : 'step')}
+      />
+      <Label htmlFor="scoring-mode" className="cursor-pointer">
+        Notation continue
+      </Label>
+      <span className="text-xs text-muted-foreground">
+        {isContinuous
+          ? 'Notes interpolées entre les seuils'
+          : 'Notes par paliers (seuil critique / bon / excellent)'}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AuditData, ScoringMode } from '@/types/audit';
+import { computeSensitivity, SensitivityEntry } from '@/lib/sensitivityEngine';
+
+interface SensitivityTornadoChartProps {
+  auditData: AuditData;
+  scoringMode?: ScoringMode;
+  maxEntries?: number;
+}
+
+function formatImpact(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+function describeEntry(entry: SensitivityEntry): string {
+  // Favour the move that improves the score, the downside is shown when nothing improves it
+  const gain = entry.up.globalImpact >= entry.down.globalImpact ? entry.up : entry.down;
+  const best = gain.globalImpact > 0 ? gain : (gain === entry.up ? entry.down : entry.up);
+  return `${best.deltaLabel} ${entry.label.toLowerCase()} → ${formatImpact(best.globalImpact)} global`;
+}
+
+export function SensitivityTornadoChart({ auditData, scoringMode = 'step', maxEntries = 8 }: SensitivityTornadoChartProps) {
+  const entries = useMemo(
+    () => computeSensitivity(auditData, { mode: scoringMode }).slice(0, maxEntries),
+    [auditData, scoringMode, maxEntries]
+  );
+
+  // Bars are split by effect on the score, whichever way the input moves
+  const data = entries.map(entry => {
+    const [loss, gain] = entry.up.globalImpact >= entry.down.globalImpact
+      ? [entry.down, entry.up]
+      : [entry.up, entry.down];
+    return {
+      label: entry.label,
+      loss: Math.min(0, loss.globalImpact),
+      gain: Math.max(0, gain.globalImpact),
+      lossLabel: loss.deltaLabel,
+      gainLabel: gain.deltaLabel,
+    };
+  });
+
+  const movingEntries = entries.filter(entry => entry.maxImpact > 0);
+
+  return (
+    <div className="animate-fade-in bg-card rounded-xl p-6 shadow-soft border border-border/50" style={{ animationDelay: '300ms' }}>
+      <h3 className="font-display font-semibold text-lg text-foreground mb-1">Leviers de score</h3>
+      <p className="text-xs text-muted-foreground mb-4">
+        Variation du score global pour un pas réaliste sur chaque indicateur
+      </p>
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ left: 10, right: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" horizontal={false} />
+            <XAxis
+              type="number"
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+              tickFormatter={(value: number) => formatImpact(value)}
+            />
+            <YAxis
+              type="category"
+              dataKey="label"
+              width={120}
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+            />
+            <ReferenceLine x={0} stroke="hsl(var(--border))" />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                boxShadow: 'var(--shadow-md)'
+              }}
+              labelStyle={{ color: 'hsl(var(--foreground))' }}
+              formatter={(value: number, name: string, item: { payload?: { gainLabel: string; lossLabel: string } }) => [
+                `${formatImpact(value)} pts`,
+                name === 'gain' ? item.payload?.gainLabel : item.payload?.lossLabel,
+              ]}
+            />
+            <Bar dataKey="loss" stackId="impact" fill="hsl(var(--score-danger))" radius={[4, 0, 0, 4]} />
+            <Bar dataKey="gain" stackId="impact" fill="hsl(var(--score-excellent))" radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      {movingEntries.length > 0 ? (
+        <ol className="mt-4 space-y-1 text-xs text-muted-foreground list-decimal list-inside">
+          {movingEntries.slice(0, 3).map(entry => (
+            <li key={entry.fieldId}>{describeEntry(entry)}</li>
+          ))}
+        </ol>
+      ) : (
+        <p className="mt-4 text-xs text-muted-foreground">
+          Aucun indicateur ne change de palier avec un pas réaliste : essayez la notation continue.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Crosshair, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { AuditData, Scores } from '@/types/audit';
+import { DIMENSION_LABELS } from '@/lib/scoringV2';
+import { solveTargetScore, TargetScope, TargetSolution } from '@/lib/targetSolver';
+
+interface TargetScoreSolverProps {
+  auditData: AuditData;
+  scores: Scores;
+}
+
+const SCOPE_LABELS: Record<TargetScope, string> = {
+  global: 'Score global',
+  ...DIMENSION_LABELS,
+};
+
+function formatValue(value: number): string {
+  return (Math.round(value * 10) / 10).toLocaleString('fr-FR');
+}
+
+export function TargetScoreSolver({ auditData, scores }: TargetScoreSolverProps) {
+  const [scope, setScope] = useState<TargetScope>('global');
+  const [target, setTarget] = useState(80);
+  const [solution, setSolution] = useState<TargetSolution | null>(null);
+
+  // A plan computed on previous scores is no longer valid
+  useEffect(() => {
+    setSolution(null);
+  }, [auditData, scores]);
+
+  const handleSolve = () => {
+    setSolution(solveTargetScore(auditData, scope, target, { mode: scores.breakdown?.mode }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Crosshair className="w-5 h-5" />
+          Atteindre un score cible
+        </CardTitle>
+        <CardDescription>
+          Plus petit ensemble de changements réalistes (4 pas maximum par indicateur, 3 leviers maximum)
+          permettant d'atteindre l'objectif.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Score visé</Label>
+            <Select value={scope} onValueChange={(v) => { setScope(v as TargetScope); setSolution(null); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SCOPE_LABELS) as TargetScope[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {SCOPE_LABELS[key]} (actuel {scores[key].toFixed(1)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="target-score">Objectif</Label>
+            <Input
+              id="target-score"
+              type="number"
+              min={0}
+              max={100}
+              value={target}
+              onChange={(e) => { setTarget(Number(e.target.value)); setSolution(null); }}
+            />
+          </div>
+          <Button onClick={handleSolve} disabled={target <= 0 || target > 100}>
+            Calculer
+          </Button>
+        </div>
+
+        {solution && (
+          solution.changes.length === 0 && solution.reached ? (
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>
+                Objectif déjà atteint ({solution.baseScore.toFixed(1)} ≥ {solution.target}).
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-3">
+              {!solution.reached && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    Objectif hors de portée avec des changements réalistes. Meilleur plan trouvé :
+                    {' '}{solution.achievedScore.toFixed(1)} / {solution.target}.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <ul className="space-y-2">
+                {solution.changes.map((change) => (
+                  <li key={change.fieldId} className="flex items-center justify-between gap-4 text-sm border-b border-border/50 pb-2">
+                    <span>
+                      <span className="font-semibold text-foreground">{change.deltaLabel}</span>{' '}
+                      {change.label}
+                    </span>
+                    <span className="text-muted-foreground text-xs">
+                      {formatValue(change.from)} → {formatValue(change.to)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-sm text-muted-foreground">
+                {SCOPE_LABELS[solution.scope]} : {solution.baseScore.toFixed(1)} → <span className="font-semibold text-foreground">{solution.achievedScore.toFixed(1)}</span>
+                {solution.scope !== 'global' && ` (score global ${solution.scores.global.toFixed(1)})`}
+              </p>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { SectorVariant } from '@/lib/benchmarks';
+import type { VariantSuggestion } from '@/lib/variantClassifier';
+import { Sparkles } from 'lucide-react';
+
+interface VariantSelectProps {
+  variants: Pick<SectorVariant, 'id' | 'description'>[];
+  value?: string;
+  suggestion: VariantSuggestion | null;
+  onChange: (variantId: string) => void;
+}
+
+/**
+ * Variant selector with the classifier's suggestion: fit per variant and a
+ * one-click switch when the selected variant is not the closest one
+ */
+export function VariantSelect({ variants, value, suggestion, onChange }: VariantSelectProps) {
+  const fitOf = (variantId: string) => suggestion?.candidates.find(c => c.variantId === variantId)?.fit;
+  const isSuggested = suggestion !== null && suggestion.variantId === value;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="variant">Type d'établissement</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id="variant">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {variants.map((v) => {
+            const fit = fitOf(v.id);
+            return (
+              <SelectItem key={v.id} value={v.id}>
+                {v.description}
+                {fit !== undefined && <span className="text-muted-foreground"> — adéquation {fit.toFixed(0)} %</span>}
+              </SelectItem>
+            );
+          })}
+        </SelectContent>
+      </Select>
+      {suggestion && (
+        isSuggested ? (
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Sparkles className="w-3 h-3" />
+            Variante la plus proche du profil saisi ({suggestion.fit.toFixed(0)} % d'adéquation sur {suggestion.metricsUsed} indicateurs)
+          </p>
+        ) : (
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Sparkles className="w-3 h-3" />
+              Profil plus proche de « {suggestion.description} » ({suggestion.fit.toFixed(0)} %)
+            </span>
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange(suggestion.variantId)}>
+              Appliquer
+            </Button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,20 @@ import { AlertTriangle, AlertCircle } from 'lucide-react';
 
 interface WarningsDisplayProps {
   warnings: AuditWarning[];
+  onSelectField?: (field: string) => void; // Warnings with a field become links to it
 }
 
-export function WarningsDisplay({ warnings }: WarningsDisplayProps) {
+function WarningMessage({ warning, icon, onSelectField }: { warning: AuditWarning; icon: string; onSelectField?: (field: string) => void }) {
+  if (!warning.field || !onSelectField) return <>{icon} {warning.message}</>;
+  const field = warning.field;
+  return (
+    <button type="button" onClick={() => onSelectField(field)} className="text-left hover:underline" title="Corriger ce champ">
+      {icon} {warning.message}
+    </button>
+  );
+}
+
+export function WarningsDisplay({ warnings, onSelectField }: WarningsDisplayProps) {
   if (warnings.length === 0) return null;
 
   const criticalWarnings = warnings.filter(w => w.type === 'critical');
@@ -22,7 +33,7 @@ export function WarningsDisplay({ warnings }: WarningsDisplayProps) {
           <ul className="space-y-1">
             {criticalWarnings.map((warning, i) => (
               <li key={i} className="text-sm text-destructive/90">
-                🚨 {warning.message}
+                <WarningMessage warning={warning} icon="🚨" onSelectField={onSelectField} />
               </li>
             ))}
           </ul>
@@ -38,7 +49,7 @@ export function WarningsDisplay({ warnings }: WarningsDisplayProps) {
           <ul className="space-y-1">
             {regularWarnings.map((warning, i) => (
               <li key={i} className="text-sm text-warning/90">
-                ⚠️ {warning.message}
+                <WarningMessage warning={warning} icon="⚠️" onSelectField={onSelectField} />
               </li>
             ))}
           </ul>
@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AuditData } from '@/types/audit';
+import { computeTrendIndicators, getYearSeries } from '@/lib/trendAnalysis';
+
+interface YearOverYearChartProps {
+  auditData: AuditData;
+}
+
+function formatTrend(value: number, unit: string): string {
+  return `${value > 0 ? '+' : ''}${value.toLocaleString('fr-FR')} ${unit}`;
+}
+
+export function YearOverYearChart({ auditData }: YearOverYearChartProps) {
+  const series = useMemo(() => getYearSeries(auditData), [auditData]);
+  const trends = useMemo(() => computeTrendIndicators(auditData), [auditData]);
+
+  if (!trends) return null;
+
+  const data = series.map(year => ({
+    year: String(year.fiscalYear),
+    revenue: Math.round(year.annualRevenue / 1000),
+    grossMargin: year.grossMarginPercent,
+    netMargin: year.netMarginPercent,
+    hrCosts: year.hrCostsPercent,
+  }));
+
+  // HR costs improve when they go down
+  const indicators = [
+    trends.revenueGrowthPercent !== undefined && {
+      label: 'Croissance du CA',
+      value: formatTrend(trends.revenueGrowthPercent, '%/an'),
+      positive: trends.revenueGrowthPercent >= 0,
+    },
+    { label: 'Marge brute', value: formatTrend(trends.grossMarginDriftPts, 'pts/an'), positive: trends.grossMarginDriftPts >= 0 },
+    trends.netMarginDriftPts !== undefined && {
+      label: 'Marge nette',
+      value: formatTrend(trends.netMarginDriftPts, 'pts/an'),
+      positive: trends.netMarginDriftPts >= 0,
+    },
+    { label: 'Charges RH', value: formatTrend(trends.hrCostDriftPts, 'pts/an'), positive: trends.hrCostDriftPts <= 0 },
+  ].filter(Boolean) as { label: string; value: string; positive: boolean }[];
+
+  return (
+    <div className="animate-fade-in bg-card rounded-xl p-6 shadow-soft border border-border/50">
+      <h3 className="font-display font-semibold text-lg text-foreground mb-1">Évolution pluriannuelle</h3>
+      <p className="text-xs text-muted-foreground mb-4">
+        Exercices {trends.firstYear} à {trends.lastYear} ({trends.yearsCovered} ans)
+      </p>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {indicators.map(indicator => (
+          <span
+            key={indicator.label}
+            className={cn(
+              "inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium border",
+              indicator.positive
+                ? 'bg-success/15 text-success border-success/30'
+                : 'bg-destructive/10 text-destructive border-destructive/30'
+            )}
+          >
+            {indicator.positive ? <TrendingUp className="w-3.5 h-3.5" /> : <TrendingDown className="w-3.5 h-3.5" />}
+            {indicator.label} : {indicator.value}
+          </span>
+        ))}
+      </div>
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ left: 10, right: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="year" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
+            <YAxis
+              yAxisId="revenue"
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+              tickFormatter={(value: number) => `${value} k€`}
+            />
+            <YAxis
+              yAxisId="percent"
+              orientation="right"
+              domain={[0, 100]}
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+              tickFormatter={(value: number) => `${value}%`}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                boxShadow: 'var(--shadow-md)'
+              }}
+              labelStyle={{ color: 'hsl(var(--foreground))' }}
+              formatter={(value: number, name: string) => [name === 'CA' ? `${value.toLocaleString('fr-FR')} k€` : `${value}%`, name]}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Bar yAxisId="revenue" dataKey="revenue" name="CA" fill="hsl(var(--accent))" fillOpacity={0.4} radius={[4, 4, 0, 0]} />
+            <Line yAxisId="percent" dataKey="grossMargin" name="Marge brute" stroke="hsl(var(--score-excellent))" strokeWidth={2} />
+            <Line yAxisId="percent" dataKey="netMargin" name="Marge nette" stroke="hsl(var(--score-bon))" strokeWidth={2} connectNulls />
+            <Line yAxisId="percent" dataKey="hrCosts" name="Charges RH" stroke="hsl(var(--score-danger))" strokeWidth={2} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,14 @@
 import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { AuditContextType, AuditData, AuditState, initialAuditState, AuditWarning, isAuditDataV2, DecisionOutput, AuditDataV2, ImportMeta, ImportWarningEntry } from '@/types/audit';
+import { AuditContextType, AuditData, AuditState, initialAuditState, AuditWarning, isAuditDataV2, normalizeToV2, DecisionOutput, AuditDataV2, ImportMeta, ImportWarningEntry, ScoringMode, DecisionOverride } from '@/types/audit';
 import { computeScores4D } from '@/lib/scoring';
 import { getAuditWarnings } from '@/lib/warnings';
 import { computeDecisionOutput } from '@/lib/decisionEngine';
+import { sanitizeDecisionOverrides } from '@/lib/decisionOverrides';
+import { getActiveRulePack } from '@/lib/decisionRules';
+import { computeDataConfidence } from '@/lib/dataConfidence';
+import { computeScoreUncertainty } from '@/lib/uncertaintyEngine';
+import { describeSector } from '@/lib/sectorRegistry';
+import { getEnteredMetricValues } from '@/lib/metricRegistry';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import html2pdf from 'html2pdf.js';
@@ -11,22 +17,45 @@ const AuditContext = createContext<AuditContextType | undefined>(undefined);
 
 interface AuditProviderProps {
   children: ReactNode;
+  // Audit evaluated on mount, e.g. a site of a group audit
+  initialData?: AuditDataV2;
+  initialScoringMode?: ScoringMode;
 }
 
-export function AuditProvider({ children }: AuditProviderProps) {
-  const [state, setState] = useState<AuditState>(initialAuditState);
+/**
+ * Everything derived from the audit inputs for a given scoring mode
+ */
+function evaluateAudit(data: AuditData, scoringMode: ScoringMode) {
+  const scores = computeScores4D(data, { mode: scoringMode });
+  const warnings = getAuditWarnings(data);
+  const confidence = computeDataConfidence(data, warnings);
+  const uncertainty = computeScoreUncertainty(data, { mode: scoringMode });
+  const decision = computeDecisionOutput(data, scores, warnings);
+  return { scores, warnings, confidence, uncertainty, decision };
+}
+
+function createInitialState(initialData?: AuditDataV2, initialScoringMode?: ScoringMode): AuditState {
+  const scoringMode = initialScoringMode ?? initialAuditState.scoringMode;
+  if (!initialData) {
+    return { ...initialAuditState, scoringMode };
+  }
+  return {
+    ...initialAuditState,
+    ...evaluateAudit(initialData, scoringMode),
+    auditData: initialData,
+    businessName: initialData.businessName || 'Entreprise',
+    scoringMode,
+  };
+}
+
+export function AuditProvider({ children, initialData, initialScoringMode }: AuditProviderProps) {
+  const [state, setState] = useState<AuditState>(() => createInitialState(initialData, initialScoringMode));
 
   const submitAudit = useCallback((data: AuditData) => {
     setState(prev => ({ ...prev, isCalculating: true }));
     
-    // Compute scores
-    const computedScores = computeScores4D(data);
-    
-    // Compute warnings
-    const warnings = getAuditWarnings(data);
-
-    // Compute decision output
-    const decision = computeDecisionOutput(data, computedScores, warnings);
+    // Compute scores, warnings, data confidence, score bands and decision output
+    const { scores: computedScores, warnings, confidence, uncertainty, decision } = evaluateAudit(data, state.scoringMode);
 
     // Get business name (handle both V1 and V2)
     const businessName = isAuditDataV2(data) ? data.businessName : data.nom;
@@ -36,9 +65,12 @@ export function AuditProvider({ children }: AuditProviderProps) {
       scores: computedScores,
       warnings,
       decision,
+      confidence,
+      uncertainty,
       businessName: businessName || 'Entreprise',
       isCalculating: false,
       isPdfGenerating: false,
+      scoringMode: state.scoringMode,
       importMeta: null,
       importWarnings: [],
     });
@@ -54,10 +86,11 @@ export function AuditProvider({ children }: AuditProviderProps) {
     setTimeout(() => {
       document.getElementById('results')?.scrollIntoView({ behavior: 'smooth' });
     }, 100);
-  }, []);
+  }, [state.scoringMode]);
 
   const resetAudit = useCallback(() => {
-    setState(initialAuditState);
+    // The scoring mode is a user preference, it survives a reset
+    setState(prev => ({ ...initialAuditState, scoringMode: prev.scoringMode }));
   }, []);
 
   const setIsPdfGenerating = useCallback((value: boolean) => {
@@ -76,9 +109,13 @@ export function AuditProvider({ children }: AuditProviderProps) {
       const { data, error } = await supabase.functions.invoke('generate-pdf-report', {
         body: { 
           auditData: state.auditData, 
+          sectorInfo: describeSector(normalizeToV2(state.auditData)),
+          metricInputs: getEnteredMetricValues(normalizeToV2(state.auditData)),
           scores: state.scores,
           warnings: state.warnings,
-          decision: state.decision
+          decision: state.decision,
+          confidence: state.confidence,
+          uncertainty: state.uncertainty
         }
       });
 
@@ -120,7 +157,7 @@ export function AuditProvider({ children }: AuditProviderProps) {
     } finally {
       setState(prev => ({ ...prev, isPdfGenerating: false }));
     }
-  }, [state.auditData, state.scores, state.warnings, state.decision, state.businessName]);
+  }, [state.auditData, state.scores, state.warnings, state.decision, state.confidence, state.uncertainty, state.businessName]);
 
   const sendPdfEmail = useCallback(async (email: string) => {
     if (!state.auditData || !state.scores) {
@@ -134,6 +171,8 @@ export function AuditProvider({ children }: AuditProviderProps) {
       const { error } = await supabase.functions.invoke('send-pdf-email', {
         body: { 
           auditData: state.auditData, 
+          sectorInfo: describeSector(normalizeToV2(state.auditData)),
+          metricInputs: getEnteredMetricValues(normalizeToV2(state.auditData)),
           scores: state.scores,
           warnings: state.warnings,
           decision: state.decision,
@@ -156,18 +195,19 @@ export function AuditProvider({ children }: AuditProviderProps) {
   const importAuditFromData = useCallback((data: AuditDataV2, meta: ImportMeta) => {
     setState(prev => ({ ...prev, isCalculating: true }));
     
-    const computedScores = computeScores4D(data);
-    const warnings = getAuditWarnings(data);
-    const decision = computeDecisionOutput(data, computedScores, warnings);
+    const { scores: computedScores, warnings, confidence, uncertainty, decision } = evaluateAudit(data, state.scoringMode);
 
     setState({
       auditData: data,
       scores: computedScores,
       warnings,
       decision,
+      confidence,
+      uncertainty,
       businessName: data.businessName || 'Entreprise',
       isCalculating: false,
       isPdfGenerating: false,
+      scoringMode: state.scoringMode,
       importMeta: meta,
       importWarnings: [],
     });
@@ -177,6 +217,33 @@ export function AuditProvider({ children }: AuditProviderProps) {
     setTimeout(() => {
       document.getElementById('results')?.scrollIntoView({ behavior: 'smooth' });
     }, 100);
+  }, [state.scoringMode]);
+
+  const setScoringMode = useCallback((mode: ScoringMode) => {
+    setState(prev => {
+      if (!prev.auditData) {
+        return { ...prev, scoringMode: mode };
+      }
+      // Re-score the current audit with the new mode
+      const computedScores = computeScores4D(prev.auditData, { mode });
+      const uncertainty = computeScoreUncertainty(prev.auditData, { mode });
+      const decision = computeDecisionOutput(prev.auditData, computedScores, prev.warnings);
+      return { ...prev, scoringMode: mode, scores: computedScores, uncertainty, decision };
+    });
+  }, []);
+
+  const setDecisionOverrides = useCallback((overrides: DecisionOverride[]) => {
+    setState(prev => {
+      if (!prev.auditData || !prev.scores) {
+        return prev;
+      }
+      // Overrides are stored with the audit (converted to V2 to hold them), only the decision changes
+      // Malformed ones and those on a rule the active pack doesn't know are not kept
+      const ruleIds = getActiveRulePack().riskRules.map(rule => rule.id);
+      const auditData: AuditDataV2 = { ...normalizeToV2(prev.auditData), decisionOverrides: sanitizeDecisionOverrides(overrides, ruleIds) };
+      const decision = computeDecisionOutput(auditData, prev.scores, prev.warnings);
+      return { ...prev, auditData, decision };
+    });
   }, []);
 
   const contextValue: AuditContextType = {
@@ -187,6 +254,8 @@ export function AuditProvider({ children }: AuditProviderProps) {
     downloadPdf,
     sendPdfEmail,
     importAuditFromData,
+    setScoringMode,
+    setDecisionOverrides,
   };
 
   return (
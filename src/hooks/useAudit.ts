@@ -1,9 +1,10 @@
 import { useAuditContext } from '@/contexts/AuditContext';
+import { isAuditDataV2 } from '@/types/audit';
 
 // Main hook for common use cases
 export function useAudit() {
-  const { auditData, scores, warnings, decision, businessName, isCalculating, submitAudit, resetAudit } = useAuditContext();
-  return { auditData, scores, warnings, decision, businessName, isCalculating, submitAudit, resetAudit };
+  const { auditData, scores, warnings, decision, confidence, uncertainty, businessName, isCalculating, submitAudit, resetAudit } = useAuditContext();
+  return { auditData, scores, warnings, decision, confidence, uncertainty, businessName, isCalculating, submitAudit, resetAudit };
 }
 
 // Export individual selectors for more granular access
@@ -27,6 +28,16 @@ export function useDecision() {
   return decision;
 }
 
+export function useDataConfidence() {
+  const { confidence } = useAuditContext();
+  return confidence;
+}
+
+export function useScoreUncertainty() {
+  const { uncertainty } = useAuditContext();
+  return uncertainty;
+}
+
 export function useBusinessName() {
   const { businessName } = useAuditContext();
   return businessName;
@@ -51,3 +62,14 @@ export function useSendPdfEmail() {
   const { sendPdfEmail, isPdfGenerating } = useAuditContext();
   return { sendPdfEmail, isPdfGenerating };
 }
+
+export function useScoringMode() {
+  const { scoringMode, setScoringMode } = useAuditContext();
+  return { scoringMode, setScoringMode };
+}
+
+export function useDecisionOverrides() {
+  const { auditData, decision, setDecisionOverrides } = useAuditContext();
+  const overrides = auditData && isAuditDataV2(auditData) ? auditData.decisionOverrides ?? [] : [];
+  return { overrides, decision, setDecisionOverrides };
+}
@@ -0,0 +1,132 @@
+/**
+ * Action Plan
+ * 30/60/90-day plan built from the fired decision rules: quick wins and
+ * structural actions of the risk rules, then the quantified recommendations kept.
+ * Phase, owner, KPI effect and dependencies come from the rule pack, packs
+ * without planning fall back to defaults by category and severity.
+ */
+
+import type { ActionOwner, ActionPhase, ActionPlanItem } from '@/types/audit';
+import {
+  ACTION_PHASES,
+  QuantificationRuleSpec,
+  RiskRuleSpec,
+  RuleActionPlanSpec,
+  RuleCategory,
+} from './decisionRules';
+
+// ============= Labels =============
+
+export const ACTION_PHASE_LABELS: Record<ActionPhase, string> = {
+  '30j': '30 jours',
+  '60j': '60 jours',
+  '90j': '90 jours',
+  '6-12m': '6–12 mois',
+};
+
+export const ACTION_OWNER_LABELS: Record<ActionOwner, string> = {
+  direction: 'Dirigeant',
+  finance: 'Responsable financier',
+  rh: 'Responsable RH',
+  commercial: 'Responsable commercial',
+  operations: 'Responsable des opérations',
+};
+
+// ============= Defaults =============
+
+const CATEGORY_OWNERS: Record<RuleCategory, ActionOwner> = {
+  financial: 'finance',
+  operational: 'operations',
+  hr: 'rh',
+  commercial: 'commercial',
+  strategic: 'direction',
+};
+
+type RiskActionKind = 'quickWin' | 'structuralAction';
+
+// Quick wins start at once, structural actions sooner when the risk is critical
+function defaultRiskActionPlan(rule: Omit<RiskRuleSpec, 'when'>, kind: RiskActionKind): RuleActionPlanSpec {
+  let phase: ActionPhase = '90j';
+  if (kind === 'quickWin') phase = '30j';
+  else if (rule.category === 'strategic') phase = '6-12m';
+  else if (rule.severity === 'critical') phase = '60j';
+  return { phase, owner: CATEGORY_OWNERS[rule.category], kpiEffect: rule.lever };
+}
+
+function defaultQuantificationPlan(rule: QuantificationRuleSpec): RuleActionPlanSpec {
+  return { phase: '90j', owner: 'direction', kpiEffect: rule.lever };
+}
+
+// ============= Plan =============
+
+function phaseIndex(phase: ActionPhase): number {
+  return ACTION_PHASES.indexOf(phase);
+}
+
+/**
+ * Plan of the risks (fired rules after consultant overrides, severity order) and of the quantified recommendations kept
+ * Dependencies outside the plan are dropped, an action never starts before what it depends on
+ */
+export function buildActionPlan(
+  triggeredRules: Omit<RiskRuleSpec, 'when'>[],
+  quantified: { rule: QuantificationRuleSpec; impact: { min: number; max: number } }[]
+): ActionPlanItem[] {
+  const items: ActionPlanItem[] = [];
+
+  triggeredRules.forEach(rule => {
+    (['quickWin', 'structuralAction'] as const).forEach(kind => {
+      const title = rule[kind];
+      if (!title) return;
+      const plan = rule.plan?.[kind] ?? defaultRiskActionPlan(rule, kind);
+      items.push({
+        id: `${rule.id}.${kind}`,
+        title,
+        phase: plan.phase,
+        owner: plan.owner,
+        dependencies: plan.dependsOn ?? [],
+        kpiEffect: plan.kpiEffect,
+        sourceRuleId: rule.id,
+        sourceKind: 'risk',
+      });
+    });
+  });
+
+  quantified.forEach(({ rule, impact }) => {
+    const plan = rule.plan ?? defaultQuantificationPlan(rule);
+    items.push({
+      id: rule.id,
+      title: rule.lever,
+      phase: plan.phase,
+      owner: plan.owner,
+      dependencies: plan.dependsOn ?? [],
+      kpiEffect: plan.kpiEffect,
+      estimatedImpact: { min: impact.min, max: impact.max, impactType: rule.impactType },
+      sourceRuleId: rule.id,
+      sourceKind: 'quantification',
+    });
+  });
+
+  const byId = new Map(items.map(item => [item.id, item]));
+  items.forEach(item => {
+    item.dependencies = item.dependencies.filter(id => id !== item.id && byId.has(id));
+  });
+
+  // Push dependent actions to the phase of their latest dependency (bounded for cyclic packs)
+  for (let pass = 0; pass < items.length; pass++) {
+    let changed = false;
+    items.forEach(item => {
+      const latest = Math.max(phaseIndex(item.phase), ...item.dependencies.map(id => phaseIndex(byId.get(id)!.phase)));
+      if (latest > phaseIndex(item.phase)) {
+        item.phase = ACTION_PHASES[latest];
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  // Stable sort: rule order is kept within a phase
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => phaseIndex(a.item.phase) - phaseIndex(b.item.phase) || a.index - b.index)
+    .map(({ item }) => item);
+}
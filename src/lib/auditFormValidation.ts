@@ -0,0 +1,106 @@
+/**
+ * Audit Form Validation
+ * Schema of the manual entry (required fields and ranges) and the link between
+ * the coherence warnings and the form inputs. Inputs are identified by the last
+ * segment of their AuditDataV2 path, warnings carry the full path of their field.
+ */
+
+import { z } from 'zod';
+import type { AuditDataV2, AuditWarning } from '@/types/audit';
+
+// ============= Schema =============
+
+const number = (label: string) =>
+  z.number({ required_error: `${label} requis`, invalid_type_error: `${label} : valeur numérique attendue` });
+
+const percent = (label: string) =>
+  number(label).min(0, `${label} : 0 % minimum`).max(100, `${label} : 100 % maximum`);
+
+export const auditFormSchema = z.object({
+  businessName: z.string().trim().min(1, "Nom de l'entreprise requis"),
+  sector: z.string().min(1, 'Secteur requis'),
+  finance: z.object({
+    annualRevenue: number('CA annuel').positive('Le CA annuel doit être supérieur à 0'),
+    grossMarginPercent: percent('Marge brute'),
+    netMarginPercent: number('Marge nette').min(-50, 'Marge nette : -50 % minimum').max(100, 'Marge nette : 100 % maximum').optional(),
+    cashRunwayMonths: number('Trésorerie').min(0, 'La trésorerie ne peut pas être négative').optional(),
+  }),
+  costs: z.object({
+    hrCostsPercent: percent('Charges RH'),
+    cogsPercent: percent('COGS').optional(),
+    fixedCostsPercent: percent('Charges fixes').optional(),
+  }),
+  ops: z.object({
+    occupancyRatePercent: percent("Taux d'occupation"),
+    productivity: z.object({
+      fte: number('Effectif').min(0.1, "L'effectif doit être d'au moins 0,1 ETP"),
+    }),
+    quality: z.object({
+      returnRatePercent: percent('Taux de retours').optional(),
+      incidentsPerMonth: number('Incidents').min(0, "Le nombre d'incidents ne peut pas être négatif").optional(),
+    }).optional(),
+  }),
+  hr: z.object({
+    absenteeismRatePercent: percent('Absentéisme').optional(),
+    turnoverRatePercent: percent('Turnover').optional(),
+  }).optional(),
+  commercial: z.object({
+    digitalizationPercent: percent('Digitalisation'),
+    loyaltyPercent: percent('Fidélisation').optional(),
+    satisfaction: z.object({
+      csatPercent: percent('CSAT').optional(),
+      nps: number('NPS').min(-100, 'NPS : -100 minimum').max(100, 'NPS : 100 maximum').optional(),
+    }).optional(),
+  }),
+  nbServices: number('Nombre de services').int('Nombre de services entier attendu').min(1, 'Au moins 1 service').max(20, '20 services maximum').optional(),
+});
+
+// ============= Validation =============
+
+/**
+ * First schema error of each input, by input id
+ */
+export function validateAuditForm(data: AuditDataV2): Record<string, string> {
+  const result = auditFormSchema.safeParse(data);
+  if (result.success) return {};
+
+  const errors: Record<string, string> = {};
+  result.error.issues.forEach(issue => {
+    const inputId = String(issue.path[issue.path.length - 1] ?? '');
+    if (inputId && !errors[inputId]) errors[inputId] = issue.message;
+  });
+  return errors;
+}
+
+/**
+ * Input of an AuditDataV2 path (e.g. 'costs.cogsPercent' → 'cogsPercent')
+ */
+export function getInputId(path: string): string {
+  return path.split('.').pop() as string;
+}
+
+/**
+ * Warnings by the input they are shown next to
+ */
+export function groupWarningsByInput(warnings: AuditWarning[]): Record<string, AuditWarning[]> {
+  const grouped: Record<string, AuditWarning[]> = {};
+  warnings.forEach(warning => {
+    if (!warning.field) return;
+    const inputId = getInputId(warning.field);
+    (grouped[inputId] ??= []).push(warning);
+  });
+  return grouped;
+}
+
+// ============= Field Focus =============
+
+export const AUDIT_FIELD_FOCUS_EVENT = 'audit:focus-field';
+
+/**
+ * Asks the mounted audit form to reveal and focus the input of a field
+ * Returns false when no form handled the request (form not displayed)
+ */
+export function requestAuditFieldFocus(field: string): boolean {
+  const event = new CustomEvent<string>(AUDIT_FIELD_FOCUS_EVENT, { detail: getInputId(field), cancelable: true });
+  return !window.dispatchEvent(event);
+}
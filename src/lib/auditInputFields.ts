@@ -0,0 +1,77 @@
+/**
+ * Audit Input Fields
+ * Scored inputs of AuditDataV2 with a realistic perturbation step and bounds,
+ * shared by the sensitivity engine, the target-score solver and the uncertainty
+ * bands. They are the metrics of the registry declaring a `lever`.
+ */
+
+import type { AuditDataV2 } from '@/types/audit';
+import { getFieldValue, getLeverMetrics, setFieldValue } from './metricRegistry';
+
+// ============= Types =============
+
+export interface AuditInputField {
+  id: string;
+  label: string;
+  unit: string; // Unit of a change, e.g. 'pts', '€', 'mois'
+  step: number; // Realistic change for one "move" on this lever
+  min: number;
+  max?: number;
+  integer?: boolean;
+  higherIsBetter: boolean;
+  noTolerance?: boolean; // Counted or derived: left out of the uncertainty bands
+  get: (data: AuditDataV2) => number | undefined;
+  set: (data: AuditDataV2, value: number) => AuditDataV2;
+}
+
+// ============= Field Definitions =============
+
+/**
+ * Input fields of the registry metrics, in registry order
+ * Read on every call so that metrics registered later are moved too
+ */
+export function getAuditInputFields(): AuditInputField[] {
+  return getLeverMetrics().map(({ label, unit, path, curve, lever }) => ({
+    id: lever.input?.id ?? (path as string),
+    label,
+    unit: lever.unit ?? (unit === '%' ? 'pts' : unit),
+    step: lever.step,
+    min: lever.min,
+    max: lever.max,
+    integer: lever.integer,
+    higherIsBetter: curve.direction === 'higher',
+    noTolerance: lever.noTolerance,
+    get: lever.input?.get ?? ((d) => getFieldValue(d, path as string)),
+    set: lever.input?.set ?? ((d, v) => setFieldValue(d, path as string, v)),
+  }));
+}
+
+// ============= Helpers =============
+
+/**
+ * Fields that carry a value in this audit (missing optional data is never invented)
+ */
+export function getAvailableInputFields(data: AuditDataV2): AuditInputField[] {
+  return getAuditInputFields().filter(field => field.get(data) !== undefined);
+}
+
+export function clampFieldValue(field: AuditInputField, value: number): number {
+  let clamped = Math.max(field.min, value);
+  if (field.max !== undefined) clamped = Math.min(field.max, clamped);
+  return field.integer ? Math.round(clamped) : clamped;
+}
+
+/**
+ * Express a change in business terms, e.g. "+5 pts", "+22 k€", "-1 /mois"
+ */
+export function formatFieldChange(field: AuditInputField, delta: number): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '-' : '';
+  const abs = Math.abs(delta);
+  if (field.unit === '€') {
+    return abs >= 1000
+      ? `${sign}${Math.round(abs / 1000).toLocaleString('fr-FR')} k€`
+      : `${sign}${Math.round(abs)} €`;
+  }
+  const value = field.integer ? Math.round(abs).toString() : (Math.round(abs * 10) / 10).toLocaleString('fr-FR');
+  return `${sign}${value} ${field.unit}`;
+}
@@ -0,0 +1,849 @@
+/**
+ * Previous benchmark tables, kept verbatim so that past audits can be re-scored
+ * with the thresholds they were originally scored against. Do not modify.
+ */
+
+import type { ParamSecteur } from './benchmarks';
+
+// ============= v2.1 (2026-01-15) =============
+
+export const PARAM_SECTEUR_V2_1: ParamSecteur = {
+  version: "2.1",
+  last_update: "2026-01-15",
+  currency: "EUR",
+  score_scale: "0-100",
+  sectors: {
+    // ============= Santé Libérale =============
+    "Vétérinaire": {
+      default_variant: "veto_standard",
+      variants: {
+        veto_standard: {
+          id: "veto_standard",
+          description: "Clinique vétérinaire standard urbaine",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.70, excellent: 0.75 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 100000, excellent: 130000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.70, bon: 0.55, excellent: 0.50 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 30, bon: 80, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 92 } }
+          }
+        },
+        veto_rurale: {
+          id: "veto_rurale",
+          description: "Cabinet vétérinaire rural/mixte",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.50, bon: 0.65, excellent: 0.72 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.65, bon: 0.52, excellent: 0.45 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 20, bon: 60, excellent: 80 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 95 } }
+          }
+        }
+      }
+    },
+    "Clinique Vétérinaire": {
+      default_variant: "clinique_standard",
+      variants: {
+        clinique_standard: {
+          id: "clinique_standard",
+          description: "Clinique vétérinaire multi-praticiens",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.70, excellent: 0.78 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 110000, excellent: 140000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.65, bon: 0.52, excellent: 0.48 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 85, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 94 } }
+          }
+        }
+      }
+    },
+    "Ostéopathe": {
+      default_variant: "osteo_standard",
+      variants: {
+        osteo_standard: {
+          id: "osteo_standard",
+          description: "Cabinet d'ostéopathie",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.70, bon: 0.85, excellent: 0.90 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 50000, bon: 75000, excellent: 100000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.30, bon: 0.20, excellent: 0.15 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 55, bon: 75, excellent: 85 } }
+          }
+        }
+      }
+    },
+    "Kinésithérapeute": {
+      default_variant: "kine_standard",
+      variants: {
+        kine_standard: {
+          id: "kine_standard",
+          description: "Cabinet de kinésithérapie",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.65, bon: 0.80, excellent: 0.88 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.35, bon: 0.25, excellent: 0.18 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 35, bon: 70, excellent: 85 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          }
+        }
+      }
+    },
+    "Thérapeute / Bien-être": {
+      default_variant: "therapeute_standard",
+      variants: {
+        therapeute_standard: {
+          id: "therapeute_standard",
+          description: "Praticien bien-être / thérapeute",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.70, bon: 0.85, excellent: 0.92 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 40000, bon: 60000, excellent: 85000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.15, excellent: 0.10 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 50, bon: 80, excellent: 92 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 82 } }
+          }
+        }
+      }
+    },
+    "Santé Libérale (autre)": {
+      default_variant: "sante_standard",
+      variants: {
+        sante_standard: {
+          id: "sante_standard",
+          description: "Professionnel de santé libéral",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.60, bon: 0.75, excellent: 0.85 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 100000, excellent: 130000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.22 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          }
+        }
+      }
+    },
+    // ============= Autres secteurs =============
+    "Restauration": {
+      default_variant: "resto_traditionnel",
+      variants: {
+        resto_traditionnel: {
+          id: "resto_traditionnel",
+          description: "Restaurant traditionnel urbain",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.60, bon: 0.72, excellent: 0.78 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 45000, bon: 65000, excellent: 85000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.45, bon: 0.35, excellent: 0.30 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 75, excellent: 85 } }
+          }
+        },
+        resto_rapide: {
+          id: "resto_rapide",
+          description: "Restauration rapide / Fast-food",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.68, excellent: 0.75 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 55000, bon: 80000, excellent: 100000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.25 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 98 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 35, bon: 60, excellent: 75 } }
+          }
+        }
+      }
+    },
+    "Commerce": {
+      default_variant: "commerce_detail",
+      variants: {
+        commerce_detail: {
+          id: "commerce_detail",
+          description: "Commerce de détail standard",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.35, bon: 0.45, excellent: 0.55 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 120000, excellent: 160000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.18, excellent: 0.14 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 50, bon: 80, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 40, bon: 65, excellent: 80 } }
+          }
+        }
+      }
+    },
+    "Services": {
+      default_variant: "services_conseil",
+      variants: {
+        services_conseil: {
+          id: "services_conseil",
+          description: "Cabinet de conseil / Services B2B",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.65, bon: 0.80, excellent: 0.88 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 100000, bon: 150000, excellent: 200000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.60, bon: 0.50, excellent: 0.40 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 70, bon: 90, excellent: 98 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 70, bon: 88, excellent: 95 } }
+          }
+        }
+      }
+    },
+    "BTP / Construction": {
+      default_variant: "btp_standard",
+      variants: {
+        btp_standard: {
+          id: "btp_standard",
+          description: "Entreprise du bâtiment",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.20, bon: 0.30, excellent: 0.40 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 120000, excellent: 160000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.45, bon: 0.35, excellent: 0.28 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 20, bon: 50, excellent: 75 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 85 } }
+          }
+        }
+      }
+    },
+    "Industrie": {
+      default_variant: "industrie_standard",
+      variants: {
+        industrie_standard: {
+          id: "industrie_standard",
+          description: "Entreprise industrielle / Production",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.25, bon: 0.38, excellent: 0.48 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 90000, bon: 130000, excellent: 180000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.22 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 30, bon: 60, excellent: 80 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          }
+        }
+      }
+    },
+    "Autre secteur": {
+      default_variant: "autre_standard",
+      variants: {
+        autre_standard: {
+          id: "autre_standard",
+          description: "Secteur non standardisé — benchmarks génériques",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.35, bon: 0.50, excellent: 0.65 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 90000, excellent: 120000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.50, bon: 0.40, excellent: 0.30 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 70, excellent: 85 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 72, excellent: 85 } }
+          }
+        }
+      }
+    }
+  }
+};
+
+// ============= v2.2 (2026-10-19) =============
+
+export const PARAM_SECTEUR_V2_2: ParamSecteur = {
+  version: "2.2",
+  last_update: "2026-10-19",
+  currency: "EUR",
+  score_scale: "0-100",
+  sectors: {
+    // ============= Santé Libérale =============
+    "Vétérinaire": {
+      default_variant: "veto_standard",
+      variants: {
+        veto_standard: {
+          id: "veto_standard",
+          description: "Clinique vétérinaire standard urbaine",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.70, excellent: 0.75 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 100000, excellent: 130000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.70, bon: 0.55, excellent: 0.50 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 30, bon: 80, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 92 } }
+          }
+        },
+        veto_rurale: {
+          id: "veto_rurale",
+          description: "Cabinet vétérinaire rural/mixte",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.50, bon: 0.65, excellent: 0.72 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.65, bon: 0.52, excellent: 0.45 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 20, bon: 60, excellent: 80 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 95 } }
+          }
+        }
+      }
+    },
+    "Clinique Vétérinaire": {
+      default_variant: "clinique_standard",
+      variants: {
+        clinique_standard: {
+          id: "clinique_standard",
+          description: "Clinique vétérinaire multi-praticiens",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.70, excellent: 0.78 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 110000, excellent: 140000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.65, bon: 0.52, excellent: 0.48 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 85, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 94 } }
+          }
+        }
+      }
+    },
+    "Ostéopathe": {
+      default_variant: "osteo_standard",
+      variants: {
+        osteo_standard: {
+          id: "osteo_standard",
+          description: "Cabinet d'ostéopathie",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.70, bon: 0.85, excellent: 0.90 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 50000, bon: 75000, excellent: 100000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.30, bon: 0.20, excellent: 0.15 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 55, bon: 75, excellent: 85 } }
+          },
+          weights: {
+            // Solo practice: payroll is marginal, chair occupancy drives revenue
+            metrics: {
+              financier: { charges_rh: 5, marge_brute: 45 },
+              operationnel: { occupation: 70 }
+            }
+          }
+        }
+      }
+    },
+    "Kinésithérapeute": {
+      default_variant: "kine_standard",
+      variants: {
+        kine_standard: {
+          id: "kine_standard",
+          description: "Cabinet de kinésithérapie",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.65, bon: 0.80, excellent: 0.88 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.35, bon: 0.25, excellent: 0.18 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 35, bon: 70, excellent: 85 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          }
+        }
+      }
+    },
+    "Thérapeute / Bien-être": {
+      default_variant: "therapeute_standard",
+      variants: {
+        therapeute_standard: {
+          id: "therapeute_standard",
+          description: "Praticien bien-être / thérapeute",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.70, bon: 0.85, excellent: 0.92 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 40000, bon: 60000, excellent: 85000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.15, excellent: 0.10 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 50, bon: 80, excellent: 92 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 82 } }
+          },
+          weights: {
+            metrics: {
+              financier: { charges_rh: 5, marge_brute: 45 },
+              operationnel: { occupation: 70 }
+            }
+          }
+        }
+      }
+    },
+    "Santé Libérale (autre)": {
+      default_variant: "sante_standard",
+      variants: {
+        sante_standard: {
+          id: "sante_standard",
+          description: "Professionnel de santé libéral",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.60, bon: 0.75, excellent: 0.85 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 100000, excellent: 130000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.22 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          }
+        }
+      }
+    },
+    // ============= Autres secteurs =============
+    "Restauration": {
+      default_variant: "resto_traditionnel",
+      variants: {
+        resto_traditionnel: {
+          id: "resto_traditionnel",
+          description: "Restaurant traditionnel urbain",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.60, bon: 0.72, excellent: 0.78 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 45000, bon: 65000, excellent: 85000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.45, bon: 0.35, excellent: 0.30 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 75, excellent: 85 } }
+          }
+        },
+        resto_rapide: {
+          id: "resto_rapide",
+          description: "Restauration rapide / Fast-food",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.68, excellent: 0.75 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 55000, bon: 80000, excellent: 100000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.25 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 98 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 35, bon: 60, excellent: 75 } }
+          }
+        }
+      }
+    },
+    "Commerce": {
+      default_variant: "commerce_detail",
+      variants: {
+        commerce_detail: {
+          id: "commerce_detail",
+          description: "Commerce de détail standard",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.35, bon: 0.45, excellent: 0.55 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 120000, excellent: 160000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.18, excellent: 0.14 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 50, bon: 80, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 40, bon: 65, excellent: 80 } }
+          }
+        }
+      }
+    },
+    "Services": {
+      default_variant: "services_conseil",
+      variants: {
+        services_conseil: {
+          id: "services_conseil",
+          description: "Cabinet de conseil / Services B2B",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.65, bon: 0.80, excellent: 0.88 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 100000, bon: 150000, excellent: 200000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.60, bon: 0.50, excellent: 0.40 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 70, bon: 90, excellent: 98 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 70, bon: 88, excellent: 95 } }
+          }
+        }
+      }
+    },
+    "BTP / Construction": {
+      default_variant: "btp_standard",
+      variants: {
+        btp_standard: {
+          id: "btp_standard",
+          description: "Entreprise du bâtiment",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.20, bon: 0.30, excellent: 0.40 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 120000, excellent: 160000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.45, bon: 0.35, excellent: 0.28 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 20, bon: 50, excellent: 75 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 85 } }
+          },
+          weights: {
+            // Long payment terms and deposits: cash is the first failure cause, digital weighs little
+            dimensions: { financier: 40, operationnel: 25, commercial: 15, strategique: 20 },
+            metrics: {
+              financier: { runway: 20, marge_nette: 10 },
+              commercial: { digital_pct: 25, fidelisation: 55 },
+              strategique: { runway_risk: 35 }
+            }
+          }
+        }
+      }
+    },
+    "Industrie": {
+      default_variant: "industrie_standard",
+      variants: {
+        industrie_standard: {
+          id: "industrie_standard",
+          description: "Entreprise industrielle / Production",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.25, bon: 0.38, excellent: 0.48 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 90000, bon: 130000, excellent: 180000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.22 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 30, bon: 60, excellent: 80 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          }
+        }
+      }
+    },
+    "Autre secteur": {
+      default_variant: "autre_standard",
+      variants: {
+        autre_standard: {
+          id: "autre_standard",
+          description: "Secteur non standardisé — benchmarks génériques",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.35, bon: 0.50, excellent: 0.65 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 90000, excellent: 120000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.50, bon: 0.40, excellent: 0.30 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 70, excellent: 85 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 72, excellent: 85 } }
+          }
+        }
+      }
+    }
+  }
+};
+
+// ============= v2.3 (2026-10-19) =============
+
+export const PARAM_SECTEUR_V2_3: ParamSecteur = {
+  version: "2.3",
+  last_update: "2026-10-19",
+  currency: "EUR",
+  score_scale: "0-100",
+  sectors: {
+    // ============= Santé Libérale =============
+    "Vétérinaire": {
+      default_variant: "veto_standard",
+      variants: {
+        veto_standard: {
+          id: "veto_standard",
+          description: "Clinique vétérinaire standard urbaine",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.70, excellent: 0.75 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 100000, excellent: 130000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.70, bon: 0.55, excellent: 0.50 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 30, bon: 80, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 92 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france_petite",
+              label: "Île-de-France, moins de 3 ETP",
+              maxFte: 3,
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 75000, bon: 100000, excellent: 130000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.62, bon: 0.50, excellent: 0.44 } }
+              }
+            },
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 85000, bon: 115000, excellent: 150000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.72, bon: 0.58, excellent: 0.52 } }
+              }
+            },
+            {
+              id: "petite_structure",
+              label: "Moins de 3 ETP",
+              maxFte: 3,
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.60, bon: 0.48, excellent: 0.42 } }
+              }
+            },
+            {
+              id: "grande_structure",
+              label: "10 ETP et plus",
+              minFte: 10,
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 110000, excellent: 140000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.68, bon: 0.56, excellent: 0.50 } }
+              }
+            }
+          ]
+        },
+        veto_rurale: {
+          id: "veto_rurale",
+          description: "Cabinet vétérinaire rural/mixte",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.50, bon: 0.65, excellent: 0.72 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.65, bon: 0.52, excellent: 0.45 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 20, bon: 60, excellent: 80 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 95 } }
+          },
+          segments: [
+            {
+              id: "petite_structure",
+              label: "Moins de 3 ETP",
+              maxFte: 3,
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 50000, bon: 72000, excellent: 95000 } }
+              }
+            }
+          ]
+        }
+      }
+    },
+    "Clinique Vétérinaire": {
+      default_variant: "clinique_standard",
+      variants: {
+        clinique_standard: {
+          id: "clinique_standard",
+          description: "Clinique vétérinaire multi-praticiens",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.70, excellent: 0.78 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 110000, excellent: 140000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.65, bon: 0.52, excellent: 0.48 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 85, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 94 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 95000, bon: 125000, excellent: 160000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.68, bon: 0.55, excellent: 0.50 } }
+              }
+            }
+          ]
+        }
+      }
+    },
+    "Ostéopathe": {
+      default_variant: "osteo_standard",
+      variants: {
+        osteo_standard: {
+          id: "osteo_standard",
+          description: "Cabinet d'ostéopathie",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.70, bon: 0.85, excellent: 0.90 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 50000, bon: 75000, excellent: 100000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.30, bon: 0.20, excellent: 0.15 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 55, bon: 75, excellent: 85 } }
+          },
+          weights: {
+            // Solo practice: payroll is marginal, chair occupancy drives revenue
+            metrics: {
+              financier: { charges_rh: 5, marge_brute: 45 },
+              operationnel: { occupation: 70 }
+            }
+          }
+        }
+      }
+    },
+    "Kinésithérapeute": {
+      default_variant: "kine_standard",
+      variants: {
+        kine_standard: {
+          id: "kine_standard",
+          description: "Cabinet de kinésithérapie",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.65, bon: 0.80, excellent: 0.88 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.35, bon: 0.25, excellent: 0.18 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 35, bon: 70, excellent: 85 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 95000, excellent: 125000 } }
+              }
+            },
+            {
+              id: "praticien_seul",
+              label: "Praticien seul (moins de 2 ETP)",
+              maxFte: 2,
+              metrics: {
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.15, excellent: 0.10 } }
+              }
+            }
+          ]
+        }
+      }
+    },
+    "Thérapeute / Bien-être": {
+      default_variant: "therapeute_standard",
+      variants: {
+        therapeute_standard: {
+          id: "therapeute_standard",
+          description: "Praticien bien-être / thérapeute",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.70, bon: 0.85, excellent: 0.92 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 40000, bon: 60000, excellent: 85000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.15, excellent: 0.10 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 50, bon: 80, excellent: 92 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 82 } }
+          },
+          weights: {
+            metrics: {
+              financier: { charges_rh: 5, marge_brute: 45 },
+              operationnel: { occupation: 70 }
+            }
+          }
+        }
+      }
+    },
+    "Santé Libérale (autre)": {
+      default_variant: "sante_standard",
+      variants: {
+        sante_standard: {
+          id: "sante_standard",
+          description: "Professionnel de santé libéral",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.60, bon: 0.75, excellent: 0.85 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 100000, excellent: 130000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.22 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          }
+        }
+      }
+    },
+    // ============= Autres secteurs =============
+    "Restauration": {
+      default_variant: "resto_traditionnel",
+      variants: {
+        resto_traditionnel: {
+          id: "resto_traditionnel",
+          description: "Restaurant traditionnel urbain",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.60, bon: 0.72, excellent: 0.78 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 45000, bon: 65000, excellent: 85000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.45, bon: 0.35, excellent: 0.30 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 75, excellent: 85 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 55000, bon: 75000, excellent: 95000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.48, bon: 0.38, excellent: 0.32 } }
+              }
+            },
+            {
+              id: "grande_structure",
+              label: "15 ETP et plus",
+              minFte: 15,
+              metrics: {
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.42, bon: 0.33, excellent: 0.28 } }
+              }
+            }
+          ]
+        },
+        resto_rapide: {
+          id: "resto_rapide",
+          description: "Restauration rapide / Fast-food",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.55, bon: 0.68, excellent: 0.75 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 55000, bon: 80000, excellent: 100000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.25 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 98 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 35, bon: 60, excellent: 75 } }
+          }
+        }
+      }
+    },
+    "Commerce": {
+      default_variant: "commerce_detail",
+      variants: {
+        commerce_detail: {
+          id: "commerce_detail",
+          description: "Commerce de détail standard",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.35, bon: 0.45, excellent: 0.55 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 120000, excellent: 160000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.18, excellent: 0.14 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 50, bon: 80, excellent: 95 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 40, bon: 65, excellent: 80 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 95000, bon: 140000, excellent: 185000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.27, bon: 0.20, excellent: 0.16 } }
+              }
+            }
+          ]
+        }
+      }
+    },
+    "Services": {
+      default_variant: "services_conseil",
+      variants: {
+        services_conseil: {
+          id: "services_conseil",
+          description: "Cabinet de conseil / Services B2B",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.65, bon: 0.80, excellent: 0.88 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 100000, bon: 150000, excellent: 200000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.60, bon: 0.50, excellent: 0.40 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 70, bon: 90, excellent: 98 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 70, bon: 88, excellent: 95 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 120000, bon: 175000, excellent: 230000 } }
+              }
+            }
+          ]
+        }
+      }
+    },
+    "BTP / Construction": {
+      default_variant: "btp_standard",
+      variants: {
+        btp_standard: {
+          id: "btp_standard",
+          description: "Entreprise du bâtiment",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.20, bon: 0.30, excellent: 0.40 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 120000, excellent: 160000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.45, bon: 0.35, excellent: 0.28 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 20, bon: 50, excellent: 75 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 85 } }
+          },
+          weights: {
+            // Long payment terms and deposits: cash is the first failure cause, digital weighs little
+            dimensions: { financier: 40, operationnel: 25, commercial: 15, strategique: 20 },
+            metrics: {
+              financier: { runway: 20, marge_nette: 10 },
+              commercial: { digital_pct: 25, fidelisation: 55 },
+              strategique: { runway_risk: 35 }
+            }
+          }
+        }
+      }
+    },
+    "Industrie": {
+      default_variant: "industrie_standard",
+      variants: {
+        industrie_standard: {
+          id: "industrie_standard",
+          description: "Entreprise industrielle / Production",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.25, bon: 0.38, excellent: 0.48 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 90000, bon: 130000, excellent: 180000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.22 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 30, bon: 60, excellent: 80 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+          }
+        }
+      }
+    },
+    "Autre secteur": {
+      default_variant: "autre_standard",
+      variants: {
+        autre_standard: {
+          id: "autre_standard",
+          description: "Secteur non standardisé — benchmarks génériques",
+          metrics: {
+            marge_brute: { unit: "ratio", thresholds: { crit: 0.35, bon: 0.50, excellent: 0.65 } },
+            ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 90000, excellent: 120000 } },
+            charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.50, bon: 0.40, excellent: 0.30 } },
+            digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 70, excellent: 85 } },
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 72, excellent: 85 } }
+          }
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,227 @@
+/**
+ * Benchmark Overrides
+ * Validation, JSON export / import and local persistence of an edited
+ * PARAM_SECTEUR table. The active table is resolved in benchmarks.ts.
+ */
+
+import type { Region } from '@/types/audit';
+import type { MetricDefinition, ParamSecteur } from './benchmarks';
+import { getRegisteredMetrics } from './metricRegistry';
+
+// ============= Types =============
+
+export interface BenchmarkValidationIssue {
+  path: string; // e.g. "Vétérinaire / veto_standard / marge_brute"
+  message: string;
+}
+
+// ============= Constants =============
+
+const OVERRIDE_STORAGE_KEY = 'benchmark_override';
+
+const METRIC_UNITS: MetricDefinition['unit'][] = [
+  'ratio', 'ratio_inverse', 'amount', 'percentage', 'percentage_inverse', 'months', 'score', 'count_inverse',
+];
+
+const REGIONS: Region[] = ['ile_de_france', 'province'];
+
+export const METRIC_UNIT_LABELS: Record<MetricDefinition['unit'], string> = {
+  ratio: 'Ratio (0-1, plus haut = mieux)',
+  ratio_inverse: 'Ratio inversé (0-1, plus bas = mieux)',
+  amount: 'Montant (€)',
+  percentage: 'Pourcentage (0-100)',
+  percentage_inverse: 'Pourcentage inversé (0-100, plus bas = mieux)',
+  months: 'Durée (mois)',
+  score: 'Indice (-100 à 100, ex. NPS)',
+  count_inverse: 'Nombre (plus bas = mieux)',
+};
+
+/**
+ * Benchmark keys read by the scorer without fallback thresholds, every variant must define them
+ */
+export function getRequiredBenchmarkMetrics(): string[] {
+  return [...new Set(
+    getRegisteredMetrics()
+      .filter(metric => !metric.curve.thresholds)
+      .map(metric => metric.curve.benchmark)
+      .filter((key): key is string => key !== undefined)
+  )];
+}
+
+// ============= Validation =============
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateMetric(path: string, metric: unknown, issues: BenchmarkValidationIssue[]): void {
+  if (!isRecord(metric) || !isRecord(metric.thresholds)) {
+    issues.push({ path, message: 'Définition de l\'indicateur invalide' });
+    return;
+  }
+
+  const unit = metric.unit as MetricDefinition['unit'];
+  if (!METRIC_UNITS.includes(unit)) {
+    issues.push({ path, message: `Unité '${String(metric.unit)}' inconnue` });
+    return;
+  }
+
+  const { crit, bon, excellent } = metric.thresholds;
+  if (![crit, bon, excellent].every(value => typeof value === 'number' && Number.isFinite(value))) {
+    issues.push({ path, message: 'Les seuils crit / bon / excellent doivent être des nombres' });
+    return;
+  }
+  const values = [crit, bon, excellent] as number[];
+
+  // Inverse units: lower is better, the thresholds decrease from crit to excellent
+  if (unit.endsWith('_inverse')) {
+    if (!(values[0] > values[1] && values[1] > values[2])) {
+      issues.push({ path, message: 'Unité inversée : les seuils doivent décroître (crit > bon > excellent)' });
+    }
+  } else if (!(values[0] < values[1] && values[1] < values[2])) {
+    issues.push({ path, message: 'Les seuils doivent croître (crit < bon < excellent)' });
+  }
+
+  if ((unit === 'ratio' || unit === 'ratio_inverse') && values.some(value => value < 0 || value > 1)) {
+    issues.push({ path, message: 'Un ratio s\'exprime entre 0 et 1' });
+  }
+  if ((unit === 'percentage' || unit === 'percentage_inverse') && values.some(value => value < 0 || value > 100)) {
+    issues.push({ path, message: 'Un pourcentage s\'exprime entre 0 et 100' });
+  }
+  if (unit === 'score' && values.some(value => value < -100 || value > 100)) {
+    issues.push({ path, message: 'Un indice s\'exprime entre -100 et 100' });
+  }
+  if ((unit === 'amount' || unit === 'months' || unit === 'count_inverse') && values.some(value => value < 0)) {
+    issues.push({ path, message: 'Un montant, une durée ou un nombre ne peut pas être négatif' });
+  }
+}
+
+function validateSegments(variantPath: string, segments: unknown, issues: BenchmarkValidationIssue[]): void {
+  if (!Array.isArray(segments)) {
+    issues.push({ path: variantPath, message: 'Les segments doivent être une liste' });
+    return;
+  }
+
+  segments.forEach((segment: unknown, index) => {
+    if (!isRecord(segment) || typeof segment.id !== 'string' || !isRecord(segment.metrics)) {
+      issues.push({ path: `${variantPath} / segment ${index + 1}`, message: 'Segment invalide' });
+      return;
+    }
+    const segmentPath = `${variantPath} / ${segment.id}`;
+    if (segment.region !== undefined && !(REGIONS as unknown[]).includes(segment.region)) {
+      issues.push({ path: segmentPath, message: `Région '${String(segment.region)}' inconnue` });
+    }
+    const { minFte, maxFte } = segment;
+    if ([minFte, maxFte].some(value => value !== undefined && (typeof value !== 'number' || value < 0))) {
+      issues.push({ path: segmentPath, message: 'Les bornes ETP doivent être des nombres positifs' });
+    } else if (typeof minFte === 'number' && typeof maxFte === 'number' && minFte >= maxFte) {
+      issues.push({ path: segmentPath, message: 'La borne ETP minimale doit être inférieure à la borne maximale' });
+    }
+    Object.entries(segment.metrics).forEach(([metricKey, metric]) => {
+      validateMetric(`${segmentPath} / ${metricKey}`, metric, issues);
+    });
+  });
+}
+
+/**
+ * Check the structure of a benchmark table and the ordering of every threshold set
+ * Returns an empty list when the table can be used by the scorer
+ */
+export function validateParamSecteur(table: unknown): BenchmarkValidationIssue[] {
+  const issues: BenchmarkValidationIssue[] = [];
+  if (!isRecord(table)) {
+    return [{ path: '', message: 'Le fichier ne contient pas de table de benchmarks' }];
+  }
+
+  if (typeof table.version !== 'string' || table.version.trim() === '') {
+    issues.push({ path: 'version', message: 'Numéro de version manquant' });
+  }
+  if (typeof table.last_update !== 'string') {
+    issues.push({ path: 'last_update', message: 'Date de mise à jour manquante' });
+  }
+  if (!isRecord(table.sectors) || Object.keys(table.sectors).length === 0) {
+    issues.push({ path: 'sectors', message: 'Aucun secteur défini' });
+    return issues;
+  }
+
+  const requiredMetrics = getRequiredBenchmarkMetrics();
+  Object.entries(table.sectors).forEach(([sectorName, sector]) => {
+    if (!isRecord(sector) || !isRecord(sector.variants) || Object.keys(sector.variants).length === 0) {
+      issues.push({ path: sectorName, message: 'Aucune variante définie' });
+      return;
+    }
+    if (typeof sector.default_variant !== 'string' || !(sector.default_variant in sector.variants)) {
+      issues.push({ path: sectorName, message: `Variante par défaut '${String(sector.default_variant)}' introuvable` });
+    }
+
+    Object.entries(sector.variants).forEach(([variantId, variant]) => {
+      const variantPath = `${sectorName} / ${variantId}`;
+      if (!isRecord(variant) || !isRecord(variant.metrics)) {
+        issues.push({ path: variantPath, message: 'Variante invalide' });
+        return;
+      }
+      if (variant.id !== variantId) {
+        issues.push({ path: variantPath, message: `Identifiant '${String(variant.id)}' différent de la clé de la variante` });
+      }
+      requiredMetrics
+        .filter(key => !(key in (variant.metrics as Record<string, unknown>)))
+        .forEach(key => issues.push({ path: `${variantPath} / ${key}`, message: 'Indicateur manquant' }));
+      Object.entries(variant.metrics).forEach(([metricKey, metric]) => {
+        validateMetric(`${variantPath} / ${metricKey}`, metric, issues);
+      });
+      if (variant.segments !== undefined) {
+        validateSegments(variantPath, variant.segments, issues);
+      }
+    });
+  });
+
+  return issues;
+}
+
+// ============= JSON import / export =============
+
+export function serializeParamSecteur(table: ParamSecteur): string {
+  return JSON.stringify(table, null, 2);
+}
+
+/**
+ * Parse an exported benchmark table, throws with the first validation issues
+ */
+export function parseParamSecteurJson(text: string): ParamSecteur {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Fichier JSON invalide');
+  }
+
+  const issues = validateParamSecteur(parsed);
+  if (issues.length > 0) {
+    const details = issues.slice(0, 3).map(issue => issue.path ? `${issue.path} : ${issue.message}` : issue.message);
+    const more = issues.length > 3 ? ` (+${issues.length - 3} autres)` : '';
+    throw new Error(`Table de benchmarks invalide — ${details.join(' ; ')}${more}`);
+  }
+  return parsed as ParamSecteur;
+}
+
+// ============= Persistence =============
+
+export function loadBenchmarkOverride(): ParamSecteur | null {
+  try {
+    const stored = localStorage.getItem(OVERRIDE_STORAGE_KEY);
+    if (!stored) return null;
+    const table = JSON.parse(stored) as ParamSecteur;
+    // A stored table that no longer validates (e.g. new required metric) is ignored
+    return validateParamSecteur(table).length === 0 ? table : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveBenchmarkOverride(table: ParamSecteur | null): void {
+  if (table) {
+    localStorage.setItem(OVERRIDE_STORAGE_KEY, JSON.stringify(table));
+  } else {
+    localStorage.removeItem(OVERRIDE_STORAGE_KEY);
+  }
+}
@@ -1,3 +1,9 @@
+import type { DimensionKey, Region } from '@/types/audit';
+import { PARAM_SECTEUR_V2_1, PARAM_SECTEUR_V2_2, PARAM_SECTEUR_V2_3 } from './benchmarkHistory';
+import { getDefaultMetricWeights } from './metricRegistry';
+import { loadBenchmarkOverride, saveBenchmarkOverride, validateParamSecteur } from './benchmarkOverrides';
+import { resolveSectorKey } from './sectorRegistry';
+
 export interface ThresholdSet {
   crit: number;
   bon: number;
@@ -5,14 +11,55 @@ export interface ThresholdSet {
 }
 
 export interface MetricDefinition {
-  unit: 'ratio' | 'ratio_inverse' | 'amount' | 'percentage';
+  // '_inverse' units are lower-is-better (thresholds decrease from crit to excellent)
+  unit:
+    | 'ratio'
+    | 'ratio_inverse'
+    | 'amount'
+    | 'percentage'
+    | 'percentage_inverse'
+    | 'months'
+    | 'score'
+    | 'count_inverse';
   thresholds: ThresholdSet;
 }
 
+/**
+ * Sector-specific weights, merged over the default profile (getDefaultWeightProfile).
+ * Metric weights are keyed by dimension then metric id; composite groups use
+ * 'qualite' (retours + incidents), 'stabilite_rh' (turnover + absentéisme)
+ * and 'tendance' (marge brute, marge nette and charges RH drifts).
+ */
+export interface WeightProfile {
+  dimensions?: Partial<Record<DimensionKey, number>>;
+  metrics?: Partial<Record<DimensionKey, Record<string, number>>>;
+}
+
+export interface ResolvedWeightProfile {
+  source: 'default' | 'sector';
+  dimensions: Record<DimensionKey, number>; // % of the global score, sums to 100
+  metrics: Record<DimensionKey, Record<string, number>>;
+}
+
+/**
+ * Thresholds for part of a variant's companies: an FTE band [minFte, maxFte[ and/or a region.
+ * Its metrics override the variant metrics of the same key.
+ */
+export interface BenchmarkSegment {
+  id: string;
+  label: string;
+  minFte?: number;
+  maxFte?: number;
+  region?: Region;
+  metrics: Record<string, MetricDefinition>;
+}
+
 export interface SectorVariant {
   id: string;
   description: string;
   metrics: Record<string, MetricDefinition>;
+  weights?: WeightProfile;
+  segments?: BenchmarkSegment[];
 }
 
 export interface Sector {
@@ -28,9 +75,10 @@ export interface ParamSecteur {
   sectors: Record<string, Sector>;
 }
 
+// v2.4: same thresholds as v2.3, adds sector thresholds for the metrics previously scored on universal constants
 export const PARAM_SECTEUR: ParamSecteur = {
-  version: "2.1",
-  last_update: "2026-01-15",
+  version: "2.4",
+  last_update: "2026-10-19",
   currency: "EUR",
   score_scale: "0-100",
   sectors: {
@@ -46,8 +94,56 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 100000, excellent: 130000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.70, bon: 0.55, excellent: 0.50 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 30, bon: 80, excellent: 95 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 92 } }
-          }
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 92 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 5, bon: 10, excellent: 15 } },
+            runway: { unit: "months", thresholds: { crit: 3, bon: 6, excellent: 12 } },
+            occupation: { unit: "percentage", thresholds: { crit: 70, bon: 82, excellent: 92 } },
+            csat: { unit: "percentage", thresholds: { crit: 75, bon: 85, excellent: 92 } },
+            nps: { unit: "score", thresholds: { crit: 10, bon: 40, excellent: 60 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 8, bon: 4, excellent: 2 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 4, bon: 2, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 35, bon: 20, excellent: 12 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 6, excellent: 3 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france_petite",
+              label: "Île-de-France, moins de 3 ETP",
+              maxFte: 3,
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 75000, bon: 100000, excellent: 130000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.62, bon: 0.50, excellent: 0.44 } }
+              }
+            },
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 85000, bon: 115000, excellent: 150000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.72, bon: 0.58, excellent: 0.52 } }
+              }
+            },
+            {
+              id: "petite_structure",
+              label: "Moins de 3 ETP",
+              maxFte: 3,
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.60, bon: 0.48, excellent: 0.42 } }
+              }
+            },
+            {
+              id: "grande_structure",
+              label: "10 ETP et plus",
+              minFte: 10,
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 110000, excellent: 140000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.68, bon: 0.56, excellent: 0.50 } }
+              }
+            }
+          ]
         },
         veto_rurale: {
           id: "veto_rurale",
@@ -57,8 +153,27 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.65, bon: 0.52, excellent: 0.45 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 20, bon: 60, excellent: 80 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 95 } }
-          }
+            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 95 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 4, bon: 8, excellent: 12 } },
+            runway: { unit: "months", thresholds: { crit: 3, bon: 6, excellent: 10 } },
+            occupation: { unit: "percentage", thresholds: { crit: 65, bon: 78, excellent: 90 } },
+            csat: { unit: "percentage", thresholds: { crit: 75, bon: 85, excellent: 92 } },
+            nps: { unit: "score", thresholds: { crit: 10, bon: 40, excellent: 60 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 8, bon: 4, excellent: 2 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 30, bon: 18, excellent: 10 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 6, excellent: 3 } }
+          },
+          segments: [
+            {
+              id: "petite_structure",
+              label: "Moins de 3 ETP",
+              maxFte: 3,
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 50000, bon: 72000, excellent: 95000 } }
+              }
+            }
+          ]
         }
       }
     },
@@ -73,8 +188,28 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 110000, excellent: 140000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.65, bon: 0.52, excellent: 0.48 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 85, excellent: 95 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 94 } }
-          }
+            fidelisation: { unit: "percentage", thresholds: { crit: 65, bon: 88, excellent: 94 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 5, bon: 10, excellent: 15 } },
+            runway: { unit: "months", thresholds: { crit: 3, bon: 6, excellent: 12 } },
+            occupation: { unit: "percentage", thresholds: { crit: 72, bon: 85, excellent: 93 } },
+            csat: { unit: "percentage", thresholds: { crit: 75, bon: 85, excellent: 92 } },
+            nps: { unit: "score", thresholds: { crit: 10, bon: 40, excellent: 60 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 8, bon: 4, excellent: 2 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 6, bon: 3, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 35, bon: 22, excellent: 12 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 12, bon: 7, excellent: 4 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 95000, bon: 125000, excellent: 160000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.68, bon: 0.55, excellent: 0.50 } }
+              }
+            }
+          ]
         }
       }
     },
@@ -89,7 +224,23 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 50000, bon: 75000, excellent: 100000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.30, bon: 0.20, excellent: 0.15 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 55, bon: 75, excellent: 85 } }
+            fidelisation: { unit: "percentage", thresholds: { crit: 55, bon: 75, excellent: 85 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 15, bon: 25, excellent: 35 } },
+            runway: { unit: "months", thresholds: { crit: 2, bon: 4, excellent: 8 } },
+            occupation: { unit: "percentage", thresholds: { crit: 65, bon: 80, excellent: 90 } },
+            csat: { unit: "percentage", thresholds: { crit: 80, bon: 88, excellent: 95 } },
+            nps: { unit: "score", thresholds: { crit: 30, bon: 50, excellent: 70 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 3, bon: 2, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 40, bon: 25, excellent: 15 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 5, excellent: 2 } }
+          },
+          weights: {
+            // Solo practice: payroll is marginal, chair occupancy drives revenue
+            metrics: {
+              financier: { charges_rh: 5, marge_brute: 45 },
+              operationnel: { occupation: 70 }
+            }
           }
         }
       }
@@ -105,8 +256,35 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 85000, excellent: 110000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.35, bon: 0.25, excellent: 0.18 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 35, bon: 70, excellent: 85 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
-          }
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 12, bon: 20, excellent: 30 } },
+            runway: { unit: "months", thresholds: { crit: 2, bon: 4, excellent: 8 } },
+            occupation: { unit: "percentage", thresholds: { crit: 75, bon: 88, excellent: 95 } },
+            csat: { unit: "percentage", thresholds: { crit: 80, bon: 88, excellent: 95 } },
+            nps: { unit: "score", thresholds: { crit: 30, bon: 50, excellent: 70 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 3, bon: 2, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 35, bon: 20, excellent: 10 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 6, excellent: 3 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 95000, excellent: 125000 } }
+              }
+            },
+            {
+              id: "praticien_seul",
+              label: "Praticien seul (moins de 2 ETP)",
+              maxFte: 2,
+              metrics: {
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.15, excellent: 0.10 } }
+              }
+            }
+          ]
         }
       }
     },
@@ -121,7 +299,22 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 40000, bon: 60000, excellent: 85000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.15, excellent: 0.10 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 50, bon: 80, excellent: 92 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 82 } }
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 82 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 12, bon: 22, excellent: 32 } },
+            runway: { unit: "months", thresholds: { crit: 2, bon: 4, excellent: 8 } },
+            occupation: { unit: "percentage", thresholds: { crit: 55, bon: 70, excellent: 85 } },
+            csat: { unit: "percentage", thresholds: { crit: 80, bon: 90, excellent: 95 } },
+            nps: { unit: "score", thresholds: { crit: 30, bon: 50, excellent: 70 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 3, bon: 2, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 40, bon: 25, excellent: 15 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 5, excellent: 2 } }
+          },
+          weights: {
+            metrics: {
+              financier: { charges_rh: 5, marge_brute: 45 },
+              operationnel: { occupation: 70 }
+            }
           }
         }
       }
@@ -137,7 +330,16 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 70000, bon: 100000, excellent: 130000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.22 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 10, bon: 18, excellent: 28 } },
+            runway: { unit: "months", thresholds: { crit: 3, bon: 6, excellent: 10 } },
+            occupation: { unit: "percentage", thresholds: { crit: 70, bon: 85, excellent: 95 } },
+            csat: { unit: "percentage", thresholds: { crit: 75, bon: 85, excellent: 92 } },
+            nps: { unit: "score", thresholds: { crit: 20, bon: 40, excellent: 60 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 3, bon: 2, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 35, bon: 20, excellent: 12 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 6, excellent: 3 } }
           }
         }
       }
@@ -154,8 +356,36 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 45000, bon: 65000, excellent: 85000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.45, bon: 0.35, excellent: 0.30 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 75, excellent: 90 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 75, excellent: 85 } }
-          }
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 75, excellent: 85 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 2, bon: 5, excellent: 10 } },
+            runway: { unit: "months", thresholds: { crit: 1, bon: 3, excellent: 6 } },
+            occupation: { unit: "percentage", thresholds: { crit: 55, bon: 70, excellent: 85 } },
+            csat: { unit: "percentage", thresholds: { crit: 70, bon: 80, excellent: 90 } },
+            nps: { unit: "score", thresholds: { crit: 0, bon: 30, excellent: 50 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 6, bon: 3, excellent: 1 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 6, bon: 3, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 70, bon: 50, excellent: 30 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 12, bon: 8, excellent: 5 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 55000, bon: 75000, excellent: 95000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.48, bon: 0.38, excellent: 0.32 } }
+              }
+            },
+            {
+              id: "grande_structure",
+              label: "15 ETP et plus",
+              minFte: 15,
+              metrics: {
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.42, bon: 0.33, excellent: 0.28 } }
+              }
+            }
+          ]
         },
         resto_rapide: {
           id: "resto_rapide",
@@ -165,7 +395,16 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 55000, bon: 80000, excellent: 100000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.25 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 60, bon: 85, excellent: 98 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 35, bon: 60, excellent: 75 } }
+            fidelisation: { unit: "percentage", thresholds: { crit: 35, bon: 60, excellent: 75 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 3, bon: 7, excellent: 12 } },
+            runway: { unit: "months", thresholds: { crit: 1, bon: 3, excellent: 6 } },
+            occupation: { unit: "percentage", thresholds: { crit: 50, bon: 65, excellent: 80 } },
+            csat: { unit: "percentage", thresholds: { crit: 65, bon: 78, excellent: 88 } },
+            nps: { unit: "score", thresholds: { crit: -10, bon: 20, excellent: 40 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 5, bon: 2, excellent: 1 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 8, bon: 4, excellent: 2 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 90, bon: 60, excellent: 40 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 12, bon: 8, excellent: 5 } }
           }
         }
       }
@@ -181,8 +420,28 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 120000, excellent: 160000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.25, bon: 0.18, excellent: 0.14 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 50, bon: 80, excellent: 95 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 40, bon: 65, excellent: 80 } }
-          }
+            fidelisation: { unit: "percentage", thresholds: { crit: 40, bon: 65, excellent: 80 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 1, bon: 3, excellent: 6 } },
+            runway: { unit: "months", thresholds: { crit: 2, bon: 4, excellent: 8 } },
+            occupation: { unit: "percentage", thresholds: { crit: 60, bon: 75, excellent: 88 } },
+            csat: { unit: "percentage", thresholds: { crit: 70, bon: 80, excellent: 90 } },
+            nps: { unit: "score", thresholds: { crit: 0, bon: 25, excellent: 45 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 8, bon: 4, excellent: 2 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 45, bon: 30, excellent: 18 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 6, excellent: 4 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 95000, bon: 140000, excellent: 185000 } },
+                charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.27, bon: 0.20, excellent: 0.16 } }
+              }
+            }
+          ]
         }
       }
     },
@@ -197,8 +456,27 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 100000, bon: 150000, excellent: 200000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.60, bon: 0.50, excellent: 0.40 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 70, bon: 90, excellent: 98 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 70, bon: 88, excellent: 95 } }
-          }
+            fidelisation: { unit: "percentage", thresholds: { crit: 70, bon: 88, excellent: 95 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 8, bon: 15, excellent: 22 } },
+            runway: { unit: "months", thresholds: { crit: 3, bon: 6, excellent: 12 } },
+            occupation: { unit: "percentage", thresholds: { crit: 65, bon: 75, excellent: 85 } },
+            csat: { unit: "percentage", thresholds: { crit: 75, bon: 85, excellent: 92 } },
+            nps: { unit: "score", thresholds: { crit: 10, bon: 35, excellent: 55 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 4, bon: 2, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 30, bon: 18, excellent: 10 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 6, bon: 4, excellent: 2 } }
+          },
+          segments: [
+            {
+              id: "ile_de_france",
+              label: "Île-de-France",
+              region: "ile_de_france",
+              metrics: {
+                ca_etp: { unit: "amount", thresholds: { crit: 120000, bon: 175000, excellent: 230000 } }
+              }
+            }
+          ]
         }
       }
     },
@@ -213,7 +491,25 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 80000, bon: 120000, excellent: 160000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.45, bon: 0.35, excellent: 0.28 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 20, bon: 50, excellent: 75 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 85 } }
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 70, excellent: 85 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 2, bon: 5, excellent: 8 } },
+            runway: { unit: "months", thresholds: { crit: 2, bon: 4, excellent: 8 } },
+            occupation: { unit: "percentage", thresholds: { crit: 70, bon: 82, excellent: 92 } },
+            csat: { unit: "percentage", thresholds: { crit: 70, bon: 80, excellent: 90 } },
+            nps: { unit: "score", thresholds: { crit: 0, bon: 25, excellent: 45 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 8, bon: 4, excellent: 2 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 4, bon: 2, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 35, bon: 22, excellent: 12 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 6, excellent: 4 } }
+          },
+          weights: {
+            // Long payment terms and deposits: cash is the first failure cause, digital weighs little
+            dimensions: { financier: 40, operationnel: 25, commercial: 15, strategique: 20 },
+            metrics: {
+              financier: { runway: 20, marge_nette: 10 },
+              commercial: { digital_pct: 25, fidelisation: 55 },
+              strategique: { runway_risk: 35 }
+            }
           }
         }
       }
@@ -229,7 +525,16 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 90000, bon: 130000, excellent: 180000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.40, bon: 0.30, excellent: 0.22 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 30, bon: 60, excellent: 80 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } }
+            fidelisation: { unit: "percentage", thresholds: { crit: 60, bon: 80, excellent: 90 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 3, bon: 6, excellent: 10 } },
+            runway: { unit: "months", thresholds: { crit: 3, bon: 6, excellent: 10 } },
+            occupation: { unit: "percentage", thresholds: { crit: 70, bon: 82, excellent: 90 } },
+            csat: { unit: "percentage", thresholds: { crit: 70, bon: 80, excellent: 90 } },
+            nps: { unit: "score", thresholds: { crit: 0, bon: 25, excellent: 45 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 5, bon: 2, excellent: 1 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 30, bon: 18, excellent: 10 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 8, bon: 5, excellent: 3 } }
           }
         }
       }
@@ -245,7 +550,16 @@ export const PARAM_SECTEUR: ParamSecteur = {
             ca_etp: { unit: "amount", thresholds: { crit: 60000, bon: 90000, excellent: 120000 } },
             charges_rh: { unit: "ratio_inverse", thresholds: { crit: 0.50, bon: 0.40, excellent: 0.30 } },
             digital_pct: { unit: "percentage", thresholds: { crit: 40, bon: 70, excellent: 85 } },
-            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 72, excellent: 85 } }
+            fidelisation: { unit: "percentage", thresholds: { crit: 50, bon: 72, excellent: 85 } },
+            marge_nette: { unit: "percentage", thresholds: { crit: 5, bon: 10, excellent: 15 } },
+            runway: { unit: "months", thresholds: { crit: 3, bon: 6, excellent: 12 } },
+            occupation: { unit: "percentage", thresholds: { crit: 75, bon: 85, excellent: 95 } },
+            csat: { unit: "percentage", thresholds: { crit: 70, bon: 80, excellent: 90 } },
+            nps: { unit: "score", thresholds: { crit: 0, bon: 30, excellent: 50 } },
+            taux_retour: { unit: "percentage_inverse", thresholds: { crit: 10, bon: 5, excellent: 2 } },
+            incidents: { unit: "count_inverse", thresholds: { crit: 5, bon: 3, excellent: 1 } },
+            turnover: { unit: "percentage_inverse", thresholds: { crit: 40, bon: 25, excellent: 15 } },
+            absenteisme: { unit: "percentage_inverse", thresholds: { crit: 15, bon: 10, excellent: 5 } }
           }
         }
       }
@@ -253,29 +567,203 @@ export const PARAM_SECTEUR: ParamSecteur = {
   }
 };
 
-export function getBenchmarks(secteur: string, variant?: string): Record<string, MetricDefinition> {
-  const sectors = PARAM_SECTEUR.sectors;
-  if (!(secteur in sectors)) {
+export const DEFAULT_DIMENSION_WEIGHTS: Record<DimensionKey, number> = {
+  financier: 35,
+  operationnel: 25,
+  commercial: 20,
+  strategique: 20,
+};
+
+/**
+ * Default weights: dimension weights above, metric weights declared in the metric registry
+ */
+export function getDefaultWeightProfile(): ResolvedWeightProfile {
+  return {
+    source: 'default',
+    dimensions: { ...DEFAULT_DIMENSION_WEIGHTS },
+    metrics: getDefaultMetricWeights(),
+  };
+}
+
+// Every compiled-in benchmark table still available for re-scoring, current one included
+export const BENCHMARK_VERSIONS: Record<string, ParamSecteur> = {
+  [PARAM_SECTEUR_V2_1.version]: PARAM_SECTEUR_V2_1,
+  [PARAM_SECTEUR_V2_2.version]: PARAM_SECTEUR_V2_2,
+  [PARAM_SECTEUR_V2_3.version]: PARAM_SECTEUR_V2_3,
+  [PARAM_SECTEUR.version]: PARAM_SECTEUR,
+};
+
+export const CURRENT_BENCHMARK_VERSION = PARAM_SECTEUR.version;
+
+// ============= Local override =============
+
+// Loaded once, the scorer reads the active table on every call
+let benchmarkOverride: ParamSecteur | null | undefined;
+
+/**
+ * Table edited in the benchmark editor, null when the compiled-in table is active
+ */
+export function getBenchmarkOverride(): ParamSecteur | null {
+  if (benchmarkOverride === undefined) {
+    benchmarkOverride = loadBenchmarkOverride();
+  }
+  return benchmarkOverride;
+}
+
+/**
+ * Activate an edited table (null restores the compiled-in one)
+ * Its version must differ from the compiled-in versions so that scores stay traceable
+ */
+export function setBenchmarkOverride(table: ParamSecteur | null): void {
+  if (table) {
+    const issues = validateParamSecteur(table);
+    if (issues.length > 0) {
+      throw new Error(`Table de benchmarks invalide : ${issues[0].path} — ${issues[0].message}`);
+    }
+    if (table.version in BENCHMARK_VERSIONS) {
+      throw new Error(`La version '${table.version}' est déjà utilisée par une table de référence`);
+    }
+  }
+  saveBenchmarkOverride(table);
+  benchmarkOverride = table;
+}
+
+/**
+ * Table used by the scorer: the local override when present, PARAM_SECTEUR otherwise
+ */
+export function getActiveParamSecteur(): ParamSecteur {
+  return getBenchmarkOverride() ?? PARAM_SECTEUR;
+}
+
+export function getActiveBenchmarkVersion(): string {
+  return getActiveParamSecteur().version;
+}
+
+/**
+ * Compiled-in tables plus the active local override
+ */
+export function getBenchmarkVersions(): Record<string, ParamSecteur> {
+  const override = getBenchmarkOverride();
+  return override ? { ...BENCHMARK_VERSIONS, [override.version]: override } : BENCHMARK_VERSIONS;
+}
+
+/**
+ * Benchmark table for a given version (active table when omitted)
+ */
+export function getParamSecteur(version?: string): ParamSecteur {
+  if (!version) return getActiveParamSecteur();
+  const versions = getBenchmarkVersions();
+  if (!(version in versions)) {
+    throw new Error(`Version de benchmarks '${version}' inconnue`);
+  }
+  return versions[version];
+}
+
+// ============= Segments =============
+
+export const REGION_LABELS: Record<Region, string> = {
+  ile_de_france: 'Île-de-France',
+  province: 'Province',
+};
+
+// Audit characteristics a segment is matched against
+export interface SegmentCriteria {
+  fte?: number;
+  region?: Region;
+}
+
+export interface ResolvedBenchmarks {
+  metrics: Record<string, MetricDefinition>;
+  segment?: { id: string; label: string }; // Undefined when the variant thresholds apply as is
+}
+
+function matchesSegment(segment: BenchmarkSegment, criteria: SegmentCriteria): boolean {
+  if (segment.region !== undefined && segment.region !== criteria.region) return false;
+  if (segment.minFte === undefined && segment.maxFte === undefined) return true;
+  if (criteria.fte === undefined) return false;
+  return (segment.minFte === undefined || criteria.fte >= segment.minFte)
+    && (segment.maxFte === undefined || criteria.fte < segment.maxFte);
+}
+
+/**
+ * Most specific segment matching the audit: region and FTE band beat a single criterion,
+ * ties go to the first declared segment
+ */
+export function resolveBenchmarkSegment(variant: SectorVariant, criteria: SegmentCriteria): BenchmarkSegment | undefined {
+  const specificity = (segment: BenchmarkSegment) =>
+    (segment.region !== undefined ? 1 : 0) + (segment.minFte !== undefined || segment.maxFte !== undefined ? 1 : 0);
+  return (variant.segments ?? [])
+    .filter(segment => matchesSegment(segment, criteria))
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+}
+
+/**
+ * Thresholds of a sector variant, refined by the segment matching the criteria
+ * The sector may be given by label, registry id or synonym
+ */
+export function resolveBenchmarks(
+  secteur: string,
+  variant?: string,
+  version?: string,
+  criteria: SegmentCriteria = {}
+): ResolvedBenchmarks {
+  const sectors = getParamSecteur(version).sectors;
+  const key = resolveSectorKey(secteur, version);
+  if (!key) {
     throw new Error(`Secteur '${secteur}' non trouvé dans PARAM_SECTEUR`);
   }
   
-  const sect = sectors[secteur];
+  const sect = sectors[key];
   const varId = variant || sect.default_variant;
   if (!(varId in sect.variants)) {
     throw new Error(`Variant '${varId}' non trouvé pour '${secteur}'`);
   }
   
-  return sect.variants[varId].metrics;
+  const definition = sect.variants[varId];
+  const segment = resolveBenchmarkSegment(definition, criteria);
+  if (!segment) {
+    return { metrics: definition.metrics };
+  }
+  return {
+    metrics: { ...definition.metrics, ...segment.metrics },
+    segment: { id: segment.id, label: segment.label },
+  };
 }
 
-export function getSectorVariants(secteur: string): SectorVariant[] {
-  const sectors = PARAM_SECTEUR.sectors;
-  if (!(secteur in sectors)) {
-    return [];
-  }
-  return Object.values(sectors[secteur].variants);
+export function getBenchmarks(
+  secteur: string,
+  variant?: string,
+  version?: string,
+  criteria?: SegmentCriteria
+): Record<string, MetricDefinition> {
+  return resolveBenchmarks(secteur, variant, version, criteria).metrics;
 }
 
-export function getAllSectors(): string[] {
-  return Object.keys(PARAM_SECTEUR.sectors);
+/**
+ * Weights applied to a sector/variant: the variant profile merged over the defaults,
+ * dimension weights normalized to 100. Unknown sectors get the default profile.
+ */
+export function getWeightProfile(secteur: string, variant?: string, version?: string): ResolvedWeightProfile {
+  const key = resolveSectorKey(secteur, version);
+  const sect = key ? getParamSecteur(version).sectors[key] : undefined;
+  const profile = sect?.variants[variant || sect.default_variant]?.weights;
+  const defaults = getDefaultWeightProfile();
+  if (!profile) {
+    return defaults;
+  }
+
+  const dimensions = { ...defaults.dimensions, ...profile.dimensions };
+  const total = Object.values(dimensions).reduce((sum, w) => sum + w, 0);
+  if (total > 0 && total !== 100) {
+    (Object.keys(dimensions) as DimensionKey[]).forEach(key => {
+      dimensions[key] = (dimensions[key] / total) * 100;
+    });
+  }
+
+  const metrics = { ...defaults.metrics };
+  (Object.keys(metrics) as DimensionKey[]).forEach(key => {
+    metrics[key] = { ...metrics[key], ...profile.metrics?.[key] };
+  });
+
+  return { source: 'sector', dimensions, metrics };
 }
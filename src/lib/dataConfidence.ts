@@ -0,0 +1,81 @@
+/**
+ * Data Confidence Index
+ * Rates how much the input data can be trusted (0-100), from its origin,
+ * the coverage of optional fields and the incoherences found by getAuditWarnings
+ */
+
+import { AuditData, AuditWarning, ConfidenceLevel, DataConfidence, DataOrigin, normalizeToV2 } from '@/types/audit';
+import { OPTIONAL_FIELDS } from './scoringV2';
+
+// ============= Constants =============
+
+// Audited / exported accounts are trusted most, estimates least
+export const ORIGIN_CONFIDENCE: Record<DataOrigin, number> = {
+  imported: 100,
+  manual: 80,
+  client_declarative: 60,
+  estimated: 30,
+};
+
+export const DATA_ORIGIN_LABELS: Record<DataOrigin, string> = {
+  imported: 'Comptes importés',
+  manual: 'Saisie consultant',
+  client_declarative: 'Déclaratif client',
+  estimated: 'Estimation',
+};
+
+const WEIGHTS = {
+  origin: 0.4,
+  completeness: 0.35,
+  coherence: 0.25,
+};
+
+// Points lost on the coherence component per incoherence detected
+const INCOHERENCE_PENALTY = 35;
+
+export const CONFIDENCE_LEVEL_LABELS: Record<ConfidenceLevel, string> = {
+  BON: 'Élevée',
+  MOYEN: 'Moyenne',
+  FAIBLE: 'Faible',
+};
+
+// ============= Computation =============
+
+export function getConfidenceLevel(score: number): ConfidenceLevel {
+  if (score >= 75) return 'BON';
+  if (score >= 50) return 'MOYEN';
+  return 'FAIBLE';
+}
+
+/**
+ * Compute the confidence index of an audit
+ * Only 'coherence' warnings count: business alerts describe the company, not the data
+ */
+export function computeDataConfidence(data: AuditData, warnings: AuditWarning[]): DataConfidence {
+  const v2 = normalizeToV2(data);
+
+  const originScore = ORIGIN_CONFIDENCE[v2.dataOrigin] ?? ORIGIN_CONFIDENCE.estimated;
+
+  const providedOptionalFields = OPTIONAL_FIELDS.filter(field => field.get(v2) !== undefined).length;
+  const completenessScore = (providedOptionalFields / OPTIONAL_FIELDS.length) * 100;
+
+  const incoherenceCount = warnings.filter(w => w.category === 'coherence').length;
+  const coherenceScore = Math.max(0, 100 - incoherenceCount * INCOHERENCE_PENALTY);
+
+  const score = Math.round(
+    originScore * WEIGHTS.origin +
+    completenessScore * WEIGHTS.completeness +
+    coherenceScore * WEIGHTS.coherence
+  );
+
+  return {
+    score,
+    level: getConfidenceLevel(score),
+    originScore,
+    completenessScore: Math.round(completenessScore),
+    coherenceScore,
+    providedOptionalFields,
+    totalOptionalFields: OPTIONAL_FIELDS.length,
+    incoherenceCount,
+  };
+}
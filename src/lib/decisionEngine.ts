@@ -1,6 +1,7 @@
 /**
  * Decision Engine - Deterministic business logic for decision support
  * All rules are explicit and traceable - no hidden logic
+ * Rules are declared in the active rule pack (see decisionRules.ts)
  */
 
 import { 
@@ -9,10 +10,24 @@ import {
   normalizeToV2, 
   Scores,
   QuantifiedRecommendation,
-  ImpactType,
-  ConfidenceLevel,
-  AuditDataV2
+  DecisionTraceEntry,
+  ActionPlanItem,
+  StrengthOpportunity,
+  DecisionOrigin,
+  DecisionAdjustment
 } from '@/types/audit';
+import { getAuditThresholds } from './scoringV2';
+import { buildActionPlan } from './actionPlan';
+import { computeStrengths } from './strengthsEngine';
+import { applyDecisionOverrides, sanitizeDecisionOverrides, SEVERITY_ORDER } from './decisionOverrides';
+import {
+  evaluateImpact,
+  getActiveRulePack,
+  QuantificationRuleSpec,
+  RiskRuleSpec,
+  RuleContext,
+  traceCondition,
+} from './decisionRules';
 
 // ============= Types =============
 
@@ -22,225 +37,20 @@ export interface DecisionOutput {
   priorityLevel: PriorityLevel;
   topRisks: string[];
   topLevers: string[];
+  riskOrigins: DecisionOrigin[];
   quickWins: string[];
   structuralActions: string[];
   decisionSummary: string;
   quantifiedRecommendations: QuantifiedRecommendation[];
+  strengths: StrengthOpportunity[];
+  trace: DecisionTraceEntry[];
+  actionPlan: ActionPlanItem[];
+  adjustments: DecisionAdjustment[];
 }
 
-interface RiskRule {
-  id: string;
-  condition: (data: ReturnType<typeof normalizeToV2>, scores: Scores) => boolean;
-  risk: string;
-  lever: string;
-  category: 'financial' | 'operational' | 'hr' | 'commercial' | 'strategic';
-  severity: 'critical' | 'high' | 'medium' | 'low';
-  quickWin?: string;
-  structuralAction?: string;
-}
-
-// ============= Explicit Rules (all visible in code) =============
-
-const RISK_RULES: RiskRule[] = [
-  // === FINANCIAL RISKS ===
-  {
-    id: 'runway_critical',
-    condition: (data) => data.finance.cashRunwayMonths !== undefined && data.finance.cashRunwayMonths < 3,
-    risk: 'Risque de continuité : trésorerie critique (moins de 3 mois)',
-    lever: 'Sécuriser la trésorerie avant toute autre action',
-    category: 'financial',
-    severity: 'critical',
-    structuralAction: 'Renégocier les délais de paiement et optimiser le BFR',
-  },
-  {
-    id: 'runway_warning',
-    condition: (data) => data.finance.cashRunwayMonths !== undefined && data.finance.cashRunwayMonths >= 3 && data.finance.cashRunwayMonths < 6,
-    risk: 'Trésorerie tendue : vigilance sur le cash',
-    lever: 'Mettre en place un suivi hebdomadaire de trésorerie',
-    category: 'financial',
-    severity: 'high',
-    quickWin: 'Relancer les créances clients en retard',
-  },
-  {
-    id: 'low_gross_margin',
-    condition: (data, scores) => scores.financier < 45,
-    risk: 'Marge brute insuffisante pour absorber les aléas',
-    lever: 'Réviser la politique tarifaire et les coûts d\'achat',
-    category: 'financial',
-    severity: 'high',
-    structuralAction: 'Analyser la structure de coûts par activité/produit',
-  },
-  {
-    id: 'negative_net_margin',
-    condition: (data) => data.finance.netMarginPercent !== undefined && data.finance.netMarginPercent < 0,
-    risk: 'Résultat net négatif : modèle économique déficitaire',
-    lever: 'Identifier les centres de coûts à optimiser en priorité',
-    category: 'financial',
-    severity: 'critical',
-    structuralAction: 'Plan de redressement avec objectifs chiffrés',
-  },
-
-  // === HR RISKS ===
-  {
-    id: 'hr_cost_high',
-    condition: (data) => data.costs.hrCostsPercent > 50 && (data.hr?.absenteeismRatePercent ?? 0) > 8,
-    risk: 'Risque humain majeur : coûts RH élevés combinés à un absentéisme important',
-    lever: 'Rééquilibrer la structure RH avant toute action commerciale',
-    category: 'hr',
-    severity: 'critical',
-    structuralAction: 'Audit social et plan QVT ciblé',
-  },
-  {
-    id: 'high_absenteeism',
-    condition: (data) => (data.hr?.absenteeismRatePercent ?? 0) > 8 && (data.hr?.absenteeismRatePercent ?? 0) <= 15,
-    risk: 'Absentéisme élevé : signal de dysfonctionnement organisationnel',
-    lever: 'Analyser les causes d\'absentéisme par service/poste',
-    category: 'hr',
-    severity: 'high',
-    quickWin: 'Entretiens individuels pour identifier les irritants',
-  },
-  {
-    id: 'critical_absenteeism',
-    condition: (data) => (data.hr?.absenteeismRatePercent ?? 0) > 15,
-    risk: 'Absentéisme critique : désengagement généralisé',
-    lever: 'Lancer un diagnostic social approfondi',
-    category: 'hr',
-    severity: 'critical',
-    structuralAction: 'Plan de transformation RH avec accompagnement externe',
-  },
-  {
-    id: 'high_turnover',
-    condition: (data) => (data.hr?.turnoverRatePercent ?? 0) > 25 && (data.hr?.turnoverRatePercent ?? 0) <= 40,
-    risk: 'Turnover élevé : perte de compétences et coûts de recrutement',
-    lever: 'Renforcer la politique de fidélisation des talents',
-    category: 'hr',
-    severity: 'high',
-    quickWin: 'Entretiens de sortie systématiques pour comprendre les départs',
-  },
-  {
-    id: 'critical_turnover',
-    condition: (data) => (data.hr?.turnoverRatePercent ?? 0) > 40,
-    risk: 'Turnover critique : instabilité des équipes',
-    lever: 'Réviser la politique salariale et les conditions de travail',
-    category: 'hr',
-    severity: 'critical',
-    structuralAction: 'Benchmark salarial et plan de rétention',
-  },
-
-  // === OPERATIONAL RISKS ===
-  {
-    id: 'low_occupancy',
-    condition: (data) => data.ops.occupancyRatePercent < 65,
-    risk: 'Inefficacité structurelle : sous-utilisation des capacités',
-    lever: 'Améliorer le taux d\'occupation avant d\'investir en marketing',
-    category: 'operational',
-    severity: 'high',
-    quickWin: 'Optimiser le planning et réduire les créneaux vides',
-    structuralAction: 'Revoir le dimensionnement de l\'équipe',
-  },
-  {
-    id: 'very_high_occupancy',
-    condition: (data) => data.ops.occupancyRatePercent > 95,
-    risk: 'Saturation opérationnelle : risque qualité et épuisement',
-    lever: 'Anticiper les capacités avant que la qualité ne se dégrade',
-    category: 'operational',
-    severity: 'medium',
-    quickWin: 'Identifier les pics d\'activité et lisser la charge',
-  },
-  {
-    id: 'low_productivity',
-    condition: (data, scores) => scores.operationnel < 50,
-    risk: 'Productivité insuffisante : CA/ETP sous les benchmarks sectoriels',
-    lever: 'Optimiser les processus et réduire les temps improductifs',
-    category: 'operational',
-    severity: 'high',
-    structuralAction: 'Cartographie des processus et identification des goulots',
-  },
-  {
-    id: 'quality_issues',
-    condition: (data) => (data.ops.quality?.returnRatePercent ?? 0) > 5,
-    risk: 'Problèmes qualité récurrents : impact sur la satisfaction client',
-    lever: 'Mettre en place des contrôles qualité systématiques',
-    category: 'operational',
-    severity: 'medium',
-    quickWin: 'Analyser les causes des 5 derniers incidents majeurs',
-  },
-
-  // === COMMERCIAL RISKS ===
-  {
-    id: 'low_digitalization',
-    condition: (data) => data.commercial.digitalizationPercent < 40,
-    risk: 'Risque commercial moyen terme : retard digital significatif',
-    lever: 'Prioriser la digitalisation des interactions client',
-    category: 'commercial',
-    severity: 'high',
-    quickWin: 'Mettre en place un outil de prise de RDV en ligne',
-    structuralAction: 'Plan de transformation digitale sur 12 mois',
-  },
-  {
-    id: 'moderate_digitalization',
-    condition: (data) => data.commercial.digitalizationPercent >= 40 && data.commercial.digitalizationPercent < 60,
-    risk: 'Digitalisation partielle : opportunités non exploitées',
-    lever: 'Compléter les outils digitaux existants',
-    category: 'commercial',
-    severity: 'medium',
-    quickWin: 'Automatiser les rappels clients (email/SMS)',
-  },
-  {
-    id: 'low_loyalty',
-    condition: (data) => (data.commercial.loyaltyPercent ?? 100) < 60,
-    risk: 'Fidélisation faible : coût d\'acquisition élevé',
-    lever: 'Mettre en place un programme de fidélisation structuré',
-    category: 'commercial',
-    severity: 'high',
-    quickWin: 'Offre de bienvenue pour les nouveaux clients récurrents',
-  },
-  {
-    id: 'low_satisfaction',
-    condition: (data) => (data.commercial.satisfaction?.csatPercent ?? 100) < 75,
-    risk: 'Satisfaction client insuffisante : risque de churn',
-    lever: 'Identifier et traiter les irritants clients prioritaires',
-    category: 'commercial',
-    severity: 'high',
-    quickWin: 'Enquête satisfaction flash auprès des 20 derniers clients',
-  },
-  {
-    id: 'negative_nps',
-    condition: (data) => (data.commercial.satisfaction?.nps ?? 50) < 0,
-    risk: 'NPS négatif : plus de détracteurs que de promoteurs',
-    lever: 'Plan d\'action ciblé sur les détracteurs',
-    category: 'commercial',
-    severity: 'high',
-    structuralAction: 'Refonte de l\'expérience client end-to-end',
-  },
-
-  // === STRATEGIC RISKS ===
-  {
-    id: 'dimension_imbalance',
-    condition: (_, scores) => {
-      const dims = [scores.financier, scores.operationnel, scores.commercial, scores.strategique];
-      return Math.max(...dims) - Math.min(...dims) > 30;
-    },
-    risk: 'Déséquilibre fort entre les dimensions : fragilité du modèle',
-    lever: 'Rééquilibrer les investissements entre les 4 axes',
-    category: 'strategic',
-    severity: 'medium',
-    structuralAction: 'Plan d\'action différencié par dimension',
-  },
-  {
-    id: 'low_diversification',
-    condition: (data) => (data.nbServices ?? 1) <= 2,
-    risk: 'Dépendance à une offre limitée : vulnérabilité commerciale',
-    lever: 'Identifier des opportunités de diversification de l\'offre',
-    category: 'strategic',
-    severity: 'medium',
-    structuralAction: 'Étude de marché pour nouvelles lignes de services',
-  },
-];
-
 // ============= Priority Determination =============
 
-function determinePriorityLevel(scores: Scores, triggeredRules: RiskRule[]): PriorityLevel {
+function determinePriorityLevel(scores: Scores, triggeredRules: Pick<RiskRuleSpec, 'severity'>[]): PriorityLevel {
   // Rule 1: Global score < 40 → CRITIQUE
   if (scores.global < 40) {
     return 'CRITIQUE';
@@ -289,189 +99,52 @@ function generateDecisionSummary(
 
 // ============= Quantified Recommendations Calculation =============
 
-interface QuantificationRule {
-  id: string;
-  condition: (data: AuditDataV2, scores: Scores) => boolean;
-  lever: string;
-  impactType: ImpactType;
-  calculateImpact: (data: AuditDataV2) => { min: number; max: number };
-  unit: '€' | '%';
-  assumptions: string[];
-  confidenceLevel: ConfidenceLevel;
-}
-
-const QUANTIFICATION_RULES: QuantificationRule[] = [
-  // === Occupation ===
-  {
-    id: 'occupation_improvement',
-    condition: (data) => data.ops.occupancyRatePercent < 85,
-    lever: 'Améliorer le taux d\'occupation (+5 pts)',
-    impactType: 'CA',
-    calculateImpact: (data) => ({
-      min: Math.round(data.finance.annualRevenue * 0.03),
-      max: Math.round(data.finance.annualRevenue * 0.06),
-    }),
-    unit: '€',
-    assumptions: [
-      'Hypothèse : +5 pts d\'occupation = +3% à +6% de CA',
-      'Basé sur une élasticité linéaire de la capacité',
-      'Ne prend pas en compte les coûts marginaux associés',
-    ],
-    confidenceLevel: 'MOYEN',
-  },
-  // === HR Cost Reduction ===
-  {
-    id: 'hr_cost_reduction',
-    condition: (data) => data.costs.hrCostsPercent > 48,
-    lever: 'Optimiser les charges RH (-3 pts)',
-    impactType: 'MARGE',
-    calculateImpact: (data) => ({
-      min: Math.round(data.finance.annualRevenue * 0.025),
-      max: Math.round(data.finance.annualRevenue * 0.035),
-    }),
-    unit: '€',
-    assumptions: [
-      'Hypothèse : réduction de 3 pts des charges RH',
-      'Impact direct sur le résultat d\'exploitation',
-      'Mise en œuvre progressive sur 6-12 mois',
-    ],
-    confidenceLevel: 'BON',
-  },
-  // === Absenteeism Reduction ===
-  {
-    id: 'absenteeism_reduction',
-    condition: (data) => (data.hr?.absenteeismRatePercent ?? 0) > 5,
-    lever: 'Réduire l\'absentéisme (-2 pts)',
-    impactType: 'COÛTS',
-    calculateImpact: (data) => ({
-      min: Math.round(data.finance.annualRevenue * 0.01),
-      max: Math.round(data.finance.annualRevenue * 0.02),
-    }),
-    unit: '€',
-    assumptions: [
-      'Hypothèse : -2 pts d\'absentéisme = +1% à +2% de productivité',
-      'Gain sur les coûts de remplacement et heures supplémentaires',
-      'Effet indirect sur la qualité de service',
-    ],
-    confidenceLevel: 'MOYEN',
-  },
-  // === Gross Margin Improvement ===
-  {
-    id: 'gross_margin_improvement',
-    condition: (data) => data.finance.grossMarginPercent < 65,
-    lever: 'Améliorer la marge brute (+2 pts)',
-    impactType: 'MARGE',
-    calculateImpact: (data) => ({
-      min: Math.round(data.finance.annualRevenue * 0.018),
-      max: Math.round(data.finance.annualRevenue * 0.022),
-    }),
-    unit: '€',
-    assumptions: [
-      'Hypothèse : +2 pts de marge brute',
-      'Via renégociation fournisseurs ou ajustement tarifaire',
-      'Impact direct sur le résultat',
-    ],
-    confidenceLevel: 'BON',
-  },
-  // === Digitalization ===
-  {
-    id: 'digitalization_improvement',
-    condition: (data) => data.commercial.digitalizationPercent < 60,
-    lever: 'Accélérer la digitalisation (+15 pts)',
-    impactType: 'CA',
-    calculateImpact: (data) => ({
-      min: Math.round(data.finance.annualRevenue * 0.02),
-      max: Math.round(data.finance.annualRevenue * 0.05),
-    }),
-    unit: '€',
-    assumptions: [
-      'Hypothèse : +15 pts de digitalisation',
-      'Amélioration de l\'acquisition et de la rétention client',
-      'Réduction des coûts administratifs',
-    ],
-    confidenceLevel: 'FAIBLE',
-  },
-  // === Cash Flow Optimization ===
-  {
-    id: 'cash_optimization',
-    condition: (data) => data.finance.cashRunwayMonths !== undefined && data.finance.cashRunwayMonths < 6,
-    lever: 'Optimiser le BFR et la trésorerie',
-    impactType: 'TRÉSORERIE',
-    calculateImpact: (data) => ({
-      min: Math.round(data.finance.annualRevenue * 0.05),
-      max: Math.round(data.finance.annualRevenue * 0.10),
-    }),
-    unit: '€',
-    assumptions: [
-      'Hypothèse : réduction du DSO de 10-15 jours',
-      'Renégociation des délais fournisseurs',
-      'Impact one-shot sur la trésorerie disponible',
-    ],
-    confidenceLevel: 'MOYEN',
-  },
-  // === Productivity per FTE ===
-  {
-    id: 'productivity_improvement',
-    condition: (data, scores) => scores.operationnel < 55,
-    lever: 'Améliorer la productivité par ETP (+10%)',
-    impactType: 'CA',
-    calculateImpact: (data) => ({
-      min: Math.round(data.finance.annualRevenue * 0.04),
-      max: Math.round(data.finance.annualRevenue * 0.08),
-    }),
-    unit: '€',
-    assumptions: [
-      'Hypothèse : +10% de productivité par ETP',
-      'Via formation, outils, ou optimisation des processus',
-      'Sans augmentation de la masse salariale',
-    ],
-    confidenceLevel: 'MOYEN',
-  },
-  // === Turnover Reduction ===
-  {
-    id: 'turnover_reduction',
-    condition: (data) => (data.hr?.turnoverRatePercent ?? 0) > 20,
-    lever: 'Réduire le turnover (-10 pts)',
-    impactType: 'COÛTS',
-    calculateImpact: (data) => ({
-      min: Math.round(data.finance.annualRevenue * 0.015),
-      max: Math.round(data.finance.annualRevenue * 0.03),
-    }),
-    unit: '€',
-    assumptions: [
-      'Hypothèse : coût moyen d\'un départ = 6 mois de salaire',
-      'Économie sur recrutement, formation, perte de productivité',
-      'Impact progressif sur 12-18 mois',
-    ],
-    confidenceLevel: 'FAIBLE',
-  },
-];
+// Number of quantified recommendations shown
+const MAX_RECOMMENDATIONS = 5;
 
 function computeQuantifiedRecommendations(
-  data: AuditDataV2,
-  scores: Scores
-): QuantifiedRecommendation[] {
-  const recommendations: QuantifiedRecommendation[] = [];
-
-  for (const rule of QUANTIFICATION_RULES) {
-    if (rule.condition(data, scores)) {
-      const impact = rule.calculateImpact(data);
-      recommendations.push({
-        lever: rule.lever,
-        impactType: rule.impactType,
-        estimatedImpactMin: impact.min,
-        estimatedImpactMax: impact.max,
-        unit: rule.unit,
-        assumptions: rule.assumptions,
-        confidenceLevel: rule.confidenceLevel,
-      });
-    }
-  }
-
-  // Sort by max impact (descending) and limit to top 5
-  return recommendations
-    .sort((a, b) => b.estimatedImpactMax - a.estimatedImpactMax)
-    .slice(0, 5);
+  rules: QuantificationRuleSpec[],
+  context: RuleContext
+): {
+  recommendations: QuantifiedRecommendation[];
+  trace: DecisionTraceEntry[];
+  retained: { rule: QuantificationRuleSpec; impact: { min: number; max: number } }[];
+} {
+  const evaluated = rules.map(rule => {
+    const { result, comparisons } = traceCondition(rule.when, context);
+    return { rule, fired: result, comparisons, impact: result ? evaluateImpact(rule, context) : undefined };
+  });
+
+  // Sort by max impact (descending) and keep the top ones, a lever without gain on this audit is left out
+  const retained = evaluated
+    .filter(entry => entry.fired && entry.impact!.max > 0)
+    .sort((a, b) => b.impact!.max - a.impact!.max)
+    .slice(0, MAX_RECOMMENDATIONS)
+    .map(({ rule, impact }) => ({ rule, impact: impact! }));
+
+  const recommendations: QuantifiedRecommendation[] = retained.map(({ rule, impact }) => ({
+    ruleId: rule.id,
+    lever: rule.lever,
+    impactType: rule.impactType,
+    drivers: rule.drivers ?? [],
+    estimatedImpactMin: impact.min,
+    estimatedImpactMax: impact.max,
+    unit: rule.unit,
+    assumptions: impact.assumptions,
+    confidenceLevel: rule.confidenceLevel,
+    calibrated: impact.calibrated,
+  }));
+
+  const trace: DecisionTraceEntry[] = evaluated.map(({ rule, fired, comparisons }) => ({
+    ruleId: rule.id,
+    kind: 'quantification',
+    label: rule.lever,
+    fired,
+    comparisons,
+    retained: retained.some(entry => entry.rule === rule),
+  }));
+
+  return { recommendations, trace, retained };
 }
 
 // ============= Main Engine Function =============
@@ -482,46 +155,100 @@ export function computeDecisionOutput(
   warnings: AuditWarning[]
 ): DecisionOutput {
   const v2 = normalizeToV2(auditData);
+  const rulePack = getActiveRulePack();
+  // Sector thresholds of the table the scores were computed against
+  const context: RuleContext = {
+    data: v2,
+    scores,
+    thresholds: getAuditThresholds(v2, scores.benchmarkVersion).thresholds,
+  };
+
+  // Evaluate all rules, keeping what each one compared
+  const evaluated = rulePack.riskRules.map(rule => ({ rule, ...traceCondition(rule.when, context) }));
+  const triggeredRules = evaluated.filter(entry => entry.result).map(entry => entry.rule);
 
-  // Evaluate all rules
-  const triggeredRules = RISK_RULES.filter(rule => rule.condition(v2, scores));
+  // Consultant overrides stored with the audit: dismissed, downgraded, reworded or manual risks
+  const overrides = sanitizeDecisionOverrides(v2.decisionOverrides, rulePack.riskRules.map(rule => rule.id));
+  const { risks, adjustments } = applyDecisionOverrides(triggeredRules, overrides);
 
   // Sort by severity
-  const severityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
-  triggeredRules.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+  risks.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
 
   // Extract top 3 risks and levers
-  const topRisks = triggeredRules.slice(0, 3).map(r => r.risk);
-  const topLevers = triggeredRules.slice(0, 3).map(r => r.lever);
+  const topRisks = risks.slice(0, 3).map(r => r.risk);
+  const topLevers = risks.slice(0, 3).map(r => r.lever);
+  const riskOrigins = risks.slice(0, 3).map(r => r.origin);
 
   // Collect quick wins and structural actions
-  const quickWins = triggeredRules
+  const quickWins = risks
     .filter(r => r.quickWin)
     .slice(0, 3)
     .map(r => r.quickWin as string);
 
-  const structuralActions = triggeredRules
+  const structuralActions = risks
     .filter(r => r.structuralAction)
     .slice(0, 3)
     .map(r => r.structuralAction as string);
 
   // Determine priority level
-  const priorityLevel = determinePriorityLevel(scores, triggeredRules);
+  const priorityLevel = determinePriorityLevel(scores, risks);
 
   // Generate summary
   const decisionSummary = generateDecisionSummary(priorityLevel, topRisks, topLevers, scores);
 
   // Compute quantified recommendations
-  const quantifiedRecommendations = computeQuantifiedRecommendations(v2, scores);
+  const quantification = computeQuantifiedRecommendations(rulePack.quantificationRules, context);
+
+  // Assets and growth opportunities, so the reading is not only about risks
+  const strengthOutput = computeStrengths(rulePack.strengthRules ?? [], context);
+
+  // Trace: every rule of the pack, fired or not, risk rules first
+  const topRuleIds = new Set(risks.slice(0, 3).map(r => r.id));
+  const appliedAdjustment = (ruleId: string) => {
+    const adjustment = adjustments.find(a => a.applied && (a.ruleId === ruleId || a.overrideId === ruleId));
+    return adjustment ? { action: adjustment.action, justification: adjustment.justification } : undefined;
+  };
+  const trace: DecisionTraceEntry[] = [
+    ...evaluated.map(({ rule, result, comparisons }) => ({
+      ruleId: rule.id,
+      kind: 'risk' as const,
+      label: rule.risk,
+      fired: result,
+      severity: rule.severity,
+      comparisons,
+      retained: topRuleIds.has(rule.id),
+      adjustment: appliedAdjustment(rule.id),
+    })),
+    ...risks.filter(r => r.origin === 'manual').map(r => ({
+      ruleId: r.id,
+      kind: 'risk' as const,
+      label: r.risk,
+      fired: true,
+      severity: r.severity,
+      comparisons: [],
+      retained: topRuleIds.has(r.id),
+      adjustment: appliedAdjustment(r.id),
+    })),
+    ...quantification.trace,
+    ...strengthOutput.trace,
+  ];
+
+  // 30/60/90-day plan: every remaining risk, then the quantified recommendations shown
+  const actionPlan = buildActionPlan(risks, quantification.retained);
 
   return {
     priorityLevel,
     topRisks,
     topLevers,
+    riskOrigins,
     quickWins,
     structuralActions,
     decisionSummary,
-    quantifiedRecommendations,
+    quantifiedRecommendations: quantification.recommendations,
+    strengths: strengthOutput.strengths,
+    trace,
+    actionPlan,
+    adjustments,
   };
 }
 
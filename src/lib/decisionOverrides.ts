@@ -0,0 +1,158 @@
+/**
+ * Decision Overrides
+ * Consultant adjustments of the decision output: dismiss or downgrade a
+ * triggered risk, reword its lever, add a manual risk. Each one carries a
+ * justification and is stored with the audit (AuditDataV2.decisionOverrides),
+ * the engine applies them after evaluating the rules.
+ */
+
+import type { DecisionAdjustment, DecisionOrigin, DecisionOverride, RiskSeverity } from '@/types/audit';
+import type { RiskRuleSpec } from './decisionRules';
+
+// ============= Types =============
+
+// A risk of the decision output: a triggered rule, possibly adjusted, or a manual risk
+export type DecisionRisk = Omit<RiskRuleSpec, 'when'> & { origin: DecisionOrigin };
+
+// ============= Constants =============
+
+export const SEVERITY_ORDER: Record<RiskSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+export const SEVERITY_LABELS: Record<RiskSeverity, string> = {
+  critical: 'Critique',
+  high: 'Élevée',
+  medium: 'Modérée',
+  low: 'Faible',
+};
+
+export const OVERRIDE_ACTION_LABELS: Record<DecisionOverride['action'], string> = {
+  dismiss: 'Risque écarté',
+  downgrade: 'Sévérité abaissée',
+  edit_lever: 'Levier reformulé',
+  add_risk: 'Risque ajouté',
+};
+
+// Justifications shorter than this are not considered as one
+const MIN_JUSTIFICATION_LENGTH = 10;
+
+// ============= Validation =============
+
+/**
+ * First problem of an override, null when it can be saved
+ */
+export function validateDecisionOverride(override: DecisionOverride): string | null {
+  if (override.justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+    return `Justification obligatoire (${MIN_JUSTIFICATION_LENGTH} caractères minimum)`;
+  }
+  switch (override.action) {
+    case 'dismiss':
+    case 'downgrade':
+    case 'edit_lever':
+      if (!override.ruleId) return 'Choisir le risque à ajuster';
+      if (override.action === 'edit_lever' && override.lever.trim() === '') return 'Nouveau libellé du levier manquant';
+      return null;
+    case 'add_risk':
+      if (override.risk.trim() === '') return 'Libellé du risque manquant';
+      if (override.lever.trim() === '') return 'Levier associé manquant';
+      return null;
+  }
+}
+
+function isValidOverride(value: unknown, ruleIds: string[]): value is DecisionOverride {
+  if (typeof value !== 'object' || value === null) return false;
+  const override = value as Record<string, unknown>;
+  const isText = (key: string) => typeof override[key] === 'string';
+  if (!isText('id') || !isText('justification') || !isText('createdAt')) return false;
+  if (!(Object.keys(OVERRIDE_ACTION_LABELS) as unknown[]).includes(override.action)) return false;
+
+  if (override.action !== 'add_risk' && !ruleIds.includes(override.ruleId as string)) return false;
+  if ((override.action === 'downgrade' || override.action === 'add_risk')
+    && !(Object.keys(SEVERITY_ORDER) as unknown[]).includes(override.severity)) return false;
+  if ((override.action === 'edit_lever' || override.action === 'add_risk') && !isText('lever')) return false;
+  if (override.action === 'add_risk' && !isText('risk')) return false;
+  return validateDecisionOverride(value as DecisionOverride) === null;
+}
+
+/**
+ * Overrides that can be applied: well formed, on a risk rule of the pack, with their justification
+ * They come from the panel but also from imported or stored audits, the others are dropped
+ */
+export function sanitizeDecisionOverrides(overrides: unknown, ruleIds: string[]): DecisionOverride[] {
+  if (!Array.isArray(overrides)) return [];
+  return overrides.filter((override): override is DecisionOverride => isValidOverride(override, ruleIds));
+}
+
+// ============= Application =============
+
+function describeOverride(override: DecisionOverride, rule?: Omit<RiskRuleSpec, 'when'>): string {
+  switch (override.action) {
+    case 'dismiss':
+      return 'Risque écarté';
+    case 'downgrade':
+      return `Sévérité : ${rule ? SEVERITY_LABELS[rule.severity] : '?'} → ${SEVERITY_LABELS[override.severity]}`;
+    case 'edit_lever':
+      return `Levier : « ${override.lever} »`;
+    case 'add_risk':
+      return `Risque ajouté (sévérité ${SEVERITY_LABELS[override.severity]})`;
+  }
+}
+
+/**
+ * Risks of the decision output once the overrides applied, with what each override did
+ * An override of a rule that does not fire on this audit stays inactive, a downgrade
+ * never raises the severity
+ */
+export function applyDecisionOverrides(
+  triggeredRules: RiskRuleSpec[],
+  overrides: DecisionOverride[]
+): { risks: DecisionRisk[]; adjustments: DecisionAdjustment[] } {
+  const risks: DecisionRisk[] = triggeredRules.map(({ when: _when, ...rule }) => ({ ...rule, origin: 'computed' }));
+  const adjustments: DecisionAdjustment[] = [];
+
+  overrides.forEach(override => {
+    if (override.action === 'add_risk') {
+      risks.push({
+        id: override.id,
+        risk: override.risk,
+        lever: override.lever,
+        severity: override.severity,
+        category: 'strategic',
+        origin: 'manual',
+      });
+      adjustments.push({
+        overrideId: override.id,
+        action: override.action,
+        label: override.risk,
+        detail: describeOverride(override),
+        justification: override.justification,
+        applied: true,
+      });
+      return;
+    }
+
+    const index = risks.findIndex(risk => risk.id === override.ruleId);
+    const risk = index >= 0 ? risks[index] : undefined;
+    const applied = risk !== undefined
+      && (override.action !== 'downgrade' || SEVERITY_ORDER[override.severity] > SEVERITY_ORDER[risk.severity]);
+    adjustments.push({
+      overrideId: override.id,
+      action: override.action,
+      ruleId: override.ruleId,
+      label: risk?.risk ?? triggeredRules.find(rule => rule.id === override.ruleId)?.risk ?? override.ruleId,
+      detail: describeOverride(override, risk),
+      justification: override.justification,
+      applied,
+    });
+    if (!applied) return;
+
+    if (override.action === 'dismiss') {
+      risks.splice(index, 1);
+    } else if (override.action === 'downgrade') {
+      risks[index] = { ...risk, severity: override.severity, origin: 'adjusted' };
+    } else {
+      risks[index] = { ...risk, lever: override.lever, origin: 'adjusted' };
+    }
+  });
+
+  return { risks, adjustments };
+}
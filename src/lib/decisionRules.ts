@@ -0,0 +1,708 @@
+/**
+ * Decision Rules
+ * Declarative (JSON) format of the decision engine rules: conditions on audit
+ * fields, scores and sector thresholds, texts, severity and impact formulas
+ * (revenue coefficients when the audit lacks an input). Validation, evaluation,
+ * JSON import / export and the local rule pack override. The default pack ships
+ * in defaultRulePack.json.
+ */
+
+import type {
+  ActionOwner,
+  ActionPhase,
+  AuditDataV2,
+  ConfidenceLevel,
+  DimensionKey,
+  ImpactType,
+  MetricThresholds,
+  RiskSeverity,
+  RuleComparisonTrace,
+  Scores,
+  StrengthOpportunity,
+} from '@/types/audit';
+import { getFieldValue, getRegisteredMetrics } from './metricRegistry';
+import defaultRulePackJson from './defaultRulePack.json';
+
+// ============= Types =============
+
+export type RuleScoreKey = 'global' | DimensionKey;
+export type RuleComparator = RuleComparisonTrace['operator'];
+export type RuleFunction = 'add' | 'sub' | 'mul' | 'div' | 'min' | 'max' | 'coalesce';
+export type RuleSeverity = RiskSeverity;
+export type RuleCategory = StrengthOpportunity['category'];
+
+/**
+ * Value read by a condition:
+ * - a number
+ * - an AuditDataV2 field (`default` when the audit has no value, otherwise the comparison is false)
+ * - a score (global or dimension)
+ * - a sector threshold of the audit (see getAuditThresholds), optionally offset
+ * - a named input of the quantification rule being evaluated (impact formulas only)
+ * - an arithmetic combination of operands (coalesce: first defined argument)
+ */
+export type RuleOperand =
+  | number
+  | { path: string; default?: number }
+  | { score: RuleScoreKey }
+  | { threshold: string; band: keyof MetricThresholds; offset?: number }
+  | { input: string }
+  | { fn: RuleFunction; args: RuleOperand[] };
+
+export type RuleCondition =
+  | { op: RuleComparator; left: RuleOperand; right: RuleOperand }
+  | { exists: string }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+/**
+ * Planning of an action in the 30/60/90-day plan
+ * dependsOn lists action ids: "<ruleId>.quickWin", "<ruleId>.structuralAction" or a quantification rule id
+ */
+export interface RuleActionPlanSpec {
+  phase: ActionPhase;
+  owner: ActionOwner;
+  kpiEffect: string;
+  dependsOn?: string[];
+}
+
+export interface RiskRuleSpec {
+  id: string;
+  when: RuleCondition;
+  risk: string;
+  lever: string;
+  category: RuleCategory;
+  severity: RuleSeverity;
+  quickWin?: string;
+  structuralAction?: string;
+  plan?: { quickWin?: RuleActionPlanSpec; structuralAction?: RuleActionPlanSpec };
+}
+
+export interface QuantificationRuleSpec {
+  id: string;
+  when: RuleCondition;
+  lever: string;
+  impactType: ImpactType;
+  // Impact range as a share of the annual revenue (0.03 = 3% of CA), used when the formula cannot be evaluated
+  impact: { min: number; max: number };
+  // Named values read from the audit and the sector thresholds, for the formula and the assumption templates
+  inputs?: Record<string, RuleOperand>;
+  // Impact range in €, computed from the inputs
+  formula?: { min: RuleOperand; max: RuleOperand };
+  // Assumptions of the formula: {input} is replaced by its value, {input|€} by an amount
+  assumptionTemplates?: string[];
+  // What the lever acts on: levers sharing a driver overlap when combined
+  drivers?: string[];
+  unit: '€' | '%';
+  assumptions: string[];
+  confidenceLevel: ConfidenceLevel;
+  plan?: RuleActionPlanSpec;
+}
+
+// Asset of the audit and the growth opportunity it opens
+export interface StrengthRuleSpec {
+  id: string;
+  when: RuleCondition;
+  strength: string;
+  opportunity: string;
+  category: RuleCategory;
+}
+
+export interface RulePack {
+  version: string;
+  last_update: string;
+  riskRules: RiskRuleSpec[];
+  quantificationRules: QuantificationRuleSpec[];
+  strengthRules?: StrengthRuleSpec[]; // Absent from packs exported before strengths existed
+}
+
+// What a condition is evaluated against
+export interface RuleContext {
+  data: AuditDataV2;
+  scores: Scores;
+  thresholds: Record<string, MetricThresholds>; // Raw-unit sector thresholds keyed by benchmark
+  inputs?: Record<string, number | undefined>; // Inputs of the quantification rule being evaluated
+}
+
+export interface RuleValidationIssue {
+  path: string; // e.g. "riskRules / runway_critical / when"
+  message: string;
+}
+
+// ============= Constants =============
+
+const RULE_PACK_STORAGE_KEY = 'decision_rule_pack';
+
+const SCORE_KEYS: RuleScoreKey[] = ['global', 'financier', 'operationnel', 'commercial', 'strategique'];
+const COMPARATORS: RuleComparator[] = ['<', '<=', '>', '>=', '==', '!='];
+const FUNCTIONS: RuleFunction[] = ['add', 'sub', 'mul', 'div', 'min', 'max', 'coalesce'];
+const SEVERITIES: RuleSeverity[] = ['critical', 'high', 'medium', 'low'];
+const CATEGORIES: RuleCategory[] = ['financial', 'operational', 'hr', 'commercial', 'strategic'];
+const IMPACT_TYPES: ImpactType[] = ['CA', 'MARGE', 'TRÉSORERIE', 'COÛTS'];
+const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['FAIBLE', 'MOYEN', 'BON'];
+const BANDS: (keyof MetricThresholds)[] = ['crit', 'bon', 'excellent'];
+export const ACTION_PHASES: ActionPhase[] = ['30j', '60j', '90j', '6-12m'];
+const ACTION_OWNERS: ActionOwner[] = ['direction', 'finance', 'rh', 'commercial', 'operations'];
+
+const SCORE_LABELS: Record<RuleScoreKey, string> = {
+  global: 'Score global',
+  financier: 'Score financier',
+  operationnel: 'Score opérationnel',
+  commercial: 'Score commercial',
+  strategique: 'Score stratégique',
+};
+
+// Numeric audit fields a rule may read besides the registry metric paths
+const CORE_DATA_PATHS = [
+  'finance.annualRevenue',
+  'finance.grossMarginPercent',
+  'finance.netMarginPercent',
+  'finance.cashRunwayMonths',
+  'costs.hrCostsPercent',
+  'costs.cogsPercent',
+  'costs.fixedCostsPercent',
+  'ops.occupancyRatePercent',
+  'ops.productivity.fte',
+  'nbServices',
+];
+
+export function getRuleDataPaths(): string[] {
+  const registryPaths = getRegisteredMetrics()
+    .map(metric => metric.path)
+    .filter((path): path is string => path !== undefined);
+  return [...new Set([...CORE_DATA_PATHS, ...registryPaths])];
+}
+
+// Custom registry metrics are stored under customMetrics.<id>
+function isRuleDataPath(path: unknown): boolean {
+  return typeof path === 'string' && (getRuleDataPaths().includes(path) || path.startsWith('customMetrics.'));
+}
+
+function getRuleThresholdKeys(): string[] {
+  return [...new Set(
+    getRegisteredMetrics()
+      .map(metric => metric.curve.benchmark)
+      .filter((key): key is string => key !== undefined)
+  )];
+}
+
+// ============= Evaluation =============
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Value of an operand, undefined when an audit field it depends on is missing
+ */
+export function evaluateOperand(operand: RuleOperand, context: RuleContext): number | undefined {
+  if (typeof operand === 'number') return operand;
+  if ('path' in operand) return getFieldValue(context.data, operand.path) ?? operand.default;
+  if ('score' in operand) return context.scores[operand.score];
+  if ('threshold' in operand) {
+    const thresholds = context.thresholds[operand.threshold];
+    return thresholds ? thresholds[operand.band] + (operand.offset ?? 0) : undefined;
+  }
+  if ('input' in operand) return context.inputs?.[operand.input];
+
+  if (operand.fn === 'coalesce') {
+    return operand.args.map(arg => evaluateOperand(arg, context)).find(value => value !== undefined);
+  }
+  const values = operand.args.map(arg => evaluateOperand(arg, context));
+  if (values.some(value => value === undefined)) return undefined;
+  const [first, ...rest] = values as number[];
+  switch (operand.fn) {
+    case 'add':
+      return rest.reduce((sum, value) => sum + value, first);
+    case 'sub':
+      return rest.reduce((diff, value) => diff - value, first);
+    case 'mul':
+      return rest.reduce((product, value) => product * value, first);
+    case 'div':
+      return rest.some(value => value === 0) ? undefined : rest.reduce((quotient, value) => quotient / value, first);
+    case 'min':
+      return Math.min(first, ...rest);
+    case 'max':
+      return Math.max(first, ...rest);
+  }
+}
+
+function compare(left: number, comparator: RuleComparator, right: number): boolean {
+  switch (comparator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+  }
+}
+
+/**
+ * A comparison involving a missing audit value is false
+ */
+export function evaluateCondition(condition: RuleCondition, context: RuleContext): boolean {
+  return traceCondition(condition, context).result;
+}
+
+/**
+ * Readable name of an operand: metric label, score, sector threshold or formula
+ */
+export function describeOperand(operand: RuleOperand): string {
+  if (typeof operand === 'number') return String(operand);
+  if ('path' in operand) {
+    return getRegisteredMetrics().find(metric => metric.path === operand.path)?.label ?? operand.path;
+  }
+  if ('score' in operand) return SCORE_LABELS[operand.score];
+  if ('threshold' in operand) {
+    const offset = operand.offset ? ` ${operand.offset > 0 ? '+' : '−'} ${Math.abs(operand.offset)}` : '';
+    const label = getRegisteredMetrics().find(metric => metric.curve.benchmark === operand.threshold)?.label ?? operand.threshold;
+    return `${label} : seuil ${operand.band} du secteur${offset}`;
+  }
+  if ('input' in operand) return operand.input;
+  return `${operand.fn}(${operand.args.map(describeOperand).join(', ')})`;
+}
+
+/**
+ * Result of a condition with every comparison it evaluated (all branches, no short-circuit)
+ */
+export function traceCondition(
+  condition: RuleCondition,
+  context: RuleContext
+): { result: boolean; comparisons: RuleComparisonTrace[] } {
+  if ('all' in condition || 'any' in condition) {
+    const children = ('all' in condition ? condition.all : condition.any).map(c => traceCondition(c, context));
+    const results = children.map(child => child.result);
+    return {
+      result: 'all' in condition ? results.every(Boolean) : results.some(Boolean),
+      comparisons: children.flatMap(child => child.comparisons),
+    };
+  }
+  if ('not' in condition) {
+    const child = traceCondition(condition.not, context);
+    return { result: !child.result, comparisons: child.comparisons };
+  }
+  if ('exists' in condition) {
+    const value = getFieldValue(context.data, condition.exists);
+    return { result: value !== undefined, comparisons: [] };
+  }
+
+  const leftValue = evaluateOperand(condition.left, context);
+  const rightValue = evaluateOperand(condition.right, context);
+  const result = leftValue !== undefined && rightValue !== undefined && compare(leftValue, condition.op, rightValue);
+  return {
+    result,
+    comparisons: [{
+      left: describeOperand(condition.left),
+      leftValue,
+      operator: condition.op,
+      right: describeOperand(condition.right),
+      rightValue,
+      result,
+    }],
+  };
+}
+
+function formatAssumptionValue(value: number, unit?: string): string {
+  if (unit === '€') return `${Math.round(value).toLocaleString('fr-FR')} €`;
+  return value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+}
+
+/**
+ * Assumption template with the values of the inputs: {name} or {name|€}
+ */
+export function renderAssumption(template: string, inputs: Record<string, number | undefined>): string {
+  return template.replace(/\{(\w+)(?:\|(€))?\}/g, (match, name: string, unit?: string) => {
+    const value = inputs[name];
+    return value === undefined ? match : formatAssumptionValue(value, unit);
+  });
+}
+
+/**
+ * Impact in € of a quantification rule and the assumptions behind it
+ * The formula applies when every input is known (calibrated on the audit), otherwise
+ * the revenue coefficients of the rule and its generic assumptions
+ */
+export function evaluateImpact(
+  rule: QuantificationRuleSpec,
+  context: RuleContext
+): { min: number; max: number; assumptions: string[]; calibrated: boolean } {
+  if (rule.formula) {
+    const inputs: Record<string, number | undefined> = {};
+    Object.entries(rule.inputs ?? {}).forEach(([name, operand]) => {
+      inputs[name] = evaluateOperand(operand, context);
+    });
+    const inputContext = { ...context, inputs };
+    const min = evaluateOperand(rule.formula.min, inputContext);
+    const max = evaluateOperand(rule.formula.max, inputContext);
+
+    if (Object.values(inputs).every(value => value !== undefined) && min !== undefined && max !== undefined) {
+      const roundedMax = Math.max(0, Math.round(max));
+      return {
+        min: Math.min(Math.max(0, Math.round(min)), roundedMax),
+        max: roundedMax,
+        assumptions: (rule.assumptionTemplates ?? rule.assumptions).map(template => renderAssumption(template, inputs)),
+        calibrated: true,
+      };
+    }
+  }
+
+  return {
+    min: Math.round(context.data.finance.annualRevenue * rule.impact.min),
+    max: Math.round(context.data.finance.annualRevenue * rule.impact.max),
+    assumptions: rule.assumptions,
+    calibrated: false,
+  };
+}
+
+// ============= Validation =============
+
+function validateOperand(path: string, operand: unknown, issues: RuleValidationIssue[], inputs: string[] = []): void {
+  if (typeof operand === 'number') {
+    if (!Number.isFinite(operand)) issues.push({ path, message: 'Nombre invalide' });
+    return;
+  }
+  if (!isRecord(operand)) {
+    issues.push({ path, message: 'Opérande invalide (nombre, path, score, threshold, input ou fn attendu)' });
+    return;
+  }
+
+  if ('path' in operand) {
+    if (!isRuleDataPath(operand.path)) {
+      issues.push({ path, message: `Champ '${String(operand.path)}' inconnu` });
+    }
+    if (operand.default !== undefined && typeof operand.default !== 'number') {
+      issues.push({ path, message: 'La valeur par défaut doit être un nombre' });
+    }
+  } else if ('score' in operand) {
+    if (!(SCORE_KEYS as unknown[]).includes(operand.score)) {
+      issues.push({ path, message: `Score '${String(operand.score)}' inconnu` });
+    }
+  } else if ('threshold' in operand) {
+    if (!getRuleThresholdKeys().includes(operand.threshold as string)) {
+      issues.push({ path, message: `Seuil sectoriel '${String(operand.threshold)}' inconnu` });
+    }
+    if (!(BANDS as unknown[]).includes(operand.band)) {
+      issues.push({ path, message: `Palier '${String(operand.band)}' inconnu (crit, bon ou excellent)` });
+    }
+    if (operand.offset !== undefined && typeof operand.offset !== 'number') {
+      issues.push({ path, message: 'Le décalage doit être un nombre' });
+    }
+  } else if ('fn' in operand) {
+    if (!(FUNCTIONS as unknown[]).includes(operand.fn)) {
+      issues.push({ path, message: `Fonction '${String(operand.fn)}' inconnue` });
+    }
+    if (!Array.isArray(operand.args) || operand.args.length === 0) {
+      issues.push({ path, message: 'Une fonction attend au moins un argument' });
+      return;
+    }
+    operand.args.forEach((arg: unknown, index) => validateOperand(`${path} / ${String(operand.fn)}[${index}]`, arg, issues, inputs));
+  } else if ('input' in operand) {
+    if (!inputs.includes(operand.input as string)) {
+      issues.push({ path, message: `Entrée '${String(operand.input)}' inconnue (déclarer dans inputs, formules d'impact uniquement)` });
+    }
+  } else {
+    issues.push({ path, message: 'Opérande invalide (nombre, path, score, threshold, input ou fn attendu)' });
+  }
+}
+
+function validateCondition(path: string, condition: unknown, issues: RuleValidationIssue[]): void {
+  if (!isRecord(condition)) {
+    issues.push({ path, message: 'Condition invalide' });
+    return;
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const list = condition.all ?? condition.any;
+    const key = 'all' in condition ? 'all' : 'any';
+    if (!Array.isArray(list) || list.length === 0) {
+      issues.push({ path, message: `'${key}' attend une liste non vide de conditions` });
+      return;
+    }
+    list.forEach((c: unknown, index) => validateCondition(`${path} / ${key}[${index}]`, c, issues));
+  } else if ('not' in condition) {
+    validateCondition(`${path} / not`, condition.not, issues);
+  } else if ('exists' in condition) {
+    if (!isRuleDataPath(condition.exists)) {
+      issues.push({ path, message: `Champ '${String(condition.exists)}' inconnu` });
+    }
+  } else if ('op' in condition) {
+    if (!(COMPARATORS as unknown[]).includes(condition.op)) {
+      issues.push({ path, message: `Opérateur '${String(condition.op)}' inconnu` });
+    }
+    validateOperand(`${path} / left`, condition.left, issues);
+    validateOperand(`${path} / right`, condition.right, issues);
+  } else {
+    issues.push({ path, message: 'Condition invalide (op, exists, all, any ou not attendu)' });
+  }
+}
+
+function validateText(path: string, value: unknown, issues: RuleValidationIssue[], optional = false): void {
+  if (optional && value === undefined) return;
+  if (typeof value !== 'string' || value.trim() === '') {
+    issues.push({ path, message: 'Texte manquant' });
+  }
+}
+
+function validateEnum<T>(path: string, value: unknown, allowed: T[], issues: RuleValidationIssue[]): void {
+  if (!(allowed as unknown[]).includes(value)) {
+    issues.push({ path, message: `Valeur '${String(value)}' inconnue (${allowed.join(', ')})` });
+  }
+}
+
+function validateImpactFormula(rulePath: string, rule: Record<string, unknown>, issues: RuleValidationIssue[]): void {
+  if (rule.inputs !== undefined && !isRecord(rule.inputs)) {
+    issues.push({ path: `${rulePath} / inputs`, message: 'Les entrées doivent être un objet nom → opérande' });
+    return;
+  }
+  const inputs = isRecord(rule.inputs) ? rule.inputs : {};
+  const names = Object.keys(inputs);
+  // Inputs read the audit and the sector, not each other
+  Object.entries(inputs).forEach(([name, operand]) => validateOperand(`${rulePath} / inputs / ${name}`, operand, issues));
+
+  if (rule.formula !== undefined) {
+    if (!isRecord(rule.formula)) {
+      issues.push({ path: `${rulePath} / formula`, message: 'Formules min / max manquantes' });
+    } else {
+      validateOperand(`${rulePath} / formula / min`, rule.formula.min, issues, names);
+      validateOperand(`${rulePath} / formula / max`, rule.formula.max, issues, names);
+    }
+  }
+
+  if (rule.assumptionTemplates !== undefined) {
+    if (!Array.isArray(rule.assumptionTemplates) || rule.assumptionTemplates.some(a => typeof a !== 'string')) {
+      issues.push({ path: `${rulePath} / assumptionTemplates`, message: 'Les hypothèses doivent être une liste de textes' });
+      return;
+    }
+    rule.assumptionTemplates.forEach((template: string) => {
+      [...template.matchAll(/\{(\w+)(?:\|€)?\}/g)]
+        .filter(([, name]) => !names.includes(name))
+        .forEach(([placeholder]) => {
+          issues.push({ path: `${rulePath} / assumptionTemplates`, message: `Entrée ${placeholder} inconnue` });
+        });
+    });
+  }
+}
+
+function validateActionPlan(path: string, plan: unknown, issues: RuleValidationIssue[]): void {
+  if (!isRecord(plan)) {
+    issues.push({ path, message: 'Planification invalide (phase, owner, kpiEffect attendus)' });
+    return;
+  }
+  validateEnum(`${path} / phase`, plan.phase, ACTION_PHASES, issues);
+  validateEnum(`${path} / owner`, plan.owner, ACTION_OWNERS, issues);
+  validateText(`${path} / kpiEffect`, plan.kpiEffect, issues);
+  if (plan.dependsOn !== undefined && (!Array.isArray(plan.dependsOn) || plan.dependsOn.some(id => typeof id !== 'string'))) {
+    issues.push({ path: `${path} / dependsOn`, message: 'Les dépendances doivent être une liste d\'identifiants d\'actions' });
+  }
+}
+
+/**
+ * Ids of the actions a pack can put in the plan, with the dependencies each one declares
+ */
+function collectPlanDependencies(pack: Record<string, unknown>): { actionIds: Set<string>; dependencies: [string, unknown[]][] } {
+  const actionIds = new Set<string>();
+  const dependencies: [string, unknown[]][] = [];
+  const add = (path: string, id: string, plan: unknown) => {
+    actionIds.add(id);
+    if (isRecord(plan) && Array.isArray(plan.dependsOn)) dependencies.push([path, plan.dependsOn]);
+  };
+
+  const riskRules = Array.isArray(pack.riskRules) ? pack.riskRules.filter(isRecord) : [];
+  riskRules.forEach(rule => {
+    const plan = isRecord(rule.plan) ? rule.plan : {};
+    (['quickWin', 'structuralAction'] as const).forEach(kind => {
+      if (rule[kind] !== undefined) add(`riskRules / ${String(rule.id)} / plan / ${kind}`, `${String(rule.id)}.${kind}`, plan[kind]);
+    });
+  });
+  const quantificationRules = Array.isArray(pack.quantificationRules) ? pack.quantificationRules.filter(isRecord) : [];
+  quantificationRules.forEach(rule => add(`quantificationRules / ${String(rule.id)} / plan`, String(rule.id), rule.plan));
+
+  return { actionIds, dependencies };
+}
+
+function validateRules(
+  section: 'riskRules' | 'quantificationRules' | 'strengthRules',
+  rules: unknown,
+  validateRule: (rulePath: string, rule: Record<string, unknown>) => void,
+  issues: RuleValidationIssue[]
+): void {
+  if (!Array.isArray(rules)) {
+    issues.push({ path: section, message: 'Liste de règles manquante' });
+    return;
+  }
+  const ids = new Set<string>();
+  rules.forEach((rule: unknown, index) => {
+    if (!isRecord(rule) || typeof rule.id !== 'string' || rule.id.trim() === '') {
+      issues.push({ path: `${section} / ${index + 1}`, message: 'Règle sans identifiant' });
+      return;
+    }
+    const rulePath = `${section} / ${rule.id}`;
+    if (ids.has(rule.id)) {
+      issues.push({ path: rulePath, message: 'Identifiant en double' });
+    }
+    ids.add(rule.id);
+    validateCondition(`${rulePath} / when`, rule.when, issues);
+    validateRule(rulePath, rule);
+  });
+}
+
+/**
+ * Check the structure of a rule pack, its conditions and enumerations
+ * Returns an empty list when the engine can evaluate it
+ */
+export function validateRulePack(pack: unknown): RuleValidationIssue[] {
+  if (!isRecord(pack)) {
+    return [{ path: '', message: 'Le fichier ne contient pas de jeu de règles' }];
+  }
+
+  const issues: RuleValidationIssue[] = [];
+  if (typeof pack.version !== 'string' || pack.version.trim() === '') {
+    issues.push({ path: 'version', message: 'Numéro de version manquant' });
+  }
+  if (typeof pack.last_update !== 'string') {
+    issues.push({ path: 'last_update', message: 'Date de mise à jour manquante' });
+  }
+
+  validateRules('riskRules', pack.riskRules, (rulePath, rule) => {
+    validateText(`${rulePath} / risk`, rule.risk, issues);
+    validateText(`${rulePath} / lever`, rule.lever, issues);
+    validateText(`${rulePath} / quickWin`, rule.quickWin, issues, true);
+    validateText(`${rulePath} / structuralAction`, rule.structuralAction, issues, true);
+    validateEnum(`${rulePath} / category`, rule.category, CATEGORIES, issues);
+    validateEnum(`${rulePath} / severity`, rule.severity, SEVERITIES, issues);
+    if (rule.plan !== undefined) {
+      if (!isRecord(rule.plan)) {
+        issues.push({ path: `${rulePath} / plan`, message: 'Planification invalide (quickWin, structuralAction attendus)' });
+      } else {
+        (['quickWin', 'structuralAction'] as const).forEach(kind => {
+          if (rule.plan[kind] === undefined) return;
+          if (rule[kind] === undefined) {
+            issues.push({ path: `${rulePath} / plan / ${kind}`, message: `Planification d'une action '${kind}' absente de la règle` });
+          }
+          validateActionPlan(`${rulePath} / plan / ${kind}`, rule.plan[kind], issues);
+        });
+      }
+    }
+  }, issues);
+
+  validateRules('quantificationRules', pack.quantificationRules, (rulePath, rule) => {
+    validateText(`${rulePath} / lever`, rule.lever, issues);
+    validateEnum(`${rulePath} / impactType`, rule.impactType, IMPACT_TYPES, issues);
+    validateEnum(`${rulePath} / unit`, rule.unit, ['€', '%'], issues);
+    validateEnum(`${rulePath} / confidenceLevel`, rule.confidenceLevel, CONFIDENCE_LEVELS, issues);
+    const impact = rule.impact;
+    if (!isRecord(impact) || typeof impact.min !== 'number' || typeof impact.max !== 'number') {
+      issues.push({ path: `${rulePath} / impact`, message: 'Coefficients de CA min / max manquants' });
+    } else if (impact.min < 0 || impact.min > impact.max) {
+      issues.push({ path: `${rulePath} / impact`, message: 'Les coefficients doivent vérifier 0 ≤ min ≤ max' });
+    }
+    if (rule.drivers !== undefined && (!Array.isArray(rule.drivers) || rule.drivers.some(d => typeof d !== 'string' || d.trim() === ''))) {
+      issues.push({ path: `${rulePath} / drivers`, message: 'Les moteurs d\'impact doivent être une liste de textes' });
+    }
+    if (!Array.isArray(rule.assumptions) || rule.assumptions.some(a => typeof a !== 'string')) {
+      issues.push({ path: `${rulePath} / assumptions`, message: 'Les hypothèses doivent être une liste de textes' });
+    }
+    validateImpactFormula(rulePath, rule, issues);
+    if (rule.plan !== undefined) validateActionPlan(`${rulePath} / plan`, rule.plan, issues);
+  }, issues);
+
+  if (pack.strengthRules !== undefined) {
+    validateRules('strengthRules', pack.strengthRules, (rulePath, rule) => {
+      validateText(`${rulePath} / strength`, rule.strength, issues);
+      validateText(`${rulePath} / opportunity`, rule.opportunity, issues);
+      validateEnum(`${rulePath} / category`, rule.category, CATEGORIES, issues);
+    }, issues);
+  }
+
+  // Dependencies must name actions of the pack
+  const { actionIds, dependencies } = collectPlanDependencies(pack);
+  dependencies.forEach(([path, ids]) => {
+    ids.filter(id => typeof id === 'string' && !actionIds.has(id)).forEach(id => {
+      issues.push({ path: `${path} / dependsOn`, message: `Action '${String(id)}' inconnue` });
+    });
+  });
+
+  return issues;
+}
+
+// ============= JSON import / export =============
+
+export function serializeRulePack(pack: RulePack): string {
+  return JSON.stringify(pack, null, 2);
+}
+
+/**
+ * Parse an exported rule pack, throws with the first validation issues
+ */
+export function parseRulePackJson(text: string): RulePack {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Fichier JSON invalide');
+  }
+
+  const issues = validateRulePack(parsed);
+  if (issues.length > 0) {
+    const details = issues.slice(0, 3).map(issue => issue.path ? `${issue.path} : ${issue.message}` : issue.message);
+    const more = issues.length > 3 ? ` (+${issues.length - 3} autres)` : '';
+    throw new Error(`Jeu de règles invalide — ${details.join(' ; ')}${more}`);
+  }
+  return parsed as RulePack;
+}
+
+// ============= Rule packs =============
+
+export const DEFAULT_RULE_PACK = defaultRulePackJson as RulePack;
+
+// Loaded once, the engine reads the active pack on every call
+let rulePackOverride: RulePack | null | undefined;
+
+function loadRulePackOverride(): RulePack | null {
+  try {
+    const stored = localStorage.getItem(RULE_PACK_STORAGE_KEY);
+    if (!stored) return null;
+    const pack = JSON.parse(stored) as RulePack;
+    // A stored pack that no longer validates (e.g. removed field) is ignored
+    return validateRulePack(pack).length === 0 ? pack : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pack imported by an analyst, null when the default pack is active
+ */
+export function getRulePackOverride(): RulePack | null {
+  if (rulePackOverride === undefined) {
+    rulePackOverride = loadRulePackOverride();
+  }
+  return rulePackOverride;
+}
+
+/**
+ * Activate an imported pack (null restores the default one)
+ */
+export function setRulePackOverride(pack: RulePack | null): void {
+  if (pack) {
+    const issues = validateRulePack(pack);
+    if (issues.length > 0) {
+      throw new Error(`Jeu de règles invalide : ${issues[0].path} — ${issues[0].message}`);
+    }
+    localStorage.setItem(RULE_PACK_STORAGE_KEY, JSON.stringify(pack));
+  } else {
+    localStorage.removeItem(RULE_PACK_STORAGE_KEY);
+  }
+  rulePackOverride = pack;
+}
+
+export function getActiveRulePack(): RulePack {
+  return getRulePackOverride() ?? DEFAULT_RULE_PACK;
+}
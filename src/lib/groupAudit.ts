@@ -0,0 +1,110 @@
+/**
+ * Group Audit
+ * Scores every site of a multi-site group against its own sector/variant
+ * benchmarks, consolidates the scores weighted by revenue and flags outlier sites
+ */
+
+import type { DimensionKey, GroupAudit, GroupSite, Scores } from '@/types/audit';
+import { computeScoresV2, ScoringOptions } from './scoringV2';
+
+// ============= Types =============
+
+export type OutlierDirection = 'above' | 'below';
+
+export interface SiteResult {
+  site: GroupSite;
+  scores: Scores;
+  rank: number; // 1 = best global score
+  revenueShare: number; // % of the group revenue
+  gapToMedian: number; // Global score minus the group median
+  outlier?: OutlierDirection;
+}
+
+export interface GroupResult {
+  sites: SiteResult[]; // Ranked by global score
+  consolidated: Record<'global' | DimensionKey, number>;
+  totalRevenue: number;
+  medianScore: number;
+}
+
+// ============= Constants =============
+
+const DIMENSIONS: DimensionKey[] = ['financier', 'operationnel', 'commercial', 'strategique'];
+
+// A site further than this from the group median global score is an outlier
+export const OUTLIER_GAP = 15;
+
+const GROUP_STORAGE_KEY = 'audit_group';
+
+export const emptyGroupAudit: GroupAudit = {
+  groupName: '',
+  sites: [],
+};
+
+// ============= Computation =============
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Score and rank the sites of a group
+ * Consolidated scores are weighted by site revenue (equal weights when no revenue is known)
+ */
+export function computeGroupAudit(group: GroupAudit, options: ScoringOptions = {}): GroupResult {
+  const scored = group.sites.map(site => ({ site, scores: computeScoresV2(site.data, options) }));
+
+  const totalRevenue = group.sites.reduce((sum, site) => sum + Math.max(0, site.data.finance.annualRevenue), 0);
+  const weightOf = (site: GroupSite) => totalRevenue > 0
+    ? Math.max(0, site.data.finance.annualRevenue) / totalRevenue
+    : 1 / group.sites.length;
+
+  const consolidated = {} as Record<'global' | DimensionKey, number>;
+  (['global', ...DIMENSIONS] as const).forEach(scope => {
+    consolidated[scope] = round1(scored.reduce((sum, { site, scores }) => sum + scores[scope] * weightOf(site), 0));
+  });
+
+  const medianScore = round1(median(scored.map(({ scores }) => scores.global)));
+
+  const sites = scored
+    .sort((a, b) => b.scores.global - a.scores.global)
+    .map(({ site, scores }, index): SiteResult => {
+      const gapToMedian = round1(scores.global - medianScore);
+      return {
+        site,
+        scores,
+        rank: index + 1,
+        revenueShare: round1(weightOf(site) * 100),
+        gapToMedian,
+        // An outlier needs a group to stand out from
+        outlier: scored.length >= 3 && Math.abs(gapToMedian) > OUTLIER_GAP
+          ? (gapToMedian > 0 ? 'above' : 'below')
+          : undefined,
+      };
+    });
+
+  return { sites, consolidated, totalRevenue, medianScore };
+}
+
+// ============= Persistence =============
+
+export function loadGroupAudit(): GroupAudit {
+  try {
+    const stored = localStorage.getItem(GROUP_STORAGE_KEY);
+    if (!stored) return emptyGroupAudit;
+    return JSON.parse(stored) as GroupAudit;
+  } catch {
+    return emptyGroupAudit;
+  }
+}
+
+export function saveGroupAudit(group: GroupAudit): void {
+  localStorage.setItem(GROUP_STORAGE_KEY, JSON.stringify(group));
+}
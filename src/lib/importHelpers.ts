@@ -3,8 +3,11 @@
  * Validation, parsing, and hashing utilities for JSON/Excel data import
  */
 
-import { AuditDataV2, AuditWarning } from '@/types/audit';
-import { validateAndMapSector, SECTOR_LABELS, AllowedSector } from './sectorValidation';
+import { AuditDataV2, AuditWarning, defaultAuditDataV2, FiscalYearData } from '@/types/audit';
+import { validateAndMapSector, SectorValidationResult } from './sectorValidation';
+import { FALLBACK_SECTOR_ID, findRegion, getSectorLabel } from './sectorRegistry';
+import { getImportableMetrics, setFieldValue } from './metricRegistry';
+import { suggestVariant, VariantSuggestion } from './variantClassifier';
 
 // ============= Types =============
 
@@ -13,6 +16,7 @@ export interface ImportValidationResult {
   errors: ImportError[];
   warnings: ImportWarning[];
   parsedData: Partial<AuditDataV2> | null;
+  variantSuggestion?: VariantSuggestion | null; // Closest variant to the imported figures
 }
 
 export interface ImportError {
@@ -146,10 +150,13 @@ export function parseValue(value: string): number | string | undefined {
 
 // ============= Excel Field Mapping =============
 
+// Fields outside the metric registry; registry metrics declare their own key and synonyms
 const FIELD_SYNONYMS: Record<string, string[]> = {
   // META
   'meta.companyName': ['nom entreprise', 'entreprise', 'raison sociale', 'nom', 'societe', 'company'],
   'meta.sector': ['secteur', 'type detablissement', 'activite', 'sector', 'type etablissement'],
+  'meta.variant': ['variante', 'variant', 'sous secteur', 'sous-secteur', 'specialite'],
+  'meta.region': ['region', 'localisation', 'zone', 'location'],
   'meta.year': ['annee', 'exercice', 'year'],
   
   // FINANCE
@@ -160,22 +167,11 @@ const FIELD_SYNONYMS: Record<string, string[]> = {
   'finance.fondsPropres': ['fonds propres', 'capitaux propres', 'equity'],
   
   // COSTS
-  'costs.chargesRH': ['charges rh', 'chargesrh', 'charges rh pct', 'hr costs'],
   'costs.cogs': ['cogs', 'cout marchandises', 'couts marchandises', 'cogs pct'],
   'costs.chargesFixes': ['charges fixes', 'chargesfixes', 'fixed costs'],
   
   // OPERATIONS
   'operations.effectifETP': ['effectif etp', 'etp', 'effectif', 'fte', 'salaries'],
-  'operations.tauxOccupation': ['taux doccupation', 'taux occupation', 'occupation', 'occupancy'],
-  'operations.qualiteRetours': ['qualite retours', 'taux retour', 'retours'],
-  
-  // COMMERCIAL
-  'commercial.digitalisation': ['digitalisation', 'digital', 'digital pct'],
-  'commercial.satisfactionClient': ['satisfaction client', 'nps', 'satisfaction', 'csat'],
-  
-  // RH
-  'rh.absenteisme': ['absenteisme', 'absenteeism', 'absences'],
-  'rh.turnover': ['turnover', 'rotation personnel', 'rotation'],
 };
 
 export function mapFieldToPath(fieldName: string): string | null {
@@ -186,6 +182,13 @@ export function mapFieldToPath(fieldName: string): string | null {
       return path;
     }
   }
+
+  // Metrics of the metric registry
+  for (const metric of getImportableMetrics()) {
+    if ((metric.import.synonyms ?? []).some(syn => normalizeKey(syn) === normalizedField)) {
+      return metric.import.key;
+    }
+  }
   
   return null;
 }
@@ -259,13 +262,27 @@ export function parseExcelChampValeur(input: string): ExcelParseResult {
   return { fields, missingRequired, data };
 }
 
+// ============= Region =============
+
+function checkRegion(rawRegion: unknown, warnings: ImportWarning[]): void {
+  if (rawRegion === undefined || rawRegion === null || rawRegion === '') return;
+  if (!findRegion(String(rawRegion))) {
+    warnings.push({ field: 'meta.region', message: `Localisation non reconnue ("${String(rawRegion)}"), benchmarks non régionalisés utilisés` });
+  }
+}
+
 // ============= JSON Validation =============
 
 export interface JsonImportData {
   meta?: {
     companyName?: unknown;
     sector?: unknown;
+    variant?: unknown; // Variant id or wording (e.g. veto_rurale), detected from the sector when omitted
+    region?: unknown; // 'ile_de_france' / 'province' or wording (IDF, Paris…), selects regional benchmarks
     year?: unknown;
+    // Versions the audit was originally scored with (optional, for re-scoring)
+    scoringModelVersion?: unknown;
+    benchmarkVersion?: unknown;
   };
   finance?: {
     caAnnuel?: unknown;
@@ -275,23 +292,21 @@ export interface JsonImportData {
     fondsPropres?: unknown;
   };
   costs?: {
-    chargesRH?: unknown;
     cogs?: unknown;
     chargesFixes?: unknown;
   };
   operations?: {
     effectifETP?: unknown;
-    tauxOccupation?: unknown;
-    qualiteRetours?: unknown;
-  };
-  commercial?: {
-    digitalisation?: unknown;
-    satisfactionClient?: unknown;
-  };
-  rh?: {
-    absenteisme?: unknown;
-    turnover?: unknown;
   };
+  // Registry metrics are read from their import key (e.g. 'rh.turnover', see metricRegistry)
+  // Prior fiscal years, for trend scoring
+  historique?: {
+    annee?: unknown;
+    caAnnuel?: unknown;
+    margeBrute?: unknown;
+    margeNette?: unknown;
+    chargesRH?: unknown;
+  }[];
 }
 
 export function validateJsonImport(jsonString: string): ImportValidationResult {
@@ -334,16 +349,10 @@ export function validateJsonImport(jsonString: string): ImportValidationResult {
     'finance.tresorerie',
     'finance.dettesFinancieres',
     'finance.fondsPropres',
-    'costs.chargesRH',
     'costs.cogs',
     'costs.chargesFixes',
     'operations.effectifETP',
-    'operations.tauxOccupation',
-    'operations.qualiteRetours',
-    'commercial.digitalisation',
-    'commercial.satisfactionClient',
-    'rh.absenteisme',
-    'rh.turnover',
+    ...getImportableMetrics().map(metric => metric.import.key),
   ];
   
   for (const path of numericFields) {
@@ -369,10 +378,15 @@ export function validateJsonImport(jsonString: string): ImportValidationResult {
   
   // Step 5: Sector validation
   const rawSector = getNestedValue(data, 'meta.sector');
-  const sectorResult = validateAndMapSector(rawSector as string | undefined);
+  const rawVariant = getNestedValue(data, 'meta.variant');
+  const sectorResult = validateAndMapSector(rawSector as string | undefined, rawVariant as string | undefined);
   if (sectorResult.warning) {
     warnings.push({ field: 'meta.sector', message: sectorResult.warning });
   }
+  if (sectorResult.variantWarning) {
+    warnings.push({ field: 'meta.variant', message: sectorResult.variantWarning });
+  }
+  checkRegion(getNestedValue(data, 'meta.region'), warnings);
   
   // Step 6: Business warnings (non-blocking)
   const tresorerie = Number(getNestedValue(data, 'finance.tresorerie'));
@@ -396,13 +410,26 @@ export function validateJsonImport(jsonString: string): ImportValidationResult {
   
   // Step 7: Convert to AuditDataV2
   if (errors.length === 0) {
-    const parsedData = convertToAuditDataV2(data, sectorResult.canonicalSector);
-    return { isValid: true, errors, warnings, parsedData };
+    const parsedData = convertToAuditDataV2(data, sectorResult);
+    const variantSuggestion = applyVariantSuggestion(parsedData);
+    return { isValid: true, errors, warnings, parsedData, variantSuggestion };
   }
   
   return { isValid: false, errors, warnings, parsedData: null };
 }
 
+/**
+ * Suggest a variant from the imported figures, applied when the import neither
+ * named nor implied one (the user can still override it before importing)
+ */
+function applyVariantSuggestion(parsedData: Partial<AuditDataV2>): VariantSuggestion | null {
+  const suggestion = suggestVariant({ ...defaultAuditDataV2, ...parsedData, variant: undefined });
+  if (suggestion && !parsedData.variant) {
+    parsedData.variant = suggestion.variantId;
+  }
+  return suggestion;
+}
+
 function getNestedValue(obj: unknown, path: string): unknown {
   const parts = path.split('.');
   let current: unknown = obj;
@@ -413,7 +440,38 @@ function getNestedValue(obj: unknown, path: string): unknown {
   return current;
 }
 
-function convertToAuditDataV2(data: JsonImportData, canonicalSector?: AllowedSector): Partial<AuditDataV2> {
+/**
+ * Keep only the prior years carrying a year, a revenue, a gross margin and HR costs
+ */
+function convertPriorYears(historique: JsonImportData['historique']): FiscalYearData[] | undefined {
+  if (!Array.isArray(historique)) return undefined;
+  const years = historique
+    .map(entry => ({
+      fiscalYear: Number(entry?.annee),
+      annualRevenue: Number(entry?.caAnnuel),
+      grossMarginPercent: Number(entry?.margeBrute),
+      netMarginPercent: entry?.margeNette !== undefined && entry?.margeNette !== null && !isNaN(Number(entry.margeNette))
+        ? Number(entry.margeNette)
+        : undefined,
+      hrCostsPercent: Number(entry?.chargesRH),
+    }))
+    .filter(year => [year.fiscalYear, year.annualRevenue, year.grossMarginPercent, year.hrCostsPercent].every(v => !isNaN(v)));
+  return years.length > 0 ? years : undefined;
+}
+
+/**
+ * Copy the values of the registry metrics found in an import payload
+ * over the defaults of the converted audit
+ */
+function withRegistryMetrics(result: Partial<AuditDataV2>, source: unknown): Partial<AuditDataV2> {
+  return getImportableMetrics().reduce((acc, metric) => {
+    const value = getNestedValue(source, metric.import.key);
+    if (value === undefined || value === null || isNaN(Number(value))) return acc;
+    return setFieldValue(acc as AuditDataV2, metric.path, Number(value));
+  }, result);
+}
+
+function convertToAuditDataV2(data: JsonImportData, sectorResult?: SectorValidationResult): Partial<AuditDataV2> {
   const safeNum = (val: unknown): number | undefined => {
     if (val === undefined || val === null) return undefined;
     const n = Number(val);
@@ -424,12 +482,12 @@ function convertToAuditDataV2(data: JsonImportData, canonicalSector?: AllowedSec
     return String(val ?? '');
   };
 
-  // Use validated sector or fallback
-  const sector = canonicalSector || 'autre';
-  
-  return {
+  return withRegistryMetrics({
     businessName: safeStr(data.meta?.companyName),
-    sector: SECTOR_LABELS[sector], // Use human-readable label
+    // Validated sector label (benchmark key) and variant, fallback sector otherwise
+    sector: sectorResult?.label ?? getSectorLabel(FALLBACK_SECTOR_ID),
+    variant: sectorResult?.variant,
+    region: findRegion(String(data.meta?.region ?? '')),
     auditDate: new Date().toISOString().split('T')[0],
     dataOrigin: 'client_declarative',
     finance: {
@@ -439,44 +497,37 @@ function convertToAuditDataV2(data: JsonImportData, canonicalSector?: AllowedSec
       cashRunwayMonths: undefined,
     },
     costs: {
-      hrCostsPercent: safeNum(data.costs?.chargesRH) ?? 50,
+      hrCostsPercent: 50,
       cogsPercent: safeNum(data.costs?.cogs),
       fixedCostsPercent: safeNum(data.costs?.chargesFixes),
     },
     ops: {
-      occupancyRatePercent: safeNum(data.operations?.tauxOccupation) ?? 80,
+      occupancyRatePercent: 80,
       productivity: {
         fte: safeNum(data.operations?.effectifETP) ?? 1,
         revenuePerFte: undefined,
       },
-      quality: data.operations?.qualiteRetours !== undefined ? {
-        returnRatePercent: safeNum(data.operations?.qualiteRetours),
-      } : undefined,
     },
-    hr: (data.rh?.absenteisme !== undefined || data.rh?.turnover !== undefined) ? {
-      absenteeismRatePercent: safeNum(data.rh?.absenteisme),
-      turnoverRatePercent: safeNum(data.rh?.turnover),
-    } : undefined,
     commercial: {
-      digitalizationPercent: safeNum(data.commercial?.digitalisation) ?? 50,
+      digitalizationPercent: 50,
       loyaltyPercent: undefined,
-      satisfaction: data.commercial?.satisfactionClient !== undefined ? {
-        csatPercent: safeNum(data.commercial?.satisfactionClient),
-      } : undefined,
     },
     nbServices: 1,
-  };
+    priorYears: convertPriorYears(data.historique),
+    scoringReference: typeof data.meta?.scoringModelVersion === 'string' && typeof data.meta?.benchmarkVersion === 'string' ? {
+      modelVersion: data.meta.scoringModelVersion,
+      benchmarkVersion: data.meta.benchmarkVersion,
+    } : undefined,
+  }, data);
 }
 
 // ============= Excel to AuditDataV2 Conversion =============
 
-export function convertExcelDataToAuditV2(data: Record<string, unknown>, canonicalSector?: AllowedSector): Partial<AuditDataV2> {
+export function convertExcelDataToAuditV2(data: Record<string, unknown>, sectorResult?: SectorValidationResult): Partial<AuditDataV2> {
   const meta = data.meta as Record<string, unknown> | undefined;
   const finance = data.finance as Record<string, unknown> | undefined;
   const costs = data.costs as Record<string, unknown> | undefined;
   const operations = data.operations as Record<string, unknown> | undefined;
-  const commercial = data.commercial as Record<string, unknown> | undefined;
-  const rh = data.rh as Record<string, unknown> | undefined;
   
   const safeNum = (val: unknown): number | undefined => {
     if (val === undefined || val === null) return undefined;
@@ -484,12 +535,12 @@ export function convertExcelDataToAuditV2(data: Record<string, unknown>, canonic
     return isNaN(n) ? undefined : n;
   };
 
-  // Use validated sector or fallback
-  const sector = canonicalSector || 'autre';
-  
-  return {
+  return withRegistryMetrics({
     businessName: String(meta?.companyName ?? ''),
-    sector: SECTOR_LABELS[sector], // Use human-readable label
+    // Validated sector label (benchmark key) and variant, fallback sector otherwise
+    sector: sectorResult?.label ?? getSectorLabel(FALLBACK_SECTOR_ID),
+    variant: sectorResult?.variant,
+    region: findRegion(String(meta?.region ?? '')),
     auditDate: new Date().toISOString().split('T')[0],
     dataOrigin: 'client_declarative',
     finance: {
@@ -499,33 +550,23 @@ export function convertExcelDataToAuditV2(data: Record<string, unknown>, canonic
       cashRunwayMonths: undefined,
     },
     costs: {
-      hrCostsPercent: safeNum(costs?.chargesRH) ?? 50,
+      hrCostsPercent: 50,
       cogsPercent: safeNum(costs?.cogs),
       fixedCostsPercent: safeNum(costs?.chargesFixes),
     },
     ops: {
-      occupancyRatePercent: safeNum(operations?.tauxOccupation) ?? 80,
+      occupancyRatePercent: 80,
       productivity: {
         fte: safeNum(operations?.effectifETP) ?? 1,
         revenuePerFte: undefined,
       },
-      quality: operations?.qualiteRetours !== undefined ? {
-        returnRatePercent: safeNum(operations?.qualiteRetours),
-      } : undefined,
     },
-    hr: (rh?.absenteisme !== undefined || rh?.turnover !== undefined) ? {
-      absenteeismRatePercent: safeNum(rh?.absenteisme),
-      turnoverRatePercent: safeNum(rh?.turnover),
-    } : undefined,
     commercial: {
-      digitalizationPercent: safeNum(commercial?.digitalisation) ?? 50,
+      digitalizationPercent: 50,
       loyaltyPercent: undefined,
-      satisfaction: commercial?.satisfactionClient !== undefined ? {
-        csatPercent: safeNum(commercial?.satisfactionClient),
-      } : undefined,
     },
     nbServices: 1,
-  };
+  }, data);
 }
 
 // ============= Validation for Excel Data =============
@@ -552,10 +593,18 @@ export function validateExcelData(excelResult: ExcelParseResult): ImportValidati
   
   // Sector validation
   const rawSector = getNestedValue(excelResult.data, 'meta.sector');
-  const sectorResult = validateAndMapSector(rawSector as string | undefined);
+  const rawVariant = getNestedValue(excelResult.data, 'meta.variant');
+  const sectorResult = validateAndMapSector(
+    rawSector as string | undefined,
+    rawVariant !== undefined ? String(rawVariant) : undefined
+  );
   if (sectorResult.warning) {
     warnings.push({ field: 'meta.sector', message: sectorResult.warning });
   }
+  if (sectorResult.variantWarning) {
+    warnings.push({ field: 'meta.variant', message: sectorResult.variantWarning });
+  }
+  checkRegion(getNestedValue(excelResult.data, 'meta.region'), warnings);
   
   // Business warnings
   const tresorerie = getNestedValue(excelResult.data, 'finance.tresorerie');
@@ -574,8 +623,9 @@ export function validateExcelData(excelResult: ExcelParseResult): ImportValidati
   }
   
   if (errors.length === 0) {
-    const parsedData = convertExcelDataToAuditV2(excelResult.data, sectorResult.canonicalSector);
-    return { isValid: true, errors, warnings, parsedData };
+    const parsedData = convertExcelDataToAuditV2(excelResult.data, sectorResult);
+    const variantSuggestion = applyVariantSuggestion(parsedData);
+    return { isValid: true, errors, warnings, parsedData, variantSuggestion };
   }
   
   return { isValid: false, errors, warnings, parsedData: null };
@@ -0,0 +1,647 @@
+/**
+ * Metric Registry
+ * Single declaration of every scored metric: where its value comes from, its
+ * unit, dimension, default weight and scoring curve. computeScoresV2, the
+ * default weight profile, the audit form and the import mappers all read it.
+ *
+ * Adding a metric (e.g. stock turnover) only takes a registerMetric() call:
+ * store its value under `customMetrics.<id>`, declare `form` to get an input
+ * in the audit form, `import` to read it from JSON / Excel imports and `lever`
+ * to have it moved by the sensitivity, target and uncertainty engines.
+ */
+
+import type { AuditDataV2, DimensionKey, MetricThresholds } from '@/types/audit';
+import type { TrendIndicators } from './trendAnalysis';
+
+// ============= Types =============
+
+export interface MetricCurve {
+  // Key of a sector benchmark in PARAM_SECTEUR and/or fixed thresholds (same unit as the raw value),
+  // the fixed thresholds apply when the sector variant has no value for the benchmark
+  thresholds?: MetricThresholds;
+  benchmark?: string;
+  direction: 'higher' | 'lower';
+  // Scores granted in the excellent / bon / crit bands
+  bandScores: [number, number, number];
+  belowCrit: (value: number, thresholds: MetricThresholds) => number;
+  // Lowest anchor used by the continuous mode (score reached at `value` and beyond)
+  floor: { value: number; score: number };
+  // Linear scale overriding the band scores (bands are still reported)
+  linear?: (value: number) => number;
+}
+
+// Values computed once per audit that derived metrics may depend on
+export interface MetricContext {
+  trends: TrendIndicators | null;
+  // Scores of the dimensions already computed (financier → operationnel → commercial → strategique)
+  dimensionScores: Partial<Record<DimensionKey, number>>;
+}
+
+// Sub-section of the advanced form holding the input ('Indicateurs complémentaires' when omitted)
+export type MetricFormSection = 'finance' | 'rh' | 'qualite' | 'satisfaction';
+
+export interface MetricFormSpec {
+  label: string;
+  section?: MetricFormSection;
+  min?: number;
+  max?: number;
+  step?: number;
+  placeholder?: string;
+}
+
+export interface MetricImportSpec {
+  key: string; // Path in the JSON payload, e.g. 'operations.rotationStocks'
+  synonyms?: string[]; // Excel field names mapped to this key
+}
+
+// Realistic move of the input, used by the sensitivity engine, the target solver
+// and the uncertainty bands
+export interface MetricLeverSpec {
+  step: number;
+  min: number;
+  max?: number;
+  integer?: boolean;
+  unit?: string; // Unit of a change, the metric unit by default ('pts' for percentages)
+  // Counted or derived from other inputs: no tolerance is sampled on it
+  noTolerance?: boolean;
+  // Input moved by a derived metric (e.g. CA/ETP moves the revenue at constant headcount)
+  input?: {
+    id: string;
+    get: (data: AuditDataV2) => number | undefined;
+    set: (data: AuditDataV2, value: number) => AuditDataV2;
+  };
+}
+
+export interface RegisteredMetric {
+  id: string;
+  label: string;
+  dimension: DimensionKey;
+  unit: string;
+  // Field path in AuditDataV2 (e.g. 'finance.netMarginPercent'), or `compute` for derived values
+  path?: string;
+  compute?: (data: AuditDataV2, context: MetricContext) => number | undefined;
+  // Metrics of a dimension sharing a weight key split its weight across those provided
+  weightKey?: string;
+  defaultWeight: number;
+  // Score counted when the value is missing but its parent group was entered (e.g. `hr`),
+  // as the historical quality and HR stability composites did
+  missingScore?: number;
+  curve: MetricCurve;
+  // Input rendered by the audit form (core inputs keep their dedicated controls)
+  form?: MetricFormSpec;
+  import?: MetricImportSpec;
+  lever?: MetricLeverSpec;
+}
+
+// ============= Field Paths =============
+
+export function getFieldValue(data: AuditDataV2, path: string): number | undefined {
+  const value = path.split('.').reduce<unknown>(
+    (current, part) => (current === undefined || current === null ? undefined : (current as Record<string, unknown>)[part]),
+    data
+  );
+  return typeof value === 'number' && !isNaN(value) ? value : undefined;
+}
+
+/**
+ * Immutable update of a field path, `undefined` removes the value
+ */
+export function setFieldValue(data: AuditDataV2, path: string, value: number | undefined): AuditDataV2 {
+  const update = (node: Record<string, unknown> | undefined, parts: string[]): Record<string, unknown> => {
+    const [head, ...rest] = parts;
+    const copy = { ...node };
+    if (rest.length === 0) {
+      if (value === undefined) {
+        delete copy[head];
+      } else {
+        copy[head] = value;
+      }
+    } else {
+      copy[head] = update(copy[head] as Record<string, unknown> | undefined, rest);
+    }
+    return copy;
+  };
+  return update(data as unknown as Record<string, unknown>, path.split('.')) as unknown as AuditDataV2;
+}
+
+/**
+ * Whether the object holding a field path was entered (e.g. `hr` for 'hr.turnoverRatePercent')
+ */
+export function hasFieldGroup(data: AuditDataV2, path: string): boolean {
+  const group = path.split('.').slice(0, -1).reduce<unknown>(
+    (current, part) => (current === undefined || current === null ? undefined : (current as Record<string, unknown>)[part]),
+    data
+  );
+  return typeof group === 'object' && group !== null;
+}
+
+// ============= Shared Curves =============
+
+const runwayCurve: MetricCurve = {
+  benchmark: 'runway',
+  thresholds: { crit: 3, bon: 6, excellent: 12 },
+  direction: 'higher',
+  bandScores: [100, 80, 50],
+  belowCrit: () => 20,
+  floor: { value: 0, score: 20 },
+};
+
+const caEtpCurve: MetricCurve = {
+  benchmark: 'ca_etp',
+  direction: 'higher',
+  bandScores: [100, 80, 50],
+  belowCrit: (v, t) => Math.max(0, (v / t.crit) * 50),
+  floor: { value: 0, score: 0 },
+};
+
+const marginDriftCurve: MetricCurve = {
+  thresholds: { crit: -1, bon: 0, excellent: 1 },
+  direction: 'higher',
+  bandScores: [100, 80, 50],
+  belowCrit: () => 20,
+  floor: { value: -5, score: 20 },
+};
+
+const caEtp = (d: AuditDataV2) => d.finance.annualRevenue / Math.max(d.ops.productivity.fte, 0.1);
+
+// ============= Registry =============
+
+// Order matters: it is the order of the metrics in each dimension breakdown
+const METRICS: RegisteredMetric[] = [
+  // ----- Financier -----
+  {
+    id: 'marge_brute',
+    label: 'Marge brute',
+    dimension: 'financier',
+    unit: '%',
+    path: 'finance.grossMarginPercent',
+    defaultWeight: 40,
+    lever: { step: 5, min: 0, max: 100 },
+    curve: {
+      benchmark: 'marge_brute',
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: (v) => Math.max(0, v * 0.9),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  {
+    id: 'ca_etp',
+    label: 'CA par ETP',
+    dimension: 'financier',
+    unit: '€',
+    compute: caEtp,
+    defaultWeight: 30,
+    lever: {
+      step: 10000,
+      min: 0,
+      noTolerance: true,
+      input: {
+        id: 'productivity.revenuePerFte',
+        get: caEtp,
+        set: (d, v) => ({ ...d, finance: { ...d.finance, annualRevenue: v * Math.max(d.ops.productivity.fte, 0.1) } }),
+      },
+    },
+    curve: caEtpCurve,
+  },
+  {
+    id: 'charges_rh',
+    label: 'Charges RH',
+    dimension: 'financier',
+    unit: '%',
+    path: 'costs.hrCostsPercent',
+    defaultWeight: 20,
+    import: { key: 'costs.chargesRH', synonyms: ['charges rh', 'chargesrh', 'charges rh pct', 'hr costs'] },
+    lever: { step: 5, min: 0, max: 100 },
+    curve: {
+      benchmark: 'charges_rh',
+      direction: 'lower',
+      bandScores: [100, 80, 50],
+      belowCrit: (v, t) => Math.max(0, 40 - (v - t.crit)),
+      floor: { value: 100, score: 0 },
+    },
+  },
+  {
+    id: 'marge_nette',
+    label: 'Marge nette',
+    dimension: 'financier',
+    unit: '%',
+    path: 'finance.netMarginPercent',
+    defaultWeight: 5,
+    form: { label: 'Marge nette (%)', section: 'finance', min: -50, max: 100, placeholder: 'ex: 12' },
+    lever: { step: 2, min: -50, max: 100 },
+    curve: {
+      benchmark: 'marge_nette',
+      thresholds: { crit: 5, bon: 10, excellent: 15 },
+      direction: 'higher',
+      bandScores: [100, 80, 60],
+      belowCrit: (v) => v >= 0 ? 40 : 20,
+      floor: { value: -10, score: 20 },
+    },
+  },
+  {
+    id: 'runway',
+    label: 'Trésorerie (runway)',
+    dimension: 'financier',
+    unit: 'mois',
+    path: 'finance.cashRunwayMonths',
+    defaultWeight: 5,
+    form: { label: 'Trésorerie / Runway (mois)', section: 'finance', min: 0, placeholder: 'ex: 6' },
+    lever: { step: 2, min: 0, max: 36 },
+    curve: runwayCurve,
+  },
+  {
+    id: 'tendance_marge',
+    label: 'Évolution marge brute',
+    dimension: 'financier',
+    unit: 'pts/an',
+    compute: (_, ctx) => ctx.trends?.grossMarginDriftPts,
+    weightKey: 'tendance',
+    defaultWeight: 10,
+    curve: marginDriftCurve,
+  },
+  {
+    id: 'tendance_marge_nette',
+    label: 'Évolution marge nette',
+    dimension: 'financier',
+    unit: 'pts/an',
+    compute: (_, ctx) => ctx.trends?.netMarginDriftPts,
+    weightKey: 'tendance',
+    defaultWeight: 10,
+    curve: marginDriftCurve,
+  },
+  {
+    id: 'tendance_rh',
+    label: 'Dérive charges RH',
+    dimension: 'financier',
+    unit: 'pts/an',
+    compute: (_, ctx) => ctx.trends?.hrCostDriftPts,
+    weightKey: 'tendance',
+    defaultWeight: 10,
+    curve: {
+      thresholds: { crit: 1.5, bon: 0.5, excellent: 0 },
+      direction: 'lower',
+      bandScores: [100, 80, 50],
+      belowCrit: () => 20,
+      floor: { value: 5, score: 20 },
+    },
+  },
+
+  // ----- Opérationnel -----
+  {
+    id: 'occupation',
+    label: 'Taux d\'occupation',
+    dimension: 'operationnel',
+    unit: '%',
+    path: 'ops.occupancyRatePercent',
+    defaultWeight: 60,
+    import: { key: 'operations.tauxOccupation', synonyms: ['taux doccupation', 'taux occupation', 'occupation', 'occupancy'] },
+    lever: { step: 5, min: 0, max: 100 },
+    curve: {
+      benchmark: 'occupation',
+      thresholds: { crit: 75, bon: 85, excellent: 95 },
+      direction: 'higher',
+      bandScores: [100, 80, 60],
+      belowCrit: (v) => v >= 60 ? 40 : Math.max(0, (v / 100) * 66),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  {
+    id: 'ca_etp',
+    label: 'Productivité (CA/ETP)',
+    dimension: 'operationnel',
+    unit: '€',
+    compute: caEtp,
+    defaultWeight: 25,
+    curve: caEtpCurve,
+  },
+  {
+    id: 'taux_retour',
+    label: 'Taux de retours/erreurs',
+    dimension: 'operationnel',
+    unit: '%',
+    path: 'ops.quality.returnRatePercent',
+    weightKey: 'qualite',
+    defaultWeight: 15,
+    missingScore: 100,
+    form: { label: 'Taux de retours/erreurs (%)', section: 'qualite', min: 0, max: 100, placeholder: 'ex: 3' },
+    import: { key: 'operations.qualiteRetours', synonyms: ['qualite retours', 'taux retour', 'retours'] },
+    lever: { step: 2, min: 0, max: 100 },
+    curve: {
+      benchmark: 'taux_retour',
+      thresholds: { crit: 10, bon: 5, excellent: 2 },
+      direction: 'lower',
+      bandScores: [100, 80, 50],
+      belowCrit: () => 20,
+      floor: { value: 25, score: 20 },
+    },
+  },
+  {
+    id: 'incidents',
+    label: 'Incidents par mois',
+    dimension: 'operationnel',
+    unit: '/mois',
+    path: 'ops.quality.incidentsPerMonth',
+    weightKey: 'qualite',
+    defaultWeight: 15,
+    form: { label: 'Incidents par mois', section: 'qualite', min: 0, placeholder: 'ex: 2' },
+    lever: { step: 1, min: 0, integer: true },
+    curve: {
+      benchmark: 'incidents',
+      thresholds: { crit: 5, bon: 3, excellent: 1 },
+      direction: 'lower',
+      bandScores: [100, 70, 50],
+      belowCrit: () => 20,
+      floor: { value: 10, score: 20 },
+    },
+  },
+
+  // ----- Commercial -----
+  {
+    id: 'digital_pct',
+    label: 'Digitalisation',
+    dimension: 'commercial',
+    unit: '%',
+    path: 'commercial.digitalizationPercent',
+    defaultWeight: 45,
+    import: { key: 'commercial.digitalisation', synonyms: ['digitalisation', 'digital', 'digital pct'] },
+    lever: { step: 10, min: 0, max: 100 },
+    curve: {
+      benchmark: 'digital_pct',
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: (v) => Math.max(0, v * 1.5),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  {
+    id: 'fidelisation',
+    label: 'Fidélisation',
+    dimension: 'commercial',
+    unit: '%',
+    path: 'commercial.loyaltyPercent',
+    defaultWeight: 35,
+    lever: { step: 5, min: 0, max: 100 },
+    curve: {
+      benchmark: 'fidelisation',
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: (v) => Math.max(0, v * 0.8),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  {
+    id: 'csat',
+    label: 'Satisfaction (CSAT)',
+    dimension: 'commercial',
+    unit: '%',
+    path: 'commercial.satisfaction.csatPercent',
+    defaultWeight: 10,
+    form: { label: 'CSAT (%)', section: 'satisfaction', min: 0, max: 100, placeholder: 'ex: 85' },
+    import: { key: 'commercial.satisfactionClient', synonyms: ['satisfaction client', 'nps', 'satisfaction', 'csat'] },
+    lever: { step: 5, min: 0, max: 100 },
+    curve: {
+      benchmark: 'csat',
+      thresholds: { crit: 70, bon: 80, excellent: 90 },
+      direction: 'higher',
+      bandScores: [100, 80, 60],
+      belowCrit: (v) => Math.max(0, v * 0.8),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  {
+    id: 'nps',
+    label: 'NPS',
+    dimension: 'commercial',
+    unit: 'pts',
+    path: 'commercial.satisfaction.nps',
+    defaultWeight: 10,
+    form: { label: 'NPS (-100 à 100)', section: 'satisfaction', min: -100, max: 100, placeholder: 'ex: 42' },
+    lever: { step: 10, min: -100, max: 100 },
+    curve: {
+      benchmark: 'nps',
+      thresholds: { crit: 0, bon: 30, excellent: 50 },
+      direction: 'higher',
+      bandScores: [100, 80, 60],
+      belowCrit: (v) => v >= -20 ? 40 : 20,
+      floor: { value: -100, score: 20 },
+    },
+  },
+
+  // ----- Stratégique / Risque -----
+  {
+    id: 'nb_services',
+    label: 'Nombre de services',
+    dimension: 'strategique',
+    unit: 'services',
+    compute: (d) => d.nbServices ?? 1,
+    defaultWeight: 40,
+    lever: {
+      step: 1,
+      min: 1,
+      max: 20,
+      integer: true,
+      noTolerance: true,
+      input: { id: 'nbServices', get: (d) => d.nbServices ?? 1, set: (d, v) => ({ ...d, nbServices: v }) },
+    },
+    curve: {
+      thresholds: { crit: 1, bon: 4, excellent: 6 },
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: () => 40,
+      floor: { value: 0, score: 40 },
+      linear: (v) => Math.min(100, Math.max(0, 40 + v * 10)),
+    },
+  },
+  {
+    id: 'runway_risk',
+    label: 'Risque de trésorerie',
+    dimension: 'strategique',
+    unit: 'mois',
+    path: 'finance.cashRunwayMonths',
+    defaultWeight: 20,
+    curve: runwayCurve,
+  },
+  {
+    id: 'turnover',
+    label: 'Turnover',
+    dimension: 'strategique',
+    unit: '%',
+    path: 'hr.turnoverRatePercent',
+    weightKey: 'stabilite_rh',
+    defaultWeight: 20,
+    missingScore: 100,
+    form: { label: 'Turnover (%)', section: 'rh', min: 0, max: 100, placeholder: 'ex: 15' },
+    import: { key: 'rh.turnover', synonyms: ['turnover', 'rotation personnel', 'rotation'] },
+    lever: { step: 5, min: 0, max: 100 },
+    curve: {
+      benchmark: 'turnover',
+      thresholds: { crit: 40, bon: 25, excellent: 15 },
+      direction: 'lower',
+      bandScores: [100, 70, 50],
+      belowCrit: () => 20,
+      floor: { value: 60, score: 20 },
+    },
+  },
+  {
+    id: 'absenteisme',
+    label: 'Absentéisme',
+    dimension: 'strategique',
+    unit: '%',
+    path: 'hr.absenteeismRatePercent',
+    weightKey: 'stabilite_rh',
+    defaultWeight: 20,
+    form: { label: 'Absentéisme (%)', section: 'rh', min: 0, max: 100, placeholder: 'ex: 5' },
+    import: { key: 'rh.absenteisme', synonyms: ['absenteisme', 'absenteeism', 'absences'] },
+    lever: { step: 2, min: 0, max: 100 },
+    curve: {
+      benchmark: 'absenteisme',
+      thresholds: { crit: 15, bon: 10, excellent: 5 },
+      direction: 'lower',
+      bandScores: [100, 80, 50],
+      belowCrit: () => 20,
+      floor: { value: 25, score: 20 },
+    },
+  },
+  {
+    id: 'croissance_ca',
+    label: 'Croissance du CA',
+    dimension: 'strategique',
+    unit: '%/an',
+    compute: (_, ctx) => ctx.trends?.revenueGrowthPercent,
+    defaultWeight: 15,
+    curve: {
+      thresholds: { crit: 0, bon: 3, excellent: 8 },
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: (v) => v >= -5 ? 35 : 20,
+      floor: { value: -10, score: 20 },
+    },
+  },
+  {
+    // Spread between the financial, operational and commercial scores
+    id: 'equilibre',
+    label: 'Équilibre des dimensions (écart)',
+    dimension: 'strategique',
+    unit: 'pts',
+    compute: (_, ctx) => {
+      const scores = [ctx.dimensionScores.financier, ctx.dimensionScores.operationnel, ctx.dimensionScores.commercial];
+      return Math.max(...scores) - Math.min(...scores);
+    },
+    defaultWeight: 20,
+    curve: {
+      thresholds: { crit: 40, bon: 30, excellent: 20 },
+      direction: 'lower',
+      bandScores: [100, 85, 70],
+      belowCrit: () => 50,
+      floor: { value: 60, score: 50 },
+    },
+  },
+];
+
+// ============= Access =============
+
+export function getRegisteredMetrics(dimension?: DimensionKey): RegisteredMetric[] {
+  return dimension ? METRICS.filter(metric => metric.dimension === dimension) : [...METRICS];
+}
+
+export function getMetricWeightKey(metric: RegisteredMetric): string {
+  return metric.weightKey ?? metric.id;
+}
+
+/**
+ * Add a metric to the registry; it is scored as soon as the audit carries a value for it
+ * A new metric is appended to its dimension, after the built-in ones
+ */
+export function registerMetric(metric: RegisteredMetric): void {
+  if (METRICS.some(m => m.dimension === metric.dimension && m.id === metric.id)) {
+    throw new Error(`Indicateur '${metric.id}' déjà enregistré pour la dimension '${metric.dimension}'`);
+  }
+  if (!metric.path && !metric.compute) {
+    throw new Error(`Indicateur '${metric.id}' : 'path' ou 'compute' requis`);
+  }
+  METRICS.push(metric);
+}
+
+/**
+ * Default metric weights by dimension, keyed by weight key
+ */
+export function getDefaultMetricWeights(): Record<DimensionKey, Record<string, number>> {
+  const weights: Record<DimensionKey, Record<string, number>> = {
+    financier: {},
+    operationnel: {},
+    commercial: {},
+    strategique: {},
+  };
+  METRICS.forEach(metric => {
+    weights[metric.dimension][getMetricWeightKey(metric)] = metric.defaultWeight;
+  });
+  return weights;
+}
+
+// A field scored in several dimensions is entered, imported or moved once
+function uniqueBy<T>(metrics: T[], key: (metric: T) => string): T[] {
+  const seen = new Set<string>();
+  return metrics.filter(metric => {
+    if (seen.has(key(metric))) return false;
+    seen.add(key(metric));
+    return true;
+  });
+}
+
+/**
+ * Metrics whose input is rendered by the audit form, optionally of one form section
+ * (`null` for the metrics without section)
+ */
+export function getFormMetrics(section?: MetricFormSection | null): (RegisteredMetric & { path: string; form: MetricFormSpec })[] {
+  const metrics = METRICS.filter((metric): metric is RegisteredMetric & { path: string; form: MetricFormSpec } =>
+    Boolean(metric.form && metric.path)
+  );
+  return uniqueBy(metrics, metric => metric.path)
+    .filter(metric => section === undefined || (metric.form.section ?? null) === section);
+}
+
+/**
+ * Metrics read from JSON / Excel import payloads
+ */
+export function getImportableMetrics(): (RegisteredMetric & { path: string; import: MetricImportSpec })[] {
+  const metrics = METRICS.filter((metric): metric is RegisteredMetric & { path: string; import: MetricImportSpec } =>
+    Boolean(metric.import && metric.path)
+  );
+  return uniqueBy(metrics, metric => metric.path);
+}
+
+/**
+ * Metrics that can be moved by the sensitivity engine, the target solver and the uncertainty bands
+ */
+export function getLeverMetrics(): (RegisteredMetric & { lever: MetricLeverSpec })[] {
+  const metrics = METRICS.filter((metric): metric is RegisteredMetric & { lever: MetricLeverSpec } =>
+    Boolean(metric.lever && (metric.path || metric.lever.input))
+  );
+  return uniqueBy(metrics, metric => metric.lever.input?.id ?? (metric.path as string));
+}
+
+export interface MetricValue {
+  id: string;
+  label: string;
+  value: number;
+  unit: string;
+}
+
+/**
+ * Values entered for the registry metrics read from a field, in registry order (report payloads)
+ */
+export function getEnteredMetricValues(data: AuditDataV2): MetricValue[] {
+  const metrics = METRICS.filter((metric): metric is RegisteredMetric & { path: string } => Boolean(metric.path));
+  return uniqueBy(metrics, metric => metric.path).flatMap(metric => {
+    const value = getFieldValue(data, metric.path);
+    return value === undefined ? [] : [{ id: metric.id, label: metric.label, value, unit: metric.unit }];
+  });
+}
+
+/**
+ * Raw value of a metric for an audit, undefined when not provided
+ */
+export function getMetricValue(metric: RegisteredMetric, data: AuditDataV2, context: MetricContext): number | undefined {
+  return metric.compute ? metric.compute(data, context) : getFieldValue(data, metric.path as string);
+}
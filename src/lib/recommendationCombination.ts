@@ -0,0 +1,98 @@
+/**
+ * Recommendation Combination
+ * Quantified recommendations are estimated one by one, their gains overlap when
+ * levers act on the same driver (occupancy and productivity both fill the
+ * agenda) or on the same P&L line. The combined impact of a selection deducts
+ * the share of each gain already captured by a larger lever. Revenue, margin,
+ * costs and one-off cash are not the same money: they are totalled apart.
+ */
+
+import type { ImpactType, QuantifiedRecommendation } from '@/types/audit';
+
+// ============= Types =============
+
+export interface RecommendationOverlap {
+  first: string; // ruleId of the larger lever
+  second: string;
+  coefficient: number; // Share of the second gain already captured by the first one
+  reason: 'driver' | 'line';
+  drivers: string[]; // Shared drivers, empty for a P&L line overlap
+}
+
+export interface ImpactTotal {
+  impactType: ImpactType;
+  additiveMin: number;
+  additiveMax: number;
+  combinedMin: number;
+  combinedMax: number;
+}
+
+export interface CombinedImpact {
+  totals: ImpactTotal[]; // One per impact type of the selection, in IMPACT_TYPE_ORDER
+  overlaps: RecommendationOverlap[];
+}
+
+// ============= Constants =============
+
+// Share of a gain already captured by a lever acting on the same driver
+const SHARED_DRIVER_OVERLAP = 0.6;
+// Share of a gain already captured by a lever acting on the same P&L line through another driver
+const SAME_LINE_OVERLAP = 0.25;
+
+const IMPACT_TYPE_ORDER: ImpactType[] = ['CA', 'MARGE', 'COÛTS', 'TRÉSORERIE'];
+
+// ============= Combination =============
+
+/**
+ * Overlap of a lever with a larger one, null when they are independent
+ */
+export function getRecommendationOverlap(
+  first: QuantifiedRecommendation,
+  second: QuantifiedRecommendation
+): RecommendationOverlap | null {
+  const shared = first.drivers.filter(driver => second.drivers.includes(driver));
+  if (shared.length > 0) {
+    return { first: first.ruleId, second: second.ruleId, coefficient: SHARED_DRIVER_OVERLAP, reason: 'driver', drivers: shared };
+  }
+  if (first.impactType === second.impactType) {
+    return { first: first.ruleId, second: second.ruleId, coefficient: SAME_LINE_OVERLAP, reason: 'line', drivers: [] };
+  }
+  return null;
+}
+
+/**
+ * Additive and combined impact of a set of levers, per impact type
+ * Levers are taken by decreasing max impact, each one keeps the share of its gain
+ * no larger lever already captures: impact × Π(1 − overlap). A shared driver
+ * overlaps across types, the kept share is added to the lever's own type
+ */
+export function combineRecommendations(recommendations: QuantifiedRecommendation[]): CombinedImpact {
+  const ordered = [...recommendations].sort((a, b) => b.estimatedImpactMax - a.estimatedImpactMax);
+  const overlaps: RecommendationOverlap[] = [];
+  const totals = new Map<ImpactType, ImpactTotal>();
+
+  ordered.forEach((rec, index) => {
+    let remaining = 1;
+    ordered.slice(0, index).forEach(larger => {
+      const overlap = getRecommendationOverlap(larger, rec);
+      if (overlap) {
+        overlaps.push(overlap);
+        remaining *= 1 - overlap.coefficient;
+      }
+    });
+    const total = totals.get(rec.impactType)
+      ?? { impactType: rec.impactType, additiveMin: 0, additiveMax: 0, combinedMin: 0, combinedMax: 0 };
+    total.additiveMin += rec.estimatedImpactMin;
+    total.additiveMax += rec.estimatedImpactMax;
+    total.combinedMin += rec.estimatedImpactMin * remaining;
+    total.combinedMax += rec.estimatedImpactMax * remaining;
+    totals.set(rec.impactType, total);
+  });
+
+  return {
+    totals: IMPACT_TYPE_ORDER
+      .flatMap(type => totals.get(type) ?? [])
+      .map(total => ({ ...total, combinedMin: Math.round(total.combinedMin), combinedMax: Math.round(total.combinedMax) })),
+    overlaps,
+  };
+}
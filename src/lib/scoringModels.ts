@@ -0,0 +1,190 @@
+/**
+ * Scoring Model Registry
+ * Every released scoring model stays registered so that a stored audit can be
+ * re-scored with the model and benchmark table it was originally scored with,
+ * and compared with the current ones.
+ */
+
+import type { AuditData, DimensionKey, MetricThresholds, Scores, ScoringMode, ScoringReference } from '@/types/audit';
+import { CURRENT_BENCHMARK_VERSION } from './benchmarks';
+import { PARAM_SECTEUR_V2_2 } from './benchmarkHistory';
+import { computeScoresV2, DIMENSION_LABELS, SCORING_MODEL_VERSION } from './scoringV2';
+import { computeScoresV2_0, SCORING_MODEL_V2_0, SCORING_MODEL_V2_0_BENCHMARKS } from './scoringV2_0';
+import { computeScoresV2_1, SCORING_MODEL_V2_1, SCORING_MODEL_V2_1_BENCHMARKS } from './scoringV2_1';
+
+// ============= Types =============
+
+export interface ScoringModel {
+  version: string;
+  releaseDate: string;
+  description: string;
+  defaultBenchmarkVersion: string;
+  supportsContinuousMode: boolean;
+  compute: (data: AuditData, benchmarkVersion: string, mode: ScoringMode) => Scores;
+}
+
+export interface DimensionScoreDiff {
+  dimension: DimensionKey;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+  weightBefore?: number;
+  weightAfter?: number;
+}
+
+export interface MetricScoreDiff {
+  dimension: DimensionKey;
+  id: string;
+  label: string;
+  scoreBefore?: number; // undefined when the metric is not scored by the reference model
+  scoreAfter?: number;
+  weightBefore?: number;
+  weightAfter?: number;
+  thresholdsBefore?: MetricThresholds;
+  thresholdsAfter?: MetricThresholds;
+  thresholdsChanged: boolean;
+}
+
+export interface ScoreDiff {
+  before: ScoringReference;
+  after: ScoringReference;
+  global: { before: number; after: number; delta: number };
+  dimensions: DimensionScoreDiff[];
+  metrics: MetricScoreDiff[]; // Only metrics whose score, weight or thresholds moved
+  metricDetailAvailable: boolean; // false when one side has no per-metric breakdown
+}
+
+// ============= Registry =============
+
+export const CURRENT_SCORING_MODEL = SCORING_MODEL_VERSION;
+
+// Models 2.1 and 2.2 were both released while benchmark table 2.2 was in force
+const SCORING_MODEL_V2_2_RELEASE_DATE = PARAM_SECTEUR_V2_2.last_update;
+
+export const SCORING_MODELS: Record<string, ScoringModel> = {
+  [SCORING_MODEL_V2_0]: {
+    version: SCORING_MODEL_V2_0,
+    releaseDate: '2026-01-15',
+    description: 'Modèle V2 initial : notes par paliers, pondérations uniques',
+    defaultBenchmarkVersion: SCORING_MODEL_V2_0_BENCHMARKS,
+    supportsContinuousMode: false,
+    compute: (data, benchmarkVersion) => computeScoresV2_0(data, benchmarkVersion),
+  },
+  [SCORING_MODEL_V2_1]: {
+    version: SCORING_MODEL_V2_1,
+    releaseDate: SCORING_MODEL_V2_2_RELEASE_DATE,
+    description: 'Détail par indicateur, notation continue, pondérations sectorielles',
+    defaultBenchmarkVersion: SCORING_MODEL_V2_1_BENCHMARKS,
+    supportsContinuousMode: true,
+    compute: (data, benchmarkVersion, mode) => computeScoresV2_1(data, benchmarkVersion, mode),
+  },
+  [SCORING_MODEL_VERSION]: {
+    version: SCORING_MODEL_VERSION,
+    releaseDate: SCORING_MODEL_V2_2_RELEASE_DATE,
+    description: 'Tendances pluriannuelles : croissance du CA, évolution des marges et des charges RH',
+    defaultBenchmarkVersion: CURRENT_BENCHMARK_VERSION,
+    supportsContinuousMode: true,
+    compute: (data, benchmarkVersion, mode) => computeScoresV2(data, { mode, benchmarkVersion }),
+  },
+};
+
+export function getScoringModels(): ScoringModel[] {
+  return Object.values(SCORING_MODELS);
+}
+
+export function getScoringModel(version: string): ScoringModel {
+  if (!(version in SCORING_MODELS)) {
+    throw new Error(`Modèle de scoring '${version}' inconnu`);
+  }
+  return SCORING_MODELS[version];
+}
+
+/**
+ * Re-score an audit with a given model and benchmark table
+ * Defaults to the current model and to the benchmark table the model was released with
+ */
+export function rescoreAudit(
+  data: AuditData,
+  reference: Partial<ScoringReference> = {},
+  mode: ScoringMode = 'step'
+): Scores {
+  const model = getScoringModel(reference.modelVersion ?? CURRENT_SCORING_MODEL);
+  const benchmarkVersion = reference.benchmarkVersion ?? model.defaultBenchmarkVersion;
+  return model.compute(data, benchmarkVersion, model.supportsContinuousMode ? mode : 'step');
+}
+
+// ============= Diff =============
+
+const DIMENSIONS: DimensionKey[] = ['financier', 'operationnel', 'commercial', 'strategique'];
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function sameThresholds(a?: MetricThresholds, b?: MetricThresholds): boolean {
+  if (!a || !b) return a === b;
+  return a.crit === b.crit && a.bon === b.bon && a.excellent === b.excellent;
+}
+
+function toReference(scores: Scores): ScoringReference {
+  return {
+    modelVersion: scores.modelVersion ?? SCORING_MODEL_V2_0,
+    benchmarkVersion: scores.benchmarkVersion ?? SCORING_MODEL_V2_0_BENCHMARKS,
+  };
+}
+
+/**
+ * Explain how scores moved between two scorings of the same audit
+ */
+export function diffScores(before: Scores, after: Scores): ScoreDiff {
+  const dimensions: DimensionScoreDiff[] = DIMENSIONS.map(dimension => ({
+    dimension,
+    label: DIMENSION_LABELS[dimension],
+    before: before[dimension],
+    after: after[dimension],
+    delta: round1(after[dimension] - before[dimension]),
+    weightBefore: before.breakdown?.dimensions[dimension].globalWeight,
+    weightAfter: after.breakdown?.dimensions[dimension].globalWeight,
+  }));
+
+  const metrics: MetricScoreDiff[] = [];
+  const metricDetailAvailable = !!before.breakdown && !!after.breakdown;
+  if (metricDetailAvailable) {
+    DIMENSIONS.forEach(dimension => {
+      const beforeMetrics = before.breakdown.dimensions[dimension].metrics;
+      const afterMetrics = after.breakdown.dimensions[dimension].metrics;
+      const ids = [...new Set([...beforeMetrics, ...afterMetrics].map(m => m.id))];
+
+      ids.forEach(id => {
+        const b = beforeMetrics.find(m => m.id === id);
+        const a = afterMetrics.find(m => m.id === id);
+        const thresholdsChanged = !!a && !!b && !sameThresholds(b.thresholds, a.thresholds);
+        const moved = b?.score !== a?.score || b?.effectiveWeight !== a?.effectiveWeight || thresholdsChanged;
+        if (!moved) return;
+
+        metrics.push({
+          dimension,
+          id,
+          label: (a ?? b).label,
+          scoreBefore: b?.score,
+          scoreAfter: a?.score,
+          weightBefore: b?.effectiveWeight,
+          weightAfter: a?.effectiveWeight,
+          thresholdsBefore: b?.thresholds,
+          thresholdsAfter: a?.thresholds,
+          thresholdsChanged,
+        });
+      });
+    });
+  }
+
+  return {
+    before: toReference(before),
+    after: toReference(after),
+    global: { before: before.global, after: after.global, delta: round1(after.global - before.global) },
+    dimensions,
+    metrics,
+    metricDetailAvailable,
+  };
+}
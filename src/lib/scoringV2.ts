@@ -1,6 +1,30 @@
-import { getBenchmarks } from './benchmarks';
-import type { AuditData, AuditDataV2, Scores, ScoreLevel } from '@/types/audit';
-import { normalizeToV2, isAuditDataV2 } from '@/types/audit';
+import { resolveBenchmarks, getWeightProfile, getActiveBenchmarkVersion, MetricDefinition } from './benchmarks';
+import type {
+  AuditData,
+  AuditDataV2,
+  Scores,
+  ScoreLevel,
+  ScoreBand,
+  DimensionKey,
+  DimensionBreakdown,
+  MetricScoreDetail,
+  MetricThresholds,
+  ScoringMode,
+} from '@/types/audit';
+import { normalizeToV2 } from '@/types/audit';
+import { computeTrendIndicators } from './trendAnalysis';
+import {
+  getMetricValue,
+  hasFieldGroup,
+  getMetricWeightKey,
+  getRegisteredMetrics,
+  MetricContext,
+  MetricCurve,
+  RegisteredMetric,
+} from './metricRegistry';
+
+// Bump whenever a change to this file can move a score for the same input
+export const SCORING_MODEL_VERSION = '2.2';
 
 export function getScoreLevel(score: number): ScoreLevel {
   if (score >= 80) return { level: 'excellent', label: 'Excellent' };
@@ -9,277 +33,317 @@ export function getScoreLevel(score: number): ScoreLevel {
   return { level: 'danger', label: 'Critique' };
 }
 
+export const DIMENSION_LABELS: Record<DimensionKey, string> = {
+  financier: 'Financier',
+  operationnel: 'Opérationnel',
+  commercial: 'Commercial',
+  strategique: 'Stratégique',
+};
+
+const DIMENSION_ORDER: DimensionKey[] = ['financier', 'operationnel', 'commercial', 'strategique'];
+
+export const SCORING_MODE_LABELS: Record<ScoringMode, string> = {
+  step: 'Paliers',
+  continuous: 'Continue (interpolée)',
+};
+
+export const SCORE_BAND_LABELS: Record<ScoreBand, string> = {
+  excellent: 'Excellent',
+  bon: 'Bon',
+  crit: 'Seuil critique',
+  sous_crit: 'Sous le seuil critique',
+};
+
 interface ScoreContribution {
+  id: string;
+  label: string;
+  rawValue?: number; // Undefined when scored at the metric's missingScore
+  unit: string;
+  direction: 'higher' | 'lower';
+  thresholds?: MetricThresholds;
+  band: ScoreBand;
   score: number;
   weight: number;
 }
 
+// A registry curve with its thresholds resolved (sector benchmark or fixed)
+interface StepScoring extends MetricCurve {
+  thresholds: MetricThresholds;
+}
+
 /**
- * Compute V2 scores with support for optional fields
- * Redistributes weights when optional fields are missing
+ * Locate a value in its threshold bands
  */
-export function computeScoresV2(data: AuditData): Scores {
-  const v2 = normalizeToV2(data);
-  const benchmarks = getBenchmarks(v2.sector, v2.variant);
+export function getScoreBand(value: number, thresholds: MetricThresholds, direction: 'higher' | 'lower'): ScoreBand {
+  const reached = (limit: number) => direction === 'higher' ? value >= limit : value <= limit;
+  if (reached(thresholds.excellent)) return 'excellent';
+  if (reached(thresholds.bon)) return 'bon';
+  if (reached(thresholds.crit)) return 'crit';
+  return 'sous_crit';
+}
 
-  // =====================
-  // FINANCIER (35% base weight)
-  // =====================
-  const financierContributions: ScoreContribution[] = [];
-  
-  // Marge brute (mandatory) - base weight 40%
-  const mbRatio = v2.finance.grossMarginPercent / 100;
-  let mbScore = 0;
-  if (mbRatio >= benchmarks.marge_brute.thresholds.excellent) {
-    mbScore = 100;
-  } else if (mbRatio >= benchmarks.marge_brute.thresholds.bon) {
-    mbScore = 80;
-  } else if (mbRatio >= benchmarks.marge_brute.thresholds.crit) {
-    mbScore = 50;
-  } else {
-    mbScore = Math.max(0, mbRatio * 100 * 0.9);
-  }
-  financierContributions.push({ score: mbScore, weight: 40 });
-
-  // CA/ETP (computed) - base weight 30%
-  const caEtp = v2.finance.annualRevenue / Math.max(v2.ops.productivity.fte, 0.1);
-  let caEtpScore = 0;
-  if (caEtp >= benchmarks.ca_etp.thresholds.excellent) {
-    caEtpScore = 100;
-  } else if (caEtp >= benchmarks.ca_etp.thresholds.bon) {
-    caEtpScore = 80;
-  } else if (caEtp >= benchmarks.ca_etp.thresholds.crit) {
-    caEtpScore = 50;
-  } else {
-    caEtpScore = Math.max(0, (caEtp / benchmarks.ca_etp.thresholds.crit) * 50);
-  }
-  financierContributions.push({ score: caEtpScore, weight: 30 });
-
-  // Charges RH (mandatory) - base weight 20%
-  const rhRatio = v2.costs.hrCostsPercent / 100;
-  let rhScore = 0;
-  if (rhRatio <= benchmarks.charges_rh.thresholds.excellent) {
-    rhScore = 100;
-  } else if (rhRatio <= benchmarks.charges_rh.thresholds.bon) {
-    rhScore = 80;
-  } else if (rhRatio <= benchmarks.charges_rh.thresholds.crit) {
-    rhScore = 50;
-  } else {
-    rhScore = Math.max(0, 40 - (rhRatio - benchmarks.charges_rh.thresholds.crit) * 100);
+// Optional inputs whose absence lowers the global score and the data confidence
+export const OPTIONAL_FIELDS: { label: string; get: (data: AuditDataV2) => number | undefined }[] = [
+  { label: 'Marge nette', get: (d) => d.finance.netMarginPercent },
+  { label: 'Trésorerie (runway)', get: (d) => d.finance.cashRunwayMonths },
+  { label: 'COGS', get: (d) => d.costs.cogsPercent },
+  { label: 'Charges fixes', get: (d) => d.costs.fixedCostsPercent },
+  { label: 'Absentéisme', get: (d) => d.hr?.absenteeismRatePercent },
+  { label: 'Turnover', get: (d) => d.hr?.turnoverRatePercent },
+  { label: 'Taux de retours', get: (d) => d.ops.quality?.returnRatePercent },
+  { label: 'CSAT', get: (d) => d.commercial.satisfaction?.csatPercent },
+  { label: 'NPS', get: (d) => d.commercial.satisfaction?.nps },
+];
+
+export function getMissingOptionalFields(data: AuditDataV2): string[] {
+  return OPTIONAL_FIELDS.filter(field => field.get(data) === undefined).map(field => field.label);
+}
+
+export interface ScoringOptions {
+  // 'step' reproduces the historical threshold scores, 'continuous' interpolates between thresholds
+  mode?: ScoringMode;
+  // Benchmark table to score against (current table when omitted)
+  benchmarkVersion?: string;
+  // Score prior-year trends when the audit has some; false reproduces model 2.1
+  trends?: boolean;
+}
+
+function scoreBySteps(value: number, scoring: StepScoring): { score: number; band: ScoreBand } {
+  const band = getScoreBand(value, scoring.thresholds, scoring.direction);
+  if (scoring.linear) {
+    return { score: scoring.linear(value), band };
   }
-  financierContributions.push({ score: rhScore, weight: 20 });
-
-  // Marge nette (optional) - weight 5% if present
-  if (v2.finance.netMarginPercent !== undefined) {
-    let netScore = 0;
-    if (v2.finance.netMarginPercent >= 15) netScore = 100;
-    else if (v2.finance.netMarginPercent >= 10) netScore = 80;
-    else if (v2.finance.netMarginPercent >= 5) netScore = 60;
-    else if (v2.finance.netMarginPercent >= 0) netScore = 40;
-    else netScore = 20;
-    financierContributions.push({ score: netScore, weight: 5 });
+  const [excellent, bon, crit] = scoring.bandScores;
+  switch (band) {
+    case 'excellent':
+      return { score: excellent, band };
+    case 'bon':
+      return { score: bon, band };
+    case 'crit':
+      return { score: crit, band };
+    case 'sous_crit':
+      return { score: scoring.belowCrit(value, scoring.thresholds), band };
   }
+}
 
-  // Runway (optional) - weight 5% if present
-  if (v2.finance.cashRunwayMonths !== undefined) {
-    let runwayScore = 0;
-    if (v2.finance.cashRunwayMonths >= 12) runwayScore = 100;
-    else if (v2.finance.cashRunwayMonths >= 6) runwayScore = 80;
-    else if (v2.finance.cashRunwayMonths >= 3) runwayScore = 50;
-    else runwayScore = 20;
-    financierContributions.push({ score: runwayScore, weight: 5 });
+/**
+ * Piecewise-linear score between floor → crit → bon → excellent,
+ * anchored on the same scores as the step mode
+ */
+function scoreContinuously(value: number, scoring: StepScoring): { score: number; band: ScoreBand } {
+  const band = getScoreBand(value, scoring.thresholds, scoring.direction);
+  if (scoring.linear) {
+    return { score: scoring.linear(value), band };
   }
 
-  const scoreFinancier = calculateWeightedScore(financierContributions);
+  const [excellent, bon, crit] = scoring.bandScores;
+  const anchors: [number, number][] = [
+    [scoring.floor.value, scoring.floor.score],
+    [scoring.thresholds.crit, crit],
+    [scoring.thresholds.bon, bon],
+    [scoring.thresholds.excellent, excellent],
+  ];
+  // Work on an axis where "better" always means "greater"
+  const axis = (v: number) => scoring.direction === 'higher' ? v : -v;
+  const x = axis(value);
 
-  // =====================
-  // OPÉRATIONNEL (25% base weight)
-  // =====================
-  const opsContributions: ScoreContribution[] = [];
-
-  // Taux d'occupation (mandatory) - base weight 60%
-  const occRate = v2.ops.occupancyRatePercent / 100;
-  let occScore = 0;
-  if (occRate >= 0.95) occScore = 100;
-  else if (occRate >= 0.85) occScore = 80;
-  else if (occRate >= 0.75) occScore = 60;
-  else if (occRate >= 0.60) occScore = 40;
-  else occScore = Math.max(0, occRate * 66);
-  opsContributions.push({ score: occScore, weight: 60 });
-
-  // Productivité CA/ETP (already computed, reuse) - weight 25%
-  opsContributions.push({ score: caEtpScore, weight: 25 });
-
-  // Quality metrics (optional) - weight 15% if present
-  if (v2.ops.quality) {
-    let qualityScore = 100;
-    if (v2.ops.quality.returnRatePercent !== undefined) {
-      if (v2.ops.quality.returnRatePercent <= 2) qualityScore = 100;
-      else if (v2.ops.quality.returnRatePercent <= 5) qualityScore = 80;
-      else if (v2.ops.quality.returnRatePercent <= 10) qualityScore = 50;
-      else qualityScore = 20;
-    }
-    if (v2.ops.quality.incidentsPerMonth !== undefined) {
-      let incidentScore = 100;
-      if (v2.ops.quality.incidentsPerMonth <= 1) incidentScore = 100;
-      else if (v2.ops.quality.incidentsPerMonth <= 3) incidentScore = 70;
-      else if (v2.ops.quality.incidentsPerMonth <= 5) incidentScore = 50;
-      else incidentScore = 20;
-      qualityScore = (qualityScore + incidentScore) / 2;
+  if (x <= axis(anchors[0][0])) return { score: anchors[0][1], band };
+  for (let i = 1; i < anchors.length; i++) {
+    const [v0, s0] = anchors[i - 1];
+    const [v1, s1] = anchors[i];
+    const x0 = axis(v0);
+    const x1 = axis(v1);
+    if (x <= x1) {
+      const score = x1 === x0 ? s1 : s0 + ((s1 - s0) * (x - x0)) / (x1 - x0);
+      return { score, band };
     }
-    opsContributions.push({ score: qualityScore, weight: 15 });
   }
+  return { score: excellent, band };
+}
+
+/**
+ * Convert a sector benchmark to the unit of the raw audit value
+ * (ratios are stored as 0-1 in PARAM_SECTEUR, audit values are percentages)
+ */
+export function toRawThresholds(definition: MetricDefinition): MetricThresholds {
+  const factor = definition.unit === 'ratio' || definition.unit === 'ratio_inverse' ? 100 : 1;
+  // Rounded so that 0.55 becomes exactly 55 and thresholds stay inclusive
+  const convert = (value: number) => Math.round(value * factor * 1e6) / 1e6;
+  return {
+    crit: convert(definition.thresholds.crit),
+    bon: convert(definition.thresholds.bon),
+    excellent: convert(definition.thresholds.excellent),
+  };
+}
 
-  const scoreOperationnel = calculateWeightedScore(opsContributions);
+export interface AuditThresholds {
+  // Raw-unit thresholds keyed by benchmark (e.g. 'marge_nette', 'runway')
+  thresholds: Record<string, MetricThresholds>;
+  segment?: { id: string; label: string };
+}
 
-  // =====================
-  // COMMERCIAL (20% base weight)
-  // =====================
-  const commercialContributions: ScoreContribution[] = [];
-
-  // Digitalisation (mandatory) - base weight 45%
-  const dp = v2.commercial.digitalizationPercent;
-  let dpScore = 0;
-  if (dp >= benchmarks.digital_pct.thresholds.excellent) {
-    dpScore = 100;
-  } else if (dp >= benchmarks.digital_pct.thresholds.bon) {
-    dpScore = 80;
-  } else if (dp >= benchmarks.digital_pct.thresholds.crit) {
-    dpScore = 50;
-  } else {
-    dpScore = Math.max(0, dp * 1.5);
-  }
-  commercialContributions.push({ score: dpScore, weight: 45 });
-
-  // Fidélisation (optional in V2, was mandatory in V1) - weight 35%
-  if (v2.commercial.loyaltyPercent !== undefined) {
-    const fid = v2.commercial.loyaltyPercent;
-    let fidScore = 0;
-    if (fid >= benchmarks.fidelisation.thresholds.excellent) {
-      fidScore = 100;
-    } else if (fid >= benchmarks.fidelisation.thresholds.bon) {
-      fidScore = 80;
-    } else if (fid >= benchmarks.fidelisation.thresholds.crit) {
-      fidScore = 50;
+/**
+ * Thresholds of every benchmarked metric for an audit: the sector variant (refined by
+ * its segment) when the table has a value, the registry constants otherwise
+ */
+export function getAuditThresholds(data: AuditData, benchmarkVersion?: string): AuditThresholds {
+  const v2 = normalizeToV2(data);
+  const { metrics: benchmarks, segment } = resolveBenchmarks(v2.sector, v2.variant, benchmarkVersion ?? getActiveBenchmarkVersion(), {
+    fte: v2.ops.productivity.fte,
+    region: v2.region,
+  });
+
+  const thresholds: Record<string, MetricThresholds> = {};
+  getRegisteredMetrics().forEach(metric => {
+    const key = metric.curve.benchmark;
+    if (!key || key in thresholds) return;
+    const definition = benchmarks[key];
+    if (definition) {
+      thresholds[key] = toRawThresholds(definition);
+    } else if (metric.curve.thresholds) {
+      thresholds[key] = metric.curve.thresholds;
     } else {
-      fidScore = Math.max(0, fid * 0.8);
+      throw new Error(`Benchmark '${key}' manquant pour l'indicateur '${metric.id}'`);
     }
-    commercialContributions.push({ score: fidScore, weight: 35 });
-  }
+  });
+  return { thresholds, segment };
+}
 
-  // Satisfaction CSAT (optional) - weight 10%
-  if (v2.commercial.satisfaction?.csatPercent !== undefined) {
-    const csat = v2.commercial.satisfaction.csatPercent;
-    let csatScore = 0;
-    if (csat >= 90) csatScore = 100;
-    else if (csat >= 80) csatScore = 80;
-    else if (csat >= 70) csatScore = 60;
-    else csatScore = Math.max(0, csat * 0.8);
-    commercialContributions.push({ score: csatScore, weight: 10 });
-  }
+function contribution(
+  id: string,
+  label: string,
+  rawValue: number,
+  unit: string,
+  weight: number,
+  scoring: StepScoring,
+  mode: ScoringMode
+): ScoreContribution {
+  const { score, band } = mode === 'continuous'
+    ? scoreContinuously(rawValue, scoring)
+    : scoreBySteps(rawValue, scoring);
+  return {
+    id,
+    label,
+    rawValue,
+    unit,
+    direction: scoring.direction,
+    thresholds: scoring.thresholds,
+    band,
+    score,
+    weight,
+  };
+}
 
-  // NPS (optional) - weight 10%
-  if (v2.commercial.satisfaction?.nps !== undefined) {
-    const nps = v2.commercial.satisfaction.nps;
-    let npsScore = 0;
-    if (nps >= 50) npsScore = 100;
-    else if (nps >= 30) npsScore = 80;
-    else if (nps >= 0) npsScore = 60;
-    else if (nps >= -20) npsScore = 40;
-    else npsScore = 20;
-    commercialContributions.push({ score: npsScore, weight: 10 });
-  }
+// A sub-metric left empty in an entered group, scored at its missingScore
+function missingContribution(metric: RegisteredMetric, weight: number, thresholds: MetricThresholds): ScoreContribution {
+  return {
+    id: metric.id,
+    label: metric.label,
+    unit: metric.unit,
+    direction: metric.curve.direction,
+    thresholds,
+    band: 'excellent',
+    score: metric.missingScore as number,
+    weight,
+  };
+}
 
-  const scoreCommercial = calculateWeightedScore(commercialContributions);
+/**
+ * Compute V2 scores with support for optional fields
+ * Metrics come from the registry (see metricRegistry); a metric without value is
+ * skipped and the weights of the dimension are redistributed over the others, unless
+ * it declares a missingScore and its group was entered (quality, HR stability)
+ * Each dimension keeps the detail of its metrics in `breakdown`
+ */
+export function computeScoresV2(data: AuditData, options: ScoringOptions = {}): Scores {
+  const mode: ScoringMode = options.mode ?? 'step';
+  const v2 = normalizeToV2(data);
+  const benchmarkVersion = options.benchmarkVersion ?? getActiveBenchmarkVersion();
+  const { thresholds: sectorThresholds, segment } = getAuditThresholds(v2, benchmarkVersion);
+  const weights = getWeightProfile(v2.sector, v2.variant, benchmarkVersion);
 
-  // =====================
-  // STRATÉGIQUE / RISQUE (20% base weight)
-  // =====================
-  const strategiqueContributions: ScoreContribution[] = [];
-
-  // Nombre de services (mandatory) - base weight 40%
-  const nbServices = v2.nbServices ?? 1;
-  let servicesScore = 40 + nbServices * 10;
-  servicesScore = Math.min(100, Math.max(0, servicesScore));
-  strategiqueContributions.push({ score: servicesScore, weight: 40 });
-
-  // Runway risk (optional) - weight 20%
-  if (v2.finance.cashRunwayMonths !== undefined) {
-    let runwayRisk = 100;
-    if (v2.finance.cashRunwayMonths < 3) runwayRisk = 20;
-    else if (v2.finance.cashRunwayMonths < 6) runwayRisk = 50;
-    else if (v2.finance.cashRunwayMonths < 12) runwayRisk = 80;
-    strategiqueContributions.push({ score: runwayRisk, weight: 20 });
-  }
+  const context: MetricContext = {
+    trends: options.trends === false ? null : computeTrendIndicators(v2),
+    dimensionScores: {},
+  };
 
-  // HR stability (optional) - weight 20%
-  if (v2.hr) {
-    let hrStability = 100;
-    if (v2.hr.turnoverRatePercent !== undefined) {
-      if (v2.hr.turnoverRatePercent > 40) hrStability = 20;
-      else if (v2.hr.turnoverRatePercent > 25) hrStability = 50;
-      else if (v2.hr.turnoverRatePercent > 15) hrStability = 70;
-    }
-    if (v2.hr.absenteeismRatePercent !== undefined) {
-      let absScore = 100;
-      if (v2.hr.absenteeismRatePercent > 15) absScore = 20;
-      else if (v2.hr.absenteeismRatePercent > 10) absScore = 50;
-      else if (v2.hr.absenteeismRatePercent > 5) absScore = 80;
-      hrStability = (hrStability + absScore) / 2;
-    }
-    strategiqueContributions.push({ score: hrStability, weight: 20 });
-  }
+  const resolveThresholds = (metric: RegisteredMetric): MetricThresholds =>
+    metric.curve.benchmark ? sectorThresholds[metric.curve.benchmark] : metric.curve.thresholds as MetricThresholds;
 
-  // Dimension balance penalty - weight 20%
-  const scores = [scoreFinancier, scoreOperationnel, scoreCommercial];
-  const maxScore = Math.max(...scores);
-  const minScore = Math.min(...scores);
-  const imbalance = maxScore - minScore;
-  let balanceScore = 100;
-  if (imbalance > 40) balanceScore = 50;
-  else if (imbalance > 30) balanceScore = 70;
-  else if (imbalance > 20) balanceScore = 85;
-  strategiqueContributions.push({ score: balanceScore, weight: 20 });
+  // Dimensions are scored in order, the strategic one reads the others (balance)
+  const contributions = {} as Record<DimensionKey, ScoreContribution[]>;
+  const dimensionScores = {} as Record<DimensionKey, number>;
+  DIMENSION_ORDER.forEach(dimension => {
+    const dimensionContributions: { weightKey: string; contribution: ScoreContribution }[] = [];
+    getRegisteredMetrics(dimension).forEach(metric => {
+      const value = getMetricValue(metric, v2, context);
+      const weightKey = getMetricWeightKey(metric);
+      const weight = weights.metrics[dimension][weightKey] ?? metric.defaultWeight;
+      if (value === undefined) {
+        if (metric.missingScore !== undefined && metric.path && hasFieldGroup(v2, metric.path)) {
+          dimensionContributions.push({ weightKey, contribution: missingContribution(metric, weight, resolveThresholds(metric)) });
+        }
+        return;
+      }
+      const scoring: StepScoring = { ...metric.curve, thresholds: resolveThresholds(metric) };
+      dimensionContributions.push({
+        weightKey,
+        contribution: contribution(metric.id, metric.label, value, metric.unit, weight, scoring, mode),
+      });
+    });
 
-  const scoreStrategique = calculateWeightedScore(strategiqueContributions);
+    // A weight shared by several metrics (e.g. 'qualite') is split across those provided
+    contributions[dimension] = dimensionContributions.map(({ weightKey, contribution: c }) => {
+      const sharing = dimensionContributions.filter(other => other.weightKey === weightKey).length;
+      return sharing > 1 ? { ...c, weight: c.weight / sharing } : c;
+    });
+    dimensionScores[dimension] = calculateWeightedScore(contributions[dimension]);
+    context.dimensionScores[dimension] = dimensionScores[dimension];
+  });
 
   // =====================
   // GLOBAL SCORE
   // =====================
   // Apply small penalty for missing optional data (-2 max)
   let missingDataPenalty = 0;
-  const optionalFields = [
-    v2.finance.netMarginPercent,
-    v2.finance.cashRunwayMonths,
-    v2.costs.cogsPercent,
-    v2.costs.fixedCostsPercent,
-    v2.hr?.absenteeismRatePercent,
-    v2.hr?.turnoverRatePercent,
-    v2.ops.quality?.returnRatePercent,
-    v2.commercial.satisfaction?.csatPercent,
-    v2.commercial.satisfaction?.nps,
-  ];
-  const missingCount = optionalFields.filter(f => f === undefined).length;
+  const missingOptionalFields = getMissingOptionalFields(v2);
+  const missingCount = missingOptionalFields.length;
   if (missingCount > 5) {
     missingDataPenalty = 2;
   } else if (missingCount > 3) {
     missingDataPenalty = 1;
   }
 
+  const dw = weights.dimensions;
   const scoreGlobal = Math.round(
-    (scoreFinancier * 0.35 +
-    scoreOperationnel * 0.25 +
-    scoreCommercial * 0.20 +
-    scoreStrategique * 0.20 -
+    (dimensionScores.financier * (dw.financier / 100) +
+    dimensionScores.operationnel * (dw.operationnel / 100) +
+    dimensionScores.commercial * (dw.commercial / 100) +
+    dimensionScores.strategique * (dw.strategique / 100) -
     missingDataPenalty) * 10
   ) / 10;
 
   return {
     global: Math.max(0, Math.min(100, scoreGlobal)),
-    financier: Math.round(scoreFinancier * 10) / 10,
-    operationnel: Math.round(scoreOperationnel * 10) / 10,
-    commercial: Math.round(scoreCommercial * 10) / 10,
-    strategique: Math.round(scoreStrategique * 10) / 10
+    financier: Math.round(dimensionScores.financier * 10) / 10,
+    operationnel: Math.round(dimensionScores.operationnel * 10) / 10,
+    commercial: Math.round(dimensionScores.commercial * 10) / 10,
+    strategique: Math.round(dimensionScores.strategique * 10) / 10,
+    modelVersion: SCORING_MODEL_VERSION,
+    benchmarkVersion,
+    breakdown: {
+      dimensions: {
+        financier: buildDimensionBreakdown('financier', dimensionScores.financier, dw.financier, contributions.financier),
+        operationnel: buildDimensionBreakdown('operationnel', dimensionScores.operationnel, dw.operationnel, contributions.operationnel),
+        commercial: buildDimensionBreakdown('commercial', dimensionScores.commercial, dw.commercial, contributions.commercial),
+        strategique: buildDimensionBreakdown('strategique', dimensionScores.strategique, dw.strategique, contributions.strategique),
+      },
+      missingOptionalFields,
+      missingDataPenalty,
+      mode,
+      weightSource: weights.source,
+      benchmarkSegment: segment,
+    },
   };
 }
 
@@ -288,12 +352,47 @@ export function computeScoresV2(data: AuditData): Scores {
  */
 function calculateWeightedScore(contributions: ScoreContribution[]): number {
   if (contributions.length === 0) return 0;
-  
+
   const totalWeight = contributions.reduce((sum, c) => sum + c.weight, 0);
   const weightedSum = contributions.reduce((sum, c) => sum + c.score * c.weight, 0);
-  
+
   return weightedSum / totalWeight;
 }
 
+/**
+ * Expose effective weights and point contributions of a dimension
+ */
+function buildDimensionBreakdown(
+  dimension: DimensionKey,
+  score: number,
+  globalWeight: number,
+  contributions: ScoreContribution[]
+): DimensionBreakdown {
+  const totalWeight = contributions.reduce((sum, c) => sum + c.weight, 0);
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+
+  const metrics: MetricScoreDetail[] = contributions.map(c => ({
+    id: c.id,
+    label: c.label,
+    rawValue: c.rawValue === undefined ? undefined : round1(c.rawValue),
+    unit: c.unit,
+    direction: c.direction,
+    thresholds: c.thresholds,
+    band: c.band,
+    score: round1(c.score),
+    baseWeight: c.weight,
+    effectiveWeight: totalWeight > 0 ? round1((c.weight / totalWeight) * 100) : 0,
+    contribution: totalWeight > 0 ? round1((c.score * c.weight) / totalWeight) : 0,
+  }));
+
+  return {
+    dimension,
+    label: DIMENSION_LABELS[dimension],
+    score: round1(score),
+    globalWeight: round1(globalWeight),
+    metrics,
+  };
+}
+
 // Re-export for compatibility
 export { computeScoresV2 as computeScores4D };
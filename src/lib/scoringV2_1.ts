@@ -0,0 +1,562 @@
+/**
+ * Scoring model 2.1 — frozen copy of the registry-based scorer before trend scoring
+ * Metrics, curves and default weights are copied here so that audits scored with
+ * it can be reproduced exactly, whatever later happens to the metric registry.
+ * Do not modify.
+ */
+
+import { DEFAULT_DIMENSION_WEIGHTS, getParamSecteur, MetricDefinition, resolveBenchmarks } from './benchmarks';
+import { resolveSectorKey } from './sectorRegistry';
+import { getFieldValue, hasFieldGroup, MetricCurve } from './metricRegistry';
+import type {
+  AuditData,
+  AuditDataV2,
+  DimensionBreakdown,
+  DimensionKey,
+  MetricScoreDetail,
+  MetricThresholds,
+  ScoreBand,
+  Scores,
+  ScoringMode,
+} from '@/types/audit';
+import { normalizeToV2 } from '@/types/audit';
+
+export const SCORING_MODEL_V2_1 = '2.1';
+// Benchmark table in force when model 2.1 was released
+export const SCORING_MODEL_V2_1_BENCHMARKS = '2.2';
+
+// ============= Metrics =============
+
+interface FrozenMetric {
+  id: string;
+  label: string;
+  dimension: DimensionKey;
+  unit: string;
+  path?: string;
+  compute?: (data: AuditDataV2, dimensionScores: Partial<Record<DimensionKey, number>>) => number;
+  weightKey?: string;
+  defaultWeight: number;
+  missingScore?: number;
+  curve: MetricCurve;
+}
+
+const DIMENSION_ORDER: DimensionKey[] = ['financier', 'operationnel', 'commercial', 'strategique'];
+
+const DIMENSION_LABELS: Record<DimensionKey, string> = {
+  financier: 'Financier',
+  operationnel: 'Opérationnel',
+  commercial: 'Commercial',
+  strategique: 'Stratégique',
+};
+
+const runwayCurve: MetricCurve = {
+  benchmark: 'runway',
+  thresholds: { crit: 3, bon: 6, excellent: 12 },
+  direction: 'higher',
+  bandScores: [100, 80, 50],
+  belowCrit: () => 20,
+  floor: { value: 0, score: 20 },
+};
+
+const caEtpCurve: MetricCurve = {
+  benchmark: 'ca_etp',
+  direction: 'higher',
+  bandScores: [100, 80, 50],
+  belowCrit: (v, t) => Math.max(0, (v / t.crit) * 50),
+  floor: { value: 0, score: 0 },
+};
+
+const caEtp = (d: AuditDataV2) => d.finance.annualRevenue / Math.max(d.ops.productivity.fte, 0.1);
+
+const METRICS: FrozenMetric[] = [
+  // ----- Financier -----
+  {
+    id: 'marge_brute',
+    label: 'Marge brute',
+    dimension: 'financier',
+    unit: '%',
+    path: 'finance.grossMarginPercent',
+    defaultWeight: 40,
+    curve: {
+      benchmark: 'marge_brute',
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: (v) => Math.max(0, v * 0.9),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  { id: 'ca_etp', label: 'CA par ETP', dimension: 'financier', unit: '€', compute: caEtp, defaultWeight: 30, curve: caEtpCurve },
+  {
+    id: 'charges_rh',
+    label: 'Charges RH',
+    dimension: 'financier',
+    unit: '%',
+    path: 'costs.hrCostsPercent',
+    defaultWeight: 20,
+    curve: {
+      benchmark: 'charges_rh',
+      direction: 'lower',
+      bandScores: [100, 80, 50],
+      belowCrit: (v, t) => Math.max(0, 40 - (v - t.crit)),
+      floor: { value: 100, score: 0 },
+    },
+  },
+  {
+    id: 'marge_nette',
+    label: 'Marge nette',
+    dimension: 'financier',
+    unit: '%',
+    path: 'finance.netMarginPercent',
+    defaultWeight: 5,
+    curve: {
+      benchmark: 'marge_nette',
+      thresholds: { crit: 5, bon: 10, excellent: 15 },
+      direction: 'higher',
+      bandScores: [100, 80, 60],
+      belowCrit: (v) => v >= 0 ? 40 : 20,
+      floor: { value: -10, score: 20 },
+    },
+  },
+  { id: 'runway', label: 'Trésorerie (runway)', dimension: 'financier', unit: 'mois', path: 'finance.cashRunwayMonths', defaultWeight: 5, curve: runwayCurve },
+
+  // ----- Opérationnel -----
+  {
+    id: 'occupation',
+    label: 'Taux d\'occupation',
+    dimension: 'operationnel',
+    unit: '%',
+    path: 'ops.occupancyRatePercent',
+    defaultWeight: 60,
+    curve: {
+      benchmark: 'occupation',
+      thresholds: { crit: 75, bon: 85, excellent: 95 },
+      direction: 'higher',
+      bandScores: [100, 80, 60],
+      belowCrit: (v) => v >= 60 ? 40 : Math.max(0, (v / 100) * 66),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  { id: 'ca_etp', label: 'Productivité (CA/ETP)', dimension: 'operationnel', unit: '€', compute: caEtp, defaultWeight: 25, curve: caEtpCurve },
+  {
+    id: 'taux_retour',
+    label: 'Taux de retours/erreurs',
+    dimension: 'operationnel',
+    unit: '%',
+    path: 'ops.quality.returnRatePercent',
+    weightKey: 'qualite',
+    defaultWeight: 15,
+    missingScore: 100,
+    curve: {
+      benchmark: 'taux_retour',
+      thresholds: { crit: 10, bon: 5, excellent: 2 },
+      direction: 'lower',
+      bandScores: [100, 80, 50],
+      belowCrit: () => 20,
+      floor: { value: 25, score: 20 },
+    },
+  },
+  {
+    id: 'incidents',
+    label: 'Incidents par mois',
+    dimension: 'operationnel',
+    unit: '/mois',
+    path: 'ops.quality.incidentsPerMonth',
+    weightKey: 'qualite',
+    defaultWeight: 15,
+    curve: {
+      benchmark: 'incidents',
+      thresholds: { crit: 5, bon: 3, excellent: 1 },
+      direction: 'lower',
+      bandScores: [100, 70, 50],
+      belowCrit: () => 20,
+      floor: { value: 10, score: 20 },
+    },
+  },
+
+  // ----- Commercial -----
+  {
+    id: 'digital_pct',
+    label: 'Digitalisation',
+    dimension: 'commercial',
+    unit: '%',
+    path: 'commercial.digitalizationPercent',
+    defaultWeight: 45,
+    curve: {
+      benchmark: 'digital_pct',
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: (v) => Math.max(0, v * 1.5),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  {
+    id: 'fidelisation',
+    label: 'Fidélisation',
+    dimension: 'commercial',
+    unit: '%',
+    path: 'commercial.loyaltyPercent',
+    defaultWeight: 35,
+    curve: {
+      benchmark: 'fidelisation',
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: (v) => Math.max(0, v * 0.8),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  {
+    id: 'csat',
+    label: 'Satisfaction (CSAT)',
+    dimension: 'commercial',
+    unit: '%',
+    path: 'commercial.satisfaction.csatPercent',
+    defaultWeight: 10,
+    curve: {
+      benchmark: 'csat',
+      thresholds: { crit: 70, bon: 80, excellent: 90 },
+      direction: 'higher',
+      bandScores: [100, 80, 60],
+      belowCrit: (v) => Math.max(0, v * 0.8),
+      floor: { value: 0, score: 0 },
+    },
+  },
+  {
+    id: 'nps',
+    label: 'NPS',
+    dimension: 'commercial',
+    unit: 'pts',
+    path: 'commercial.satisfaction.nps',
+    defaultWeight: 10,
+    curve: {
+      benchmark: 'nps',
+      thresholds: { crit: 0, bon: 30, excellent: 50 },
+      direction: 'higher',
+      bandScores: [100, 80, 60],
+      belowCrit: (v) => v >= -20 ? 40 : 20,
+      floor: { value: -100, score: 20 },
+    },
+  },
+
+  // ----- Stratégique / Risque -----
+  {
+    id: 'nb_services',
+    label: 'Nombre de services',
+    dimension: 'strategique',
+    unit: 'services',
+    compute: (d) => d.nbServices ?? 1,
+    defaultWeight: 40,
+    curve: {
+      thresholds: { crit: 1, bon: 4, excellent: 6 },
+      direction: 'higher',
+      bandScores: [100, 80, 50],
+      belowCrit: () => 40,
+      floor: { value: 0, score: 40 },
+      linear: (v) => Math.min(100, Math.max(0, 40 + v * 10)),
+    },
+  },
+  { id: 'runway_risk', label: 'Risque de trésorerie', dimension: 'strategique', unit: 'mois', path: 'finance.cashRunwayMonths', defaultWeight: 20, curve: runwayCurve },
+  {
+    id: 'turnover',
+    label: 'Turnover',
+    dimension: 'strategique',
+    unit: '%',
+    path: 'hr.turnoverRatePercent',
+    weightKey: 'stabilite_rh',
+    defaultWeight: 20,
+    missingScore: 100,
+    curve: {
+      benchmark: 'turnover',
+      thresholds: { crit: 40, bon: 25, excellent: 15 },
+      direction: 'lower',
+      bandScores: [100, 70, 50],
+      belowCrit: () => 20,
+      floor: { value: 60, score: 20 },
+    },
+  },
+  {
+    id: 'absenteisme',
+    label: 'Absentéisme',
+    dimension: 'strategique',
+    unit: '%',
+    path: 'hr.absenteeismRatePercent',
+    weightKey: 'stabilite_rh',
+    defaultWeight: 20,
+    curve: {
+      benchmark: 'absenteisme',
+      thresholds: { crit: 15, bon: 10, excellent: 5 },
+      direction: 'lower',
+      bandScores: [100, 80, 50],
+      belowCrit: () => 20,
+      floor: { value: 25, score: 20 },
+    },
+  },
+  {
+    // Spread between the financial, operational and commercial scores
+    id: 'equilibre',
+    label: 'Équilibre des dimensions (écart)',
+    dimension: 'strategique',
+    unit: 'pts',
+    compute: (_, scores) => {
+      const values = [scores.financier, scores.operationnel, scores.commercial];
+      return Math.max(...values) - Math.min(...values);
+    },
+    defaultWeight: 20,
+    curve: {
+      thresholds: { crit: 40, bon: 30, excellent: 20 },
+      direction: 'lower',
+      bandScores: [100, 85, 70],
+      belowCrit: () => 50,
+      floor: { value: 60, score: 50 },
+    },
+  },
+];
+
+const OPTIONAL_FIELDS: { label: string; get: (data: AuditDataV2) => number | undefined }[] = [
+  { label: 'Marge nette', get: (d) => d.finance.netMarginPercent },
+  { label: 'Trésorerie (runway)', get: (d) => d.finance.cashRunwayMonths },
+  { label: 'COGS', get: (d) => d.costs.cogsPercent },
+  { label: 'Charges fixes', get: (d) => d.costs.fixedCostsPercent },
+  { label: 'Absentéisme', get: (d) => d.hr?.absenteeismRatePercent },
+  { label: 'Turnover', get: (d) => d.hr?.turnoverRatePercent },
+  { label: 'Taux de retours', get: (d) => d.ops.quality?.returnRatePercent },
+  { label: 'CSAT', get: (d) => d.commercial.satisfaction?.csatPercent },
+  { label: 'NPS', get: (d) => d.commercial.satisfaction?.nps },
+];
+
+// ============= Scoring =============
+
+interface ScoreContribution {
+  id: string;
+  label: string;
+  rawValue?: number;
+  unit: string;
+  direction: 'higher' | 'lower';
+  thresholds: MetricThresholds;
+  band: ScoreBand;
+  score: number;
+  weight: number;
+}
+
+interface StepScoring extends MetricCurve {
+  thresholds: MetricThresholds;
+}
+
+const weightKeyOf = (metric: FrozenMetric) => metric.weightKey ?? metric.id;
+
+function getScoreBand(value: number, thresholds: MetricThresholds, direction: 'higher' | 'lower'): ScoreBand {
+  const reached = (limit: number) => direction === 'higher' ? value >= limit : value <= limit;
+  if (reached(thresholds.excellent)) return 'excellent';
+  if (reached(thresholds.bon)) return 'bon';
+  if (reached(thresholds.crit)) return 'crit';
+  return 'sous_crit';
+}
+
+function scoreBySteps(value: number, scoring: StepScoring): { score: number; band: ScoreBand } {
+  const band = getScoreBand(value, scoring.thresholds, scoring.direction);
+  if (scoring.linear) return { score: scoring.linear(value), band };
+  const [excellent, bon, crit] = scoring.bandScores;
+  switch (band) {
+    case 'excellent':
+      return { score: excellent, band };
+    case 'bon':
+      return { score: bon, band };
+    case 'crit':
+      return { score: crit, band };
+    case 'sous_crit':
+      return { score: scoring.belowCrit(value, scoring.thresholds), band };
+  }
+}
+
+function scoreContinuously(value: number, scoring: StepScoring): { score: number; band: ScoreBand } {
+  const band = getScoreBand(value, scoring.thresholds, scoring.direction);
+  if (scoring.linear) return { score: scoring.linear(value), band };
+
+  const [excellent, bon, crit] = scoring.bandScores;
+  const anchors: [number, number][] = [
+    [scoring.floor.value, scoring.floor.score],
+    [scoring.thresholds.crit, crit],
+    [scoring.thresholds.bon, bon],
+    [scoring.thresholds.excellent, excellent],
+  ];
+  const axis = (v: number) => scoring.direction === 'higher' ? v : -v;
+  const x = axis(value);
+
+  if (x <= axis(anchors[0][0])) return { score: anchors[0][1], band };
+  for (let i = 1; i < anchors.length; i++) {
+    const [v0, s0] = anchors[i - 1];
+    const [v1, s1] = anchors[i];
+    const x0 = axis(v0);
+    const x1 = axis(v1);
+    if (x <= x1) {
+      const score = x1 === x0 ? s1 : s0 + ((s1 - s0) * (x - x0)) / (x1 - x0);
+      return { score, band };
+    }
+  }
+  return { score: excellent, band };
+}
+
+function toRawThresholds(definition: MetricDefinition): MetricThresholds {
+  const factor = definition.unit === 'ratio' || definition.unit === 'ratio_inverse' ? 100 : 1;
+  const convert = (value: number) => Math.round(value * factor * 1e6) / 1e6;
+  return {
+    crit: convert(definition.thresholds.crit),
+    bon: convert(definition.thresholds.bon),
+    excellent: convert(definition.thresholds.excellent),
+  };
+}
+
+// Default weights of the metrics above, merged under the sector variant profile of the table
+function getWeights(v2: AuditDataV2, benchmarkVersion: string) {
+  const metrics = {} as Record<DimensionKey, Record<string, number>>;
+  DIMENSION_ORDER.forEach(dimension => {
+    metrics[dimension] = {};
+  });
+  METRICS.forEach(metric => {
+    metrics[metric.dimension][weightKeyOf(metric)] = metric.defaultWeight;
+  });
+
+  const key = resolveSectorKey(v2.sector, benchmarkVersion);
+  const sector = key ? getParamSecteur(benchmarkVersion).sectors[key] : undefined;
+  const profile = sector?.variants[v2.variant || sector.default_variant]?.weights;
+  if (!profile) {
+    return { source: 'default' as const, dimensions: { ...DEFAULT_DIMENSION_WEIGHTS }, metrics };
+  }
+
+  const dimensions = { ...DEFAULT_DIMENSION_WEIGHTS, ...profile.dimensions };
+  const total = Object.values(dimensions).reduce((sum, w) => sum + w, 0);
+  if (total > 0 && total !== 100) {
+    DIMENSION_ORDER.forEach(dimension => {
+      dimensions[dimension] = (dimensions[dimension] / total) * 100;
+    });
+  }
+  DIMENSION_ORDER.forEach(dimension => {
+    metrics[dimension] = { ...metrics[dimension], ...profile.metrics?.[dimension] };
+  });
+  return { source: 'sector' as const, dimensions, metrics };
+}
+
+function calculateWeightedScore(contributions: ScoreContribution[]): number {
+  if (contributions.length === 0) return 0;
+  const totalWeight = contributions.reduce((sum, c) => sum + c.weight, 0);
+  const weightedSum = contributions.reduce((sum, c) => sum + c.score * c.weight, 0);
+  return weightedSum / totalWeight;
+}
+
+function buildDimensionBreakdown(
+  dimension: DimensionKey,
+  score: number,
+  globalWeight: number,
+  contributions: ScoreContribution[]
+): DimensionBreakdown {
+  const totalWeight = contributions.reduce((sum, c) => sum + c.weight, 0);
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+
+  const metrics: MetricScoreDetail[] = contributions.map(c => ({
+    id: c.id,
+    label: c.label,
+    rawValue: c.rawValue === undefined ? undefined : round1(c.rawValue),
+    unit: c.unit,
+    direction: c.direction,
+    thresholds: c.thresholds,
+    band: c.band,
+    score: round1(c.score),
+    baseWeight: c.weight,
+    effectiveWeight: totalWeight > 0 ? round1((c.weight / totalWeight) * 100) : 0,
+    contribution: totalWeight > 0 ? round1((c.score * c.weight) / totalWeight) : 0,
+  }));
+
+  return {
+    dimension,
+    label: DIMENSION_LABELS[dimension],
+    score: round1(score),
+    globalWeight: round1(globalWeight),
+    metrics,
+  };
+}
+
+/**
+ * Compute the scores of model 2.1 against a benchmark table
+ */
+export function computeScoresV2_1(
+  data: AuditData,
+  benchmarkVersion: string = SCORING_MODEL_V2_1_BENCHMARKS,
+  mode: ScoringMode = 'step'
+): Scores {
+  const v2 = normalizeToV2(data);
+  const { metrics: benchmarks, segment } = resolveBenchmarks(v2.sector, v2.variant, benchmarkVersion, {
+    fte: v2.ops.productivity.fte,
+    region: v2.region,
+  });
+  const weights = getWeights(v2, benchmarkVersion);
+
+  const resolveThresholds = (metric: FrozenMetric): MetricThresholds => {
+    const definition = metric.curve.benchmark ? benchmarks[metric.curve.benchmark] : undefined;
+    if (definition) return toRawThresholds(definition);
+    if (metric.curve.thresholds) return metric.curve.thresholds;
+    throw new Error(`Benchmark '${metric.curve.benchmark}' manquant pour l'indicateur '${metric.id}'`);
+  };
+
+  const contributions = {} as Record<DimensionKey, ScoreContribution[]>;
+  const dimensionScores = {} as Record<DimensionKey, number>;
+  DIMENSION_ORDER.forEach(dimension => {
+    const dimensionContributions: { weightKey: string; contribution: ScoreContribution }[] = [];
+    METRICS.filter(metric => metric.dimension === dimension).forEach(metric => {
+      const value = metric.compute ? metric.compute(v2, dimensionScores) : getFieldValue(v2, metric.path as string);
+      const weightKey = weightKeyOf(metric);
+      const weight = weights.metrics[dimension][weightKey] ?? metric.defaultWeight;
+      const thresholds = resolveThresholds(metric);
+      const base = { id: metric.id, label: metric.label, unit: metric.unit, direction: metric.curve.direction, thresholds, weight };
+      if (value === undefined) {
+        if (metric.missingScore !== undefined && metric.path && hasFieldGroup(v2, metric.path)) {
+          dimensionContributions.push({ weightKey, contribution: { ...base, band: 'excellent', score: metric.missingScore } });
+        }
+        return;
+      }
+      const scoring: StepScoring = { ...metric.curve, thresholds };
+      const { score, band } = mode === 'continuous' ? scoreContinuously(value, scoring) : scoreBySteps(value, scoring);
+      dimensionContributions.push({ weightKey, contribution: { ...base, rawValue: value, band, score } });
+    });
+
+    contributions[dimension] = dimensionContributions.map(({ weightKey, contribution: c }) => {
+      const sharing = dimensionContributions.filter(other => other.weightKey === weightKey).length;
+      return sharing > 1 ? { ...c, weight: c.weight / sharing } : c;
+    });
+    dimensionScores[dimension] = calculateWeightedScore(contributions[dimension]);
+  });
+
+  const missingOptionalFields = OPTIONAL_FIELDS.filter(field => field.get(v2) === undefined).map(field => field.label);
+  const missingCount = missingOptionalFields.length;
+  const missingDataPenalty = missingCount > 5 ? 2 : missingCount > 3 ? 1 : 0;
+
+  const dw = weights.dimensions;
+  const scoreGlobal = Math.round(
+    (dimensionScores.financier * (dw.financier / 100) +
+    dimensionScores.operationnel * (dw.operationnel / 100) +
+    dimensionScores.commercial * (dw.commercial / 100) +
+    dimensionScores.strategique * (dw.strategique / 100) -
+    missingDataPenalty) * 10
+  ) / 10;
+
+  return {
+    global: Math.max(0, Math.min(100, scoreGlobal)),
+    financier: Math.round(dimensionScores.financier * 10) / 10,
+    operationnel: Math.round(dimensionScores.operationnel * 10) / 10,
+    commercial: Math.round(dimensionScores.commercial * 10) / 10,
+    strategique: Math.round(dimensionScores.strategique * 10) / 10,
+    modelVersion: SCORING_MODEL_V2_1,
+    benchmarkVersion,
+    breakdown: {
+      dimensions: {
+        financier: buildDimensionBreakdown('financier', dimensionScores.financier, dw.financier, contributions.financier),
+        operationnel: buildDimensionBreakdown('operationnel', dimensionScores.operationnel, dw.operationnel, contributions.operationnel),
+        commercial: buildDimensionBreakdown('commercial', dimensionScores.commercial, dw.commercial, contributions.commercial),
+        strategique: buildDimensionBreakdown('strategique', dimensionScores.strategique, dw.strategique, contributions.strategique),
+      },
+      missingOptionalFields,
+      missingDataPenalty,
+      mode,
+      weightSource: weights.source,
+      benchmarkSegment: segment,
+    },
+  };
+}
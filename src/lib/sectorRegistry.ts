@@ -0,0 +1,287 @@
+/**
+ * Sector Registry
+ * Single description of every sector: canonical id, display label (key of the
+ * benchmark tables and value stored in AuditDataV2.sector), synonyms used by
+ * imports, variants and their benchmarks. The audit form, the import
+ * validation, getBenchmarks and the PDF payload all read it.
+ */
+
+import type { AuditDataV2, Region } from '@/types/audit';
+import { getParamSecteur, SectorVariant } from './benchmarks';
+
+// ============= Canonical Sectors =============
+
+export const SECTOR_IDS = [
+  'veterinaire',
+  'clinique_veterinaire',
+  'osteopathe',
+  'kinesitherapeute',
+  'therapeute',
+  'sante_liberale_autre',
+  'commerce',
+  'services',
+  'btp',
+  'industrie',
+  'restauration',
+  'autre',
+] as const;
+
+export type SectorId = typeof SECTOR_IDS[number];
+
+// Sector used when an imported sector cannot be recognized
+export const FALLBACK_SECTOR_ID: SectorId = 'autre';
+
+interface SectorDefinition {
+  label: string;
+  synonyms: string[];
+  // Words identifying a variant in an import (variant id → normalized synonyms)
+  variantSynonyms?: Record<string, string[]>;
+}
+
+// Synonyms are normalized (see normalizeForSectorMatch), in matching order
+const SECTOR_DEFINITIONS: Record<SectorId, SectorDefinition> = {
+  veterinaire: {
+    label: 'Vétérinaire',
+    synonyms: ['veterinaire', 'veto', 'veterinary', 'animal'],
+    variantSynonyms: {
+      veto_standard: ['urbain', 'urbaine', 'canine', 'animaux de compagnie'],
+      veto_rurale: ['rural', 'rurale', 'mixte', 'elevage', 'animaux de rente', 'equin'],
+    },
+  },
+  clinique_veterinaire: {
+    label: 'Clinique Vétérinaire',
+    synonyms: ['clinique veterinaire', 'clinique veto', 'hopital veterinaire'],
+  },
+  osteopathe: {
+    label: 'Ostéopathe',
+    synonyms: ['osteopathe', 'osteo', 'osteopathie', 'osteopath'],
+  },
+  kinesitherapeute: {
+    label: 'Kinésithérapeute',
+    synonyms: ['kinesitherapeute', 'kine', 'kinetherapeute', 'masseur kinesitherapeute', 'masseur kine', 'physiotherapeute', 'physio'],
+  },
+  therapeute: {
+    label: 'Thérapeute / Bien-être',
+    synonyms: [
+      'therapeute', 'therapie', 'praticien bien etre', 'praticien bien-etre', 'bien etre', 'bien-etre',
+      'psychologue', 'psychotherapeute', 'sophrologie', 'sophrologue', 'naturopathe', 'naturopathie',
+      'hypnotherapeute', 'hypnose', 'acupuncteur', 'acupuncture',
+    ],
+  },
+  sante_liberale_autre: {
+    label: 'Santé Libérale (autre)',
+    synonyms: [
+      'sante liberale autre', 'sante liberale', 'professionnel de sante', 'medecin', 'dentiste', 'infirmier',
+      'infirmiere', 'pharmacien', 'sage femme', 'orthophoniste', 'podologue', 'dieteticien',
+    ],
+  },
+  commerce: {
+    label: 'Commerce',
+    synonyms: ['commerce', 'commerce de detail', 'retail', 'boutique', 'magasin', 'epicerie', 'supermarche'],
+  },
+  services: {
+    label: 'Services',
+    synonyms: ['services', 'service', 'conseil', 'consulting', 'cabinet conseil', 'agence', 'prestataire', 'b2b'],
+  },
+  btp: {
+    label: 'BTP / Construction',
+    synonyms: [
+      'btp', 'construction', 'batiment', 'travaux publics', 'artisan', 'plombier', 'electricien',
+      'maconnerie', 'menuiserie', 'peintre', 'couvreur',
+    ],
+  },
+  industrie: {
+    label: 'Industrie',
+    synonyms: ['industrie', 'industriel', 'manufacture', 'usine', 'production', 'fabrication'],
+  },
+  restauration: {
+    label: 'Restauration',
+    synonyms: [
+      'restauration', 'restaurant', 'resto', 'cafe', 'bar', 'brasserie', 'traiteur', 'fast food', 'snack',
+      'pizzeria', 'boulangerie', 'patisserie',
+    ],
+    variantSynonyms: {
+      resto_traditionnel: ['traditionnel', 'traditionnelle', 'brasserie', 'bistrot', 'gastronomique'],
+      resto_rapide: ['rapide', 'fast food', 'fastfood', 'snack', 'vente a emporter', 'burger', 'kebab'],
+    },
+  },
+  autre: {
+    label: 'Autre secteur',
+    synonyms: ['autre', 'other', 'divers', 'non specifie'],
+  },
+};
+
+// ============= Types =============
+
+export interface RegisteredSectorVariant extends SectorVariant {
+  synonyms: string[];
+}
+
+export interface RegisteredSector {
+  id: string; // SectorId for built-in sectors, normalized label for sectors added in the benchmark editor
+  label: string;
+  synonyms: string[];
+  defaultVariant: string;
+  variants: RegisteredSectorVariant[];
+}
+
+// ============= Normalization =============
+
+export function normalizeForSectorMatch(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Whole-word containment, "rurale" must not match inside another word
+function containsWords(text: string, words: string): boolean {
+  return ` ${text} `.includes(` ${words} `);
+}
+
+// ============= Registry =============
+
+function findDefinitionId(label: string): SectorId | undefined {
+  return SECTOR_IDS.find(id => SECTOR_DEFINITIONS[id].label === label);
+}
+
+/**
+ * Sectors of a benchmark table (active table when omitted), built-in sectors first
+ * Sectors added in the benchmark editor are listed with their label as only synonym
+ */
+export function getSectors(version?: string): RegisteredSector[] {
+  const table = getParamSecteur(version);
+  const labels = Object.keys(table.sectors).sort((a, b) => {
+    const rank = (label: string) => {
+      const id = findDefinitionId(label);
+      return id ? SECTOR_IDS.indexOf(id) : SECTOR_IDS.length;
+    };
+    return rank(a) - rank(b);
+  });
+
+  return labels.map(label => {
+    const sector = table.sectors[label];
+    const id = findDefinitionId(label);
+    const definition = id ? SECTOR_DEFINITIONS[id] : undefined;
+    return {
+      id: id ?? normalizeForSectorMatch(label).replace(/[\s-]+/g, '_'),
+      label,
+      synonyms: definition?.synonyms ?? [normalizeForSectorMatch(label)],
+      defaultVariant: sector.default_variant,
+      variants: Object.values(sector.variants).map(variant => ({
+        ...variant,
+        synonyms: definition?.variantSynonyms?.[variant.id] ?? [],
+      })),
+    };
+  });
+}
+
+export function getSector(idOrLabel: string, version?: string): RegisteredSector | undefined {
+  return getSectors(version).find(sector => sector.id === idOrLabel || sector.label === idOrLabel);
+}
+
+export function getSectorLabel(id: SectorId): string {
+  return SECTOR_DEFINITIONS[id].label;
+}
+
+/**
+ * Sector matching a free value: id, label or synonym (exact match first, then containment)
+ */
+export function findSector(rawValue: string, version?: string): RegisteredSector | undefined {
+  const normalized = normalizeForSectorMatch(rawValue);
+  if (!normalized) return undefined;
+  const sectors = getSectors(version);
+
+  const exact = sectors.find(sector =>
+    sector.id === normalized
+    || normalizeForSectorMatch(sector.label) === normalized
+    || sector.synonyms.includes(normalized)
+  );
+  if (exact) return exact;
+
+  for (const sector of sectors) {
+    if (sector.synonyms.some(synonym => normalized.includes(synonym) || synonym.includes(normalized))) {
+      return sector;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Key of a sector in the benchmark table: the value itself when it is a key, otherwise its registry match
+ */
+export function resolveSectorKey(value: string, version?: string): string | undefined {
+  if (value in getParamSecteur(version).sectors) return value;
+  return findSector(value, version)?.label;
+}
+
+// ============= Variants =============
+
+/**
+ * Variant named by an import: id, description or synonym
+ */
+export function matchVariant(sector: RegisteredSector, rawVariant: string): RegisteredSectorVariant | undefined {
+  const normalized = normalizeForSectorMatch(rawVariant);
+  if (!normalized) return undefined;
+  return sector.variants.find(variant =>
+    normalizeForSectorMatch(variant.id) === normalized
+    || normalizeForSectorMatch(variant.description) === normalized
+    || variant.synonyms.includes(normalized)
+  );
+}
+
+/**
+ * Variant suggested by the words of a free sector value ("restauration rapide" → resto_rapide)
+ */
+export function detectVariant(sector: RegisteredSector, rawValue: string): RegisteredSectorVariant | undefined {
+  const normalized = normalizeForSectorMatch(rawValue);
+  return sector.variants.find(variant => variant.synonyms.some(synonym => containsWords(normalized, synonym)));
+}
+
+// ============= Regions =============
+
+// Normalized wordings of each region, for imports
+const REGION_SYNONYMS: Record<Region, string[]> = {
+  ile_de_france: ['ile de france', 'ile-de-france', 'idf', 'paris', 'region parisienne'],
+  province: ['province', 'hors ile de france', 'hors ile-de-france', 'hors idf', 'regions'],
+};
+
+/**
+ * Region named by an import (id or wording), undefined when not recognized
+ */
+export function findRegion(rawValue: string): Region | undefined {
+  const normalized = normalizeForSectorMatch(rawValue);
+  return (Object.keys(REGION_SYNONYMS) as Region[]).find(region =>
+    normalizeForSectorMatch(region) === normalized || REGION_SYNONYMS[region].includes(normalized)
+  );
+}
+
+// ============= Display =============
+
+export interface SectorDescription {
+  id?: string;
+  label: string;
+  variantId?: string;
+  variantLabel?: string;
+}
+
+/**
+ * Sector and variant of an audit as shown in reports
+ */
+export function describeSector(data: Pick<AuditDataV2, 'sector' | 'variant'>): SectorDescription {
+  const key = resolveSectorKey(data.sector);
+  const sector = key ? getSector(key) : undefined;
+  if (!sector) return { label: data.sector, variantId: data.variant };
+
+  const variant = sector.variants.find(v => v.id === (data.variant || sector.defaultVariant));
+  return {
+    id: sector.id,
+    label: sector.label,
+    variantId: variant?.id,
+    variantLabel: variant?.description,
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Sensitivity Engine
+ * Perturbs each scored input by a realistic step (up and down) and measures
+ * the resulting move of the global and dimension scores with computeScoresV2
+ */
+
+import type { AuditData, AuditDataV2, DimensionKey, Scores } from '@/types/audit';
+import { normalizeToV2 } from '@/types/audit';
+import { computeScoresV2, ScoringOptions } from './scoringV2';
+import { AuditInputField, clampFieldValue, formatFieldChange, getAvailableInputFields } from './auditInputFields';
+
+// ============= Types =============
+
+export interface SensitivityMove {
+  value: number;
+  delta: number; // Change applied to the input (after bounds)
+  deltaLabel: string; // e.g. "+5 pts"
+  globalImpact: number; // Change of the global score
+  dimensionImpacts: Record<DimensionKey, number>;
+}
+
+export interface SensitivityEntry {
+  fieldId: string;
+  label: string;
+  baseValue: number;
+  up: SensitivityMove;
+  down: SensitivityMove;
+  maxImpact: number; // Largest absolute global impact, used for ranking
+}
+
+// ============= Engine =============
+
+const DIMENSIONS: DimensionKey[] = ['financier', 'operationnel', 'commercial', 'strategique'];
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function measureMove(
+  field: AuditInputField,
+  data: AuditDataV2,
+  baseScores: Scores,
+  baseValue: number,
+  direction: 1 | -1,
+  options: ScoringOptions
+): SensitivityMove {
+  const value = clampFieldValue(field, baseValue + direction * field.step);
+  const scores = computeScoresV2(field.set(data, value), options);
+  const dimensionImpacts = {} as Record<DimensionKey, number>;
+  DIMENSIONS.forEach(dimension => {
+    dimensionImpacts[dimension] = round1(scores[dimension] - baseScores[dimension]);
+  });
+  return {
+    value,
+    delta: value - baseValue,
+    deltaLabel: formatFieldChange(field, value - baseValue),
+    globalImpact: round1(scores.global - baseScores.global),
+    dimensionImpacts,
+  };
+}
+
+/**
+ * Rank the inputs of an audit by their impact on the global score
+ * Inputs left empty in the audit are not perturbed
+ */
+export function computeSensitivity(data: AuditData, options: ScoringOptions = {}): SensitivityEntry[] {
+  const v2 = normalizeToV2(data);
+  const baseScores = computeScoresV2(v2, options);
+
+  return getAvailableInputFields(v2)
+    .map(field => {
+      const baseValue = field.get(v2);
+      const up = measureMove(field, v2, baseScores, baseValue, 1, options);
+      const down = measureMove(field, v2, baseScores, baseValue, -1, options);
+      return {
+        fieldId: field.id,
+        label: field.label,
+        baseValue,
+        up,
+        down,
+        maxImpact: Math.max(Math.abs(up.globalImpact), Math.abs(down.globalImpact)),
+      };
+    })
+    .sort((a, b) => b.maxImpact - a.maxImpact);
+}
@@ -0,0 +1,41 @@
+/**
+ * Strengths Engine - Assets of the audit and the growth opportunities they open
+ * Rules are declared in the strengthRules section of the active rule pack,
+ * evaluated like the risk rules (see decisionRules.ts)
+ */
+
+import type { DecisionTraceEntry, StrengthOpportunity } from '@/types/audit';
+import { RuleContext, StrengthRuleSpec, traceCondition } from './decisionRules';
+
+// Number of strengths shown, in rule pack order
+const MAX_STRENGTHS = 4;
+
+export function computeStrengths(
+  rules: StrengthRuleSpec[],
+  context: RuleContext
+): { strengths: StrengthOpportunity[]; trace: DecisionTraceEntry[] } {
+  const evaluated = rules.map(rule => ({ rule, ...traceCondition(rule.when, context) }));
+
+  const retained = evaluated
+    .filter(entry => entry.result)
+    .slice(0, MAX_STRENGTHS)
+    .map(entry => entry.rule);
+
+  const strengths: StrengthOpportunity[] = retained.map(rule => ({
+    ruleId: rule.id,
+    strength: rule.strength,
+    opportunity: rule.opportunity,
+    category: rule.category,
+  }));
+
+  const trace: DecisionTraceEntry[] = evaluated.map(({ rule, result, comparisons }) => ({
+    ruleId: rule.id,
+    kind: 'strength',
+    label: rule.strength,
+    fired: result,
+    comparisons,
+    retained: retained.includes(rule),
+  }));
+
+  return { strengths, trace };
+}
@@ -0,0 +1,207 @@
+/**
+ * Target Score Solver
+ * Searches the input space around an audit for the smallest set of realistic
+ * changes reaching a target global or dimension score, using computeScoresV2
+ * as the objective so results stay consistent with the displayed scores
+ */
+
+import type { AuditData, AuditDataV2, ScoreScope, Scores } from '@/types/audit';
+import { normalizeToV2 } from '@/types/audit';
+import { computeScoresV2, ScoringOptions } from './scoringV2';
+import { AuditInputField, clampFieldValue, formatFieldChange, getAvailableInputFields } from './auditInputFields';
+
+// ============= Types =============
+
+export type TargetScope = ScoreScope;
+
+export interface TargetChange {
+  fieldId: string;
+  label: string;
+  from: number;
+  to: number;
+  delta: number;
+  deltaLabel: string; // Business terms, e.g. "+22 k€"
+}
+
+export interface TargetSolution {
+  scope: TargetScope;
+  target: number;
+  baseScore: number;
+  achievedScore: number;
+  reached: boolean;
+  changes: TargetChange[];
+  scores: Scores;
+}
+
+// ============= Constants =============
+
+// A change larger than this many steps is not considered realistic for one plan
+const MAX_STEPS_PER_FIELD = 4;
+// Beyond this many levers the plan is no longer actionable
+const MAX_FIELDS = 3;
+// Refinement granularity, as a fraction of the field step
+const REFINE_GRANULARITY = 10;
+
+// ============= Helpers =============
+
+interface Candidate {
+  field: AuditInputField;
+  from: number;
+  // Reachable values, one per step, in the improving direction
+  values: number[];
+}
+
+function buildCandidates(data: AuditDataV2): Candidate[] {
+  return getAvailableInputFields(data)
+    .map(field => {
+      const from = field.get(data);
+      const direction = field.higherIsBetter ? 1 : -1;
+      const values: number[] = [];
+      for (let step = 1; step <= MAX_STEPS_PER_FIELD; step++) {
+        const value = clampFieldValue(field, from + direction * step * field.step);
+        if (value === (values[values.length - 1] ?? from)) break; // Bound reached
+        values.push(value);
+      }
+      return { field, from, values };
+    })
+    .filter(candidate => candidate.values.length > 0);
+}
+
+function applyValues(data: AuditDataV2, fields: AuditInputField[], values: number[]): AuditDataV2 {
+  return fields.reduce((acc, field, i) => field.set(acc, values[i]), data);
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) =>
+    combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest])
+  );
+}
+
+/**
+ * Step-count vectors for `size` fields, ordered by total number of steps
+ */
+function stepVectors(limits: number[]): number[][] {
+  let vectors: number[][] = [[]];
+  limits.forEach(limit => {
+    vectors = vectors.flatMap(v => Array.from({ length: limit }, (_, i) => [...v, i + 1]));
+  });
+  return vectors.sort((a, b) => a.reduce((s, x) => s + x, 0) - b.reduce((s, x) => s + x, 0));
+}
+
+// ============= Solver =============
+
+/**
+ * Find the smallest set of realistic changes reaching `target` on `scope`
+ * Fewer levers first, then fewer steps; each change is finally shrunk to the
+ * minimum that still reaches the target. When the target is out of reach the
+ * best plan found is returned with `reached: false`.
+ */
+export function solveTargetScore(
+  data: AuditData,
+  scope: TargetScope,
+  target: number,
+  options: ScoringOptions = {}
+): TargetSolution {
+  const v2 = normalizeToV2(data);
+  const baseScores = computeScoresV2(v2, options);
+  const scoreOf = (input: AuditDataV2) => computeScoresV2(input, options);
+  const reaches = (scores: Scores) => scores[scope] >= target;
+
+  const result = (scores: Scores, changes: TargetChange[]): TargetSolution => ({
+    scope,
+    target,
+    baseScore: baseScores[scope],
+    achievedScore: scores[scope],
+    reached: reaches(scores),
+    changes,
+    scores,
+  });
+
+  if (reaches(baseScores)) {
+    return result(baseScores, []);
+  }
+
+  const candidates = buildCandidates(v2);
+  let best: { scores: Scores; fields: AuditInputField[]; values: number[]; from: number[] } | null = null;
+
+  for (let size = 1; size <= Math.min(MAX_FIELDS, candidates.length); size++) {
+    let solution: { total: number; fields: AuditInputField[]; values: number[]; from: number[]; scores: Scores } | null = null;
+
+    combinations(candidates, size).forEach(combo => {
+      const fields = combo.map(c => c.field);
+      const from = combo.map(c => c.from);
+
+      // Skip combinations that cannot reach the target even at their realistic maximum
+      const maxValues = combo.map(c => c.values[c.values.length - 1]);
+      const maxScores = scoreOf(applyValues(v2, fields, maxValues));
+      if (!best || maxScores[scope] > best.scores[scope]) {
+        best = { scores: maxScores, fields, values: maxValues, from };
+      }
+      if (!reaches(maxScores)) return;
+
+      for (const steps of stepVectors(combo.map(c => c.values.length))) {
+        const total = steps.reduce((s, x) => s + x, 0);
+        if (solution && total >= solution.total) break;
+        const values = combo.map((c, i) => c.values[steps[i] - 1]);
+        const scores = scoreOf(applyValues(v2, fields, values));
+        if (reaches(scores)) {
+          solution = { total, fields, values, from, scores };
+          break;
+        }
+      }
+    });
+
+    if (solution) {
+      const values = refineValues(v2, solution.fields, solution.from, solution.values, scoreOf, reaches);
+      const scores = scoreOf(applyValues(v2, solution.fields, values));
+      return result(scores, toChanges(solution.fields, solution.from, values));
+    }
+  }
+
+  if (!best) {
+    return result(baseScores, []);
+  }
+  return result(best.scores, toChanges(best.fields, best.from, best.values));
+}
+
+/**
+ * Shrink each change to the smallest value that still reaches the target
+ */
+function refineValues(
+  data: AuditDataV2,
+  fields: AuditInputField[],
+  from: number[],
+  values: number[],
+  scoreOf: (input: AuditDataV2) => Scores,
+  reaches: (scores: Scores) => boolean
+): number[] {
+  const refined = [...values];
+  fields.forEach((field, i) => {
+    const granularity = field.integer ? 1 : field.step / REFINE_GRANULARITY;
+    const direction = refined[i] >= from[i] ? 1 : -1;
+    let units = Math.round(Math.abs(refined[i] - from[i]) / granularity);
+    while (units > 1) {
+      const candidate = clampFieldValue(field, from[i] + direction * (units - 1) * granularity);
+      const trial = [...refined];
+      trial[i] = candidate;
+      if (!reaches(scoreOf(applyValues(data, fields, trial)))) break;
+      refined[i] = candidate;
+      units--;
+    }
+  });
+  return refined;
+}
+
+function toChanges(fields: AuditInputField[], from: number[], values: number[]): TargetChange[] {
+  return fields
+    .map((field, i) => ({
+      fieldId: field.id,
+      label: field.label,
+      from: from[i],
+      to: values[i],
+      delta: values[i] - from[i],
+      deltaLabel: formatFieldChange(field, values[i] - from[i]),
+    }))
+    .filter(change => change.delta !== 0);
+}
@@ -0,0 +1,102 @@
+/**
+ * Trend Analysis
+ * Builds the year-over-year series of an audit from its prior fiscal years and
+ * derives revenue growth, margin drift and HR cost drift for trend scoring
+ */
+
+import type { AuditData, AuditDataV2, FiscalYearData } from '@/types/audit';
+import { normalizeToV2 } from '@/types/audit';
+
+// ============= Types =============
+
+export interface TrendIndicators {
+  yearsCovered: number;
+  firstYear: number;
+  lastYear: number;
+  revenueGrowthPercent?: number; // Compound annual growth rate, undefined if the first revenue is not positive
+  grossMarginDriftPts: number; // Slope in points per year
+  netMarginDriftPts?: number; // Only when at least two years carry a net margin
+  hrCostDriftPts: number;
+}
+
+// ============= Series =============
+
+/**
+ * Fiscal year of the audit itself (year of auditDate, current year as fallback)
+ */
+export function getAuditFiscalYear(data: AuditDataV2): number {
+  const year = new Date(data.auditDate).getFullYear();
+  return isNaN(year) ? new Date().getFullYear() : year;
+}
+
+/**
+ * Prior years followed by the audit year, oldest first
+ * Prior years on or after the audit year are ignored, one entry is kept per year
+ */
+export function getYearSeries(data: AuditData): FiscalYearData[] {
+  const v2 = normalizeToV2(data);
+  const auditYear = getAuditFiscalYear(v2);
+
+  const byYear = new Map<number, FiscalYearData>();
+  (v2.priorYears ?? [])
+    .filter(year => year.fiscalYear < auditYear)
+    .forEach(year => byYear.set(year.fiscalYear, year));
+
+  byYear.set(auditYear, {
+    fiscalYear: auditYear,
+    annualRevenue: v2.finance.annualRevenue,
+    grossMarginPercent: v2.finance.grossMarginPercent,
+    netMarginPercent: v2.finance.netMarginPercent,
+    hrCostsPercent: v2.costs.hrCostsPercent,
+  });
+
+  return [...byYear.values()].sort((a, b) => a.fiscalYear - b.fiscalYear);
+}
+
+// ============= Indicators =============
+
+/**
+ * Least-squares slope of the values per fiscal year
+ */
+function slopePerYear(points: { year: number; value: number }[]): number {
+  const n = points.length;
+  const meanYear = points.reduce((sum, p) => sum + p.year, 0) / n;
+  const meanValue = points.reduce((sum, p) => sum + p.value, 0) / n;
+  const covariance = points.reduce((sum, p) => sum + (p.year - meanYear) * (p.value - meanValue), 0);
+  const variance = points.reduce((sum, p) => sum + (p.year - meanYear) ** 2, 0);
+  return variance === 0 ? 0 : covariance / variance;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Trend indicators of an audit, null when no prior year is available
+ */
+export function computeTrendIndicators(data: AuditData): TrendIndicators | null {
+  const series = getYearSeries(data);
+  if (series.length < 2) return null;
+
+  const first = series[0];
+  const last = series[series.length - 1];
+  const span = last.fiscalYear - first.fiscalYear;
+
+  const revenueGrowthPercent = first.annualRevenue > 0 && last.annualRevenue >= 0
+    ? round1((Math.pow(last.annualRevenue / first.annualRevenue, 1 / span) - 1) * 100)
+    : undefined;
+
+  const netMarginPoints = series
+    .filter(year => year.netMarginPercent !== undefined)
+    .map(year => ({ year: year.fiscalYear, value: year.netMarginPercent as number }));
+
+  return {
+    yearsCovered: series.length,
+    firstYear: first.fiscalYear,
+    lastYear: last.fiscalYear,
+    revenueGrowthPercent,
+    grossMarginDriftPts: round1(slopePerYear(series.map(year => ({ year: year.fiscalYear, value: year.grossMarginPercent })))),
+    netMarginDriftPts: netMarginPoints.length >= 2 ? round1(slopePerYear(netMarginPoints)) : undefined,
+    hrCostDriftPts: round1(slopePerYear(series.map(year => ({ year: year.fiscalYear, value: year.hrCostsPercent })))),
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Uncertainty Engine
+ * Propagates a ± tolerance on each numeric input through computeScoresV2 with a
+ * seeded Monte Carlo, giving P10/P50/P90 bands for the global and dimension scores
+ */
+
+import type { AuditData, AuditDataV2, DataOrigin, ScorePercentiles, ScoreScope, ScoreUncertainty } from '@/types/audit';
+import { normalizeToV2 } from '@/types/audit';
+import { computeScoresV2, getScoreLevel, ScoringOptions } from './scoringV2';
+import { AuditInputField, clampFieldValue, getAuditInputFields } from './auditInputFields';
+
+// ============= Constants =============
+
+// Default ± tolerance (% of the value) when the field has none of its own
+export const DEFAULT_TOLERANCE_BY_ORIGIN: Record<DataOrigin, number> = {
+  imported: 2,
+  manual: 5,
+  client_declarative: 10,
+  estimated: 20,
+};
+
+// Absolute floor of the ± spread, in the field's unit: a value of 0 (NPS 0, net margin 0)
+// is no more certain than any other
+export const MIN_SPREAD_BY_UNIT: Record<string, number> = {
+  'pts': 1,
+  'pts/an': 0.5,
+  'mois': 0.5,
+  '/mois': 0.5,
+  'ETP': 0.1,
+  '€': 1000,
+};
+
+const DEFAULT_SAMPLES = 500;
+const DEFAULT_SEED = 20240901;
+
+const SCOPES: ScoreScope[] = ['global', 'financier', 'operationnel', 'commercial', 'strategique'];
+
+// Revenue and headcount are uncertain on their own, CA/ETP follows from them
+const RAW_FIELDS: AuditInputField[] = [
+  {
+    id: 'finance.annualRevenue',
+    label: 'Chiffre d\'affaires',
+    unit: '€',
+    step: 10000,
+    min: 0,
+    higherIsBetter: true,
+    get: (d) => d.finance.annualRevenue,
+    set: (d, v) => ({ ...d, finance: { ...d.finance, annualRevenue: v } }),
+  },
+  {
+    id: 'ops.productivity.fte',
+    label: 'Effectif',
+    unit: 'ETP',
+    step: 1,
+    min: 0.1,
+    higherIsBetter: true,
+    get: (d) => d.ops.productivity.fte,
+    set: (d, v) => ({ ...d, ops: { ...d.ops, productivity: { ...d.ops.productivity, fte: v } } }),
+  },
+];
+
+/**
+ * Fields sampled within their tolerance: the raw fields and the measured registry inputs
+ */
+export function getUncertainFields(): AuditInputField[] {
+  return [...RAW_FIELDS, ...getAuditInputFields().filter(field => !field.noTolerance)];
+}
+
+export interface UncertaintyOptions extends ScoringOptions {
+  samples?: number;
+  seed?: number;
+}
+
+// ============= Helpers =============
+
+/**
+ * Tolerance in % applied to a field: its own value if set, else the dataOrigin default
+ */
+export function getFieldTolerance(data: AuditDataV2, fieldId: string): number {
+  const own = data.tolerances?.[fieldId];
+  if (own !== undefined && own >= 0) return own;
+  return DEFAULT_TOLERANCE_BY_ORIGIN[data.dataOrigin] ?? DEFAULT_TOLERANCE_BY_ORIGIN.estimated;
+}
+
+/**
+ * ± spread of a field around its value: the relative tolerance, never below the unit floor
+ * A zero tolerance stays zero (the field is then not sampled at all)
+ */
+export function getFieldSpread(field: AuditInputField, value: number, tolerance: number): number {
+  if (tolerance <= 0) return 0;
+  return Math.max(Math.abs(value) * tolerance, MIN_SPREAD_BY_UNIT[field.unit] ?? 0);
+}
+
+/**
+ * mulberry32: small deterministic PRNG, same seed => same bands
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * True when the band straddles a getScoreLevel threshold
+ */
+export function isLevelAmbiguous(band: ScorePercentiles): boolean {
+  return getScoreLevel(band.p10).level !== getScoreLevel(band.p90).level;
+}
+
+// ============= Engine =============
+
+/**
+ * Sample every provided field uniformly within ± its spread and score each draw
+ * Missing optional fields stay missing: uncertainty is never used to invent data
+ */
+export function computeScoreUncertainty(data: AuditData, options: UncertaintyOptions = {}): ScoreUncertainty {
+  const { samples = DEFAULT_SAMPLES, seed = DEFAULT_SEED, ...scoringOptions } = options;
+  const v2 = normalizeToV2(data);
+  const random = createRandom(seed);
+
+  const fields = getUncertainFields()
+    .map(field => ({ field, value: field.get(v2), tolerance: getFieldTolerance(v2, field.id) / 100 }))
+    .filter(({ value, tolerance }) => value !== undefined && tolerance > 0);
+
+  const draws: Record<ScoreScope, number[]> = {
+    global: [],
+    financier: [],
+    operationnel: [],
+    commercial: [],
+    strategique: [],
+  };
+
+  for (let i = 0; i < samples; i++) {
+    const sample = fields.reduce((acc, { field, value, tolerance }) => {
+      const spread = getFieldSpread(field, value, tolerance);
+      return field.set(acc, clampFieldValue(field, value + (random() * 2 - 1) * spread));
+    }, v2);
+    const scores = computeScoresV2(sample, scoringOptions);
+    SCOPES.forEach(scope => draws[scope].push(scores[scope]));
+  }
+
+  const percentiles = {} as Record<ScoreScope, ScorePercentiles>;
+  const ambiguous = {} as Record<ScoreScope, boolean>;
+  SCOPES.forEach(scope => {
+    const sorted = draws[scope].sort((a, b) => a - b);
+    percentiles[scope] = {
+      p10: percentile(sorted, 0.1),
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+    };
+    ambiguous[scope] = isLevelAmbiguous(percentiles[scope]);
+  });
+
+  return { samples, seed, percentiles, ambiguous };
+}
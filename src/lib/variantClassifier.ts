@@ -0,0 +1,79 @@
+/**
+ * Variant Classifier
+ * Compares the metric profile of an audit with the benchmark thresholds of each
+ * variant of its sector and suggests the closest one (e.g. veto_standard vs
+ * veto_rurale, resto_traditionnel vs resto_rapide)
+ */
+
+import type { AuditData } from '@/types/audit';
+import { normalizeToV2 } from '@/types/audit';
+import { getMetricValue, getRegisteredMetrics, MetricContext } from './metricRegistry';
+import { getSector, resolveSectorKey } from './sectorRegistry';
+import { toRawThresholds } from './scoringV2';
+
+// ============= Types =============
+
+export interface VariantFit {
+  variantId: string;
+  description: string;
+  fit: number; // 0-100, 100 = every metric sits on the variant's "bon" threshold
+}
+
+export interface VariantSuggestion extends VariantFit {
+  candidates: VariantFit[]; // Every variant of the sector, best fit first
+  metricsUsed: number;
+}
+
+// ============= Constants =============
+
+// Below this many benchmarked values the profile is too thin to classify
+const MIN_METRICS = 2;
+
+// A metric stops contributing once it is this many threshold spreads away from "bon"
+const MAX_SPREADS = 2;
+
+// ============= Classification =============
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Closest variant of the audit's sector, null when the sector has a single variant
+ * or when too few benchmarked values are known
+ */
+export function suggestVariant(data: AuditData, version?: string): VariantSuggestion | null {
+  const v2 = normalizeToV2(data);
+  const key = resolveSectorKey(v2.sector, version);
+  const sector = key ? getSector(key, version) : undefined;
+  if (!sector || sector.variants.length < 2) return null;
+
+  // One value per benchmark key (CA/ETP is scored in two dimensions)
+  const context: MetricContext = { trends: null, dimensionScores: {} };
+  const values = new Map<string, number>();
+  getRegisteredMetrics().forEach(metric => {
+    const benchmark = metric.curve.benchmark;
+    if (!benchmark || values.has(benchmark)) return;
+    const value = getMetricValue(metric, v2, context);
+    if (value !== undefined && Number.isFinite(value)) values.set(benchmark, value);
+  });
+  if (values.size < MIN_METRICS) return null;
+
+  const candidates: VariantFit[] = sector.variants.map(variant => {
+    const fits: number[] = [];
+    values.forEach((value, benchmark) => {
+      const definition = variant.metrics[benchmark];
+      if (!definition) return;
+      const thresholds = toRawThresholds(definition);
+      const spread = Math.abs(thresholds.excellent - thresholds.crit) || 1;
+      const distance = Math.abs(value - thresholds.bon) / spread;
+      fits.push(Math.max(0, 1 - distance / MAX_SPREADS));
+    });
+    const fit = fits.length > 0 ? (fits.reduce((sum, f) => sum + f, 0) / fits.length) * 100 : 0;
+    return { variantId: variant.id, description: variant.description, fit: round1(fit) };
+  });
+
+  // Stable sort keeps the declaration order (default variant first) on ties
+  candidates.sort((a, b) => b.fit - a.fit);
+  return { ...candidates[0], candidates, metricsUsed: values.size };
+}
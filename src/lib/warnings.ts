@@ -15,7 +15,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
       warnings.push({
         type: 'warning',
         message: `Incohérence : Marge brute (${v2.finance.grossMarginPercent}%) + COGS (${v2.costs.cogsPercent}%) = ${total}% (devrait être proche de 100%)`,
-        field: 'cogsPercent',
+        field: 'costs.cogsPercent',
+        category: 'coherence',
       });
     }
   }
@@ -25,7 +26,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'warning',
       message: `Incohérence : La marge nette (${v2.finance.netMarginPercent}%) ne peut pas dépasser la marge brute (${v2.finance.grossMarginPercent}%)`,
-      field: 'netMarginPercent',
+      field: 'finance.netMarginPercent',
+      category: 'coherence',
     });
   }
 
@@ -39,7 +41,9 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'warning',
       message: `Structure de coûts élevée : RH (${v2.costs.hrCostsPercent}%) + COGS (${v2.costs.cogsPercent ?? 0}%) + Fixes (${v2.costs.fixedCostsPercent ?? 0}%) = ${totalCosts}% du CA`,
-      field: 'costs',
+      // HR costs are the only cost always entered
+      field: 'costs.hrCostsPercent',
+      category: 'coherence',
     });
   }
 
@@ -48,7 +52,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'warning',
       message: `Taux d'occupation très élevé (${v2.ops.occupancyRatePercent}%) : risque de surcharge et qualité de service impactée`,
-      field: 'occupancyRatePercent',
+      field: 'ops.occupancyRatePercent',
+      category: 'business',
     });
   }
 
@@ -57,7 +62,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'critical',
       message: `Taux d'absentéisme critique (${v2.hr.absenteeismRatePercent}%) : risque RH majeur à traiter en priorité`,
-      field: 'absenteeismRatePercent',
+      field: 'hr.absenteeismRatePercent',
+      category: 'business',
     });
   }
 
@@ -66,7 +72,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'critical',
       message: `Turnover critique (${v2.hr.turnoverRatePercent}%) : instabilité des équipes, coûts de recrutement élevés`,
-      field: 'turnoverRatePercent',
+      field: 'hr.turnoverRatePercent',
+      category: 'business',
     });
   }
 
@@ -75,7 +82,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'warning',
       message: `Taux de retours/erreurs élevé (${v2.ops.quality.returnRatePercent}%) : impact sur la satisfaction client`,
-      field: 'returnRatePercent',
+      field: 'ops.quality.returnRatePercent',
+      category: 'business',
     });
   }
 
@@ -84,7 +92,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'critical',
       message: `Trésorerie critique : runway de ${v2.finance.cashRunwayMonths} mois seulement`,
-      field: 'cashRunwayMonths',
+      field: 'finance.cashRunwayMonths',
+      category: 'business',
     });
   }
 
@@ -93,7 +102,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'warning',
       message: `NPS négatif (${v2.commercial.satisfaction.nps}) : plus de détracteurs que de promoteurs`,
-      field: 'nps',
+      field: 'commercial.satisfaction.nps',
+      category: 'business',
     });
   }
 
@@ -102,7 +112,8 @@ export function getAuditWarnings(data: AuditData): AuditWarning[] {
     warnings.push({
       type: 'warning',
       message: `Satisfaction client faible (CSAT: ${v2.commercial.satisfaction.csatPercent}%) : risque de churn élevé`,
-      field: 'csatPercent',
+      field: 'commercial.satisfaction.csatPercent',
+      category: 'business',
     });
   }
 
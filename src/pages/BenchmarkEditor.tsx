@@ -0,0 +1,495 @@
+import { ChangeEvent, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RulePackPanel } from '@/components/RulePackPanel';
+import {
+  BENCHMARK_VERSIONS,
+  BenchmarkSegment,
+  getActiveParamSecteur,
+  getBenchmarkOverride,
+  MetricDefinition,
+  PARAM_SECTEUR,
+  ParamSecteur,
+  REGION_LABELS,
+  SectorVariant,
+  setBenchmarkOverride,
+  ThresholdSet,
+} from '@/lib/benchmarks';
+import {
+  BenchmarkValidationIssue,
+  METRIC_UNIT_LABELS,
+  parseParamSecteurJson,
+  serializeParamSecteur,
+  validateParamSecteur,
+} from '@/lib/benchmarkOverrides';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, ArrowLeft, BarChart3, Copy, Download, RotateCcw, Save, SlidersHorizontal, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+const THRESHOLD_KEYS: (keyof ThresholdSet)[] = ['crit', 'bon', 'excellent'];
+
+// Select value of the variant's own thresholds (Radix selects reject empty values)
+const BASE_SEGMENT = 'base';
+
+function cloneTable(table: ParamSecteur): ParamSecteur {
+  return JSON.parse(JSON.stringify(table)) as ParamSecteur;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Editable copy of the active table; the compiled-in table gets a local version number
+ */
+function createDraft(): ParamSecteur {
+  const override = getBenchmarkOverride();
+  if (override) return cloneTable(override);
+  return { ...cloneTable(PARAM_SECTEUR), version: `${PARAM_SECTEUR.version}-local` };
+}
+
+const BenchmarkEditorPage = () => {
+  const [draft, setDraft] = useState<ParamSecteur>(createDraft);
+  const [activeVersion, setActiveVersion] = useState(() => getActiveParamSecteur().version);
+  const [selectedSector, setSelectedSector] = useState(() => Object.keys(draft.sectors)[0] ?? '');
+  const [selectedVariant, setSelectedVariant] = useState(() => draft.sectors[selectedSector]?.default_variant ?? '');
+  const [selectedSegment, setSelectedSegment] = useState(BASE_SEGMENT);
+  const [newSectorName, setNewSectorName] = useState('');
+  const [newVariantId, setNewVariantId] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const issues = useMemo(() => {
+    const found: BenchmarkValidationIssue[] = validateParamSecteur(draft);
+    if (draft.version in BENCHMARK_VERSIONS) {
+      found.unshift({ path: 'version', message: 'Version déjà utilisée par une table de référence, choisissez un autre numéro' });
+    }
+    return found;
+  }, [draft]);
+
+  const sector = draft.sectors[selectedSector];
+  const variant: SectorVariant | undefined = sector?.variants[selectedVariant];
+  const segment: BenchmarkSegment | undefined = variant?.segments?.find(s => s.id === selectedSegment);
+  const metricsPath = `${selectedSector} / ${selectedVariant}${segment ? ` / ${segment.id}` : ''}`;
+  const editedMetrics = (segment ? segment.metrics : variant?.metrics) ?? {};
+  const isOverrideActive = activeVersion !== PARAM_SECTEUR.version;
+
+  const issueFor = (metricKey: string) => issues.find(issue => issue.path === `${metricsPath} / ${metricKey}`);
+
+  // ============= Selection =============
+
+  const selectVariant = (id: string) => {
+    setSelectedVariant(id);
+    setSelectedSegment(BASE_SEGMENT);
+  };
+
+  const selectSector = (name: string, table: ParamSecteur = draft) => {
+    setSelectedSector(name);
+    selectVariant(table.sectors[name]?.default_variant ?? '');
+  };
+
+  const loadDraft = (table: ParamSecteur) => {
+    setDraft(table);
+    const firstSector = Object.keys(table.sectors)[0] ?? '';
+    selectSector(table.sectors[selectedSector] ? selectedSector : firstSector, table);
+  };
+
+  // ============= Edition =============
+
+  const updateVariant = (update: (variant: SectorVariant) => SectorVariant) => {
+    if (!sector || !variant) return;
+    setDraft({
+      ...draft,
+      sectors: {
+        ...draft.sectors,
+        [selectedSector]: { ...sector, variants: { ...sector.variants, [selectedVariant]: update(variant) } },
+      },
+    });
+  };
+
+  const updateMetric = (metricKey: string, update: Partial<MetricDefinition>) => {
+    updateVariant(current => {
+      if (segment) {
+        return {
+          ...current,
+          segments: current.segments?.map(s => s.id === segment.id
+            ? { ...s, metrics: { ...s.metrics, [metricKey]: { ...s.metrics[metricKey], ...update } } }
+            : s),
+        };
+      }
+      return {
+        ...current,
+        metrics: { ...current.metrics, [metricKey]: { ...current.metrics[metricKey], ...update } },
+      };
+    });
+  };
+
+  const updateThreshold = (metricKey: string, key: keyof ThresholdSet, value: string) => {
+    const thresholds = editedMetrics[metricKey]?.thresholds;
+    if (!thresholds) return;
+    updateMetric(metricKey, { thresholds: { ...thresholds, [key]: value === '' ? NaN : Number(value) } });
+  };
+
+  const setDefaultVariant = () => {
+    if (!sector) return;
+    setDraft({ ...draft, sectors: { ...draft.sectors, [selectedSector]: { ...sector, default_variant: selectedVariant } } });
+  };
+
+  const addSector = () => {
+    const name = newSectorName.trim();
+    if (!name || !sector) return;
+    if (name in draft.sectors) {
+      toast.error(`Le secteur « ${name} » existe déjà`);
+      return;
+    }
+    // The new sector starts from a copy of the selected one
+    const table = { ...draft, sectors: { ...draft.sectors, [name]: JSON.parse(JSON.stringify(sector)) } };
+    setDraft(table);
+    selectSector(name, table);
+    setNewSectorName('');
+  };
+
+  const removeSector = () => {
+    const { [selectedSector]: _removed, ...sectors } = draft.sectors;
+    const table = { ...draft, sectors };
+    setDraft(table);
+    selectSector(Object.keys(sectors)[0] ?? '', table);
+  };
+
+  const addVariant = () => {
+    const id = newVariantId.trim();
+    if (!id || !sector || !variant) return;
+    if (id in sector.variants) {
+      toast.error(`La variante « ${id} » existe déjà`);
+      return;
+    }
+    const copy: SectorVariant = { ...JSON.parse(JSON.stringify(variant)), id };
+    setDraft({
+      ...draft,
+      sectors: { ...draft.sectors, [selectedSector]: { ...sector, variants: { ...sector.variants, [id]: copy } } },
+    });
+    selectVariant(id);
+    setNewVariantId('');
+  };
+
+  const removeVariant = () => {
+    if (!sector) return;
+    const { [selectedVariant]: _removed, ...variants } = sector.variants;
+    setDraft({ ...draft, sectors: { ...draft.sectors, [selectedSector]: { ...sector, variants } } });
+    selectVariant(sector.default_variant);
+  };
+
+  // ============= Persistence =============
+
+  const handleSave = () => {
+    try {
+      const table = { ...draft, last_update: today() };
+      setBenchmarkOverride(table);
+      setDraft(table);
+      setActiveVersion(table.version);
+      toast.success(`Benchmarks v${table.version} actifs pour les prochains audits`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Enregistrement impossible');
+    }
+  };
+
+  const handleReset = () => {
+    setBenchmarkOverride(null);
+    setActiveVersion(PARAM_SECTEUR.version);
+    loadDraft(createDraft());
+    toast.success(`Table de référence v${PARAM_SECTEUR.version} rétablie`);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeParamSecteur(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `param-secteur-v${draft.version}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const table = parseParamSecteurJson(await file.text());
+      loadDraft(table);
+      toast.success(`Table v${table.version} chargée, enregistrez-la pour l'activer`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import impossible');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container max-w-6xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-gradient-primary">
+                <BarChart3 className="w-5 h-5 text-primary-foreground" />
+              </div>
+              <h1 className="font-display font-bold text-xl text-foreground">
+                Audit<span className="text-accent">Score</span>
+              </h1>
+            </div>
+            <Link to="/" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+              Audit individuel
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <section className="py-16">
+        <div className="container max-w-6xl mx-auto px-4 space-y-8">
+          <div className="text-center max-w-3xl mx-auto animate-fade-in">
+            <h2 className="font-display font-bold text-4xl text-foreground mb-4 flex items-center justify-center gap-3">
+              <SlidersHorizontal className="w-8 h-8 text-primary" />
+              Référentiel des benchmarks
+            </h2>
+            <p className="text-lg text-muted-foreground">
+              Seuils sectoriels utilisés par le scoring, modifiables sans redéploiement et enregistrés sur ce poste
+            </p>
+          </div>
+
+          {/* Active table */}
+          <div className="bg-card rounded-2xl p-6 shadow-soft border border-border/50 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Table active : <span className="font-semibold text-foreground">v{activeVersion}</span>
+              {isOverrideActive ? ' (modifiée localement)' : ' (référence)'}
+            </p>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="benchmarkVersion">Version de la table éditée</Label>
+                <Input
+                  id="benchmarkVersion"
+                  className="w-48"
+                  value={draft.version}
+                  onChange={(e) => setDraft({ ...draft, version: e.target.value })}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleSave} disabled={issues.length > 0}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Enregistrer et activer
+                </Button>
+                <Button variant="outline" onClick={handleExport}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Exporter JSON
+                </Button>
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Importer JSON
+                </Button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                <Button variant="ghost" onClick={handleReset} disabled={!isOverrideActive}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Rétablir la référence v{PARAM_SECTEUR.version}
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {/* Sector and variant */}
+          <div className="bg-card rounded-2xl p-6 shadow-soft border border-border/50 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label>Secteur</Label>
+                <div className="flex gap-2">
+                  <Select value={selectedSector} onValueChange={(name) => selectSector(name)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.keys(draft.sectors).map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={removeSector}
+                    disabled={Object.keys(draft.sectors).length <= 1}
+                    aria-label="Supprimer le secteur"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Input placeholder="Nouveau secteur" value={newSectorName} onChange={(e) => setNewSectorName(e.target.value)} />
+                  <Button variant="outline" onClick={addSector} disabled={!newSectorName.trim()}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Dupliquer
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Variante</Label>
+                <div className="flex gap-2">
+                  <Select value={selectedVariant} onValueChange={selectVariant}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(sector?.variants ?? {}).map(v => (
+                        <SelectItem key={v.id} value={v.id}>
+                          {v.id}{v.id === sector?.default_variant && ' (par défaut)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={removeVariant}
+                    disabled={!sector || selectedVariant === sector.default_variant}
+                    aria-label="Supprimer la variante"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Input placeholder="Nouvelle variante" value={newVariantId} onChange={(e) => setNewVariantId(e.target.value)} />
+                  <Button variant="outline" onClick={addVariant} disabled={!newVariantId.trim()}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Dupliquer
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {variant && (
+              <>
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2 flex-1 min-w-[240px]">
+                    <Label htmlFor="variantDescription">Description</Label>
+                    <Input
+                      id="variantDescription"
+                      value={variant.description}
+                      onChange={(e) => updateVariant(current => ({ ...current, description: e.target.value }))}
+                    />
+                  </div>
+                  <Button variant="outline" onClick={setDefaultVariant} disabled={selectedVariant === sector?.default_variant}>
+                    Variante par défaut
+                  </Button>
+                </div>
+
+                {variant.segments && variant.segments.length > 0 && (
+                  <div className="space-y-2 max-w-md">
+                    <Label>Segment</Label>
+                    <Select value={selectedSegment} onValueChange={setSelectedSegment}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={BASE_SEGMENT}>Seuils de la variante</SelectItem>
+                        {variant.segments.map(s => (
+                          <SelectItem key={s.id} value={s.id}>{s.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {segment && (
+                      <p className="text-xs text-muted-foreground">
+                        Remplace les seuils de la variante pour les indicateurs listés
+                        {segment.region && ` • ${REGION_LABELS[segment.region]}`}
+                        {segment.minFte !== undefined && ` • à partir de ${segment.minFte} ETP`}
+                        {segment.maxFte !== undefined && ` • moins de ${segment.maxFte} ETP`}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Thresholds */}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Indicateur</TableHead>
+                      <TableHead>Unité</TableHead>
+                      {THRESHOLD_KEYS.map(key => (
+                        <TableHead key={key} className="text-right">{key}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(editedMetrics).map(([metricKey, metric]) => {
+                      const issue = issueFor(metricKey);
+                      return (
+                        <TableRow key={metricKey} className={cn(issue && 'bg-destructive/5')}>
+                          <TableCell className="font-medium">
+                            {metricKey}
+                            {issue && (
+                              <p className="text-xs text-destructive flex items-center gap-1 mt-1">
+                                <AlertTriangle className="w-3 h-3" />
+                                {issue.message}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={metric.unit}
+                              onValueChange={(unit) => updateMetric(metricKey, { unit: unit as MetricDefinition['unit'] })}
+                            >
+                              <SelectTrigger className="w-56">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(METRIC_UNIT_LABELS) as MetricDefinition['unit'][]).map(unit => (
+                                  <SelectItem key={unit} value={unit}>{METRIC_UNIT_LABELS[unit]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          {THRESHOLD_KEYS.map(key => (
+                            <TableCell key={key} className="text-right">
+                              <Input
+                                type="number"
+                                step="any"
+                                className="w-28 ml-auto text-right"
+                                aria-label={`${metricKey} ${key}`}
+                                value={Number.isFinite(metric.thresholds[key]) ? metric.thresholds[key] : ''}
+                                onChange={(e) => updateThreshold(metricKey, key, e.target.value)}
+                              />
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </div>
+
+          {issues.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{issues.length} problème{issues.length > 1 ? 's' : ''} à corriger avant l'enregistrement</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4 space-y-1 mt-2">
+                  {issues.map((issue, index) => (
+                    <li key={index}>{issue.path && <span className="font-medium">{issue.path} : </span>}{issue.message}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <RulePackPanel />
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default BenchmarkEditorPage;
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AuditForm } from '@/components/AuditForm';
+import { AuditResults } from '@/components/AuditResults';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AuditProvider } from '@/contexts/AuditContext';
+import { useScoringMode } from '@/hooks/useAudit';
+import { getScoreLevel } from '@/lib/scoring';
+import { DIMENSION_LABELS } from '@/lib/scoringV2';
+import { computeGroupAudit, loadGroupAudit, OUTLIER_GAP, saveGroupAudit } from '@/lib/groupAudit';
+import { cn } from '@/lib/utils';
+import { AuditDataV2, DimensionKey, GroupAudit } from '@/types/audit';
+import { ArrowLeft, BarChart3, Building, Eye, Trash2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+
+const levelColors = {
+  excellent: 'text-score-excellent',
+  bon: 'text-score-bon',
+  critique: 'text-score-critique',
+  danger: 'text-score-danger',
+};
+
+function formatRevenue(value: number): string {
+  return `${Math.round(value / 1000).toLocaleString('fr-FR')} k€`;
+}
+
+const GroupAuditPage = () => {
+  const { scoringMode } = useScoringMode();
+  const [group, setGroup] = useState<GroupAudit>(loadGroupAudit);
+  const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveGroupAudit(group);
+  }, [group]);
+
+  const result = useMemo(() => computeGroupAudit(group, { mode: scoringMode }), [group, scoringMode]);
+  const selectedSite = group.sites.find(site => site.id === selectedSiteId);
+
+  const handleAddSite = (data: AuditDataV2) => {
+    const site = { id: `site-${Date.now()}`, data };
+    setGroup(prev => ({ ...prev, sites: [...prev.sites, site] }));
+    toast.success(`Site « ${data.businessName} » ajouté au groupe`);
+  };
+
+  const handleRemoveSite = (id: string) => {
+    setGroup(prev => ({ ...prev, sites: prev.sites.filter(site => site.id !== id) }));
+    if (selectedSiteId === id) setSelectedSiteId(null);
+  };
+
+  const showSite = (id: string) => {
+    setSelectedSiteId(id);
+    setTimeout(() => {
+      document.getElementById('site-results')?.scrollIntoView({ behavior: 'smooth' });
+    }, 100);
+  };
+
+  const consolidatedLevel = getScoreLevel(result.consolidated.global);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container max-w-6xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-gradient-primary">
+                <BarChart3 className="w-5 h-5 text-primary-foreground" />
+              </div>
+              <h1 className="font-display font-bold text-xl text-foreground">
+                Audit<span className="text-accent">Score</span>
+              </h1>
+            </div>
+            <Link to="/" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+              Audit individuel
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Group overview */}
+      <section className="py-16">
+        <div className="container max-w-6xl mx-auto px-4 space-y-8">
+          <div className="text-center max-w-3xl mx-auto animate-fade-in">
+            <h2 className="font-display font-bold text-4xl text-foreground mb-4 flex items-center justify-center gap-3">
+              <Building className="w-8 h-8 text-primary" />
+              Audit de groupe
+            </h2>
+            <p className="text-lg text-muted-foreground">
+              Chaque site est noté avec les benchmarks de son secteur, le score consolidé est pondéré par le CA
+            </p>
+          </div>
+
+          <div className="max-w-md mx-auto space-y-2">
+            <Label htmlFor="groupName">Nom du groupe</Label>
+            <Input
+              id="groupName"
+              placeholder="Groupe VetSud"
+              value={group.groupName}
+              onChange={(e) => setGroup({ ...group, groupName: e.target.value })}
+            />
+          </div>
+
+          {result.sites.length > 0 && (
+            <div className="bg-card rounded-2xl p-6 shadow-soft border border-border/50 space-y-6">
+              {/* Consolidated score */}
+              <div className="flex flex-wrap items-end justify-between gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">Score consolidé {group.groupName && `— ${group.groupName}`}</p>
+                  <p className="text-4xl font-display font-bold text-foreground">
+                    {result.consolidated.global.toFixed(1)}
+                    <span className="text-muted-foreground text-sm font-normal ml-1">/100</span>
+                    <span className={cn("text-sm font-medium ml-3", levelColors[consolidatedLevel.level])}>{consolidatedLevel.label}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {result.sites.length} site{result.sites.length > 1 ? 's' : ''} • CA total {formatRevenue(result.totalRevenue)} • Médiane {result.medianScore.toFixed(1)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm">
+                  {(Object.keys(DIMENSION_LABELS) as DimensionKey[]).map(dimension => (
+                    <div key={dimension} className="text-center">
+                      <p className="text-muted-foreground text-xs">{DIMENSION_LABELS[dimension]}</p>
+                      <p className="font-semibold text-foreground">{result.consolidated[dimension].toFixed(1)}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Ranked sites */}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Site</TableHead>
+                    <TableHead>Secteur</TableHead>
+                    <TableHead className="text-right">CA (part)</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead className="text-right">Écart médiane</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.sites.map(({ site, scores, rank, revenueShare, gapToMedian, outlier }) => (
+                    <TableRow key={site.id} className={cn(selectedSiteId === site.id && 'bg-secondary/50')}>
+                      <TableCell>{rank}</TableCell>
+                      <TableCell className="font-medium">
+                        {site.data.businessName || 'Site sans nom'}
+                        {outlier && (
+                          <span
+                            className={cn(
+                              "ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border",
+                              outlier === 'below'
+                                ? 'bg-destructive/10 text-destructive border-destructive/30'
+                                : 'bg-success/15 text-success border-success/30'
+                            )}
+                            title={`Écart de plus de ${OUTLIER_GAP} pts au score médian du groupe`}
+                          >
+                            <AlertTriangle className="w-3 h-3" />
+                            {outlier === 'below' ? 'Décroche' : 'Se distingue'}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {site.data.sector}{site.data.variant && ` (${site.data.variant})`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatRevenue(site.data.finance.annualRevenue)} ({revenueShare}%)
+                      </TableCell>
+                      <TableCell className={cn("text-right font-semibold", levelColors[getScoreLevel(scores.global).level])}>
+                        {scores.global.toFixed(1)}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {gapToMedian > 0 ? '+' : ''}{gapToMedian.toFixed(1)}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" onClick={() => showSite(site.id)} aria-label="Voir le détail du site">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleRemoveSite(site.id)} aria-label="Retirer le site">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {/* Add a site */}
+          <div className="max-w-3xl mx-auto">
+            <h3 className="font-display font-semibold text-xl text-foreground mb-4">Ajouter un site</h3>
+            <AuditForm onSubmit={handleAddSite} />
+          </div>
+        </div>
+      </section>
+
+      {/* Site drill-down */}
+      {selectedSite && (
+        <section id="site-results" className="py-16 bg-secondary/30">
+          <div className="container max-w-6xl mx-auto px-4">
+            <AuditProvider key={`${selectedSite.id}-${scoringMode}`} initialData={selectedSite.data} initialScoringMode={scoringMode}>
+              <AuditResults linkWarningsToForm={false} />
+            </AuditProvider>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default GroupAuditPage;
@@ -1,32 +1,40 @@
 import { AuditForm } from '@/components/AuditForm';
-import { GlobalScoreDisplay } from '@/components/GlobalScoreDisplay';
-import { ScoreCard } from '@/components/ScoreCard';
-import { RadarChartDisplay } from '@/components/RadarChart';
-import { PDFDownloadButton } from '@/components/PDFDownloadButton';
-import { EmailPdfButton } from '@/components/EmailPdfButton';
-import { WarningsDisplay } from '@/components/WarningsDisplay';
-import { DecisionPanel } from '@/components/DecisionPanel';
-import { SimulationModule } from '@/components/SimulationModule';
+import { AuditResults } from '@/components/AuditResults';
 import { DataImportModule } from '@/components/DataImportModule';
 import { useAudit } from '@/hooks/useAudit';
-import { TrendingUp, Users, ShoppingCart, Target, BarChart3 } from 'lucide-react';
+import { CURRENT_SCORING_MODEL } from '@/lib/scoringModels';
+import { getActiveBenchmarkVersion } from '@/lib/benchmarks';
+import { Link } from 'react-router-dom';
+import { BarChart3, Building, SlidersHorizontal } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const Index = () => {
-  const { scores, auditData, businessName, warnings, decision, submitAudit } = useAudit();
+  const { scores, submitAudit } = useAudit();
 
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
         <div className="container max-w-6xl mx-auto px-4 py-4">
-          <div className="flex items-center gap-3">
-            <div className="p-2 rounded-lg bg-gradient-primary">
-              <BarChart3 className="w-5 h-5 text-primary-foreground" />
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-gradient-primary">
+                <BarChart3 className="w-5 h-5 text-primary-foreground" />
+              </div>
+              <h1 className="font-display font-bold text-xl text-foreground">
+                Audit<span className="text-accent">Score</span>
+              </h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <Link to="/benchmarks" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
+                <SlidersHorizontal className="w-4 h-4" />
+                Benchmarks
+              </Link>
+              <Link to="/groupe" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
+                <Building className="w-4 h-4" />
+                Audit de groupe
+              </Link>
             </div>
-            <h1 className="font-display font-bold text-xl text-foreground">
-              Audit<span className="text-accent">Score</span>
-            </h1>
           </div>
         </div>
       </header>
@@ -64,70 +72,7 @@ const Index = () => {
       {scores && (
         <section id="results" className="py-16 bg-secondary/30">
           <div className="container max-w-6xl mx-auto px-4">
-            <div className="space-y-8">
-              {/* Warnings */}
-              {warnings && warnings.length > 0 && (
-                <div className="max-w-2xl mx-auto">
-                  <WarningsDisplay warnings={warnings} />
-                </div>
-              )}
-              
-              {/* Global Score */}
-              <div className="flex flex-col items-center gap-4">
-                <GlobalScoreDisplay score={scores.global} businessName={businessName} />
-                <div className="flex flex-wrap items-center justify-center gap-3">
-                  {auditData && <PDFDownloadButton />}
-                  {auditData && <EmailPdfButton />}
-                </div>
-              </div>
-
-              {/* Decision Panel */}
-              {decision && (
-                <div className="max-w-4xl mx-auto">
-                  <DecisionPanel decision={decision} />
-                </div>
-              )}
-              
-              {/* Dimension Scores */}
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                <ScoreCard 
-                  title="Financier" 
-                  score={scores.financier} 
-                  icon={<TrendingUp className="w-5 h-5" />}
-                  delay={0}
-                />
-                <ScoreCard 
-                  title="Opérationnel" 
-                  score={scores.operationnel} 
-                  icon={<Users className="w-5 h-5" />}
-                  delay={100}
-                />
-                <ScoreCard 
-                  title="Commercial" 
-                  score={scores.commercial} 
-                  icon={<ShoppingCart className="w-5 h-5" />}
-                  delay={200}
-                />
-                <ScoreCard 
-                  title="Stratégique" 
-                  score={scores.strategique} 
-                  icon={<Target className="w-5 h-5" />}
-                  delay={300}
-                />
-              </div>
-              
-              {/* Radar Chart */}
-              <div className="max-w-2xl mx-auto">
-                <RadarChartDisplay scores={scores} />
-              </div>
-              
-              {/* Simulation Module */}
-              {auditData && (
-                <div className="max-w-5xl mx-auto pt-8 border-t border-border">
-                  <SimulationModule auditData={auditData} scores={scores} />
-                </div>
-              )}
-            </div>
+            <AuditResults />
           </div>
         </section>
       )}
@@ -135,7 +80,7 @@ const Index = () => {
       {/* Footer */}
       <footer className="py-8 border-t border-border">
         <div className="container max-w-6xl mx-auto px-4 text-center text-sm text-muted-foreground">
-          <p>Scoring 4D paramétré • Benchmarks sectoriels v2.1 • {new Date().getFullYear()}</p>
+          <p>Scoring 4D paramétré (modèle {CURRENT_SCORING_MODEL}) • Benchmarks sectoriels v{getActiveBenchmarkVersion()} • {new Date().getFullYear()}</p>
         </div>
       </footer>
     </div>
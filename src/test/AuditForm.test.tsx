@@ -0,0 +1,62 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { AuditForm } from "@/components/AuditForm";
+import { requestAuditFieldFocus } from "@/lib/auditFormValidation";
+
+const NAME_ERROR = "Nom de l'entreprise requis";
+
+describe("AuditForm", () => {
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it("shows no error on a pristine form", () => {
+    render(<AuditForm onSubmit={vi.fn()} />);
+
+    expect(screen.queryByText(NAME_ERROR)).not.toBeInTheDocument();
+    expect(document.getElementById("businessName")).toHaveAttribute("aria-invalid", "false");
+  });
+
+  it("shows the error of an input once left", () => {
+    render(<AuditForm onSubmit={vi.fn()} />);
+
+    fireEvent.blur(document.getElementById("businessName")!);
+
+    expect(screen.getByText(NAME_ERROR)).toBeInTheDocument();
+  });
+
+  it("shows every error and does not submit on an invalid entry", () => {
+    const onSubmit = vi.fn();
+    const { container } = render(<AuditForm onSubmit={onSubmit} />);
+
+    fireEvent.submit(container.querySelector("form")!);
+
+    expect(screen.getByText(NAME_ERROR)).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it("reveals and focuses the input of a requested field", () => {
+    vi.useFakeTimers();
+    render(<AuditForm onSubmit={vi.fn()} />);
+    expect(document.getElementById("absenteeismRatePercent")).toBeNull();
+
+    let handled = false;
+    act(() => {
+      handled = requestAuditFieldFocus("hr.absenteeismRatePercent");
+    });
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+
+    expect(handled).toBe(true);
+    expect(document.getElementById("absenteeismRatePercent")).toHaveFocus();
+  });
+
+  it("stops handling the requests once unmounted", () => {
+    const { unmount } = render(<AuditForm onSubmit={vi.fn()} />);
+    unmount();
+
+    expect(requestAuditFieldFocus("costs.cogsPercent")).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { buildActionPlan } from "@/lib/actionPlan";
+import type { QuantificationRuleSpec, RiskRuleSpec } from "@/lib/decisionRules";
+
+type Risk = Omit<RiskRuleSpec, "when">;
+
+const risk = (id: string, changes: Partial<Risk> = {}): Risk => ({
+  id,
+  risk: `Risque ${id}`,
+  lever: `Levier ${id}`,
+  category: "financial",
+  severity: "high",
+  quickWin: `Action rapide ${id}`,
+  structuralAction: `Action structurelle ${id}`,
+  ...changes,
+});
+
+const lever = (id: string, changes: Partial<QuantificationRuleSpec> = {}): QuantificationRuleSpec => ({
+  id,
+  when: { op: ">", left: 1, right: 0 },
+  lever: `Levier ${id}`,
+  impactType: "CA",
+  impact: { min: 0.01, max: 0.02 },
+  unit: "€",
+  assumptions: [],
+  confidenceLevel: "MOYEN",
+  ...changes,
+});
+
+const phases = (plan: ReturnType<typeof buildActionPlan>) => Object.fromEntries(plan.map(item => [item.id, item.phase]));
+
+describe("buildActionPlan", () => {
+  it("schedules packs without planning by kind, category and severity", () => {
+    const plan = buildActionPlan(
+      [risk("cash", { severity: "critical" }), risk("stock"), risk("offer", { category: "strategic", quickWin: undefined })],
+      [{ rule: lever("occupation"), impact: { min: 1000, max: 2000 } }]
+    );
+
+    expect(phases(plan)).toEqual({
+      "cash.quickWin": "30j",
+      "stock.quickWin": "30j",
+      "cash.structuralAction": "60j",
+      "stock.structuralAction": "90j",
+      occupation: "90j",
+      "offer.structuralAction": "6-12m",
+    });
+    expect(plan.find(item => item.id === "stock.quickWin")).toMatchObject({ owner: "finance", kpiEffect: "Levier stock", sourceKind: "risk" });
+    expect(plan.find(item => item.id === "occupation")).toMatchObject({
+      owner: "direction",
+      sourceKind: "quantification",
+      estimatedImpact: { min: 1000, max: 2000, impactType: "CA" },
+    });
+  });
+
+  it("uses the planning declared by the pack", () => {
+    const plan = buildActionPlan([
+      risk("hr", {
+        category: "hr",
+        structuralAction: undefined,
+        plan: { quickWin: { phase: "60j", owner: "direction", kpiEffect: "Absentéisme -2 pts" } },
+      }),
+    ], []);
+
+    expect(plan).toEqual([expect.objectContaining({ id: "hr.quickWin", phase: "60j", owner: "direction", kpiEffect: "Absentéisme -2 pts" })]);
+  });
+
+  it("drops the dependencies outside the plan", () => {
+    const plan = buildActionPlan([
+      risk("cash", {
+        structuralAction: undefined,
+        plan: { quickWin: { phase: "30j", owner: "finance", kpiEffect: "", dependsOn: ["cash.quickWin", "stock.quickWin", "missing"] } },
+      }),
+      risk("stock", { structuralAction: undefined }),
+    ], []);
+
+    expect(plan.find(item => item.id === "cash.quickWin")?.dependencies).toEqual(["stock.quickWin"]);
+  });
+
+  it("never starts an action before what it depends on", () => {
+    const plan = buildActionPlan(
+      [risk("cash", { quickWin: undefined, plan: { structuralAction: { phase: "90j", owner: "finance", kpiEffect: "" } } })],
+      [
+        { rule: lever("pricing", { plan: { phase: "30j", owner: "commercial", kpiEffect: "", dependsOn: ["digital"] } }), impact: { min: 1, max: 2 } },
+        { rule: lever("digital", { plan: { phase: "30j", owner: "commercial", kpiEffect: "", dependsOn: ["cash.structuralAction"] } }), impact: { min: 1, max: 2 } },
+      ]
+    );
+
+    expect(phases(plan)).toEqual({ "cash.structuralAction": "90j", pricing: "90j", digital: "90j" });
+  });
+
+  it("ends on cyclic dependencies", () => {
+    const cyclic = (id: string, dependsOn: string, phase: "30j" | "60j") =>
+      ({ rule: lever(id, { plan: { phase, owner: "direction", kpiEffect: "", dependsOn: [dependsOn] } }), impact: { min: 1, max: 2 } });
+
+    expect(phases(buildActionPlan([], [cyclic("a", "b", "30j"), cyclic("b", "a", "60j")]))).toEqual({ a: "60j", b: "60j" });
+  });
+
+  it("orders the actions by phase, keeping the rule order within a phase", () => {
+    const plan = buildActionPlan([risk("first"), risk("second")], []);
+
+    expect(plan.map(item => item.id)).toEqual([
+      "first.quickWin",
+      "second.quickWin",
+      "first.structuralAction",
+      "second.structuralAction",
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2, type AuditWarning } from "@/types/audit";
+import { getAuditWarnings } from "@/lib/warnings";
+import {
+  AUDIT_FIELD_FOCUS_EVENT,
+  getInputId,
+  groupWarningsByInput,
+  requestAuditFieldFocus,
+  validateAuditForm,
+} from "@/lib/auditFormValidation";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+};
+
+describe("validateAuditForm", () => {
+  it("accepts a complete entry", () => {
+    expect(validateAuditForm(data)).toEqual({});
+  });
+
+  it("keys the first error of each input by its id", () => {
+    expect(validateAuditForm({
+      ...data,
+      businessName: " ",
+      finance: { ...data.finance, annualRevenue: 0 },
+      hr: { absenteeismRatePercent: 120 },
+    })).toEqual({
+      businessName: "Nom de l'entreprise requis",
+      annualRevenue: "Le CA annuel doit être supérieur à 0",
+      absenteeismRatePercent: "Absentéisme : 100 % maximum",
+    });
+  });
+});
+
+describe("groupWarningsByInput", () => {
+  it("shows each warning next to the input of its field path", () => {
+    const warnings = getAuditWarnings({
+      ...data,
+      costs: { hrCostsPercent: 70, fixedCostsPercent: 50 },
+      commercial: { ...data.commercial, satisfaction: { nps: -5 } },
+    });
+
+    expect(Object.keys(groupWarningsByInput(warnings))).toEqual(["hrCostsPercent", "nps"]);
+  });
+
+  it("ignores the warnings without a field", () => {
+    const warning: AuditWarning = { type: "warning", message: "Sans champ" };
+
+    expect(groupWarningsByInput([warning])).toEqual({});
+  });
+});
+
+describe("requestAuditFieldFocus", () => {
+  const listeners: EventListener[] = [];
+  const listen = (listener: EventListener) => {
+    listeners.push(listener);
+    window.addEventListener(AUDIT_FIELD_FOCUS_EVENT, listener);
+  };
+
+  afterEach(() => {
+    listeners.splice(0).forEach(listener => window.removeEventListener(AUDIT_FIELD_FOCUS_EVENT, listener));
+  });
+
+  it("is not handled without a mounted form", () => {
+    expect(requestAuditFieldFocus("costs.cogsPercent")).toBe(false);
+  });
+
+  it("sends the input id of the field to the form handling it", () => {
+    const handler = vi.fn((event: Event) => event.preventDefault());
+    listen(handler);
+
+    expect(requestAuditFieldFocus("commercial.satisfaction.nps")).toBe(true);
+    expect((handler.mock.calls[0][0] as CustomEvent<string>).detail).toBe("nps");
+  });
+
+  it("is not handled by a listener that does not cancel the event", () => {
+    listen(() => {});
+
+    expect(requestAuditFieldFocus("costs.cogsPercent")).toBe(false);
+  });
+});
+
+describe("getInputId", () => {
+  it("keeps the last segment of the path", () => {
+    expect(["costs.cogsPercent", "ops.quality.returnRatePercent", "businessName"].map(getInputId))
+      .toEqual(["cogsPercent", "returnRatePercent", "businessName"]);
+  });
+});
@@ -0,0 +1,169 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  BENCHMARK_VERSIONS,
+  CURRENT_BENCHMARK_VERSION,
+  PARAM_SECTEUR,
+  getActiveBenchmarkVersion,
+  getBenchmarkVersions,
+  getParamSecteur,
+  setBenchmarkOverride,
+  type MetricDefinition,
+  type ParamSecteur,
+} from "@/lib/benchmarks";
+import { PARAM_SECTEUR_V2_1, PARAM_SECTEUR_V2_2, PARAM_SECTEUR_V2_3 } from "@/lib/benchmarkHistory";
+import {
+  loadBenchmarkOverride,
+  parseParamSecteurJson,
+  serializeParamSecteur,
+  validateParamSecteur,
+} from "@/lib/benchmarkOverrides";
+
+const VARIANT_PATH = "Vétérinaire / veto_standard";
+
+// Current table with an edited version and, optionally, one edited metric of the veterinary variant
+const edited = (metricKey?: string, metric?: unknown): ParamSecteur => {
+  const table: ParamSecteur = structuredClone(PARAM_SECTEUR);
+  table.version = "2.4-local";
+  if (metricKey) {
+    (table.sectors["Vétérinaire"].variants.veto_standard.metrics as Record<string, unknown>)[metricKey] = metric;
+  }
+  return table;
+};
+
+const metric = (unit: MetricDefinition["unit"], crit: number, bon: number, excellent: number) =>
+  ({ unit, thresholds: { crit, bon, excellent } });
+
+const messages = (table: unknown) => validateParamSecteur(table).map(issue => `${issue.path} : ${issue.message}`);
+
+describe("validateParamSecteur", () => {
+  it("accepts every compiled-in table", () => {
+    Object.values(BENCHMARK_VERSIONS).forEach(table => expect(validateParamSecteur(table)).toEqual([]));
+  });
+
+  it("expects increasing thresholds for a ratio", () => {
+    expect(messages(edited("marge_brute", metric("ratio", 0.55, 0.7, 0.75)))).toEqual([]);
+    expect(messages(edited("marge_brute", metric("ratio", 0.75, 0.7, 0.55)))).toEqual([
+      `${VARIANT_PATH} / marge_brute : Les seuils doivent croître (crit < bon < excellent)`,
+    ]);
+  });
+
+  it("expects decreasing thresholds for an inverse ratio", () => {
+    expect(messages(edited("charges_rh", metric("ratio_inverse", 0.7, 0.55, 0.5)))).toEqual([]);
+    expect(messages(edited("charges_rh", metric("ratio_inverse", 0.5, 0.55, 0.7)))).toEqual([
+      `${VARIANT_PATH} / charges_rh : Unité inversée : les seuils doivent décroître (crit > bon > excellent)`,
+    ]);
+  });
+
+  it("rejects equal thresholds in either direction", () => {
+    expect(messages(edited("marge_brute", metric("ratio", 0.7, 0.7, 0.75)))).toHaveLength(1);
+    expect(messages(edited("charges_rh", metric("ratio_inverse", 0.7, 0.55, 0.55)))).toHaveLength(1);
+  });
+
+  it("checks the range of each unit", () => {
+    expect(messages(edited("marge_brute", metric("ratio", 55, 70, 75)))).toEqual([
+      `${VARIANT_PATH} / marge_brute : Un ratio s'exprime entre 0 et 1`,
+    ]);
+    expect(messages(edited("turnover", metric("percentage_inverse", 135, 20, 12)))).toHaveLength(1);
+    expect(messages(edited("nps", metric("score", -120, 40, 60)))).toHaveLength(1);
+    expect(messages(edited("runway", metric("months", -1, 6, 12)))).toHaveLength(1);
+  });
+
+  it("rejects unknown units and non-numeric thresholds", () => {
+    expect(messages(edited("marge_brute", metric("ratio_x" as MetricDefinition["unit"], 0.5, 0.6, 0.7)))).toEqual([
+      `${VARIANT_PATH} / marge_brute : Unité 'ratio_x' inconnue`,
+    ]);
+    expect(messages(edited("marge_brute", { unit: "ratio", thresholds: { crit: 0.5, bon: "0.6", excellent: 0.7 } }))).toEqual([
+      `${VARIANT_PATH} / marge_brute : Les seuils crit / bon / excellent doivent être des nombres`,
+    ]);
+  });
+
+  it("requires the benchmarks without fallback thresholds", () => {
+    const table = edited();
+    delete (table.sectors["Vétérinaire"].variants.veto_standard.metrics as Record<string, unknown>).ca_etp;
+
+    expect(messages(table)).toEqual([`${VARIANT_PATH} / ca_etp : Indicateur manquant`]);
+  });
+
+  it("checks the structure of sectors, variants and segments", () => {
+    const table = edited();
+    table.sectors["Vétérinaire"].default_variant = "inconnue";
+    table.sectors["Vétérinaire"].variants.veto_standard.id = "autre";
+    const segment = table.sectors["Vétérinaire"].variants.veto_standard.segments![0];
+    segment.minFte = 10;
+    segment.maxFte = 5;
+
+    expect(messages(table)).toEqual([
+      "Vétérinaire : Variante par défaut 'inconnue' introuvable",
+      `${VARIANT_PATH} : Identifiant 'autre' différent de la clé de la variante`,
+      `${VARIANT_PATH} / ${segment.id} : La borne ETP minimale doit être inférieure à la borne maximale`,
+    ]);
+    expect(messages({ version: "x", last_update: "2026-10-19", sectors: {} })).toEqual(["sectors : Aucun secteur défini"]);
+    expect(messages([])).toEqual([" : Le fichier ne contient pas de table de benchmarks"]);
+  });
+});
+
+describe("parseParamSecteurJson", () => {
+  it("round-trips an exported table", () => {
+    expect(parseParamSecteurJson(serializeParamSecteur(PARAM_SECTEUR))).toEqual(PARAM_SECTEUR);
+  });
+
+  it("reports invalid JSON and the first validation issues", () => {
+    expect(() => parseParamSecteurJson("{")).toThrow("Fichier JSON invalide");
+
+    const table = edited("marge_brute", metric("ratio", 0.75, 0.7, 55));
+    table.sectors["Vétérinaire"].variants.veto_standard.metrics.charges_rh = metric("ratio_inverse", 0.5, 0.55, 0.7);
+    table.sectors["Vétérinaire"].variants.veto_standard.metrics.runway = metric("months", 12, 6, 3);
+    expect(() => parseParamSecteurJson(JSON.stringify(table))).toThrow(/^Table de benchmarks invalide — .* \(\+1 autres\)$/);
+  });
+});
+
+describe("benchmark override", () => {
+  afterEach(() => {
+    setBenchmarkOverride(null);
+    localStorage.clear();
+  });
+
+  it("activates and persists a valid edited table", () => {
+    setBenchmarkOverride(edited());
+
+    expect(getActiveBenchmarkVersion()).toBe("2.4-local");
+    expect(getBenchmarkVersions()).toHaveProperty("2.4-local");
+    expect(loadBenchmarkOverride()?.version).toBe("2.4-local");
+  });
+
+  it("keeps the compiled-in versions for reference tables only", () => {
+    expect(() => setBenchmarkOverride({ ...edited(), version: CURRENT_BENCHMARK_VERSION }))
+      .toThrow(`La version '${CURRENT_BENCHMARK_VERSION}' est déjà utilisée`);
+    expect(() => setBenchmarkOverride(edited("marge_brute", metric("ratio", 0.75, 0.7, 0.55)))).toThrow("Table de benchmarks invalide");
+    expect(getActiveBenchmarkVersion()).toBe(CURRENT_BENCHMARK_VERSION);
+  });
+
+  it("ignores a stored table that no longer validates", () => {
+    localStorage.setItem("benchmark_override", JSON.stringify(edited("ca_etp", undefined)));
+    expect(loadBenchmarkOverride()).toBeNull();
+    localStorage.setItem("benchmark_override", "{");
+    expect(loadBenchmarkOverride()).toBeNull();
+  });
+});
+
+describe("benchmark history", () => {
+  it("indexes every table by its own version", () => {
+    expect(Object.keys(BENCHMARK_VERSIONS)).toEqual(["2.1", "2.2", "2.3", CURRENT_BENCHMARK_VERSION]);
+    Object.entries(BENCHMARK_VERSIONS).forEach(([version, table]) => expect(table.version).toBe(version));
+  });
+
+  it("serves past tables by version and rejects unknown ones", () => {
+    expect(getParamSecteur("2.1")).toBe(PARAM_SECTEUR_V2_1);
+    expect(getParamSecteur("2.2")).toBe(PARAM_SECTEUR_V2_2);
+    expect(getParamSecteur("2.3")).toBe(PARAM_SECTEUR_V2_3);
+    expect(getParamSecteur()).toBe(PARAM_SECTEUR);
+    expect(() => getParamSecteur("1.0")).toThrow("Version de benchmarks '1.0' inconnue");
+  });
+
+  it("covers the same sectors in every version", () => {
+    const sectors = Object.keys(PARAM_SECTEUR.sectors).sort();
+    [PARAM_SECTEUR_V2_1, PARAM_SECTEUR_V2_2, PARAM_SECTEUR_V2_3].forEach(table =>
+      expect(Object.keys(table.sectors).sort()).toEqual(sectors)
+    );
+  });
+});
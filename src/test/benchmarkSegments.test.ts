@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { PARAM_SECTEUR, resolveBenchmarkSegment, resolveBenchmarks } from "@/lib/benchmarks";
+import { computeScoresV2, getAuditThresholds } from "@/lib/scoringV2";
+
+const vetoStandard = PARAM_SECTEUR.sectors["Vétérinaire"].variants.veto_standard;
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  sector: "Vétérinaire",
+  variant: "veto_standard",
+};
+
+const withFte = (fte: number, region?: AuditDataV2["region"]): AuditDataV2 => ({
+  ...data,
+  region,
+  ops: { ...data.ops, productivity: { ...data.ops.productivity, fte } },
+});
+
+describe("resolveBenchmarkSegment", () => {
+  it("prefers the segment matching both region and FTE band", () => {
+    expect(resolveBenchmarkSegment(vetoStandard, { fte: 2, region: "ile_de_france" })?.id).toBe("ile_de_france_petite");
+    expect(resolveBenchmarkSegment(vetoStandard, { fte: 5, region: "ile_de_france" })?.id).toBe("ile_de_france");
+    expect(resolveBenchmarkSegment(vetoStandard, { fte: 2, region: "province" })?.id).toBe("petite_structure");
+  });
+
+  it("includes the lower bound and excludes the upper bound of a band", () => {
+    expect(resolveBenchmarkSegment(vetoStandard, { fte: 10 })?.id).toBe("grande_structure");
+    expect(resolveBenchmarkSegment(vetoStandard, { fte: 9.9 })).toBeUndefined();
+    expect(resolveBenchmarkSegment(vetoStandard, { fte: 3 })).toBeUndefined();
+    expect(resolveBenchmarkSegment(vetoStandard, { fte: 2.9 })?.id).toBe("petite_structure");
+  });
+
+  it("never matches an FTE band without headcount", () => {
+    expect(resolveBenchmarkSegment(vetoStandard, { region: "ile_de_france" })?.id).toBe("ile_de_france");
+    expect(resolveBenchmarkSegment(vetoStandard, {})).toBeUndefined();
+  });
+});
+
+describe("resolveBenchmarks", () => {
+  it("overrides the variant metrics with those of the segment", () => {
+    const { metrics, segment } = resolveBenchmarks("Vétérinaire", "veto_standard", undefined, { fte: 2, region: "province" });
+
+    expect(segment).toEqual({ id: "petite_structure", label: "Moins de 3 ETP" });
+    expect(metrics.ca_etp.thresholds).toEqual({ crit: 60000, bon: 85000, excellent: 110000 });
+    expect(metrics.marge_brute).toBe(vetoStandard.metrics.marge_brute);
+  });
+
+  it("keeps the variant thresholds as is without matching segment", () => {
+    const resolved = resolveBenchmarks("Vétérinaire", "veto_standard", undefined, { fte: 5, region: "province" });
+
+    expect(resolved).toEqual({ metrics: vetoStandard.metrics });
+  });
+
+  it("ignores the criteria for tables predating the segments", () => {
+    expect(resolveBenchmarks("Vétérinaire", "veto_standard", "2.2", { fte: 2, region: "ile_de_france" }).segment).toBeUndefined();
+  });
+
+  it("rejects unknown sectors and variants", () => {
+    expect(() => resolveBenchmarks("Xyzzy")).toThrow("non trouvé dans PARAM_SECTEUR");
+    expect(() => resolveBenchmarks("Vétérinaire", "veto_lunaire")).toThrow("Variant 'veto_lunaire' non trouvé");
+  });
+});
+
+describe("segmented scoring", () => {
+  it("scores against the segment of the audit and reports it", () => {
+    const small = computeScoresV2(withFte(2, "ile_de_france"));
+
+    expect(small.breakdown?.benchmarkSegment).toEqual({ id: "ile_de_france_petite", label: "Île-de-France, moins de 3 ETP" });
+    expect(computeScoresV2(withFte(5, "province")).breakdown?.benchmarkSegment).toBeUndefined();
+  });
+
+  it("feeds the segment thresholds to the scored metrics", () => {
+    expect(getAuditThresholds(withFte(12)).segment?.id).toBe("grande_structure");
+    expect(getAuditThresholds(withFte(12)).thresholds.ca_etp).toEqual({ crit: 80000, bon: 110000, excellent: 140000 });
+    expect(getAuditThresholds(withFte(5)).thresholds.ca_etp).toEqual(vetoStandard.metrics.ca_etp.thresholds);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2, type AuditWarning } from "@/types/audit";
+import { computeDataConfidence, getConfidenceLevel } from "@/lib/dataConfidence";
+
+const sparse: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  dataOrigin: "manual",
+};
+
+const complete: AuditDataV2 = {
+  ...sparse,
+  dataOrigin: "imported",
+  finance: { ...sparse.finance, netMarginPercent: 8, cashRunwayMonths: 6 },
+  costs: { hrCostsPercent: 52, cogsPercent: 30, fixedCostsPercent: 12 },
+  ops: { ...sparse.ops, quality: { returnRatePercent: 2 } },
+  hr: { absenteeismRatePercent: 4, turnoverRatePercent: 12 },
+  commercial: { ...sparse.commercial, satisfaction: { csatPercent: 90, nps: 40 } },
+};
+
+const warning = (category: AuditWarning["category"]): AuditWarning => ({ type: "warning", message: "", category });
+
+describe("computeDataConfidence", () => {
+  it("combines origin, completeness and coherence", () => {
+    expect(computeDataConfidence(sparse, [])).toEqual({
+      score: 57,
+      level: "MOYEN",
+      originScore: 80,
+      completenessScore: 0,
+      coherenceScore: 100,
+      providedOptionalFields: 0,
+      totalOptionalFields: 9,
+      incoherenceCount: 0,
+    });
+  });
+
+  it("fully trusts complete imported accounts", () => {
+    expect(computeDataConfidence(complete, [])).toMatchObject({ score: 100, level: "BON", completenessScore: 100 });
+  });
+
+  it("only counts the coherence warnings", () => {
+    const business = computeDataConfidence(complete, [warning("business"), warning("business")]);
+    const coherence = computeDataConfidence(complete, [warning("coherence"), warning("business")]);
+
+    expect(business.coherenceScore).toBe(100);
+    expect(coherence).toMatchObject({ incoherenceCount: 1, coherenceScore: 65 });
+  });
+
+  it("floors the coherence score at 0", () => {
+    const confidence = computeDataConfidence(complete, [warning("coherence"), warning("coherence"), warning("coherence")]);
+
+    expect(confidence.coherenceScore).toBe(0);
+    expect(confidence.score).toBe(75);
+  });
+
+  it("trusts estimates least", () => {
+    expect(computeDataConfidence({ ...complete, dataOrigin: "estimated" }, [])).toMatchObject({ originScore: 30, score: 72 });
+    expect(computeDataConfidence({ ...complete, dataOrigin: "client_declarative" }, []).originScore).toBe(60);
+  });
+});
+
+describe("getConfidenceLevel", () => {
+  it("places the level boundaries at 75 and 50", () => {
+    expect([75, 74, 50, 49].map(getConfidenceLevel)).toEqual(["BON", "MOYEN", "MOYEN", "FAIBLE"]);
+  });
+});
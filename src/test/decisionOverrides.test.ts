@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2, type DecisionOverride } from "@/types/audit";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { getAuditWarnings } from "@/lib/warnings";
+import { computeDecisionOutput } from "@/lib/decisionEngine";
+import { DEFAULT_RULE_PACK } from "@/lib/decisionRules";
+import { applyDecisionOverrides, sanitizeDecisionOverrides, validateDecisionOverride } from "@/lib/decisionOverrides";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, netMarginPercent: -4, cashRunwayMonths: 2 },
+  hr: { absenteeismRatePercent: 12, turnoverRatePercent: 30 },
+  commercial: { ...defaultAuditDataV2.commercial, digitalizationPercent: 35 },
+};
+
+const rule = (id: string) => DEFAULT_RULE_PACK.riskRules.find(r => r.id === id)!;
+const triggered = [rule("runway_critical"), rule("high_turnover"), rule("low_digitalization")];
+
+const justification = "Validé avec le dirigeant en entretien";
+const dismiss = (ruleId: string): DecisionOverride =>
+  ({ id: `o-${ruleId}`, action: "dismiss", ruleId, justification, createdAt: "2026-07-01" });
+const downgrade = (ruleId: string, severity: "high" | "medium" | "low" | "critical"): DecisionOverride =>
+  ({ id: `o-${ruleId}`, action: "downgrade", ruleId, severity, justification, createdAt: "2026-07-01" });
+
+const decide = (overrides: DecisionOverride[]) => {
+  const audit = { ...data, decisionOverrides: overrides };
+  return computeDecisionOutput(audit, computeScoresV2(audit), getAuditWarnings(audit));
+};
+
+describe("applyDecisionOverrides", () => {
+  it("drops a dismissed risk", () => {
+    const { risks, adjustments } = applyDecisionOverrides(triggered, [dismiss("high_turnover")]);
+
+    expect(risks.map(r => r.id)).toEqual(["runway_critical", "low_digitalization"]);
+    expect(adjustments).toEqual([{
+      overrideId: "o-high_turnover",
+      action: "dismiss",
+      ruleId: "high_turnover",
+      label: rule("high_turnover").risk,
+      detail: "Risque écarté",
+      justification,
+      applied: true,
+    }]);
+  });
+
+  it("only downgrades to a lower severity", () => {
+    const { risks, adjustments } = applyDecisionOverrides(triggered, [
+      downgrade("runway_critical", "medium"),
+      downgrade("high_turnover", "critical"),
+    ]);
+
+    expect(risks[0]).toMatchObject({ id: "runway_critical", severity: "medium", origin: "adjusted" });
+    expect(risks[1]).toMatchObject({ id: "high_turnover", severity: "high", origin: "computed" });
+    expect(adjustments.map(a => [a.detail, a.applied])).toEqual([
+      ["Sévérité : Critique → Modérée", true],
+      ["Sévérité : Élevée → Critique", false],
+    ]);
+  });
+
+  it("leaves inactive an override of a rule that does not fire", () => {
+    const { risks, adjustments } = applyDecisionOverrides(triggered, [dismiss("negative_net_margin")]);
+
+    expect(risks).toHaveLength(3);
+    expect(adjustments[0]).toMatchObject({ label: "negative_net_margin", applied: false });
+  });
+
+  it("appends manual risks", () => {
+    const { risks } = applyDecisionOverrides(triggered, [{
+      id: "o-manual",
+      action: "add_risk",
+      risk: "Départ du vétérinaire associé",
+      lever: "Préparer la succession",
+      severity: "high",
+      justification,
+      createdAt: "2026-07-01",
+    }]);
+
+    expect(risks[3]).toMatchObject({ id: "o-manual", category: "strategic", origin: "manual" });
+  });
+});
+
+describe("overrides in the decision output", () => {
+  const baseline = decide([]);
+
+  it("replaces a dismissed top risk with the next one", () => {
+    const output = decide([dismiss("runway_critical")]);
+
+    expect(output.topRisks).toEqual([
+      rule("negative_net_margin").risk,
+      rule("hr_cost_high").risk,
+      rule("critical_absenteeism").risk,
+    ]);
+    expect(output.actionPlan.some(item => item.sourceRuleId === "runway_critical")).toBe(false);
+    expect(output.trace.find(entry => entry.ruleId === "runway_critical")).toMatchObject({
+      fired: true,
+      retained: false,
+      adjustment: { action: "dismiss", justification },
+    });
+  });
+
+  it("reorders a downgraded risk behind the more severe ones", () => {
+    expect(baseline.topRisks[0]).toBe(rule("runway_critical").risk);
+
+    const output = decide([downgrade("runway_critical", "medium")]);
+
+    expect(output.topRisks).not.toContain(rule("runway_critical").risk);
+    expect(output.topRisks[2]).toBe(rule("critical_absenteeism").risk);
+    expect(output.riskOrigins).toEqual(["computed", "computed", "computed"]);
+    expect(output.actionPlan.find(item => item.id === "runway_critical.structuralAction")).toBeDefined();
+  });
+
+  it("keeps the lever of an edited risk in the top levers", () => {
+    const output = decide([{
+      id: "o-lever",
+      action: "edit_lever",
+      ruleId: "negative_net_margin",
+      lever: "Revoir la grille tarifaire des actes",
+      justification,
+      createdAt: "2026-07-01",
+    }]);
+
+    expect(output.topLevers[1]).toBe("Revoir la grille tarifaire des actes");
+    expect(output.riskOrigins[1]).toBe("adjusted");
+  });
+});
+
+describe("validateDecisionOverride", () => {
+  it("requires a justification and the fields of the action", () => {
+    expect(validateDecisionOverride(dismiss("runway_critical"))).toBeNull();
+    expect(validateDecisionOverride({ ...dismiss("runway_critical"), justification: "court" })).toMatch(/^Justification obligatoire/);
+    expect(validateDecisionOverride({ ...dismiss(""), justification })).toBe("Choisir le risque à ajuster");
+  });
+});
+
+describe("sanitizeDecisionOverrides", () => {
+  const ruleIds = DEFAULT_RULE_PACK.riskRules.map(r => r.id);
+  const addRisk: DecisionOverride = {
+    id: "o-manual", action: "add_risk", risk: "Départ du vétérinaire associé", lever: "Préparer la succession", severity: "high", justification, createdAt: "2026-07-01",
+  };
+
+  it("keeps well-formed overrides of known rules", () => {
+    const overrides = [dismiss("runway_critical"), downgrade("high_turnover", "low"), addRisk];
+
+    expect(sanitizeDecisionOverrides(overrides, ruleIds)).toEqual(overrides);
+  });
+
+  it("drops unknown rules, unknown severities and malformed entries", () => {
+    const overrides: unknown[] = [
+      dismiss("unknown_rule"),
+      { ...downgrade("high_turnover", "low"), severity: "urgent" },
+      { ...addRisk, severity: 2 },
+      { ...addRisk, lever: 42 },
+      { id: "o-edit", action: "edit_lever", ruleId: "high_turnover", justification, createdAt: "2026-07-01" },
+      { ...dismiss("runway_critical"), action: "delete" },
+      { ...dismiss("runway_critical"), justification: "court" },
+      null,
+      "dismiss",
+    ];
+
+    expect(sanitizeDecisionOverrides(overrides, ruleIds)).toEqual([]);
+    expect(sanitizeDecisionOverrides({ 0: dismiss("runway_critical") }, ruleIds)).toEqual([]);
+  });
+
+  it("ignores invalid overrides stored with the audit", () => {
+    const output = decide([dismiss("unknown_rule"), { ...addRisk, severity: "urgent" } as unknown as DecisionOverride]);
+
+    expect(output).toEqual(decide([]));
+  });
+});
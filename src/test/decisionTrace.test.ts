@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { computeScoresV2, getAuditThresholds } from "@/lib/scoringV2";
+import { getAuditWarnings } from "@/lib/warnings";
+import { computeDecisionOutput } from "@/lib/decisionEngine";
+import {
+  DEFAULT_RULE_PACK,
+  describeOperand,
+  evaluateOperand,
+  traceCondition,
+  type RuleCondition,
+  type RuleContext,
+} from "@/lib/decisionRules";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, netMarginPercent: -4, cashRunwayMonths: 2 },
+  hr: { absenteeismRatePercent: 12, turnoverRatePercent: 30 },
+  commercial: { ...defaultAuditDataV2.commercial, digitalizationPercent: 35 },
+};
+
+const scores = computeScoresV2(data);
+const context: RuleContext = { data, scores, thresholds: getAuditThresholds(data).thresholds };
+
+const runwayBelow = (band: "crit" | "bon"): RuleCondition =>
+  ({ op: "<", left: { path: "finance.cashRunwayMonths" }, right: { threshold: "runway", band } });
+
+describe("evaluateOperand", () => {
+  it("reads fields, scores and offset sector thresholds", () => {
+    expect(evaluateOperand({ path: "finance.cashRunwayMonths" }, context)).toBe(2);
+    expect(evaluateOperand({ path: "commercial.satisfaction.nps", default: 50 }, context)).toBe(50);
+    expect(evaluateOperand({ score: "global" }, context)).toBe(scores.global);
+    expect(evaluateOperand({ threshold: "runway", band: "bon", offset: -1 }, context)).toBe(context.thresholds.runway.bon - 1);
+  });
+
+  it("is undefined when a field is missing or a division by zero", () => {
+    expect(evaluateOperand({ fn: "add", args: [{ path: "ops.quality.returnRatePercent" }, 1] }, context)).toBeUndefined();
+    expect(evaluateOperand({ fn: "div", args: [10, 0] }, context)).toBeUndefined();
+    expect(evaluateOperand({ fn: "coalesce", args: [{ path: "ops.quality.returnRatePercent" }, 3] }, context)).toBe(3);
+  });
+});
+
+describe("traceCondition", () => {
+  it("records both values and readable operands of a comparison", () => {
+    const { result, comparisons } = traceCondition(runwayBelow("crit"), context);
+
+    expect(result).toBe(true);
+    expect(comparisons).toEqual([{
+      left: describeOperand({ path: "finance.cashRunwayMonths" }),
+      leftValue: 2,
+      operator: "<",
+      right: describeOperand({ threshold: "runway", band: "crit" }),
+      rightValue: context.thresholds.runway.crit,
+      result: true,
+    }]);
+    expect(comparisons[0].right).toMatch(/seuil crit du secteur$/);
+  });
+
+  it("fails a comparison on a missing value and keeps it in the trace", () => {
+    const { result, comparisons } = traceCondition({ op: ">", left: { path: "ops.quality.returnRatePercent" }, right: 4 }, context);
+
+    expect(result).toBe(false);
+    expect(comparisons[0]).toMatchObject({ leftValue: undefined, rightValue: 4, result: false });
+  });
+
+  it("traces every branch of all / any without short-circuit", () => {
+    const all = traceCondition({ all: [{ not: runwayBelow("crit") }, runwayBelow("bon")] }, context);
+    const any = traceCondition({ any: [runwayBelow("crit"), runwayBelow("bon")] }, context);
+
+    expect(all.result).toBe(false);
+    expect(all.comparisons.map(c => c.result)).toEqual([true, true]);
+    expect(any.result).toBe(true);
+    expect(any.comparisons).toHaveLength(2);
+  });
+
+  it("adds no comparison for an existence test", () => {
+    expect(traceCondition({ exists: "hr.turnoverRatePercent" }, context)).toEqual({ result: true, comparisons: [] });
+    expect(traceCondition({ exists: "ops.quality.returnRatePercent" }, context).result).toBe(false);
+  });
+});
+
+describe("decision trace", () => {
+  const decision = computeDecisionOutput(data, scores, getAuditWarnings(data));
+  const trace = decision.trace!;
+
+  it("lists every rule of the pack once, risk rules first", () => {
+    const packIds = [
+      ...DEFAULT_RULE_PACK.riskRules,
+      ...DEFAULT_RULE_PACK.quantificationRules,
+      ...(DEFAULT_RULE_PACK.strengthRules ?? []),
+    ].map(rule => rule.id);
+
+    expect(trace.map(entry => entry.ruleId)).toEqual(packIds);
+    expect(trace.slice(0, DEFAULT_RULE_PACK.riskRules.length).every(entry => entry.kind === "risk")).toBe(true);
+  });
+
+  it("flags the rules that fired with the comparisons behind them", () => {
+    DEFAULT_RULE_PACK.riskRules.forEach(rule => {
+      const entry = trace.find(e => e.ruleId === rule.id)!;
+      expect(entry.fired).toBe(traceCondition(rule.when, context).result);
+      expect(entry.comparisons).toEqual(traceCondition(rule.when, context).comparisons);
+    });
+    expect(trace.find(e => e.ruleId === "runway_critical")).toMatchObject({ fired: true, severity: "critical" });
+  });
+
+  it("retains the top risks and the quantified recommendations shown", () => {
+    const retainedRisks = trace.filter(e => e.kind === "risk" && e.retained).map(e => e.label);
+    const retainedLevers = trace.filter(e => e.kind === "quantification" && e.retained).map(e => e.ruleId);
+
+    expect(retainedRisks.sort()).toEqual([...decision.topRisks].sort());
+    expect(retainedLevers.sort()).toEqual(decision.quantifiedRecommendations.map(r => r.ruleId).sort());
+    expect(trace.filter(e => e.retained).every(e => e.fired)).toBe(true);
+  });
+});
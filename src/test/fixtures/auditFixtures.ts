@@ -0,0 +1,235 @@
+/**
+ * Golden audit fixtures
+ * Realistic audits for every sector, each declined in five profiles: healthy,
+ * distressed, incoherent (inputs contradicting each other), V1 legacy and
+ * sparse (optional fields left empty), plus hand-written edge cases firing the
+ * rules no profile reaches. The regression suite snapshots the engines'
+ * outputs on them, a fixture must never change without reason.
+ */
+
+import type { AuditData, AuditDataV1, AuditDataV2 } from '@/types/audit';
+
+// ============= Types =============
+
+export type FixtureProfile = 'healthy' | 'distressed' | 'incoherent' | 'legacy_v1' | 'sparse' | 'edge';
+
+export interface AuditFixture {
+  id: string; // <sector id>.<profile>, <sector id>.edge_<case> for edge cases
+  sector: string; // Label stored in AuditDataV2.sector
+  profile: FixtureProfile;
+  data: AuditData;
+}
+
+// Key figures of one business, in the units of AuditDataV2
+interface SectorFigures {
+  revenue: number;
+  fte: number;
+  grossMargin: number;
+  netMargin: number;
+  runway: number;
+  hrCosts: number;
+  cogs: number;
+  occupancy: number;
+  digitalization: number;
+  loyalty: number;
+}
+
+// ============= Constants =============
+
+// Fixed so that fiscal years and trends never depend on the day the suite runs
+export const FIXTURE_AUDIT_DATE = '2026-06-30';
+
+// Figures around the sector's "bon" thresholds for healthy, under "crit" for distressed
+const SECTOR_FIGURES: Record<string, { sector: string; healthy: SectorFigures; distressed: SectorFigures }> = {
+  veterinaire: {
+    sector: 'Vétérinaire',
+    healthy: { revenue: 620000, fte: 5, grossMargin: 72, netMargin: 12, runway: 8, hrCosts: 52, cogs: 28, occupancy: 88, digitalization: 85, loyalty: 89 },
+    distressed: { revenue: 380000, fte: 6, grossMargin: 52, netMargin: 2, runway: 2, hrCosts: 72, cogs: 48, occupancy: 62, digitalization: 35, loyalty: 58 },
+  },
+  clinique_veterinaire: {
+    sector: 'Clinique Vétérinaire',
+    healthy: { revenue: 1450000, fte: 12, grossMargin: 74, netMargin: 12, runway: 9, hrCosts: 50, cogs: 26, occupancy: 89, digitalization: 88, loyalty: 91 },
+    distressed: { revenue: 900000, fte: 13, grossMargin: 53, netMargin: 1, runway: 2, hrCosts: 68, cogs: 47, occupancy: 66, digitalization: 38, loyalty: 62 },
+  },
+  osteopathe: {
+    sector: 'Ostéopathe',
+    healthy: { revenue: 95000, fte: 1, grossMargin: 88, netMargin: 30, runway: 10, hrCosts: 12, cogs: 12, occupancy: 85, digitalization: 82, loyalty: 80 },
+    distressed: { revenue: 48000, fte: 1, grossMargin: 68, netMargin: 8, runway: 2, hrCosts: 32, cogs: 32, occupancy: 58, digitalization: 35, loyalty: 50 },
+  },
+  kinesitherapeute: {
+    sector: 'Kinésithérapeute',
+    healthy: { revenue: 210000, fte: 2, grossMargin: 84, netMargin: 24, runway: 7, hrCosts: 22, cogs: 16, occupancy: 91, digitalization: 78, loyalty: 86 },
+    distressed: { revenue: 110000, fte: 2, grossMargin: 62, netMargin: 6, runway: 2, hrCosts: 38, cogs: 38, occupancy: 70, digitalization: 30, loyalty: 55 },
+  },
+  therapeute: {
+    sector: 'Thérapeute / Bien-être',
+    healthy: { revenue: 72000, fte: 1, grossMargin: 90, netMargin: 28, runway: 9, hrCosts: 8, cogs: 10, occupancy: 78, digitalization: 88, loyalty: 76 },
+    distressed: { revenue: 36000, fte: 1, grossMargin: 66, netMargin: 5, runway: 1.5, hrCosts: 28, cogs: 34, occupancy: 48, digitalization: 42, loyalty: 45 },
+  },
+  sante_liberale_autre: {
+    sector: 'Santé Libérale (autre)',
+    healthy: { revenue: 340000, fte: 3, grossMargin: 80, netMargin: 22, runway: 8, hrCosts: 26, cogs: 20, occupancy: 89, digitalization: 80, loyalty: 85 },
+    distressed: { revenue: 190000, fte: 3, grossMargin: 57, netMargin: 6, runway: 2, hrCosts: 43, cogs: 43, occupancy: 64, digitalization: 35, loyalty: 55 },
+  },
+  commerce: {
+    sector: 'Commerce',
+    healthy: { revenue: 1300000, fte: 9, grossMargin: 48, netMargin: 5, runway: 5, hrCosts: 16, cogs: 52, occupancy: 80, digitalization: 85, loyalty: 70 },
+    distressed: { revenue: 700000, fte: 9, grossMargin: 32, netMargin: -1, runway: 1, hrCosts: 27, cogs: 68, occupancy: 55, digitalization: 40, loyalty: 35 },
+  },
+  services: {
+    sector: 'Services',
+    healthy: { revenue: 1900000, fte: 11, grossMargin: 84, netMargin: 18, runway: 7, hrCosts: 46, cogs: 16, occupancy: 80, digitalization: 94, loyalty: 91 },
+    distressed: { revenue: 900000, fte: 10, grossMargin: 62, netMargin: 4, runway: 2, hrCosts: 63, cogs: 38, occupancy: 60, digitalization: 65, loyalty: 66 },
+  },
+  btp: {
+    sector: 'BTP / Construction',
+    healthy: { revenue: 2400000, fte: 18, grossMargin: 35, netMargin: 7, runway: 4, hrCosts: 32, cogs: 65, occupancy: 87, digitalization: 60, loyalty: 78 },
+    distressed: { revenue: 1300000, fte: 18, grossMargin: 18, netMargin: 0, runway: 1, hrCosts: 48, cogs: 82, occupancy: 65, digitalization: 15, loyalty: 45 },
+  },
+  industrie: {
+    sector: 'Industrie',
+    healthy: { revenue: 5200000, fte: 35, grossMargin: 42, netMargin: 8, runway: 6, hrCosts: 27, cogs: 58, occupancy: 86, digitalization: 70, loyalty: 85 },
+    distressed: { revenue: 2800000, fte: 35, grossMargin: 22, netMargin: 1, runway: 1.5, hrCosts: 43, cogs: 78, occupancy: 64, digitalization: 25, loyalty: 55 },
+  },
+  restauration: {
+    sector: 'Restauration',
+    healthy: { revenue: 780000, fte: 10, grossMargin: 75, netMargin: 8, runway: 4, hrCosts: 33, cogs: 25, occupancy: 78, digitalization: 80, loyalty: 80 },
+    distressed: { revenue: 420000, fte: 10, grossMargin: 58, netMargin: -3, runway: 1, hrCosts: 48, cogs: 42, occupancy: 50, digitalization: 30, loyalty: 45 },
+  },
+  autre: {
+    sector: 'Autre secteur',
+    healthy: { revenue: 650000, fte: 6, grossMargin: 57, netMargin: 12, runway: 7, hrCosts: 36, cogs: 43, occupancy: 89, digitalization: 76, loyalty: 78 },
+    distressed: { revenue: 330000, fte: 6, grossMargin: 32, netMargin: 2, runway: 2, hrCosts: 53, cogs: 68, occupancy: 70, digitalization: 35, loyalty: 45 },
+  },
+};
+
+// ============= Builders =============
+
+function buildHealthy(sector: string, f: SectorFigures): AuditDataV2 {
+  return {
+    businessName: `${sector} — saine`,
+    sector,
+    region: 'province',
+    auditDate: FIXTURE_AUDIT_DATE,
+    dataOrigin: 'manual',
+    finance: { annualRevenue: f.revenue, grossMarginPercent: f.grossMargin, netMarginPercent: f.netMargin, cashRunwayMonths: f.runway },
+    costs: { hrCostsPercent: f.hrCosts, cogsPercent: f.cogs, fixedCostsPercent: 12 },
+    ops: {
+      occupancyRatePercent: f.occupancy,
+      productivity: { fte: f.fte, revenuePerFte: Math.round(f.revenue / f.fte) },
+      quality: { returnRatePercent: 2, incidentsPerMonth: 1 },
+    },
+    hr: { absenteeismRatePercent: 4, turnoverRatePercent: 14 },
+    commercial: { digitalizationPercent: f.digitalization, loyaltyPercent: f.loyalty, satisfaction: { csatPercent: 90, nps: 50 } },
+    nbServices: 5,
+    // Steady growth over the two closed fiscal years
+    priorYears: [
+      { fiscalYear: 2024, annualRevenue: Math.round(f.revenue * 0.9), grossMarginPercent: f.grossMargin - 1, netMarginPercent: f.netMargin - 1, hrCostsPercent: f.hrCosts + 1 },
+      { fiscalYear: 2025, annualRevenue: Math.round(f.revenue * 0.95), grossMarginPercent: f.grossMargin, netMarginPercent: f.netMargin, hrCostsPercent: f.hrCosts },
+    ],
+  };
+}
+
+function buildDistressed(sector: string, f: SectorFigures): AuditDataV2 {
+  return {
+    businessName: `${sector} — en difficulté`,
+    sector,
+    region: 'ile_de_france',
+    auditDate: FIXTURE_AUDIT_DATE,
+    dataOrigin: 'client_declarative',
+    finance: { annualRevenue: f.revenue, grossMarginPercent: f.grossMargin, netMarginPercent: f.netMargin, cashRunwayMonths: f.runway },
+    costs: { hrCostsPercent: f.hrCosts, cogsPercent: f.cogs, fixedCostsPercent: 22 },
+    ops: {
+      occupancyRatePercent: f.occupancy,
+      productivity: { fte: f.fte, revenuePerFte: Math.round(f.revenue / f.fte) },
+      quality: { returnRatePercent: 9, incidentsPerMonth: 5 },
+    },
+    hr: { absenteeismRatePercent: 11, turnoverRatePercent: 38 },
+    commercial: { digitalizationPercent: f.digitalization, loyaltyPercent: f.loyalty, satisfaction: { csatPercent: 70, nps: 5 } },
+    nbServices: 3,
+    // Revenue falling over the two closed fiscal years
+    priorYears: [
+      { fiscalYear: 2024, annualRevenue: Math.round(f.revenue * 1.25), grossMarginPercent: f.grossMargin + 4, netMarginPercent: f.netMargin + 3, hrCostsPercent: f.hrCosts - 5 },
+      { fiscalYear: 2025, annualRevenue: Math.round(f.revenue * 1.1), grossMarginPercent: f.grossMargin + 2, netMarginPercent: f.netMargin + 1, hrCostsPercent: f.hrCosts - 2 },
+    ],
+  };
+}
+
+// Net margin above gross margin, margin + COGS far from 100 %, revenue per FTE not matching revenue / FTE
+function buildIncoherent(sector: string, f: SectorFigures): AuditDataV2 {
+  const healthy = buildHealthy(sector, f);
+  return {
+    ...healthy,
+    businessName: `${sector} — incohérente`,
+    finance: { ...healthy.finance, netMarginPercent: f.grossMargin + 5 },
+    costs: { ...healthy.costs, cogsPercent: Math.min(95, f.cogs + 30) },
+    ops: { ...healthy.ops, productivity: { fte: f.fte, revenuePerFte: Math.round((f.revenue / f.fte) * 2) } },
+    hr: { absenteeismRatePercent: 35, turnoverRatePercent: 120 },
+  };
+}
+
+// Form fields only, every optional figure left empty
+function buildSparse(sector: string, f: SectorFigures): AuditDataV2 {
+  return {
+    businessName: `${sector} — partielle`,
+    sector,
+    auditDate: FIXTURE_AUDIT_DATE,
+    dataOrigin: 'estimated',
+    finance: { annualRevenue: f.revenue, grossMarginPercent: f.grossMargin },
+    costs: { hrCostsPercent: f.hrCosts },
+    ops: { occupancyRatePercent: f.occupancy, productivity: { fte: f.fte } },
+    commercial: { digitalizationPercent: f.digitalization },
+  };
+}
+
+// Audit saved before the V2 structure, on the distressed figures
+function buildLegacyV1(sector: string, f: SectorFigures): AuditDataV1 {
+  return {
+    nom: `${sector} — format V1`,
+    secteur: sector,
+    margebrutepct: f.grossMargin,
+    caannuel: f.revenue,
+    effectifetp: f.fte,
+    chargesrhpct: f.hrCosts,
+    digitalpct: f.digitalization,
+    fidelisationpct: f.loyalty,
+    tauxoccupation: f.occupancy,
+    nbservices: 2,
+  };
+}
+
+// ============= Edge Cases =============
+
+const vet = SECTOR_FIGURES.veterinaire;
+const healthyVet = buildHealthy(vet.sector, vet.healthy);
+
+// Sound figures but more detractors than promoters (negative_nps)
+const detractors: AuditDataV2 = {
+  ...healthyVet,
+  businessName: `${vet.sector} — clientèle insatisfaite`,
+  commercial: { ...healthyVet.commercial, satisfaction: { csatPercent: 74, nps: -15 } },
+};
+
+// Above the "excellent" thresholds on margin, loyalty, digitalization and revenue per FTE
+const leader: AuditDataV2 = {
+  ...buildHealthy(vet.sector, { ...vet.healthy, revenue: 900000, grossMargin: 80, cogs: 20, digitalization: 97, loyalty: 95 }),
+  businessName: `${vet.sector} — leader`,
+};
+
+const EDGE_FIXTURES: AuditFixture[] = [
+  { id: 'veterinaire.edge_detractors', sector: vet.sector, profile: 'edge', data: detractors },
+  { id: 'veterinaire.edge_leader', sector: vet.sector, profile: 'edge', data: leader },
+];
+
+// ============= Fixtures =============
+
+export const AUDIT_FIXTURES: AuditFixture[] = [
+  ...Object.entries(SECTOR_FIGURES).flatMap(([sectorId, { sector, healthy, distressed }]) => [
+    { id: `${sectorId}.healthy`, sector, profile: 'healthy' as const, data: buildHealthy(sector, healthy) },
+    { id: `${sectorId}.distressed`, sector, profile: 'distressed' as const, data: buildDistressed(sector, distressed) },
+    { id: `${sectorId}.incoherent`, sector, profile: 'incoherent' as const, data: buildIncoherent(sector, healthy) },
+    { id: `${sectorId}.legacy_v1`, sector, profile: 'legacy_v1' as const, data: buildLegacyV1(sector, distressed) },
+    { id: `${sectorId}.sparse`, sector, profile: 'sparse' as const, data: buildSparse(sector, healthy) },
+  ]),
+  ...EDGE_FIXTURES,
+];
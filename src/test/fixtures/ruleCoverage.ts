@@ -0,0 +1,46 @@
+/**
+ * Rule coverage of the golden fixtures
+ * A rule no fixture fires is not protected by the regression suite: its
+ * thresholds or its wording can move without any snapshot changing.
+ */
+
+import type { DecisionOutput, DecisionTraceEntry } from '@/types/audit';
+import type { RulePack } from '@/lib/decisionRules';
+
+export interface RuleCoverageReport {
+  riskRules: string[];
+  quantificationRules: string[];
+  strengthRules: string[];
+}
+
+const SECTION_KINDS: Record<keyof RuleCoverageReport, DecisionTraceEntry['kind']> = {
+  riskRules: 'risk',
+  quantificationRules: 'quantification',
+  strengthRules: 'strength',
+};
+
+/**
+ * Rules of the pack that fire on none of the decisions, by section
+ */
+export function getUncoveredRules(pack: RulePack, decisions: DecisionOutput[]): RuleCoverageReport {
+  const fired = new Set(
+    decisions.flatMap(decision => decision.trace.filter(entry => entry.fired).map(entry => `${entry.kind}:${entry.ruleId}`))
+  );
+  const uncovered = (section: keyof RuleCoverageReport) =>
+    (pack[section] ?? []).map(rule => rule.id).filter(id => !fired.has(`${SECTION_KINDS[section]}:${id}`));
+
+  return {
+    riskRules: uncovered('riskRules'),
+    quantificationRules: uncovered('quantificationRules'),
+    strengthRules: uncovered('strengthRules'),
+  };
+}
+
+export function formatRuleCoverageReport(pack: RulePack, report: RuleCoverageReport): string {
+  const line = (section: keyof RuleCoverageReport) => {
+    const total = (pack[section] ?? []).length;
+    const ids = report[section];
+    return `${section}: ${total - ids.length}/${total} covered${ids.length > 0 ? ` — not exercised: ${ids.join(', ')}` : ''}`;
+  };
+  return [`Rule pack ${pack.version}`, line('riskRules'), line('quantificationRules'), line('strengthRules')].join('\n');
+}
@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { normalizeToV2, type DecisionOutput, type Scores } from "@/types/audit";
+import { SIMULATION_SCENARIOS, type SimulationType } from "@/types/simulation";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { getAuditWarnings } from "@/lib/warnings";
+import { computeDecisionOutput } from "@/lib/decisionEngine";
+import {
+  simulateActivite,
+  simulateCommercial,
+  simulateRentabilite,
+  simulateRH,
+  simulateTresorerie,
+} from "@/lib/simulationEngine";
+import { AUDIT_FIXTURES } from "./fixtures/auditFixtures";
+
+// Golden outputs of the engines on the fixture library: any change of scoring,
+// benchmarks, warnings, rules or simulations shows up as a snapshot diff.
+// Review the diff, then accept it with `npx vitest run -u` when the move is intended.
+
+const SIMULATORS = {
+  TRESORERIE: simulateTresorerie,
+  RENTABILITE: simulateRentabilite,
+  ACTIVITE: simulateActivite,
+  COMMERCIAL: simulateCommercial,
+  RH: simulateRH,
+} satisfies Record<SimulationType, unknown>;
+
+// Each simulation runs with the strongest option of every input
+function strongestInputs(type: SimulationType): Record<string, number> {
+  const scenario = SIMULATION_SCENARIOS.find(s => s.type === type)!;
+  return Object.fromEntries(
+    scenario.inputs.map(input => [
+      input.id,
+      input.options.reduce((best, option) => (Math.abs(option.value) > Math.abs(best) ? option.value : best), 0),
+    ])
+  );
+}
+
+// One line per metric: thresholds moves show up through the band and the score
+function summarizeScores({ breakdown, ...scores }: Scores) {
+  if (!breakdown) return scores;
+  const { dimensions, ...rest } = breakdown;
+  return {
+    ...scores,
+    breakdown: {
+      ...rest,
+      dimensions: Object.fromEntries(
+        Object.values(dimensions).map(({ dimension, score, globalWeight, metrics }) => [
+          dimension,
+          {
+            score,
+            globalWeight,
+            metrics: metrics.map(m => `${m.id}: ${m.rawValue} → ${m.score} (${m.band}, poids ${m.effectiveWeight})`),
+          },
+        ])
+      ),
+    },
+  };
+}
+
+// The trace is summarized by the rules it fired, the rest of the output is kept as is
+function summarizeDecision({ trace, ...decision }: DecisionOutput) {
+  return {
+    ...decision,
+    firedRules: trace.filter(entry => entry.fired).map(entry => `${entry.kind}:${entry.ruleId}`),
+  };
+}
+
+describe.each(AUDIT_FIXTURES)("$id", ({ data }) => {
+  // Simulation ids are timestamped
+  beforeAll(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-06-30T12:00:00Z"));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it("computeScoresV2", () => {
+    expect(summarizeScores(computeScoresV2(data))).toMatchSnapshot();
+  });
+
+  it("computeScoresV2 (continuous)", () => {
+    const { breakdown: _breakdown, ...scores } = computeScoresV2(data, { mode: "continuous" });
+    expect(scores).toMatchSnapshot();
+  });
+
+  it("getAuditWarnings", () => {
+    expect(getAuditWarnings(data)).toMatchSnapshot();
+  });
+
+  it("computeDecisionOutput", () => {
+    const decision = computeDecisionOutput(data, computeScoresV2(data), getAuditWarnings(data));
+    expect(summarizeDecision(decision)).toMatchSnapshot();
+  });
+
+  it.each(Object.keys(SIMULATORS) as SimulationType[])("simulate %s", type => {
+    expect(SIMULATORS[type](normalizeToV2(data), strongestInputs(type))).toMatchSnapshot();
+  });
+});
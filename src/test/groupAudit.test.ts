@@ -0,0 +1,81 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2, type GroupAudit } from "@/types/audit";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { computeGroupAudit, emptyGroupAudit, loadGroupAudit, OUTLIER_GAP, saveGroupAudit } from "@/lib/groupAudit";
+
+const site = (id: string, changes: Partial<AuditDataV2> = {}) => ({
+  id,
+  data: { ...defaultAuditDataV2, businessName: id, auditDate: "2026-06-30", ...changes },
+});
+
+const strong = site("Lyon", {
+  finance: { annualRevenue: 900000, grossMarginPercent: 80, netMarginPercent: 18, cashRunwayMonths: 12 },
+  costs: { hrCostsPercent: 38 },
+  commercial: { digitalizationPercent: 95, loyaltyPercent: 92 },
+});
+const average = site("Paris");
+const weak = site("Lille", {
+  finance: { annualRevenue: 100000, grossMarginPercent: 40, netMarginPercent: -8, cashRunwayMonths: 1 },
+  costs: { hrCostsPercent: 75 },
+  ops: { occupancyRatePercent: 40, productivity: { fte: 4 } },
+  commercial: { digitalizationPercent: 20, loyaltyPercent: 40 },
+});
+
+const group: GroupAudit = { groupName: "Groupe test", sites: [average, weak, strong] };
+
+describe("computeGroupAudit", () => {
+  const result = computeGroupAudit(group);
+
+  it("ranks the sites by global score", () => {
+    expect(result.sites.map(s => s.site.id)).toEqual(["Lyon", "Paris", "Lille"]);
+    expect(result.sites.map(s => s.rank)).toEqual([1, 2, 3]);
+  });
+
+  it("consolidates the scores weighted by revenue", () => {
+    const scores = group.sites.map(s => computeScoresV2(s.data));
+    const revenues = group.sites.map(s => s.data.finance.annualRevenue);
+    const total = revenues.reduce((sum, r) => sum + r, 0);
+    const expected = scores.reduce((sum, s, i) => sum + s.global * (revenues[i] / total), 0);
+
+    expect(result.totalRevenue).toBe(total);
+    expect(result.consolidated.global).toBe(Math.round(expected * 10) / 10);
+    expect(result.sites.find(s => s.site.id === "Lyon")?.revenueShare).toBe(62.1); // 900 k€ of 1 450 k€
+  });
+
+  it("weights the sites equally when no revenue is known", () => {
+    const noRevenue = group.sites.map(s => ({ ...s, data: { ...s.data, finance: { ...s.data.finance, annualRevenue: 0 } } }));
+    const equal = computeGroupAudit({ ...group, sites: noRevenue });
+
+    equal.sites.forEach(s => expect(s.revenueShare).toBe(33.3));
+  });
+
+  it("flags the sites beyond the outlier gap from the median", () => {
+    result.sites.forEach(s => {
+      expect(s.gapToMedian).toBe(Math.round((s.scores.global - result.medianScore) * 10) / 10);
+      const expected = Math.abs(s.gapToMedian) > OUTLIER_GAP ? (s.gapToMedian > 0 ? "above" : "below") : undefined;
+      expect(s.outlier).toBe(expected);
+    });
+    expect(result.sites.find(s => s.site.id === "Lille")?.outlier).toBe("below");
+  });
+
+  it("needs three sites to flag an outlier", () => {
+    const pair = computeGroupAudit({ ...group, sites: [strong, weak] });
+
+    expect(pair.sites.every(s => s.outlier === undefined)).toBe(true);
+  });
+});
+
+describe("group persistence", () => {
+  afterEach(() => localStorage.clear());
+
+  it("round-trips the group through localStorage", () => {
+    saveGroupAudit(group);
+    expect(loadGroupAudit()).toEqual(group);
+  });
+
+  it("falls back to an empty group on missing or corrupt storage", () => {
+    expect(loadGroupAudit()).toEqual(emptyGroupAudit);
+    localStorage.setItem("audit_group", "{");
+    expect(loadGroupAudit()).toEqual(emptyGroupAudit);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import {
+  getEnteredMetricValues,
+  getFieldValue,
+  getFormMetrics,
+  getImportableMetrics,
+  getRegisteredMetrics,
+  registerMetric,
+  setFieldValue,
+  type RegisteredMetric,
+} from "@/lib/metricRegistry";
+import { getAuditInputFields } from "@/lib/auditInputFields";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { computeSensitivity } from "@/lib/sensitivityEngine";
+import { validateJsonImport } from "@/lib/importHelpers";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+};
+
+// Metric stored under customMetrics, registered once for the whole file (the registry is module state)
+const stockTurnover: RegisteredMetric = {
+  id: "rotation_stocks_test",
+  label: "Rotation des stocks",
+  dimension: "operationnel",
+  unit: "x",
+  path: "customMetrics.rotation_stocks_test",
+  defaultWeight: 10,
+  curve: {
+    thresholds: { excellent: 12, bon: 8, crit: 4 },
+    direction: "higher",
+    bandScores: [100, 75, 50],
+    belowCrit: () => 20,
+    floor: { value: 0, score: 0 },
+  },
+  form: { label: "Rotation des stocks (fois/an)", min: 0, step: 0.5 },
+  import: { key: "operations.rotationStocksTest", synonyms: ["rotation stocks test"] },
+  lever: { step: 1, min: 0 },
+};
+registerMetric(stockTurnover);
+
+const withStock = (value: number): AuditDataV2 => setFieldValue(data, stockTurnover.path!, value);
+
+describe("getFieldValue / setFieldValue", () => {
+  it("reads nested numeric values only", () => {
+    expect(getFieldValue(data, "finance.grossMarginPercent")).toBe(data.finance.grossMarginPercent);
+    expect(getFieldValue(data, "hr.turnoverRatePercent")).toBeUndefined();
+    expect(getFieldValue(data, "businessName")).toBeUndefined();
+    expect(getFieldValue({ ...data, finance: { ...data.finance, netMarginPercent: NaN } }, "finance.netMarginPercent")).toBeUndefined();
+  });
+
+  it("updates a copy and creates the missing groups", () => {
+    const updated = setFieldValue(data, "hr.turnoverRatePercent", 12);
+
+    expect(updated.hr).toEqual({ turnoverRatePercent: 12 });
+    expect(updated.finance).toBe(data.finance);
+    expect(data.hr).toBeUndefined();
+  });
+
+  it("removes the value when set to undefined", () => {
+    const updated = setFieldValue(withStock(9), stockTurnover.path!, undefined);
+
+    expect(getFieldValue(updated, stockTurnover.path!)).toBeUndefined();
+    expect(updated.customMetrics).toEqual({});
+  });
+});
+
+describe("registerMetric", () => {
+  it("rejects a duplicate id in the same dimension", () => {
+    expect(() => registerMetric(stockTurnover)).toThrow("déjà enregistré");
+  });
+
+  it("requires a path or a compute function", () => {
+    expect(() => registerMetric({ ...stockTurnover, id: "sans_source_test", path: undefined })).toThrow("'path' ou 'compute' requis");
+    expect(getRegisteredMetrics().map(m => m.id)).not.toContain("sans_source_test");
+  });
+
+  it("scores a customMetrics value in its dimension", () => {
+    const metric = (audit: AuditDataV2) =>
+      computeScoresV2(audit).breakdown!.dimensions.operationnel.metrics.find(m => m.id === stockTurnover.id);
+
+    expect(metric(withStock(13))).toMatchObject({ rawValue: 13, score: 100 });
+    expect(metric(withStock(2))).toMatchObject({ rawValue: 2, score: 20 });
+    expect(computeScoresV2(withStock(13)).operationnel).toBeGreaterThan(computeScoresV2(withStock(2)).operationnel);
+  });
+});
+
+describe("registry consumers", () => {
+  it("renders the metric in the additional indicators of the form", () => {
+    expect(getFormMetrics(null).map(m => m.id)).toContain(stockTurnover.id);
+    expect(getFormMetrics("rh").map(m => m.id)).toEqual(["turnover", "absenteisme"]);
+  });
+
+  it("keeps one form input per field", () => {
+    const paths = getFormMetrics().map(m => m.path);
+    expect(new Set(paths).size).toBe(paths.length);
+  });
+
+  it("moves the metric in the sensitivity, target and uncertainty engines", () => {
+    const field = getAuditInputFields().find(f => f.id === stockTurnover.path);
+
+    expect(field).toMatchObject({ unit: "x", step: 1, min: 0, higherIsBetter: true });
+    expect(field!.get(field!.set(data, 7))).toBe(7);
+    expect(computeSensitivity(withStock(6)).map(e => e.fieldId)).toContain(stockTurnover.path);
+    expect(computeSensitivity(data).map(e => e.fieldId)).not.toContain(stockTurnover.path);
+  });
+
+  it("reads the metric from its import key", () => {
+    expect(getImportableMetrics().map(m => m.import.key)).toContain("operations.rotationStocksTest");
+
+    const result = validateJsonImport(JSON.stringify({
+      meta: { companyName: "Clinique test", sector: "Dentaire", year: 2026 },
+      finance: { caAnnuel: 500000, resultatNet: 40000, tresorerie: 60000, dettesFinancieres: 0, fondsPropres: 100000 },
+      operations: { rotationStocksTest: 9 },
+      rh: { turnover: 14 },
+    }));
+
+    expect(result.parsedData?.customMetrics).toEqual({ rotation_stocks_test: 9 });
+    expect(result.parsedData?.hr).toEqual({ turnoverRatePercent: 14 });
+  });
+
+  it("lists the entered values for the report payloads", () => {
+    const values = getEnteredMetricValues(withStock(9));
+
+    expect(values).toContainEqual({ id: stockTurnover.id, label: "Rotation des stocks", value: 9, unit: "x" });
+    expect(values.map(v => v.id)).not.toContain("turnover");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { computeScoresV2, getAuditThresholds } from "@/lib/scoringV2";
+import { DEFAULT_RULE_PACK, evaluateImpact, renderAssumption, type QuantificationRuleSpec, type RuleContext } from "@/lib/decisionRules";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, annualRevenue: 450000, grossMarginPercent: 60 },
+  costs: { hrCostsPercent: 60 },
+  hr: { absenteeismRatePercent: 9, turnoverRatePercent: 25 },
+};
+
+const contextOf = (audit: AuditDataV2): RuleContext => ({
+  data: audit,
+  scores: computeScoresV2(audit),
+  thresholds: getAuditThresholds(audit).thresholds,
+});
+
+const rule = (id: string) => DEFAULT_RULE_PACK.quantificationRules.find(r => r.id === id)!;
+const euros = (value: number) => `${value.toLocaleString("fr-FR")} €`;
+
+describe("evaluateImpact", () => {
+  it("computes the impact from the audit's own figures", () => {
+    // Purchases: 40 % of 450 k€, renegotiated by 3 to 6 %
+    expect(evaluateImpact(rule("gross_margin_improvement"), contextOf(data))).toEqual({
+      min: 5400,
+      max: 10800,
+      calibrated: true,
+      assumptions: [
+        `Achats consommés : ${euros(180000)} (40 % du CA, marge brute actuelle 60 %)`,
+        "Hypothèse : renégociation fournisseurs ou ajustement tarifaire de 3 à 6 % des achats",
+        "Impact direct sur le résultat",
+      ],
+    });
+  });
+
+  it("prefers the declared purchases to the gross margin", () => {
+    const impact = evaluateImpact(rule("gross_margin_improvement"), contextOf({ ...data, costs: { ...data.costs, cogsPercent: 30 } }));
+
+    expect(impact).toMatchObject({ min: 4050, max: 8100 });
+  });
+
+  it("measures the gap to the sector norm of the variant", () => {
+    const standard = evaluateImpact(rule("hr_cost_reduction"), contextOf({ ...data, costs: { hrCostsPercent: 56 } }));
+    const rural = evaluateImpact(rule("hr_cost_reduction"), contextOf({ ...data, variant: "veto_rurale", costs: { hrCostsPercent: 56 } }));
+
+    // Payroll of 252 k€: 1 pt above the standard norm (55 %), 3 pts (capped) above the rural one (52 %)
+    expect(standard.max).toBe(Math.round(252000 * 1 / 56));
+    expect(rural.max).toBe(Math.round(252000 * 3 / 56));
+    expect(rural.assumptions[1]).toContain("(52 % du CA) de 3 pts");
+  });
+
+  it("falls back to the revenue coefficients when an input is missing", () => {
+    const impact = evaluateImpact(rule("absenteeism_reduction"), contextOf({ ...data, hr: undefined }));
+
+    expect(impact).toEqual({
+      min: Math.round(450000 * rule("absenteeism_reduction").impact.min),
+      max: Math.round(450000 * rule("absenteeism_reduction").impact.max),
+      assumptions: rule("absenteeism_reduction").assumptions,
+      calibrated: false,
+    });
+  });
+
+  it("values each point of digitalization on the audit's revenue", () => {
+    const impact = evaluateImpact(rule("digitalization_improvement"), contextOf({
+      ...data,
+      commercial: { ...data.commercial, digitalizationPercent: 40 },
+    }));
+
+    expect(impact).toMatchObject({ min: Math.round(450000 * 15 * 0.0015), max: Math.round(450000 * 15 * 0.003), calibrated: true });
+  });
+
+  it("raises revenue per FTE towards the sector norm", () => {
+    // 4.5 FTE: 80 k€ per FTE is 20 k€ below the norm, capped at +10 %; 100 k€ is at the norm, +5 %
+    const below = evaluateImpact(rule("productivity_improvement"), contextOf({ ...data, finance: { ...data.finance, annualRevenue: 360000 } }));
+    const atNorm = evaluateImpact(rule("productivity_improvement"), contextOf(data));
+
+    expect(below).toMatchObject({ min: 4.5 * 8000 * 0.5, max: 4.5 * 8000, calibrated: true });
+    expect(atNorm).toMatchObject({ min: 4.5 * 5000 * 0.5, max: 4.5 * 5000, calibrated: true });
+  });
+
+  it("gives every default rule a formula on the audit's figures", () => {
+    expect(DEFAULT_RULE_PACK.quantificationRules.filter(r => !r.formula).map(r => r.id)).toEqual([]);
+  });
+
+  it("never returns a negative impact nor a minimum above the maximum", () => {
+    const custom: QuantificationRuleSpec = {
+      ...rule("cash_optimization"),
+      inputs: {},
+      formula: { min: -500, max: 1000 },
+    };
+
+    expect(evaluateImpact(custom, contextOf(data))).toMatchObject({ min: 0, max: 1000 });
+    expect(evaluateImpact({ ...custom, formula: { min: 2000, max: 1000 } }, contextOf(data))).toMatchObject({ min: 1000, max: 1000 });
+  });
+});
+
+describe("renderAssumption", () => {
+  it("replaces known inputs and leaves the others", () => {
+    expect(renderAssumption("{a} pts pour {b|€}, {c} inconnu", { a: 2.46, b: 12345.6 })).toBe(`2,5 pts pour ${euros(12346)}, {c} inconnu`);
+  });
+});
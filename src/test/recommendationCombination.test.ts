@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import type { ImpactType, QuantifiedRecommendation } from "@/types/audit";
+import { combineRecommendations, getRecommendationOverlap } from "@/lib/recommendationCombination";
+
+const rec = (ruleId: string, impactType: ImpactType, drivers: string[], min: number, max: number): QuantifiedRecommendation => ({
+  ruleId,
+  lever: ruleId,
+  impactType,
+  drivers,
+  estimatedImpactMin: min,
+  estimatedImpactMax: max,
+  unit: "€",
+  assumptions: [],
+  confidenceLevel: "MOYEN",
+  calibrated: true,
+});
+
+const occupation = rec("occupation_improvement", "CA", ["capacity"], 10000, 20000);
+const productivity = rec("productivity_improvement", "CA", ["capacity", "staff"], 8000, 16000);
+const digital = rec("digitalization_improvement", "CA", ["acquisition"], 4000, 8000);
+const hrCosts = rec("hr_cost_reduction", "COÛTS", ["staff"], 5000, 10000);
+const cash = rec("cash_optimization", "TRÉSORERIE", [], 3000, 6000);
+
+describe("getRecommendationOverlap", () => {
+  it("overlaps most on a shared driver", () => {
+    expect(getRecommendationOverlap(occupation, productivity)).toEqual({
+      first: "occupation_improvement",
+      second: "productivity_improvement",
+      coefficient: 0.6,
+      reason: "driver",
+      drivers: ["capacity"],
+    });
+  });
+
+  it("overlaps less on the same P&L line through another driver", () => {
+    expect(getRecommendationOverlap(occupation, digital)).toMatchObject({ coefficient: 0.25, reason: "line", drivers: [] });
+  });
+
+  it("keeps independent levers apart", () => {
+    expect(getRecommendationOverlap(occupation, cash)).toBeNull();
+  });
+});
+
+describe("combineRecommendations", () => {
+  it("totals each impact type apart", () => {
+    expect(combineRecommendations([occupation, cash])).toEqual({
+      totals: [
+        { impactType: "CA", additiveMin: 10000, additiveMax: 20000, combinedMin: 10000, combinedMax: 20000 },
+        { impactType: "TRÉSORERIE", additiveMin: 3000, additiveMax: 6000, combinedMin: 3000, combinedMax: 6000 },
+      ],
+      overlaps: [],
+    });
+  });
+
+  it("deducts from each lever the share captured by the larger ones", () => {
+    // productivity keeps 40% (capacity with occupation), hr costs 40% (staff with productivity),
+    // digital 75% × 75% (same line as occupation and productivity)
+    const combined = combineRecommendations([digital, hrCosts, occupation, productivity]);
+    const [revenue, costs] = combined.totals;
+
+    expect(combined.totals.map(total => total.impactType)).toEqual(["CA", "COÛTS"]);
+    expect(revenue.additiveMax).toBe(44000);
+    expect(revenue.combinedMax).toBe(Math.round(20000 + 16000 * 0.4 + 8000 * 0.75 * 0.75));
+    expect(revenue.combinedMin).toBe(Math.round(10000 + 8000 * 0.4 + 4000 * 0.75 * 0.75));
+    expect(costs).toEqual({ impactType: "COÛTS", additiveMin: 5000, additiveMax: 10000, combinedMin: 2000, combinedMax: 4000 });
+    expect(combined.overlaps.map(o => [o.first, o.second, o.reason])).toEqual([
+      ["occupation_improvement", "productivity_improvement", "driver"],
+      ["productivity_improvement", "hr_cost_reduction", "driver"],
+      ["occupation_improvement", "digitalization_improvement", "line"],
+      ["productivity_improvement", "digitalization_improvement", "line"],
+    ]);
+  });
+
+  it("does not depend on the order of the selection", () => {
+    const forward = combineRecommendations([occupation, productivity, digital, hrCosts, cash]);
+    const backward = combineRecommendations([cash, hrCosts, digital, productivity, occupation]);
+
+    expect(backward.totals).toEqual(forward.totals);
+  });
+
+  it("is empty without recommendation", () => {
+    expect(combineRecommendations([])).toEqual({ totals: [], overlaps: [] });
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { getAuditWarnings } from "@/lib/warnings";
+import { computeDecisionOutput } from "@/lib/decisionEngine";
+import { DEFAULT_RULE_PACK } from "@/lib/decisionRules";
+import { AUDIT_FIXTURES } from "./fixtures/auditFixtures";
+import { getUncoveredRules } from "./fixtures/ruleCoverage";
+
+// `npm run test:rule-coverage` prints the covered rules of each section
+describe("rule coverage of the golden fixtures", () => {
+  const decisions = AUDIT_FIXTURES.map(({ data }) =>
+    computeDecisionOutput(data, computeScoresV2(data), getAuditWarnings(data))
+  );
+
+  it("fires every rule of the default pack on at least one fixture", () => {
+    // A new rule needs a fixture (an edge case when no profile reaches it)
+    expect(getUncoveredRules(DEFAULT_RULE_PACK, decisions)).toEqual({
+      riskRules: [],
+      quantificationRules: [],
+      strengthRules: [],
+    });
+  });
+});
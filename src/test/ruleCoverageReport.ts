@@ -0,0 +1,16 @@
+/**
+ * Rule coverage report of the golden fixtures, run by `npm run test:rule-coverage`
+ */
+
+import { computeScoresV2 } from '@/lib/scoringV2';
+import { getAuditWarnings } from '@/lib/warnings';
+import { computeDecisionOutput } from '@/lib/decisionEngine';
+import { DEFAULT_RULE_PACK } from '@/lib/decisionRules';
+import { AUDIT_FIXTURES } from './fixtures/auditFixtures';
+import { formatRuleCoverageReport, getUncoveredRules } from './fixtures/ruleCoverage';
+
+const decisions = AUDIT_FIXTURES.map(({ data }) =>
+  computeDecisionOutput(data, computeScoresV2(data), getAuditWarnings(data))
+);
+
+console.log(formatRuleCoverageReport(DEFAULT_RULE_PACK, getUncoveredRules(DEFAULT_RULE_PACK, decisions)));
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, normalizeToV2, type AuditDataV2, type MetricThresholds, type Scores } from "@/types/audit";
+import { computeScoresV2, getAuditThresholds } from "@/lib/scoringV2";
+import { getRegisteredMetrics } from "@/lib/metricRegistry";
+import { DEFAULT_RULE_PACK, evaluateCondition } from "@/lib/decisionRules";
+import { AUDIT_FIXTURES } from "./fixtures/auditFixtures";
+
+// ============= Predicates of the coded rules replaced by the JSON pack =============
+// Copied from RISK_RULES / QUANTIFICATION_RULES of decisionEngine.ts before the rule DSL
+
+type T = Record<string, MetricThresholds>;
+type LegacyCondition = (data: AuditDataV2, scores: Scores, t: T) => boolean;
+
+const UNIVERSAL_THRESHOLDS: T = Object.fromEntries(
+  getRegisteredMetrics()
+    .filter(metric => metric.curve.benchmark && metric.curve.thresholds)
+    .map(metric => [metric.curve.benchmark as string, metric.curve.thresholds as MetricThresholds])
+);
+
+const sectorLimit = (t: T, key: string, limit: number) => limit + t[key].bon - UNIVERSAL_THRESHOLDS[key].bon;
+
+const LEGACY_RISK_RULES: Record<string, LegacyCondition> = {
+  runway_critical: (data, _, t) => data.finance.cashRunwayMonths !== undefined && data.finance.cashRunwayMonths < t.runway.crit,
+  runway_warning: (data, _, t) => data.finance.cashRunwayMonths !== undefined && data.finance.cashRunwayMonths >= t.runway.crit && data.finance.cashRunwayMonths < t.runway.bon,
+  low_gross_margin: (data, scores) => scores.financier < 45,
+  negative_net_margin: (data) => data.finance.netMarginPercent !== undefined && data.finance.netMarginPercent < 0,
+  hr_cost_high: (data, _, t) => data.costs.hrCostsPercent > 50 && (data.hr?.absenteeismRatePercent ?? 0) > sectorLimit(t, "absenteisme", 8),
+  high_absenteeism: (data, _, t) => (data.hr?.absenteeismRatePercent ?? 0) > sectorLimit(t, "absenteisme", 8) && (data.hr?.absenteeismRatePercent ?? 0) <= t.absenteisme.crit,
+  critical_absenteeism: (data, _, t) => (data.hr?.absenteeismRatePercent ?? 0) > t.absenteisme.crit,
+  high_turnover: (data, _, t) => (data.hr?.turnoverRatePercent ?? 0) > t.turnover.bon && (data.hr?.turnoverRatePercent ?? 0) <= t.turnover.crit,
+  critical_turnover: (data, _, t) => (data.hr?.turnoverRatePercent ?? 0) > t.turnover.crit,
+  low_occupancy: (data, _, t) => data.ops.occupancyRatePercent < sectorLimit(t, "occupation", 65),
+  very_high_occupancy: (data, _, t) => data.ops.occupancyRatePercent > t.occupation.excellent,
+  low_productivity: (data, scores) => scores.operationnel < 50,
+  quality_issues: (data, _, t) => (data.ops.quality?.returnRatePercent ?? 0) > t.taux_retour.bon,
+  low_digitalization: (data) => data.commercial.digitalizationPercent < 40,
+  moderate_digitalization: (data) => data.commercial.digitalizationPercent >= 40 && data.commercial.digitalizationPercent < 60,
+  low_loyalty: (data) => (data.commercial.loyaltyPercent ?? 100) < 60,
+  low_satisfaction: (data, _, t) => (data.commercial.satisfaction?.csatPercent ?? 100) < sectorLimit(t, "csat", 75),
+  negative_nps: (data) => (data.commercial.satisfaction?.nps ?? 50) < 0,
+  dimension_imbalance: (_, scores) => {
+    const dims = [scores.financier, scores.operationnel, scores.commercial, scores.strategique];
+    return Math.max(...dims) - Math.min(...dims) > 30;
+  },
+  low_diversification: (data) => (data.nbServices ?? 1) <= 2,
+};
+
+const LEGACY_QUANTIFICATION_RULES: Record<string, LegacyCondition> = {
+  occupation_improvement: (data, _, t) => data.ops.occupancyRatePercent < t.occupation.bon,
+  // Only fires above the sector norm since pack 1.4: below it the saving was always 0
+  hr_cost_reduction: (data, _, t) => data.costs.hrCostsPercent > 48 && data.costs.hrCostsPercent > t.charges_rh.bon,
+  absenteeism_reduction: (data, _, t) => (data.hr?.absenteeismRatePercent ?? 0) > t.absenteisme.excellent,
+  gross_margin_improvement: (data) => data.finance.grossMarginPercent < 65,
+  digitalization_improvement: (data) => data.commercial.digitalizationPercent < 60,
+  cash_optimization: (data, _, t) => data.finance.cashRunwayMonths !== undefined && data.finance.cashRunwayMonths < t.runway.bon,
+  productivity_improvement: (data, scores) => scores.operationnel < 55,
+  turnover_reduction: (data, _, t) => (data.hr?.turnoverRatePercent ?? 0) > sectorLimit(t, "turnover", 20),
+};
+
+// ============= Audits =============
+
+const base: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, netMarginPercent: 8, cashRunwayMonths: 8 },
+  hr: { absenteeismRatePercent: 4, turnoverRatePercent: 12 },
+  ops: { ...defaultAuditDataV2.ops, quality: { returnRatePercent: 2 } },
+  commercial: { ...defaultAuditDataV2.commercial, satisfaction: { csatPercent: 90, nps: 40 } },
+};
+
+// Sector thresholds of the base audit (veterinary, standard variant)
+const { thresholds: t } = getAuditThresholds(base);
+
+type Case = [string, AuditDataV2, Partial<Scores>?];
+
+const withFinance = (finance: Partial<AuditDataV2["finance"]>) => ({ ...base, finance: { ...base.finance, ...finance } });
+const withHr = (hr: AuditDataV2["hr"]) => ({ ...base, hr });
+const withOps = (ops: Partial<AuditDataV2["ops"]>) => ({ ...base, ops: { ...base.ops, ...ops } });
+const withCommercial = (commercial: Partial<AuditDataV2["commercial"]>) => ({ ...base, commercial: { ...base.commercial, ...commercial } });
+
+// Missing optional fields: the coded rules defaulted them (loyalty 100, NPS 50, CSAT 100, rates 0)
+const MISSING_FIELD_CASES: Case[] = [
+  ["no optional field", { ...defaultAuditDataV2, businessName: "Clinique test", auditDate: "2026-06-30" }],
+  ["no runway nor net margin", withFinance({ cashRunwayMonths: undefined, netMarginPercent: undefined })],
+  ["no HR group", withHr(undefined)],
+  ["HR group without absenteeism", withHr({ turnoverRatePercent: 45 })],
+  ["HR group without turnover", withHr({ absenteeismRatePercent: 20 })],
+  ["no quality group", withOps({ quality: undefined })],
+  ["no loyalty", withCommercial({ loyaltyPercent: undefined })],
+  ["no satisfaction", withCommercial({ satisfaction: undefined })],
+  ["CSAT without NPS", withCommercial({ satisfaction: { csatPercent: 60 } })],
+  ["NPS without CSAT", withCommercial({ satisfaction: { nps: -10 } })],
+  ["no service count", { ...base, nbServices: undefined }],
+];
+
+// Values exactly on, and just around, every limit of the coded rules
+const around = (value: number) => [value - 0.1, value, value + 0.1];
+const EDGE_CASES: Case[] = [
+  ...[t.runway.crit, t.runway.bon].flatMap(around).map((v): Case => [`runway ${v}`, withFinance({ cashRunwayMonths: v })]),
+  ...around(0).map((v): Case => [`net margin ${v}`, withFinance({ netMarginPercent: v })]),
+  ...around(65).map((v): Case => [`gross margin ${v}`, withFinance({ grossMarginPercent: v })]),
+  ...[48, 50, t.charges_rh.bon].flatMap(around).map((v): Case => [`HR costs ${v}`, { ...withHr({ absenteeismRatePercent: 12 }), costs: { hrCostsPercent: v } }]),
+  ...[sectorLimit(t, "absenteisme", 8), t.absenteisme.crit, t.absenteisme.excellent].flatMap(around)
+    .map((v): Case => [`absenteeism ${v}`, withHr({ absenteeismRatePercent: v, turnoverRatePercent: 12 })]),
+  ...[t.turnover.bon, t.turnover.crit, sectorLimit(t, "turnover", 20)].flatMap(around)
+    .map((v): Case => [`turnover ${v}`, withHr({ absenteeismRatePercent: 4, turnoverRatePercent: v })]),
+  ...[sectorLimit(t, "occupation", 65), t.occupation.bon, t.occupation.excellent].flatMap(around)
+    .map((v): Case => [`occupancy ${v}`, withOps({ occupancyRatePercent: v })]),
+  ...around(t.taux_retour.bon).map((v): Case => [`return rate ${v}`, withOps({ quality: { returnRatePercent: v } })]),
+  ...[40, 60].flatMap(around).map((v): Case => [`digitalization ${v}`, withCommercial({ digitalizationPercent: v })]),
+  ...around(60).map((v): Case => [`loyalty ${v}`, withCommercial({ loyaltyPercent: v })]),
+  ...around(sectorLimit(t, "csat", 75)).map((v): Case => [`CSAT ${v}`, withCommercial({ satisfaction: { csatPercent: v, nps: 40 } })]),
+  ...around(0).map((v): Case => [`NPS ${v}`, withCommercial({ satisfaction: { csatPercent: 90, nps: v } })]),
+  ...[2, 3].map((v): Case => [`${v} services`, { ...base, nbServices: v }]),
+  ...[44.9, 45, 45.1].map((v): Case => [`financial score ${v}`, base, { financier: v }]),
+  ...[49.9, 50, 54.9, 55].map((v): Case => [`operational score ${v}`, base, { operationnel: v }]),
+  ["dimension gap of 30", base, { financier: 80, operationnel: 50, commercial: 60, strategique: 70 }],
+  ["dimension gap above 30", base, { financier: 80.1, operationnel: 50, commercial: 60, strategique: 70 }],
+];
+
+const FIXTURE_CASES: Case[] = AUDIT_FIXTURES.map(({ id, data }) => [id, normalizeToV2(data)]);
+
+// ============= Equivalence =============
+
+function firedRules(
+  rules: { id: string; when: Parameters<typeof evaluateCondition>[0] }[],
+  legacy: Record<string, LegacyCondition>,
+  [, data, scoreOverrides]: Case
+) {
+  const scores = { ...computeScoresV2(data), ...scoreOverrides };
+  const { thresholds } = getAuditThresholds(data, scores.benchmarkVersion);
+  return {
+    pack: rules.filter(rule => evaluateCondition(rule.when, { data, scores, thresholds })).map(rule => rule.id),
+    legacy: rules.filter(rule => legacy[rule.id](data, scores, thresholds)).map(rule => rule.id),
+  };
+}
+
+describe("default rule pack", () => {
+  it("declares the coded rules, no more, no less", () => {
+    expect(DEFAULT_RULE_PACK.riskRules.map(rule => rule.id).sort()).toEqual(Object.keys(LEGACY_RISK_RULES).sort());
+    expect(DEFAULT_RULE_PACK.quantificationRules.map(rule => rule.id).sort()).toEqual(Object.keys(LEGACY_QUANTIFICATION_RULES).sort());
+  });
+
+  describe.each([
+    ["missing optional fields", MISSING_FIELD_CASES],
+    ["threshold edges", EDGE_CASES],
+    ["golden fixtures", FIXTURE_CASES],
+  ])("on %s", (_, cases) => {
+    it.each(cases)("fires the same risk rules as the coded predicates: %s", (...auditCase) => {
+      const { pack, legacy } = firedRules(DEFAULT_RULE_PACK.riskRules, LEGACY_RISK_RULES, auditCase);
+      expect(pack).toEqual(legacy);
+    });
+
+    it.each(cases)("fires the same quantification rules as the coded predicates: %s", (...auditCase) => {
+      const { pack, legacy } = firedRules(DEFAULT_RULE_PACK.quantificationRules, LEGACY_QUANTIFICATION_RULES, auditCase);
+      expect(pack).toEqual(legacy);
+    });
+  });
+});
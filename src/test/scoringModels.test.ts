@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { CURRENT_BENCHMARK_VERSION } from "@/lib/benchmarks";
+import { computeScoresV2, SCORING_MODEL_VERSION } from "@/lib/scoringV2";
+import { computeScoresV2_0 } from "@/lib/scoringV2_0";
+import { registerMetric } from "@/lib/metricRegistry";
+import { diffScores, getScoringModel, rescoreAudit } from "@/lib/scoringModels";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, netMarginPercent: 6, cashRunwayMonths: 4 },
+  priorYears: [{ fiscalYear: 2025, annualRevenue: 500000, grossMarginPercent: 72, netMarginPercent: 9, hrCostsPercent: 48 }],
+};
+
+describe("rescoreAudit", () => {
+  it("defaults to the current model and benchmark table", () => {
+    const scores = rescoreAudit(data);
+
+    expect(scores.modelVersion).toBe(SCORING_MODEL_VERSION);
+    expect(scores.benchmarkVersion).toBe(CURRENT_BENCHMARK_VERSION);
+    expect(scores).toEqual(computeScoresV2(data));
+  });
+
+  it("reproduces model 2.0 with the table it was released with", () => {
+    expect(rescoreAudit(data, { modelVersion: "2.0" })).toEqual(computeScoresV2_0(data, "2.1"));
+  });
+
+  it("scores model 2.1 without trends", () => {
+    const scores = rescoreAudit(data, { modelVersion: "2.1", benchmarkVersion: CURRENT_BENCHMARK_VERSION });
+    const ids = scores.breakdown?.dimensions.strategique.metrics.map(m => m.id);
+
+    expect(scores.modelVersion).toBe("2.1");
+    expect(ids).not.toContain("croissance_ca");
+    expect(rescoreAudit(data).breakdown?.dimensions.strategique.metrics.map(m => m.id)).toContain("croissance_ca");
+  });
+
+  it("ignores the continuous mode on a model without it", () => {
+    expect(rescoreAudit(data, { modelVersion: "2.0" }, "continuous")).toEqual(rescoreAudit(data, { modelVersion: "2.0" }));
+  });
+
+  it("rejects an unknown model or benchmark table", () => {
+    expect(() => getScoringModel("9.9")).toThrow("Modèle de scoring '9.9' inconnu");
+    expect(() => rescoreAudit(data, { benchmarkVersion: "0.1" })).toThrow("Version de benchmarks '0.1' inconnue");
+  });
+});
+
+describe("diffScores", () => {
+  it("reports no movement between identical scorings", () => {
+    const diff = diffScores(computeScoresV2(data), computeScoresV2(data));
+
+    expect(diff.global.delta).toBe(0);
+    expect(diff.dimensions.every(d => d.delta === 0)).toBe(true);
+    expect(diff.metrics).toEqual([]);
+  });
+
+  it("lists the metrics whose thresholds moved between benchmark tables", () => {
+    const before = computeScoresV2(data, { benchmarkVersion: "2.1" });
+    const after = computeScoresV2(data, { benchmarkVersion: CURRENT_BENCHMARK_VERSION });
+    const diff = diffScores(before, after);
+
+    expect(diff.before).toEqual({ modelVersion: SCORING_MODEL_VERSION, benchmarkVersion: "2.1" });
+    expect(diff.global.delta).toBe(Math.round((after.global - before.global) * 10) / 10);
+    diff.metrics.forEach(metric => {
+      const moved = metric.scoreBefore !== metric.scoreAfter || metric.weightBefore !== metric.weightAfter || metric.thresholdsChanged;
+      expect(moved).toBe(true);
+    });
+    // Occupancy thresholds moved with table 2.4 while its score stayed in the same band
+    expect(diff.metrics.find(metric => metric.id === "occupation")).toMatchObject({
+      scoreBefore: 80,
+      scoreAfter: 80,
+      thresholdsChanged: true,
+    });
+  });
+
+  it("has no metric detail against model 2.0", () => {
+    const diff = diffScores(rescoreAudit(data, { modelVersion: "2.0" }), rescoreAudit(data));
+
+    expect(diff.before.modelVersion).toBe("2.0");
+    expect(diff.metricDetailAvailable).toBe(false);
+    expect(diff.metrics).toEqual([]);
+  });
+});
+
+// Last: the registered metric stays in the registry for the rest of the file
+describe("frozen models", () => {
+  it("keeps model 2.1 unchanged when the metric registry moves", () => {
+    const before = rescoreAudit(data, { modelVersion: "2.1" });
+    registerMetric({
+      id: "panier_moyen",
+      label: "Panier moyen",
+      dimension: "commercial",
+      unit: "€",
+      compute: () => 10,
+      defaultWeight: 50,
+      curve: {
+        thresholds: { crit: 50, bon: 80, excellent: 120 },
+        direction: "higher",
+        bandScores: [100, 80, 50],
+        belowCrit: () => 0,
+        floor: { value: 0, score: 0 },
+      },
+    });
+
+    expect(rescoreAudit(data, { modelVersion: "2.1" })).toEqual(before);
+    expect(rescoreAudit(data).breakdown?.dimensions.commercial.metrics.map(m => m.id)).toContain("panier_moyen");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { setFieldValue } from "@/lib/metricRegistry";
+import { computeScoresV2_0, SCORING_MODEL_V2_0_BENCHMARKS } from "@/lib/scoringV2_0";
+
+const base: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, netMarginPercent: 6, cashRunwayMonths: 4 },
+};
+
+// Partial quality / HR entries: the composite counts a missing first sub-metric at 100
+const PARTIAL_CASES: [string, Partial<AuditDataV2>][] = [
+  ["turnover only", { hr: { turnoverRatePercent: 45 } }],
+  ["absenteeism only", { hr: { absenteeismRatePercent: 18 } }],
+  ["HR group without value", { hr: {} }],
+  ["returns only", { ops: { ...base.ops, quality: { returnRatePercent: 12 } } }],
+  ["incidents only", { ops: { ...base.ops, quality: { incidentsPerMonth: 6 } } }],
+  ["quality group without value", { ops: { ...base.ops, quality: {} } }],
+  [
+    "partial HR and quality",
+    { hr: { absenteeismRatePercent: 12 }, ops: { ...base.ops, quality: { incidentsPerMonth: 4 } } },
+  ],
+  [
+    "complete HR and quality",
+    {
+      hr: { turnoverRatePercent: 30, absenteeismRatePercent: 8 },
+      ops: { ...base.ops, quality: { returnRatePercent: 3, incidentsPerMonth: 2 } },
+    },
+  ],
+];
+
+describe("computeScoresV2 quality and HR composites", () => {
+  it.each(PARTIAL_CASES)("matches model 2.0 on %s", (_, partial) => {
+    const data = { ...base, ...partial };
+    const current = computeScoresV2(data, { benchmarkVersion: SCORING_MODEL_V2_0_BENCHMARKS, trends: false });
+    const reference = computeScoresV2_0(data);
+
+    expect({
+      global: current.global,
+      operationnel: current.operationnel,
+      strategique: current.strategique,
+    }).toEqual({
+      global: reference.global,
+      operationnel: reference.operationnel,
+      strategique: reference.strategique,
+    });
+  });
+
+  it("reports the sub-metric left empty at its default score", () => {
+    const scores = computeScoresV2({ ...base, hr: { absenteeismRatePercent: 18 } });
+    const hrMetrics = scores.breakdown?.dimensions.strategique.metrics.filter(m => m.id === "turnover" || m.id === "absenteisme");
+
+    expect(hrMetrics?.map(({ id, rawValue, score, baseWeight }) => ({ id, rawValue, score, baseWeight }))).toEqual([
+      { id: "turnover", rawValue: undefined, score: 100, baseWeight: 10 },
+      { id: "absenteisme", rawValue: 18, score: 20, baseWeight: 10 },
+    ]);
+  });
+
+  it("skips the group when it was not entered", () => {
+    const scores = computeScoresV2(base);
+    const ids = scores.breakdown?.dimensions.strategique.metrics.map(m => m.id);
+
+    expect(ids).not.toContain("turnover");
+    expect(ids).not.toContain("absenteisme");
+  });
+});
+
+describe("computeScoresV2 continuous mode", () => {
+  const metricScore = (data: AuditDataV2, mode: "step" | "continuous", id: string) =>
+    computeScoresV2(data, { mode }).breakdown?.dimensions.financier.metrics.find(m => m.id === id);
+
+  const margin = metricScore(base, "step", "marge_brute")!;
+  const { crit, bon, excellent } = margin.thresholds!;
+  const withMargin = (value: number) => setFieldValue(base, "finance.grossMarginPercent", value);
+
+  it("meets the step scores on the thresholds", () => {
+    [crit, bon, excellent].forEach(value => {
+      expect(metricScore(withMargin(value), "continuous", "marge_brute")?.score).toBe(
+        metricScore(withMargin(value), "step", "marge_brute")?.score
+      );
+    });
+  });
+
+  it("interpolates between two thresholds", () => {
+    const low = metricScore(withMargin(bon), "step", "marge_brute")!.score;
+    const high = metricScore(withMargin(excellent), "step", "marge_brute")!.score;
+    const middle = metricScore(withMargin((bon + excellent) / 2), "continuous", "marge_brute")!;
+
+    expect(middle.score).toBeCloseTo((low + high) / 2, 1);
+    expect(middle.band).toBe("bon");
+  });
+
+  it("never decreases when the metric improves", () => {
+    const scores = [20, 35, 50, 60, 70, 80, 95].map(value => metricScore(withMargin(value), "continuous", "marge_brute")!.score);
+    scores.slice(1).forEach((score, i) => expect(score).toBeGreaterThanOrEqual(scores[i]));
+  });
+
+  it("keeps step scoring as the default", () => {
+    expect(computeScoresV2(base).breakdown?.mode).toBe("step");
+    expect(computeScoresV2(base)).toEqual(computeScoresV2(base, { mode: "step" }));
+  });
+});
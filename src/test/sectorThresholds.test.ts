@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { PARAM_SECTEUR } from "@/lib/benchmarks";
+import { PARAM_SECTEUR_V2_3 } from "@/lib/benchmarkHistory";
+import { computeScoresV2, getAuditThresholds, toRawThresholds } from "@/lib/scoringV2";
+
+// Metrics scored on universal constants before v2.4
+const SECTOR_BENCHMARKS = ["marge_nette", "runway", "occupation", "csat", "nps", "taux_retour", "incidents", "turnover", "absenteisme"];
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, netMarginPercent: 9 },
+};
+
+const netMargin = (audit: AuditDataV2, version?: string) =>
+  computeScoresV2(audit, { benchmarkVersion: version }).breakdown!.dimensions.financier.metrics.find(m => m.id === "marge_nette");
+
+describe("toRawThresholds", () => {
+  it("converts ratios to exact percentages and keeps the other units", () => {
+    expect(toRawThresholds({ unit: "ratio_inverse", thresholds: { crit: 0.7, bon: 0.55, excellent: 0.5 } }))
+      .toEqual({ crit: 70, bon: 55, excellent: 50 });
+    expect(toRawThresholds({ unit: "months", thresholds: { crit: 3, bon: 6, excellent: 12 } }))
+      .toEqual({ crit: 3, bon: 6, excellent: 12 });
+  });
+});
+
+describe("sector thresholds of the formerly constant metrics", () => {
+  it("are defined for every variant of the current table", () => {
+    Object.entries(PARAM_SECTEUR.sectors).forEach(([sector, { variants }]) =>
+      Object.values(variants).forEach(variant =>
+        expect(Object.keys(variant.metrics), `${sector} / ${variant.id}`).toEqual(expect.arrayContaining(SECTOR_BENCHMARKS))
+      )
+    );
+  });
+
+  it("come from the sector variant", () => {
+    const { thresholds } = getAuditThresholds({ ...data, variant: "veto_rurale" });
+
+    expect(thresholds.marge_nette).toEqual({ crit: 4, bon: 8, excellent: 12 });
+    expect(thresholds.runway).toEqual({ crit: 3, bon: 6, excellent: 10 });
+    expect(thresholds.turnover).toEqual({ crit: 30, bon: 18, excellent: 10 });
+  });
+
+  it("fall back to the registry constants for older tables", () => {
+    expect(Object.keys(PARAM_SECTEUR_V2_3.sectors["Vétérinaire"].variants.veto_rurale.metrics)).not.toContain("marge_nette");
+    expect(getAuditThresholds({ ...data, variant: "veto_rurale" }, "2.3").thresholds.marge_nette).toEqual({ crit: 5, bon: 10, excellent: 15 });
+  });
+
+  it("score the same value against the variant's own thresholds", () => {
+    expect(netMargin({ ...data, variant: "veto_rurale" })).toMatchObject({ band: "bon", thresholds: { crit: 4, bon: 8, excellent: 12 } });
+    expect(netMargin(data)).toMatchObject({ band: "crit", thresholds: { crit: 5, bon: 10, excellent: 15 } });
+    expect(netMargin({ ...data, variant: "veto_rurale" }, "2.3")?.band).toBe("crit");
+  });
+});
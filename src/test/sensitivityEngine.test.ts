@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { computeSensitivity } from "@/lib/sensitivityEngine";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, netMarginPercent: 6 },
+};
+
+describe("computeSensitivity", () => {
+  const entries = computeSensitivity(data);
+  const entry = (fieldId: string) => entries.find(e => e.fieldId === fieldId);
+
+  it("ranks the inputs by their largest impact on the global score", () => {
+    expect(entries[0].maxImpact).toBeGreaterThan(0);
+    entries.slice(1).forEach((e, i) => expect(e.maxImpact).toBeLessThanOrEqual(entries[i].maxImpact));
+    entries.forEach(e => expect(e.maxImpact).toBe(Math.max(Math.abs(e.up.globalImpact), Math.abs(e.down.globalImpact))));
+  });
+
+  it("does not perturb the inputs left empty", () => {
+    expect(entry("finance.netMarginPercent")).toBeDefined();
+    expect(entry("finance.cashRunwayMonths")).toBeUndefined();
+    expect(entry("hr.turnoverRatePercent")).toBeUndefined();
+  });
+
+  it("measures each move with computeScoresV2", () => {
+    const margin = entry("finance.grossMarginPercent")!;
+    const base = computeScoresV2(data);
+    const moved = computeScoresV2({ ...data, finance: { ...data.finance, grossMarginPercent: 73 } });
+
+    expect(margin.baseValue).toBe(68);
+    expect(margin.up).toMatchObject({ value: 73, delta: 5, deltaLabel: "+5 pts" });
+    expect(margin.up.globalImpact).toBe(Math.round((moved.global - base.global) * 10) / 10);
+    expect(margin.up.dimensionImpacts.financier).toBe(Math.round((moved.financier - base.financier) * 10) / 10);
+    expect(margin.down.delta).toBe(-5);
+  });
+
+  it("keeps the moves within the input bounds", () => {
+    const [margin] = computeSensitivity({ ...data, finance: { ...data.finance, grossMarginPercent: 100 } })
+      .filter(e => e.fieldId === "finance.grossMarginPercent");
+
+    expect(margin.up).toMatchObject({ value: 100, delta: 0, globalImpact: 0 });
+  });
+
+  it("scores with the given options", () => {
+    const continuous = computeSensitivity(data, { mode: "continuous" });
+    const margin = continuous.find(e => e.fieldId === "finance.grossMarginPercent")!;
+    const base = computeScoresV2(data, { mode: "continuous" });
+    const moved = computeScoresV2({ ...data, finance: { ...data.finance, grossMarginPercent: 63 } }, { mode: "continuous" });
+
+    expect(margin.down.globalImpact).toBe(Math.round((moved.global - base.global) * 10) / 10);
+  });
+});
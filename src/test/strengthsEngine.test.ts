@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { computeScoresV2, getAuditThresholds } from "@/lib/scoringV2";
+import { DEFAULT_RULE_PACK, type RuleContext } from "@/lib/decisionRules";
+import { computeStrengths } from "@/lib/strengthsEngine";
+
+const base: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+};
+
+const weak: AuditDataV2 = {
+  ...base,
+  finance: { annualRevenue: 100000, grossMarginPercent: 40, netMarginPercent: -5, cashRunwayMonths: 1 },
+  ops: { occupancyRatePercent: 40, productivity: { fte: 4 } },
+  commercial: { digitalizationPercent: 20, loyaltyPercent: 40 },
+};
+
+const strong: AuditDataV2 = {
+  ...base,
+  finance: { annualRevenue: 2000000, grossMarginPercent: 90, netMarginPercent: 15, cashRunwayMonths: 24 },
+  ops: { occupancyRatePercent: 90, productivity: { fte: 4 } },
+  hr: { absenteeismRatePercent: 0, turnoverRatePercent: 0 },
+  commercial: { digitalizationPercent: 99, loyaltyPercent: 99, satisfaction: { csatPercent: 99 } },
+};
+
+const contextOf = (audit: AuditDataV2): RuleContext => ({
+  data: audit,
+  scores: computeScoresV2(audit),
+  thresholds: getAuditThresholds(audit).thresholds,
+});
+
+const rules = DEFAULT_RULE_PACK.strengthRules!;
+
+describe("computeStrengths", () => {
+  it("retains no strength on a weak audit but traces every rule", () => {
+    const { strengths, trace } = computeStrengths(rules, contextOf(weak));
+
+    expect(strengths).toEqual([]);
+    expect(trace.map(entry => entry.ruleId)).toEqual(rules.map(rule => rule.id));
+    expect(trace.every(entry => entry.kind === "strength" && !entry.fired && !entry.retained)).toBe(true);
+  });
+
+  it("keeps the first four fired rules in rule pack order", () => {
+    const { strengths, trace } = computeStrengths(rules, contextOf(strong));
+
+    expect(trace.every(entry => entry.fired)).toBe(true);
+    expect(strengths.map(s => s.ruleId)).toEqual(rules.slice(0, 4).map(rule => rule.id));
+    expect(trace.filter(entry => entry.retained).map(entry => entry.ruleId)).toEqual(strengths.map(s => s.ruleId));
+  });
+
+  it("copies the wording and category of the rule", () => {
+    const { strengths, trace } = computeStrengths(rules, contextOf(strong));
+    const rule = rules[0];
+
+    expect(strengths[0]).toEqual({ ruleId: rule.id, strength: rule.strength, opportunity: rule.opportunity, category: rule.category });
+    expect(trace[0].label).toBe(rule.strength);
+  });
+
+  it("compares the measured value with the sector threshold", () => {
+    const context = contextOf(strong);
+    const { trace } = computeStrengths(rules, context);
+    const margin = trace.find(entry => entry.ruleId === "strong_gross_margin")!;
+
+    expect(margin.comparisons).toHaveLength(1);
+    expect(margin.comparisons[0]).toMatchObject({
+      leftValue: 90,
+      operator: ">=",
+      rightValue: context.thresholds.marge_brute.excellent,
+      result: true,
+    });
+  });
+
+  it("does not fire on missing optional data", () => {
+    const { trace } = computeStrengths(rules, contextOf({ ...strong, hr: undefined }));
+
+    expect(trace.find(entry => entry.ruleId === "stable_team")?.fired).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { solveTargetScore } from "@/lib/targetSolver";
+import { getAuditInputFields } from "@/lib/auditInputFields";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, grossMarginPercent: 55, netMarginPercent: 2 },
+  costs: { ...defaultAuditDataV2.costs, hrCostsPercent: 62 },
+  commercial: { ...defaultAuditDataV2.commercial, digitalizationPercent: 40 },
+};
+
+const apply = (changes: { fieldId: string; to: number }[]) =>
+  changes.reduce((acc, change) => getAuditInputFields().find(f => f.id === change.fieldId)!.set(acc, change.to), data);
+
+describe("solveTargetScore", () => {
+  const base = computeScoresV2(data);
+
+  it("returns no change when the target is already reached", () => {
+    const solution = solveTargetScore(data, "global", base.global - 5);
+
+    expect(solution).toMatchObject({ reached: true, changes: [], achievedScore: base.global, baseScore: base.global });
+  });
+
+  it("reaches a realistic target with at most three levers", () => {
+    const target = Math.ceil(base.global) + 5;
+    const solution = solveTargetScore(data, "global", target);
+
+    expect(solution.reached).toBe(true);
+    expect(solution.achievedScore).toBeGreaterThanOrEqual(target);
+    expect(solution.changes.length).toBeGreaterThan(0);
+    expect(solution.changes.length).toBeLessThanOrEqual(3);
+    // The changes reproduce the achieved score
+    expect(computeScoresV2(apply(solution.changes)).global).toBe(solution.achievedScore);
+  });
+
+  it("solves a dimension score", () => {
+    const target = Math.ceil(base.commercial) + 5;
+    const solution = solveTargetScore(data, "commercial", target);
+
+    expect(solution.scope).toBe("commercial");
+    expect(solution.reached).toBe(true);
+    expect(solution.scores.commercial).toBeGreaterThanOrEqual(target);
+  });
+
+  it("returns the best plan found when the target is out of reach", () => {
+    const solution = solveTargetScore(data, "global", 100);
+
+    expect(solution.reached).toBe(false);
+    expect(solution.achievedScore).toBeLessThan(100);
+    expect(solution.achievedScore).toBeGreaterThan(base.global);
+    expect(solution.changes.length).toBeGreaterThan(0);
+    expect(computeScoresV2(apply(solution.changes)).global).toBe(solution.achievedScore);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { computeTrendIndicators, getAuditFiscalYear, getYearSeries } from "@/lib/trendAnalysis";
+import { computeScoresV2 } from "@/lib/scoringV2";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, annualRevenue: 484000, grossMarginPercent: 68, netMarginPercent: 6 },
+  costs: { ...defaultAuditDataV2.costs, hrCostsPercent: 52 },
+  priorYears: [
+    { fiscalYear: 2024, annualRevenue: 400000, grossMarginPercent: 72, netMarginPercent: 10, hrCostsPercent: 48 },
+    { fiscalYear: 2025, annualRevenue: 440000, grossMarginPercent: 70, hrCostsPercent: 50 },
+  ],
+};
+
+describe("getYearSeries", () => {
+  it("appends the audit year to the prior years, oldest first", () => {
+    expect(getYearSeries(data).map(year => year.fiscalYear)).toEqual([2024, 2025, 2026]);
+    expect(getYearSeries(data)[2]).toMatchObject({ annualRevenue: 484000, hrCostsPercent: 52 });
+  });
+
+  it("ignores prior years on or after the audit year and keeps one entry per year", () => {
+    const series = getYearSeries({
+      ...data,
+      priorYears: [
+        ...data.priorYears!,
+        { fiscalYear: 2026, annualRevenue: 1, grossMarginPercent: 1, hrCostsPercent: 1 },
+        { fiscalYear: 2025, annualRevenue: 450000, grossMarginPercent: 69, hrCostsPercent: 51 },
+      ],
+    });
+
+    expect(series.map(year => year.fiscalYear)).toEqual([2024, 2025, 2026]);
+    expect(series[1].annualRevenue).toBe(450000);
+    expect(series[2].annualRevenue).toBe(484000);
+  });
+});
+
+describe("getAuditFiscalYear", () => {
+  it("falls back to the current year without a valid audit date", () => {
+    expect(getAuditFiscalYear(data)).toBe(2026);
+    expect(getAuditFiscalYear({ ...data, auditDate: "" })).toBe(new Date().getFullYear());
+  });
+});
+
+describe("computeTrendIndicators", () => {
+  it("is null without a prior year", () => {
+    expect(computeTrendIndicators({ ...data, priorYears: undefined })).toBeNull();
+  });
+
+  it("derives growth and drifts from the series", () => {
+    expect(computeTrendIndicators(data)).toEqual({
+      yearsCovered: 3,
+      firstYear: 2024,
+      lastYear: 2026,
+      revenueGrowthPercent: 10,
+      grossMarginDriftPts: -2,
+      netMarginDriftPts: -2,
+      hrCostDriftPts: 2,
+    });
+  });
+
+  it("leaves the growth undefined when the first revenue is not positive", () => {
+    const indicators = computeTrendIndicators({
+      ...data,
+      priorYears: [{ fiscalYear: 2025, annualRevenue: 0, grossMarginPercent: 70, hrCostsPercent: 50 }],
+    });
+
+    expect(indicators?.revenueGrowthPercent).toBeUndefined();
+    expect(indicators?.netMarginDriftPts).toBeUndefined();
+  });
+
+  it("feeds the trend metrics of the scoring", () => {
+    const metrics = (audit: AuditDataV2) =>
+      Object.values(computeScoresV2(audit).breakdown!.dimensions).flatMap(d => d.metrics.map(m => m.id));
+
+    expect(metrics(data)).toEqual(expect.arrayContaining(["tendance_marge", "tendance_marge_nette", "tendance_rh", "croissance_ca"]));
+    expect(metrics({ ...data, priorYears: undefined })).not.toContain("croissance_ca");
+    expect(
+      Object.values(computeScoresV2(data, { trends: false }).breakdown!.dimensions).flatMap(d => d.metrics.map(m => m.id))
+    ).not.toContain("tendance_marge");
+  });
+});
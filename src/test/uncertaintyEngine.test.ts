@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { computeScoresV2 } from "@/lib/scoringV2";
+import { computeScoreUncertainty, getFieldSpread, getFieldTolerance, getUncertainFields, isLevelAmbiguous } from "@/lib/uncertaintyEngine";
+
+const data: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  dataOrigin: "client_declarative",
+  finance: { ...defaultAuditDataV2.finance, netMarginPercent: 6, cashRunwayMonths: 5 },
+};
+
+describe("computeScoreUncertainty", () => {
+  it("gives the same bands for the same seed", () => {
+    const first = computeScoreUncertainty(data, { samples: 100, seed: 42 });
+    const second = computeScoreUncertainty(data, { samples: 100, seed: 42 });
+
+    expect(second).toEqual(first);
+    expect(first).toMatchObject({ samples: 100, seed: 42 });
+  });
+
+  it("draws other bands with another seed", () => {
+    const first = computeScoreUncertainty(data, { samples: 100, seed: 42 });
+    const other = computeScoreUncertainty(data, { samples: 100, seed: 7 });
+
+    expect(other.percentiles).not.toEqual(first.percentiles);
+  });
+
+  it("orders the percentiles around the deterministic score", () => {
+    const { percentiles } = computeScoreUncertainty(data, { samples: 200 });
+    const scores = computeScoresV2(data);
+
+    (["global", "financier", "operationnel", "commercial", "strategique"] as const).forEach(scope => {
+      const { p10, p50, p90 } = percentiles[scope];
+      expect(p10).toBeLessThanOrEqual(p50);
+      expect(p50).toBeLessThanOrEqual(p90);
+      expect(scores[scope]).toBeGreaterThanOrEqual(p10 - 5);
+      expect(scores[scope]).toBeLessThanOrEqual(p90 + 5);
+    });
+  });
+
+  it("collapses the bands when every tolerance is zero", () => {
+    const tolerances = Object.fromEntries(
+      ["finance.annualRevenue", "ops.productivity.fte", "finance.grossMarginPercent", "finance.netMarginPercent",
+        "finance.cashRunwayMonths", "costs.hrCostsPercent", "ops.occupancyRatePercent",
+        "commercial.digitalizationPercent", "commercial.loyaltyPercent"].map(id => [id, 0])
+    );
+    const { percentiles } = computeScoreUncertainty({ ...data, tolerances }, { samples: 20 });
+    const global = computeScoresV2(data).global;
+
+    expect(percentiles.global).toEqual({ p10: global, p50: global, p90: global });
+  });
+});
+
+describe("getFieldTolerance", () => {
+  it("prefers the field's own tolerance over the origin default", () => {
+    expect(getFieldTolerance({ ...data, tolerances: { "costs.hrCostsPercent": 3 } }, "costs.hrCostsPercent")).toBe(3);
+    expect(getFieldTolerance(data, "costs.hrCostsPercent")).toBe(10);
+    expect(getFieldTolerance({ ...data, dataOrigin: "imported" }, "costs.hrCostsPercent")).toBe(2);
+  });
+});
+
+describe("getFieldSpread", () => {
+  const field = (id: string) => getUncertainFields().find(f => f.id === id)!;
+
+  it("keeps a minimum spread on a zero value", () => {
+    expect(getFieldSpread(field("commercial.satisfaction.nps"), 0, 0.1)).toBe(1);
+    expect(getFieldSpread(field("finance.netMarginPercent"), 0, 0.05)).toBe(1);
+    expect(getFieldSpread(field("finance.netMarginPercent"), 40, 0.1)).toBe(4);
+  });
+
+  it("stays at zero when the tolerance is zero", () => {
+    expect(getFieldSpread(field("commercial.satisfaction.nps"), 0, 0)).toBe(0);
+  });
+
+  it("spreads the scores of an audit whose inputs sit at zero", () => {
+    const atZero: AuditDataV2 = {
+      ...data,
+      finance: { ...data.finance, netMarginPercent: 0 },
+      commercial: { ...data.commercial, satisfaction: { ...data.commercial.satisfaction, nps: 0 } },
+    };
+    const tolerances = Object.fromEntries(
+      getUncertainFields()
+        .filter(f => !["finance.netMarginPercent", "commercial.satisfaction.nps"].includes(f.id))
+        .map(f => [f.id, 0])
+    );
+    const { percentiles } = computeScoreUncertainty({ ...atZero, tolerances }, { samples: 100 });
+
+    expect(percentiles.global.p90).toBeGreaterThan(percentiles.global.p10);
+  });
+});
+
+describe("isLevelAmbiguous", () => {
+  it("flags a band straddling a level threshold", () => {
+    expect(isLevelAmbiguous({ p10: 62, p50: 62, p90: 62 })).toBe(false);
+    expect(isLevelAmbiguous({ p10: 10, p50: 50, p90: 95 })).toBe(true);
+  });
+});
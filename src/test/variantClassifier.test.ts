@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2 } from "@/types/audit";
+import { suggestVariant } from "@/lib/variantClassifier";
+
+const profile = (revenue: number, grossMargin: number, hrCosts: number, occupancy: number, digital: number, loyalty: number): AuditDataV2 => ({
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+  finance: { ...defaultAuditDataV2.finance, annualRevenue: revenue, grossMarginPercent: grossMargin },
+  costs: { hrCostsPercent: hrCosts },
+  ops: { occupancyRatePercent: occupancy, productivity: { fte: 4.5 } },
+  commercial: { digitalizationPercent: digital, loyaltyPercent: loyalty },
+});
+
+// Every value on the "bon" threshold of its variant (CA/ETP: 100 k€ and 85 k€)
+const standard = profile(450000, 70, 55, 82, 80, 85);
+const rural = profile(382500, 65, 52, 78, 60, 88);
+
+describe("suggestVariant", () => {
+  it("fits a profile sitting on the thresholds of its variant perfectly", () => {
+    expect(suggestVariant(standard)).toMatchObject({ variantId: "veto_standard", fit: 100, metricsUsed: 6 });
+    expect(suggestVariant(rural)).toMatchObject({ variantId: "veto_rurale", fit: 100 });
+  });
+
+  it("ignores the variant currently selected", () => {
+    expect(suggestVariant({ ...rural, variant: "veto_standard" })?.variantId).toBe("veto_rurale");
+  });
+
+  it("ranks every variant of the sector, best fit first", () => {
+    const { candidates } = suggestVariant(rural)!;
+
+    expect(candidates.map(c => c.variantId)).toEqual(["veto_rurale", "veto_standard"]);
+    expect(candidates[1].fit).toBeLessThan(100);
+    expect(candidates[1].fit).toBeGreaterThan(0);
+  });
+
+  it("uses the optional metrics once provided", () => {
+    const withRunway = { ...standard, finance: { ...standard.finance, netMarginPercent: 10, cashRunwayMonths: 6 } };
+
+    expect(suggestVariant(withRunway)?.metricsUsed).toBe(8);
+  });
+
+  it("suggests nothing for a sector with a single variant", () => {
+    expect(suggestVariant({ ...standard, sector: "Autre secteur", variant: undefined })).toBeNull();
+  });
+
+  it("classifies against the table of the requested version", () => {
+    expect(suggestVariant(rural, "2.1")?.variantId).toBe("veto_rurale");
+    expect(suggestVariant(standard, "2.1")?.variantId).toBe("veto_standard");
+  });
+});
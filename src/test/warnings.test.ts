@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2, type AuditDataV2, type AuditWarning } from "@/types/audit";
+import { getAuditWarnings } from "@/lib/warnings";
+
+const base: AuditDataV2 = {
+  ...defaultAuditDataV2,
+  businessName: "Clinique test",
+  auditDate: "2026-06-30",
+};
+
+// One audit per warning kind, with the field path and category it must carry
+const WARNING_CASES: [string, Partial<AuditDataV2>, Pick<AuditWarning, "type" | "category">][] = [
+  ["costs.cogsPercent", { costs: { ...base.costs, cogsPercent: 50 } }, { type: "warning", category: "coherence" }],
+  ["finance.netMarginPercent", { finance: { ...base.finance, netMarginPercent: 75 } }, { type: "warning", category: "coherence" }],
+  ["costs.hrCostsPercent", { costs: { hrCostsPercent: 70, fixedCostsPercent: 50 } }, { type: "warning", category: "coherence" }],
+  ["ops.occupancyRatePercent", { ops: { ...base.ops, occupancyRatePercent: 98 } }, { type: "warning", category: "business" }],
+  ["hr.absenteeismRatePercent", { hr: { absenteeismRatePercent: 16 } }, { type: "critical", category: "business" }],
+  ["hr.turnoverRatePercent", { hr: { turnoverRatePercent: 41 } }, { type: "critical", category: "business" }],
+  ["ops.quality.returnRatePercent", { ops: { ...base.ops, quality: { returnRatePercent: 11 } } }, { type: "warning", category: "business" }],
+  ["finance.cashRunwayMonths", { finance: { ...base.finance, cashRunwayMonths: 2 } }, { type: "critical", category: "business" }],
+  ["commercial.satisfaction.nps", { commercial: { ...base.commercial, satisfaction: { nps: -5 } } }, { type: "warning", category: "business" }],
+  ["commercial.satisfaction.csatPercent", { commercial: { ...base.commercial, satisfaction: { csatPercent: 65 } } }, { type: "warning", category: "business" }],
+];
+
+describe("getAuditWarnings", () => {
+  it("raises no warning on a coherent audit", () => {
+    expect(getAuditWarnings(base)).toEqual([]);
+  });
+
+  it.each(WARNING_CASES)("flags %s with its type and category", (field, partial, expected) => {
+    const warnings = getAuditWarnings({ ...base, ...partial });
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ field, ...expected });
+  });
+
+  it("keeps the thresholds exclusive", () => {
+    const warnings = getAuditWarnings({
+      ...base,
+      finance: { ...base.finance, grossMarginPercent: 60, netMarginPercent: 60, cashRunwayMonths: 3 },
+      costs: { hrCostsPercent: 50, cogsPercent: 48, fixedCostsPercent: 17 },
+      ops: { ...base.ops, occupancyRatePercent: 95, quality: { returnRatePercent: 10 } },
+      hr: { absenteeismRatePercent: 15, turnoverRatePercent: 40 },
+      commercial: { ...base.commercial, satisfaction: { nps: 0, csatPercent: 70 } },
+    });
+
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { defaultAuditDataV2 } from "@/types/audit";
+import { DEFAULT_DIMENSION_WEIGHTS, getDefaultWeightProfile, getWeightProfile } from "@/lib/benchmarks";
+import { computeScoresV2 } from "@/lib/scoringV2";
+
+describe("getWeightProfile", () => {
+  it("falls back to the default profile for an unknown sector", () => {
+    expect(getWeightProfile("Secteur inconnu")).toEqual(getDefaultWeightProfile());
+  });
+
+  it("keeps the default profile for a variant without weights", () => {
+    expect(getWeightProfile("Vétérinaire", "veto_standard").source).toBe("default");
+  });
+
+  it("merges the sector metric weights over the defaults", () => {
+    const defaults = getDefaultWeightProfile();
+    const profile = getWeightProfile("Ostéopathe");
+
+    expect(profile.source).toBe("sector");
+    expect(profile.dimensions).toEqual(DEFAULT_DIMENSION_WEIGHTS);
+    expect(profile.metrics.financier).toEqual({ ...defaults.metrics.financier, charges_rh: 5, marge_brute: 45 });
+    expect(profile.metrics.commercial).toEqual(defaults.metrics.commercial);
+  });
+
+  it("applies the sector dimension weights", () => {
+    const { dimensions } = getWeightProfile("BTP / Construction");
+
+    expect(dimensions).toEqual({ financier: 40, operationnel: 25, commercial: 15, strategique: 20 });
+    expect(Object.values(dimensions).reduce((sum, weight) => sum + weight, 0)).toBe(100);
+  });
+
+  it("is what computeScoresV2 weighs the dimensions with", () => {
+    const scores = computeScoresV2({ ...defaultAuditDataV2, sector: "BTP / Construction", variant: undefined });
+
+    expect(scores.breakdown?.weightSource).toBe("sector");
+    expect(scores.breakdown?.dimensions.financier.globalWeight).toBe(40);
+    expect(scores.breakdown?.dimensions.commercial.globalWeight).toBe(15);
+  });
+});
@@ -63,10 +63,29 @@ export interface CommercialData {
   satisfaction?: SatisfactionData;
 }
 
+// Key figures of a closed fiscal year, used for trend scoring
+export interface FiscalYearData {
+  fiscalYear: number;
+  annualRevenue: number;
+  grossMarginPercent: number;
+  netMarginPercent?: number;
+  hrCostsPercent: number;
+}
+
+// Scoring model and benchmark table an audit was originally scored with
+export interface ScoringReference {
+  modelVersion: string;
+  benchmarkVersion: string;
+}
+
+// Location of the business, selects regional benchmark segments
+export type Region = 'ile_de_france' | 'province';
+
 export interface AuditDataV2 {
   businessName: string;
   sector: string;
   variant?: string;
+  region?: Region;
   auditDate: string;
   dataOrigin: DataOrigin;
   finance: FinanceData;
@@ -75,13 +94,35 @@ export interface AuditDataV2 {
   hr?: HRData;
   commercial: CommercialData;
   nbServices?: number;
+  scoringReference?: ScoringReference;
+  // ± tolerance in % of the value, by field path (e.g. 'finance.annualRevenue'); overrides the dataOrigin default
+  tolerances?: Record<string, number>;
+  // Prior fiscal years (the audit itself is the most recent year)
+  priorYears?: FiscalYearData[];
+  // Values of the metrics added through the metric registry, by metric id
+  customMetrics?: Record<string, number>;
+  // Consultant adjustments of the decision output, applied on every evaluation
+  decisionOverrides?: DecisionOverride[];
+}
+
+// Multi-site group: each site is a full audit scored with its own sector/variant
+export interface GroupSite {
+  id: string;
+  data: AuditDataV2;
+}
+
+export interface GroupAudit {
+  groupName: string;
+  sites: GroupSite[];
 }
 
 // Warning types
 export interface AuditWarning {
   type: 'warning' | 'critical';
   message: string;
-  field?: string;
+  field?: string; // AuditDataV2 path of the field concerned, e.g. 'costs.cogsPercent'
+  // 'coherence': the inputs contradict each other, 'business': the inputs are coherent but alarming
+  category?: 'coherence' | 'business';
 }
 
 // Union type for both V1 and V2
@@ -147,12 +188,89 @@ export function normalizeToV2(data: AuditData): AuditDataV2 {
   return convertV1ToV2(data);
 }
 
+// Score explanation types
+export type DimensionKey = 'financier' | 'operationnel' | 'commercial' | 'strategique';
+
+export type ScoreBand = 'excellent' | 'bon' | 'crit' | 'sous_crit';
+
+// 'step': fixed score per threshold band, 'continuous': interpolated between thresholds
+export type ScoringMode = 'step' | 'continuous';
+
+export interface MetricThresholds {
+  crit: number;
+  bon: number;
+  excellent: number;
+}
+
+export interface MetricScoreDetail {
+  id: string;
+  label: string;
+  rawValue?: number; // Undefined when not entered and scored at the metric's default (missingScore)
+  unit: string;
+  direction: 'higher' | 'lower';
+  thresholds?: MetricThresholds; // Expressed in the same unit as rawValue
+  band: ScoreBand;
+  score: number;
+  baseWeight: number;
+  effectiveWeight: number; // % of the dimension after redistribution
+  contribution: number; // Points brought to the dimension score
+}
+
+export interface DimensionBreakdown {
+  dimension: DimensionKey;
+  label: string;
+  score: number;
+  globalWeight: number; // % of the global score
+  metrics: MetricScoreDetail[];
+}
+
+export interface ScoreBreakdown {
+  dimensions: Record<DimensionKey, DimensionBreakdown>;
+  missingOptionalFields: string[];
+  missingDataPenalty: number;
+  mode: ScoringMode;
+  weightSource: 'default' | 'sector'; // 'sector' when the variant defines its own weight profile
+  benchmarkSegment?: { id: string; label: string }; // FTE band / regional segment of the benchmarks, if any
+}
+
+// Reliability of the input data, independent from the scores themselves
+export interface DataConfidence {
+  score: number; // 0-100
+  level: ConfidenceLevel;
+  originScore: number;
+  completenessScore: number;
+  coherenceScore: number;
+  providedOptionalFields: number;
+  totalOptionalFields: number;
+  incoherenceCount: number;
+}
+
+export interface ScorePercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export type ScoreScope = 'global' | DimensionKey;
+
+// Monte Carlo spread of the scores given the input tolerances
+export interface ScoreUncertainty {
+  samples: number;
+  seed: number;
+  percentiles: Record<ScoreScope, ScorePercentiles>;
+  ambiguous: Record<ScoreScope, boolean>; // getScoreLevel differs between P10 and P90
+}
+
 export interface Scores {
   global: number;
   financier: number;
   operationnel: number;
   commercial: number;
   strategique: number;
+  // Versions used to compute these scores (absent on results computed before versioning)
+  modelVersion?: string;
+  benchmarkVersion?: string;
+  breakdown?: ScoreBreakdown;
 }
 
 export type ScoreLevelType = 'excellent' | 'bon' | 'critique' | 'danger';
@@ -168,23 +286,100 @@ export type ImpactType = 'CA' | 'MARGE' | 'TRÉSORERIE' | 'COÛTS';
 export type ConfidenceLevel = 'FAIBLE' | 'MOYEN' | 'BON';
 
 export interface QuantifiedRecommendation {
+  ruleId: string;
   lever: string;
   impactType: ImpactType;
+  drivers: string[]; // Levers sharing a driver overlap when combined
   estimatedImpactMin: number;
   estimatedImpactMax: number;
   unit: '€' | '%';
   assumptions: string[];
   confidenceLevel: ConfidenceLevel;
+  calibrated: boolean; // Computed from the audit's own figures rather than a share of revenue
+}
+
+export type RiskSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// Consultant adjustment of a triggered risk (or manual risk), with its required justification
+export type DecisionOverride =
+  | { id: string; action: 'dismiss'; ruleId: string; justification: string; createdAt: string }
+  | { id: string; action: 'downgrade'; ruleId: string; severity: RiskSeverity; justification: string; createdAt: string }
+  | { id: string; action: 'edit_lever'; ruleId: string; lever: string; justification: string; createdAt: string }
+  | { id: string; action: 'add_risk'; risk: string; lever: string; severity: RiskSeverity; justification: string; createdAt: string };
+
+// Where a risk of the decision output comes from
+export type DecisionOrigin = 'computed' | 'adjusted' | 'manual';
+
+// An override as applied to this evaluation (inactive when its rule no longer fires)
+export interface DecisionAdjustment {
+  overrideId: string;
+  action: DecisionOverride['action'];
+  ruleId?: string;
+  label: string; // Risk concerned
+  detail: string; // What changed, e.g. "Sévérité : Élevée → Modérée"
+  justification: string;
+  applied: boolean;
+}
+
+// One comparison evaluated by a decision rule, with the values it read
+export interface RuleComparisonTrace {
+  left: string;
+  leftValue?: number; // Undefined when the audit has no value (the comparison is then false)
+  operator: '<' | '<=' | '>' | '>=' | '==' | '!=';
+  right: string;
+  rightValue?: number;
+  result: boolean;
+}
+
+export interface DecisionTraceEntry {
+  ruleId: string;
+  kind: 'risk' | 'quantification' | 'strength';
+  label: string; // Risk text or lever
+  fired: boolean;
+  severity?: RiskSeverity;
+  comparisons: RuleComparisonTrace[];
+  // Fired and kept: among the top 3 risks, the quantified recommendations or the strengths shown
+  retained: boolean;
+  adjustment?: { action: DecisionOverride['action']; justification: string }; // Consultant override applied
+}
+
+// Asset detected by a strength rule, paired with the growth opportunity it opens
+export interface StrengthOpportunity {
+  ruleId: string;
+  strength: string;
+  opportunity: string;
+  category: 'financial' | 'operational' | 'hr' | 'commercial' | 'strategic';
+}
+
+// 30/60/90-day action plan built from the fired rules
+export type ActionPhase = '30j' | '60j' | '90j' | '6-12m';
+export type ActionOwner = 'direction' | 'finance' | 'rh' | 'commercial' | 'operations';
+
+export interface ActionPlanItem {
+  id: string; // "<ruleId>.quickWin", "<ruleId>.structuralAction" or the quantification rule id
+  title: string;
+  phase: ActionPhase;
+  owner: ActionOwner;
+  dependencies: string[]; // Ids of the plan actions to complete first
+  kpiEffect: string;
+  estimatedImpact?: { min: number; max: number; impactType: ImpactType }; // Quantified actions, in €
+  sourceRuleId: string;
+  sourceKind: 'risk' | 'quantification';
 }
 
 export interface DecisionOutput {
   priorityLevel: PriorityLevel;
   topRisks: string[];
   topLevers: string[];
+  riskOrigins: DecisionOrigin[]; // Aligned with topRisks and topLevers
   quickWins: string[];
   structuralActions: string[];
   decisionSummary: string;
   quantifiedRecommendations: QuantifiedRecommendation[];
+  strengths: StrengthOpportunity[];
+  trace: DecisionTraceEntry[];
+  actionPlan: ActionPlanItem[];
+  adjustments: DecisionAdjustment[];
 }
 
 // Import-related types
@@ -204,9 +399,12 @@ export interface AuditState {
   scores: Scores | null;
   warnings: AuditWarning[];
   decision: DecisionOutput | null;
+  confidence: DataConfidence | null;
+  uncertainty: ScoreUncertainty | null;
   businessName: string;
   isCalculating: boolean;
   isPdfGenerating: boolean;
+  scoringMode: ScoringMode;
   // Import-related state
   importMeta: ImportMeta | null;
   importWarnings: ImportWarningEntry[];
@@ -219,6 +417,8 @@ export interface AuditActions {
   downloadPdf: () => Promise<void>;
   sendPdfEmail: (email: string) => Promise<void>;
   importAuditFromData: (data: AuditDataV2, meta: ImportMeta) => void;
+  setScoringMode: (mode: ScoringMode) => void;
+  setDecisionOverrides: (overrides: DecisionOverride[]) => void;
 }
 
 export interface AuditContextType extends AuditState, AuditActions {}
@@ -227,7 +427,7 @@ export interface AuditContextType extends AuditState, AuditActions {}
 
 export const defaultAuditDataV1: AuditDataV1 = {
   nom: '',
-  secteur: 'Veterinaire',
+  secteur: 'Vétérinaire',
   variant: 'veto_standard',
   margebrutepct: 68,
   caannuel: 450000,
@@ -241,7 +441,7 @@ export const defaultAuditDataV1: AuditDataV1 = {
 
 export const defaultAuditDataV2: AuditDataV2 = {
   businessName: '',
-  sector: 'Veterinaire',
+  sector: 'Vétérinaire',
   variant: 'veto_standard',
   auditDate: new Date().toISOString().split('T')[0],
   dataOrigin: 'manual',
@@ -281,9 +481,12 @@ export const initialAuditState: AuditState = {
   scores: null,
   warnings: [],
   decision: null,
+  confidence: null,
+  uncertainty: null,
   businessName: '',
   isCalculating: false,
   isPdfGenerating: false,
+  scoringMode: 'step',
   importMeta: null,
   importWarnings: [],
 };
@@ -86,12 +86,132 @@ interface AuditData {
   };
 }
 
+interface MetricScoreDetail {
+  id: string;
+  label: string;
+  rawValue?: number;
+  unit: string;
+  direction: 'higher' | 'lower';
+  thresholds?: { crit: number; bon: number; excellent: number };
+  band: 'excellent' | 'bon' | 'crit' | 'sous_crit';
+  score: number;
+  baseWeight: number;
+  effectiveWeight: number;
+  contribution: number;
+}
+
+interface DimensionBreakdown {
+  dimension: string;
+  label: string;
+  score: number;
+  globalWeight: number;
+  metrics: MetricScoreDetail[];
+}
+
+interface ScoreBreakdown {
+  dimensions: Record<string, DimensionBreakdown>;
+  missingOptionalFields: string[];
+  missingDataPenalty: number;
+  mode?: 'step' | 'continuous';
+  weightSource?: 'default' | 'sector';
+  benchmarkSegment?: { id: string; label: string };
+}
+
 interface Scores {
   global: number;
   financier: number;
   operationnel: number;
   commercial: number;
   strategique: number;
+  modelVersion?: string;
+  benchmarkVersion?: string;
+  breakdown?: ScoreBreakdown;
+}
+
+interface DataConfidence {
+  score: number;
+  level: 'FAIBLE' | 'MOYEN' | 'BON';
+  originScore: number;
+  completenessScore: number;
+  coherenceScore: number;
+  providedOptionalFields: number;
+  totalOptionalFields: number;
+  incoherenceCount: number;
+}
+
+type ScoreScope = 'global' | 'financier' | 'operationnel' | 'commercial' | 'strategique';
+
+interface ScoreUncertainty {
+  samples: number;
+  seed: number;
+  percentiles: Record<ScoreScope, { p10: number; p50: number; p90: number }>;
+  ambiguous: Record<ScoreScope, boolean>;
+}
+
+// Decision rules that fired, with the values they compared (client decision engine)
+interface RuleComparisonTrace {
+  left: string;
+  leftValue?: number;
+  operator: '<' | '<=' | '>' | '>=' | '==' | '!=';
+  right: string;
+  rightValue?: number;
+  result: boolean;
+}
+
+type DecisionOverrideAction = 'dismiss' | 'downgrade' | 'edit_lever' | 'add_risk';
+
+interface DecisionTraceEntry {
+  ruleId: string;
+  kind: 'risk' | 'quantification' | 'strength';
+  label: string;
+  fired: boolean;
+  severity?: 'critical' | 'high' | 'medium' | 'low';
+  comparisons: RuleComparisonTrace[];
+  retained: boolean;
+  adjustment?: { action: DecisionOverrideAction; justification: string };
+}
+
+// Consultant overrides of the decision output, with their justification
+interface DecisionAdjustment {
+  overrideId: string;
+  action: DecisionOverrideAction;
+  ruleId?: string;
+  label: string;
+  detail: string;
+  justification: string;
+  applied: boolean;
+}
+
+// Assets and growth opportunities (client strengths engine)
+interface StrengthOpportunity {
+  ruleId: string;
+  strength: string;
+  opportunity: string;
+  category: string;
+}
+
+// 30/60/90-day action plan (client decision engine)
+type ActionPhase = '30j' | '60j' | '90j' | '6-12m';
+type ActionOwner = 'direction' | 'finance' | 'rh' | 'commercial' | 'operations';
+
+interface ActionPlanItem {
+  id: string;
+  title: string;
+  phase: ActionPhase;
+  owner: ActionOwner;
+  dependencies: string[];
+  kpiEffect: string;
+  estimatedImpact?: { min: number; max: number; impactType: string };
+  sourceRuleId: string;
+  sourceKind: 'risk' | 'quantification';
+}
+
+// Value entered for a metric of the client metric registry
+interface MetricInput {
+  id: string;
+  label: string;
+  value: number;
+  unit: string;
 }
 
 // ============ Safe Formatting Helpers ============
@@ -99,7 +219,7 @@ interface Scores {
 function toNumber(value: unknown): number | null {
   if (value === null || value === undefined) return null;
   const num = Number(value);
-  return isNaN(num) ? null : num;
+  return Number.isFinite(num) ? num : null;
 }
 
 function formatEUR(value: unknown): string {
@@ -131,10 +251,87 @@ function safeCalc(value: unknown, fallback: number = 0): number {
   return num !== null ? num : fallback;
 }
 
+// Strings sent by the client (names, labels, consultant notes) are inserted in the HTML escaped
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // ============ End Safe Formatting Helpers ============
 
+// ============ Payload Validation ============
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateMetricDetail(metric: unknown): MetricScoreDetail | null {
+  if (!isRecord(metric) || typeof metric.label !== 'string' || typeof metric.unit !== 'string') return null;
+  const thresholds = isRecord(metric.thresholds) ? metric.thresholds : undefined;
+  const [crit, bon, excellent] = [thresholds?.crit, thresholds?.bon, thresholds?.excellent].map(toNumber);
+  return {
+    id: String(metric.id ?? ''),
+    label: metric.label,
+    rawValue: toNumber(metric.rawValue) ?? undefined,
+    unit: metric.unit,
+    direction: metric.direction === 'lower' ? 'lower' : 'higher',
+    thresholds: crit !== null && bon !== null && excellent !== null ? { crit, bon, excellent } : undefined,
+    band: String(metric.band ?? '') as MetricScoreDetail['band'],
+    score: toNumber(metric.score) ?? 0,
+    baseWeight: toNumber(metric.baseWeight) ?? 0,
+    effectiveWeight: toNumber(metric.effectiveWeight) ?? 0,
+    contribution: toNumber(metric.contribution) ?? 0,
+  };
+}
+
+// Score breakdown sent by the client: numbers are coerced, malformed dimensions and metrics dropped
+function validateBreakdown(breakdown: unknown): ScoreBreakdown | undefined {
+  if (!isRecord(breakdown) || !isRecord(breakdown.dimensions)) return undefined;
+
+  const dimensions: Record<string, DimensionBreakdown> = {};
+  Object.entries(breakdown.dimensions).forEach(([key, dimension]) => {
+    if (!isRecord(dimension) || typeof dimension.label !== 'string' || !Array.isArray(dimension.metrics)) return;
+    dimensions[key] = {
+      dimension: key,
+      label: dimension.label,
+      score: toNumber(dimension.score) ?? 0,
+      globalWeight: toNumber(dimension.globalWeight) ?? 0,
+      metrics: dimension.metrics.map(validateMetricDetail).filter((m): m is MetricScoreDetail => m !== null),
+    };
+  });
+
+  const segment = isRecord(breakdown.benchmarkSegment) && typeof breakdown.benchmarkSegment.label === 'string'
+    ? { id: String(breakdown.benchmarkSegment.id ?? ''), label: breakdown.benchmarkSegment.label }
+    : undefined;
+
+  return {
+    dimensions,
+    missingOptionalFields: Array.isArray(breakdown.missingOptionalFields)
+      ? breakdown.missingOptionalFields.filter((field): field is string => typeof field === 'string')
+      : [],
+    missingDataPenalty: toNumber(breakdown.missingDataPenalty) ?? 0,
+    mode: breakdown.mode === 'continuous' ? 'continuous' : 'step',
+    weightSource: breakdown.weightSource === 'sector' ? 'sector' : 'default',
+    benchmarkSegment: segment,
+  };
+}
+
+// ============ End Payload Validation ============
+
 // ============ Data Normalization (V1 ↔ V2) ============
 
+// Sector and variant labels resolved by the client-side sector registry
+interface SectorInfo {
+  id?: string;
+  label: string;
+  variantId?: string;
+  variantLabel?: string;
+}
+
 interface NormalizedData {
   nom: string;
   secteur: string;
@@ -155,12 +352,13 @@ interface NormalizedData {
   npsScore: number | null;
 }
 
-function normalizeAuditData(data: AuditData): NormalizedData {
-  // Priority: V2 nested fields > V1 flat fields
+function normalizeAuditData(data: AuditData, sectorInfo?: SectorInfo): NormalizedData {
+  // Priority: registry labels > V2 nested fields > V1 flat fields
+  // Text fields are escaped here, they are only ever rendered as HTML
   return {
-    nom: data?.businessName || data?.nom || 'Entreprise',
-    secteur: data?.sector || data?.secteur || 'Non renseigné',
-    variant: data?.sectorVariant || data?.variant || 'Standard',
+    nom: escapeHtml(data?.businessName || data?.nom || 'Entreprise'),
+    secteur: escapeHtml(sectorInfo?.label || data?.sector || data?.secteur || 'Non renseigné'),
+    variant: escapeHtml(sectorInfo?.variantLabel || data?.sectorVariant || data?.variant || 'Standard'),
     
     // Finance - V2 first, fallback to V1
     caAnnuel: toNumber(data?.finance?.caAnnuel) ?? toNumber(data?.caannuel),
@@ -273,9 +471,367 @@ function generateStrengths(scores: Scores): string[] {
   return strengths;
 }
 
-function generateHTMLReport(data: AuditData, scores: Scores): string {
+// ============ Score Breakdown Appendix ============
+
+const BAND_LABELS: Record<MetricScoreDetail['band'], { label: string; css: string }> = {
+  excellent: { label: 'Excellent', css: 'benchmark-excellent' },
+  bon: { label: 'Bon', css: 'benchmark-bon' },
+  crit: { label: 'Seuil critique', css: 'benchmark-critique' },
+  sous_crit: { label: 'Sous le seuil', css: 'benchmark-danger' },
+};
+
+function formatMetricValue(value: unknown, unit: string): string {
+  if (unit === '€') return formatEUR(Math.round(safeCalc(value)));
+  if (unit === '%') return formatPercent(value);
+  return `${formatNumber(value)} ${escapeHtml(unit)}`;
+}
+
+function formatMetricThresholds(metric: MetricScoreDetail): string {
+  if (!metric.thresholds) return '—';
+  const sign = metric.direction === 'higher' ? '≥' : '≤';
+  const { excellent, bon, crit } = metric.thresholds;
+  return `${sign} ${formatMetricValue(excellent, metric.unit)} / ${formatMetricValue(bon, metric.unit)} / ${formatMetricValue(crit, metric.unit)}`;
+}
+
+// Metrics entered in the audit, as declared by the client metric registry
+function generateMetricInputsSection(metricInputs: MetricInput[]): string {
+  return `
+    <div class="dimension-detail">
+      <h3>Indicateurs saisis</h3>
+      ${metricInputs.map(m => `
+      <div class="metric-row">
+        <span class="metric-label">${escapeHtml(m.label)}</span>
+        <span class="metric-value">${formatMetricValue(m.value, m.unit)}</span>
+      </div>`).join('')}
+    </div>
+  `;
+}
+
+// Sector thresholds applied by the client scorer, compared with the audited values
+function generateBenchmarkTable(metrics: MetricScoreDetail[] | undefined): string {
+  const benchmarked = (metrics ?? []).filter(m => m.thresholds);
+  if (benchmarked.length === 0) {
+    return `<p style="color: #64748b;">Seuils sectoriels non disponibles pour ce rapport.</p>`;
+  }
+  return `
+    <table class="table">
+      <tr>
+        <th>Indicateur</th>
+        <th>Critique</th>
+        <th>Bon</th>
+        <th>Excellent</th>
+        <th>Vous</th>
+      </tr>
+      ${benchmarked.map(m => {
+        const [good, bad] = m.direction === 'higher' ? ['≥', '&lt;'] : ['≤', '&gt;'];
+        return `
+      <tr>
+        <td>${escapeHtml(m.label)}</td>
+        <td>${bad}${formatMetricValue(m.thresholds!.crit, m.unit)}</td>
+        <td>${good}${formatMetricValue(m.thresholds!.bon, m.unit)}</td>
+        <td>${good}${formatMetricValue(m.thresholds!.excellent, m.unit)}</td>
+        <td><strong>${m.rawValue === undefined ? '—' : formatMetricValue(m.rawValue, m.unit)}</strong></td>
+      </tr>`;
+      }).join('')}
+    </table>
+  `;
+}
+
+function generateDimensionBreakdownTable(dimension: DimensionBreakdown): string {
+  return `
+    <div class="dimension-detail" style="padding: 20px;">
+      <div class="dimension-header" style="margin-bottom: 12px;">
+        <h3 style="margin-bottom: 0;">${escapeHtml(dimension.label)} — ${formatDecimal(dimension.score)}/100</h3>
+        <span class="metric-label">Poids global : ${formatNumber(dimension.globalWeight)}%</span>
+      </div>
+      <table class="table" style="margin-top: 0; font-size: 11px;">
+        <tr>
+          <th style="padding: 8px;">Indicateur</th>
+          <th style="padding: 8px;">Valeur</th>
+          <th style="padding: 8px;">Seuils (exc. / bon / crit.)</th>
+          <th style="padding: 8px;">Zone</th>
+          <th style="padding: 8px;">Note</th>
+          <th style="padding: 8px;">Poids</th>
+          <th style="padding: 8px;">Points</th>
+        </tr>
+        ${dimension.metrics.map(m => `
+          <tr>
+            <td style="padding: 8px;">${escapeHtml(m.label)}</td>
+            <td style="padding: 8px;">${m.rawValue === undefined ? 'Non renseigné' : formatMetricValue(m.rawValue, m.unit)}</td>
+            <td style="padding: 8px;">${formatMetricThresholds(m)}</td>
+            <td style="padding: 8px;"><span class="benchmark-indicator ${BAND_LABELS[m.band]?.css ?? ''}">${BAND_LABELS[m.band]?.label ?? escapeHtml(m.band)}</span></td>
+            <td style="padding: 8px;">${formatDecimal(m.score, 0)}</td>
+            <td style="padding: 8px;">${formatDecimal(m.effectiveWeight)}%</td>
+            <td style="padding: 8px;"><strong>${formatDecimal(m.contribution)}</strong></td>
+          </tr>
+        `).join('')}
+      </table>
+    </div>
+  `;
+}
+
+function generateScoreBreakdownPages(breakdown: ScoreBreakdown | undefined, nom: string, date: string, firstPage: number): string {
+  if (!breakdown?.dimensions) return '';
+
+  const dims = ['financier', 'operationnel', 'commercial', 'strategique']
+    .map(key => breakdown.dimensions[key])
+    .filter((d): d is DimensionBreakdown => Boolean(d));
+  const pages = [dims.slice(0, 2), dims.slice(2, 4)];
+
+  return pages.map((pageDims, index) => `
+  <!-- Page ${firstPage + index}: Appendix - Score Breakdown ${index + 1} -->
+  <div class="page">
+    <div class="header">
+      <div class="logo">Audit<span>Score</span></div>
+      <div class="date">${date}</div>
+    </div>
+    <h2>Annexe A. Détail du calcul des scores${index > 0 ? ' (fin)' : ''}</h2>
+    ${index === 0 ? `
+      <p style="color: #64748b; margin-bottom: 16px; font-size: 13px;">
+        ${breakdown.mode === 'continuous'
+          ? 'Notation continue : chaque indicateur reçoit une note interpolée entre les seuils de benchmark.'
+          : 'Notation par paliers : chaque indicateur reçoit une note selon la zone de benchmark atteinte.'} Sa contribution au score
+        de la dimension est égale à sa note multipliée par son poids effectif (après redistribution des
+        poids des indicateurs non renseignés).
+      </p>
+    ` : ''}
+    ${pageDims.map(generateDimensionBreakdownTable).join('')}
+    ${index === pages.length - 1 && breakdown.missingDataPenalty > 0 ? `
+      <div class="card" style="background: #fef3c7; border-left-color: #f59e0b;">
+        <p style="color: #92400e; font-size: 13px;">
+          Pénalité données manquantes : -${formatNumber(breakdown.missingDataPenalty)} pt(s) sur le score global
+          (${breakdown.missingOptionalFields.map(escapeHtml).join(', ')}).
+        </p>
+      </div>
+    ` : ''}
+    <div class="footer">
+      <span>Rapport confidentiel - ${nom}</span>
+      <div class="page-number">${firstPage + index}</div>
+    </div>
+  </div>
+  `).join('');
+}
+
+const OPERATOR_SYMBOLS: Record<RuleComparisonTrace['operator'], string> = {
+  '<': '&lt;',
+  '<=': '≤',
+  '>': '&gt;',
+  '>=': '≥',
+  '==': '=',
+  '!=': '≠',
+};
+
+const SEVERITY_LABELS: Record<NonNullable<DecisionTraceEntry['severity']>, string> = {
+  critical: 'Critique',
+  high: 'Élevée',
+  medium: 'Modérée',
+  low: 'Faible',
+};
+
+const OVERRIDE_ACTION_LABELS: Record<DecisionOverrideAction, string> = {
+  dismiss: 'Risque écarté',
+  downgrade: 'Sévérité abaissée',
+  edit_lever: 'Levier reformulé',
+  add_risk: 'Risque ajouté',
+};
+
+function formatTraceComparison(c: RuleComparisonTrace): string {
+  const value = (v?: number) => v === undefined ? 'non renseigné' : formatNumber(Math.round(v * 10) / 10);
+  return `${escapeHtml(c.left)} (<strong>${value(c.leftValue)}</strong>) ${OPERATOR_SYMBOLS[c.operator] ?? escapeHtml(c.operator)} ${escapeHtml(c.right)}${c.right !== String(c.rightValue) ? ` (<strong>${value(c.rightValue)}</strong>)` : ''}`;
+}
+
+function generateDecisionTracePage(
+  trace: DecisionTraceEntry[] | undefined,
+  adjustments: DecisionAdjustment[] | undefined,
+  nom: string,
+  date: string,
+  page: number
+): string {
+  if (!trace || trace.length === 0) return '';
+
+  const fired = trace.filter(entry => entry.fired);
+  const notFired = trace.filter(entry => !entry.fired);
+  const applied = (adjustments ?? []).filter(adjustment => adjustment.applied);
+
+  return `
+  <!-- Page ${page}: Appendix - Decision Trace -->
+  <div class="page">
+    <div class="header">
+      <div class="logo">Audit<span>Score</span></div>
+      <div class="date">${date}</div>
+    </div>
+    <h2>Annexe B. Trace des règles de décision</h2>
+    <p style="color: #64748b; margin-bottom: 16px; font-size: 13px;">
+      ${fired.length} règle(s) déclenchée(s) sur ${trace.length}. Pour chacune, les valeurs de l'audit
+      et les seuils sectoriels comparés ; seules les conditions vérifiées (✓) ont contribué au déclenchement.
+    </p>
+    ${applied.length > 0 ? `
+      <div style="border: 1px solid #fcd34d; background: #fffbeb; border-radius: 8px; padding: 12px; margin-bottom: 16px; font-size: 11px;">
+        <strong>Ajustements du consultant (${applied.length})</strong> : la lecture décisionnelle intègre les modifications
+        manuelles suivantes, les autres éléments sont calculés par les règles.
+        ${applied.map(adjustment => `
+          <div style="margin-top: 6px;">
+            <strong>${OVERRIDE_ACTION_LABELS[adjustment.action] ?? escapeHtml(adjustment.action)}</strong> — ${escapeHtml(adjustment.label)} (${escapeHtml(adjustment.detail)})<br>
+            <span style="color: #64748b; font-style: italic;">Justification : ${escapeHtml(adjustment.justification)}</span>
+          </div>
+        `).join('')}
+      </div>
+    ` : ''}
+    <table style="width: 100%; border-collapse: collapse; font-size: 11px;">
+      <tr style="background: #f1f5f9;">
+        <th style="padding: 6px; text-align: left;">Règle</th>
+        <th style="padding: 6px; text-align: left;">Conditions</th>
+        <th style="padding: 6px; text-align: left;">Statut</th>
+      </tr>
+      ${fired.map(entry => `
+        <tr style="border-bottom: 1px solid #e2e8f0; vertical-align: top;">
+          <td style="padding: 6px; width: 35%;">
+            ${escapeHtml(entry.label)}<br>
+            <span style="color: #94a3b8;">${escapeHtml(entry.ruleId)}${entry.severity ? ` • ${SEVERITY_LABELS[entry.severity] ?? escapeHtml(entry.severity)}` : ''}</span>
+          </td>
+          <td style="padding: 6px;">
+            ${entry.comparisons.map(c => `<div>${c.result ? '✓' : '✗'} ${formatTraceComparison(c)}</div>`).join('')}
+          </td>
+          <td style="padding: 6px; white-space: nowrap;">
+            ${entry.retained ? (entry.kind === 'risk' ? 'Top 3' : 'Retenue') : 'Non retenue'}
+            ${entry.adjustment ? `<br><span style="color: #b45309;">${entry.adjustment.action === 'add_risk' ? 'Ajout manuel' : 'Ajusté'}</span>` : ''}
+          </td>
+        </tr>
+      `).join('')}
+    </table>
+    ${notFired.length > 0 ? `
+      <p style="color: #94a3b8; margin-top: 16px; font-size: 11px;">
+        Règles non déclenchées : ${notFired.map(entry => escapeHtml(entry.ruleId)).join(', ')}.
+      </p>
+    ` : ''}
+    <div class="footer">
+      <span>Rapport confidentiel - ${nom}</span>
+      <div class="page-number">${page}</div>
+    </div>
+  </div>
+  `;
+}
+
+const ACTION_PHASE_LABELS: Record<ActionPhase, string> = {
+  '30j': '30 jours',
+  '60j': '60 jours',
+  '90j': '90 jours',
+  '6-12m': '6–12 mois',
+};
+
+const ACTION_OWNER_LABELS: Record<ActionOwner, string> = {
+  direction: 'Dirigeant',
+  finance: 'Responsable financier',
+  rh: 'Responsable RH',
+  commercial: 'Responsable commercial',
+  operations: 'Responsable des opérations',
+};
+
+function generateActionPlanCalendar(plan: ActionPlanItem[]): string {
+  const titleOf = (id: string) => escapeHtml(plan.find(item => item.id === id)?.title ?? id);
+
+  return (Object.keys(ACTION_PHASE_LABELS) as ActionPhase[])
+    .map(phase => ({ phase, items: plan.filter(item => item.phase === phase) }))
+    .filter(group => group.items.length > 0)
+    .map(group => `
+    <h3>${ACTION_PHASE_LABELS[group.phase]}</h3>
+    <table class="table" style="font-size: 11px;">
+      <tr>
+        <th>Action</th>
+        <th>Responsable</th>
+        <th>Effet attendu</th>
+        <th>Dépend de</th>
+      </tr>
+      ${group.items.map(item => `
+        <tr>
+          <td>${escapeHtml(item.title)}<br><span style="color: #94a3b8;">Règle ${escapeHtml(item.sourceRuleId)}</span></td>
+          <td>${ACTION_OWNER_LABELS[item.owner] ?? escapeHtml(item.owner)}</td>
+          <td>${escapeHtml(item.kpiEffect)}${item.estimatedImpact ? `<br><strong>${formatEUR(item.estimatedImpact.min)} – ${formatEUR(item.estimatedImpact.max)}</strong>` : ''}</td>
+          <td>${item.dependencies.length > 0 ? item.dependencies.map(titleOf).join(', ') : '—'}</td>
+        </tr>
+      `).join('')}
+    </table>
+    `).join('');
+}
+
+const CONFIDENCE_STYLES: Record<DataConfidence['level'], { label: string; color: string; bg: string }> = {
+  BON: { label: 'Élevée', color: '#059669', bg: '#ecfdf5' },
+  MOYEN: { label: 'Moyenne', color: '#d97706', bg: '#fffbeb' },
+  FAIBLE: { label: 'Faible', color: '#dc2626', bg: '#fef2f2' },
+};
+
+function generateConfidenceCard(confidence?: DataConfidence): string {
+  if (!confidence) return '';
+  const style = CONFIDENCE_STYLES[confidence.level] ?? CONFIDENCE_STYLES.FAIBLE;
+  return `
+    <div class="card" style="background: ${style.bg}; border-left-color: ${style.color};">
+      <h3 style="color: ${style.color};">Indice de confiance des données : ${formatNumber(confidence.score)}/100 (${style.label})</h3>
+      <div class="metric-row">
+        <span class="metric-label">Origine des données</span>
+        <span class="metric-value">${formatNumber(confidence.originScore)}/100</span>
+      </div>
+      <div class="metric-row">
+        <span class="metric-label">Champs optionnels renseignés</span>
+        <span class="metric-value">${formatNumber(confidence.providedOptionalFields)}/${formatNumber(confidence.totalOptionalFields)}</span>
+      </div>
+      <div class="metric-row">
+        <span class="metric-label">Incohérences détectées</span>
+        <span class="metric-value">${formatNumber(confidence.incoherenceCount)}</span>
+      </div>
+      ${confidence.level !== 'BON' ? `
+        <p style="color: #64748b; font-size: 12px; margin-top: 10px;">
+          Les scores de ce rapport reposent sur des données partiellement déclaratives ou estimées :
+          ils doivent être lus comme des ordres de grandeur (≈).
+        </p>
+      ` : ''}
+    </div>
+  `;
+}
+
+const UNCERTAINTY_LABELS: Record<ScoreScope, string> = {
+  global: 'Score global',
+  financier: 'Financier',
+  operationnel: 'Opérationnel',
+  commercial: 'Commercial',
+  strategique: 'Stratégique',
+};
+
+function generateUncertaintyCard(uncertainty?: ScoreUncertainty): string {
+  if (!uncertainty) return '';
+  const scopes = Object.keys(UNCERTAINTY_LABELS) as ScoreScope[];
+  return `
+    <div class="card">
+      <h3>Bandes d'incertitude (P10 – P90)</h3>
+      ${scopes.map(scope => {
+        const band = uncertainty.percentiles[scope];
+        if (!band) return '';
+        return `
+      <div class="metric-row">
+        <span class="metric-label">${UNCERTAINTY_LABELS[scope]}${uncertainty.ambiguous?.[scope] ? ' ⚠ niveau incertain' : ''}</span>
+        <span class="metric-value">${formatDecimal(band.p10)} – ${formatDecimal(band.p90)}</span>
+      </div>`;
+      }).join('')}
+      <p style="color: #64748b; font-size: 12px; margin-top: 10px;">
+        ${formatNumber(uncertainty.samples)} tirages Monte Carlo selon les tolérances de saisie de chaque indicateur.
+      </p>
+    </div>
+  `;
+}
+
+function generateHTMLReport(
+  data: AuditData,
+  scores: Scores,
+  confidence?: DataConfidence,
+  uncertainty?: ScoreUncertainty,
+  sectorInfo?: SectorInfo,
+  decisionTrace?: DecisionTraceEntry[],
+  actionPlan?: ActionPlanItem[],
+  decisionStrengths?: StrengthOpportunity[],
+  decisionAdjustments?: DecisionAdjustment[],
+  metricInputs?: MetricInput[]
+): string {
   // CRITICAL: Normalize data first for V1/V2 compatibility
-  const n = normalizeAuditData(data);
+  const n = normalizeAuditData(data, sectorInfo);
   
   const date = new Date().toLocaleDateString('fr-FR', { 
     year: 'numeric', 
@@ -284,13 +840,31 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
   });
   
   const globalLevel = getScoreLevel(scores.global);
+  // Scores computed from low-confidence data are printed as approximations
+  const approx = confidence && confidence.level !== 'BON' ? '≈ ' : '';
   const financierLevel = getScoreLevel(scores.financier);
   const operationnelLevel = getScoreLevel(scores.operationnel);
   const commercialLevel = getScoreLevel(scores.commercial);
   const strategiqueLevel = getScoreLevel(scores.strategique);
+
+  // Versions used to compute the scores (results predating versioning were computed with 2.0 / 2.1)
+  const modelVersion = escapeHtml(scores.modelVersion ?? '2.0');
+  const benchmarkVersion = escapeHtml(scores.benchmarkVersion ?? '2.1');
+  const segmentLabel = scores.breakdown?.benchmarkSegment?.label && escapeHtml(scores.breakdown.benchmarkSegment.label);
+
+  // Dimension weights actually applied (sector profile when available)
+  const dimensionWeights = {
+    financier: scores.breakdown?.dimensions.financier?.globalWeight ?? 35,
+    operationnel: scores.breakdown?.dimensions.operationnel?.globalWeight ?? 25,
+    commercial: scores.breakdown?.dimensions.commercial?.globalWeight ?? 20,
+    strategique: scores.breakdown?.dimensions.strategique?.globalWeight ?? 20,
+  };
   
   const recommendations = generateRecommendations(data, scores);
-  const strengths = generateStrengths(scores);
+  // Rule-based strengths of the decision engine, score levels for older clients
+  const strengths = decisionStrengths?.length
+    ? decisionStrengths.map(s => `${escapeHtml(s.strength)}<br><span style="color: #64748b; font-size: 13px;">Opportunité : ${escapeHtml(s.opportunity)}</span>`)
+    : generateStrengths(scores);
   const missingFields = getMissingFields(n);
   
   // Safe calculations with normalized data
@@ -755,11 +1329,11 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       <div class="company">${n.nom}</div>
       <div class="sector">Secteur: ${n.secteur}${n.variant !== 'Standard' ? ` - ${n.variant}` : ''}</div>
       <div class="score-circle">
-        <div class="score-value">${formatDecimal(scores.global)}</div>
+        <div class="score-value">${approx}${formatDecimal(scores.global)}</div>
         <div class="score-label">${globalLevel.label}</div>
       </div>
       <p style="color: #64748b; font-size: 14px; margin-top: 40px;">
-        Benchmarks sectoriels v2.1 • Scoring 4D paramétré
+        Benchmarks sectoriels v${benchmarkVersion}${segmentLabel ? ` (segment ${segmentLabel})` : ''} • Scoring 4D paramétré (modèle ${modelVersion})
       </p>
     </div>
     <div class="footer">
@@ -788,6 +1362,8 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       <div class="toc-item"><span class="toc-title">9. Plan d'Actions Prioritaires</span><span class="toc-page">20-21</span></div>
       <div class="toc-item"><span class="toc-title">10. Recommandations Détaillées</span><span class="toc-page">22-23</span></div>
       <div class="toc-item"><span class="toc-title">11. Conclusion et Prochaines Étapes</span><span class="toc-page">24</span></div>
+      ${scores.breakdown ? '<div class="toc-item"><span class="toc-title">Annexe A. Détail du calcul des scores</span><span class="toc-page">25-26</span></div>' : ''}
+      ${decisionTrace?.length ? `<div class="toc-item"><span class="toc-title">Annexe B. Trace des règles de décision</span><span class="toc-page">${scores.breakdown ? 27 : 25}</span></div>` : ''}
     </div>
     <div class="footer">
       <span>Rapport confidentiel - ${n.nom}</span>
@@ -811,11 +1387,13 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </p>
       <div style="display: flex; justify-content: center; margin: 30px 0;">
         <div class="score-circle" style="width: 150px; height: 150px;">
-          <div class="score-value" style="font-size: 42px;">${formatDecimal(scores.global)}</div>
+          <div class="score-value" style="font-size: 42px;">${approx}${formatDecimal(scores.global)}</div>
           <div class="score-label">${globalLevel.label}</div>
         </div>
       </div>
     </div>
+    ${generateConfidenceCard(confidence)}
+    ${generateUncertaintyCard(uncertainty)}
     <h3>Points Forts Identifiés</h3>
     ${strengths.map(s => `
       <div class="strength-item">
@@ -874,22 +1452,22 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
     </div>
     <div class="card" style="margin-top: 30px;">
-      <h3>Pondération du Score Global</h3>
+      <h3>Pondération du Score Global${scores.breakdown?.weightSource === 'sector' ? ' (profil sectoriel)' : ''}</h3>
       <div class="metric-row">
         <span class="metric-label">Dimension Financière</span>
-        <span class="metric-value">35%</span>
+        <span class="metric-value">${dimensionWeights.financier}%</span>
       </div>
       <div class="metric-row">
         <span class="metric-label">Dimension Opérationnelle</span>
-        <span class="metric-value">25%</span>
+        <span class="metric-value">${dimensionWeights.operationnel}%</span>
       </div>
       <div class="metric-row">
         <span class="metric-label">Dimension Commerciale</span>
-        <span class="metric-value">20%</span>
+        <span class="metric-value">${dimensionWeights.commercial}%</span>
       </div>
       <div class="metric-row">
         <span class="metric-label">Dimension Stratégique</span>
-        <span class="metric-value">20%</span>
+        <span class="metric-value">${dimensionWeights.strategique}%</span>
       </div>
     </div>
     <div class="footer">
@@ -919,37 +1497,56 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
         <span class="metric-label">Variante sectorielle</span>
         <span class="metric-value">${n.variant}</span>
       </div>
+      <div class="metric-row">
+        <span class="metric-label">Segment de benchmark</span>
+        <span class="metric-value">${segmentLabel ?? 'Variante complète'}</span>
+      </div>
     </div>
+    ${metricInputs?.length ? `
     <div class="dimension-detail">
-      <h3>Données Financières</h3>
+      <h3>Activité</h3>
       <div class="metric-row">
         <span class="metric-label">Chiffre d'affaires annuel</span>
         <span class="metric-value">${formatEUR(n.caAnnuel)}</span>
       </div>
-      <div class="metric-row">
-        <span class="metric-label">Marge brute</span>
-        <span class="metric-value">${formatPercent(n.margeBrutePct)}</span>
-      </div>
-      <div class="metric-row">
-        <span class="metric-label">Charges RH</span>
-        <span class="metric-value">${formatPercent(n.chargesRhPct)}</span>
-      </div>
-    </div>
-    <div class="dimension-detail">
-      <h3>Données Opérationnelles</h3>
       <div class="metric-row">
         <span class="metric-label">Effectif (ETP)</span>
         <span class="metric-value">${formatNumber(n.effectifETP)}</span>
       </div>
-      <div class="metric-row">
-        <span class="metric-label">CA par ETP</span>
-        <span class="metric-value">${caEtp !== "—" ? formatNumber(parseInt(caEtp)) + ' €' : '—'}</span>
+    </div>
+    ${generateMetricInputsSection(metricInputs)}
+    ` : `
+      <div class="dimension-detail">
+        <h3>Données Financières</h3>
+        <div class="metric-row">
+          <span class="metric-label">Chiffre d'affaires annuel</span>
+          <span class="metric-value">${formatEUR(n.caAnnuel)}</span>
+        </div>
+        <div class="metric-row">
+          <span class="metric-label">Marge brute</span>
+          <span class="metric-value">${formatPercent(n.margeBrutePct)}</span>
+        </div>
+        <div class="metric-row">
+          <span class="metric-label">Charges RH</span>
+          <span class="metric-value">${formatPercent(n.chargesRhPct)}</span>
+        </div>
       </div>
-      <div class="metric-row">
-        <span class="metric-label">Taux d'occupation</span>
-        <span class="metric-value">${n.tauxOccupation !== null ? formatDecimal(tauxOccupationPct, 0) + '%' : '—'}</span>
+      <div class="dimension-detail">
+        <h3>Données Opérationnelles</h3>
+        <div class="metric-row">
+          <span class="metric-label">Effectif (ETP)</span>
+          <span class="metric-value">${formatNumber(n.effectifETP)}</span>
+        </div>
+        <div class="metric-row">
+          <span class="metric-label">CA par ETP</span>
+          <span class="metric-value">${caEtp !== "—" ? formatNumber(parseInt(caEtp)) + ' €' : '—'}</span>
+        </div>
+        <div class="metric-row">
+          <span class="metric-label">Taux d'occupation</span>
+          <span class="metric-value">${n.tauxOccupation !== null ? formatDecimal(tauxOccupationPct, 0) + '%' : '—'}</span>
+        </div>
       </div>
-    </div>
+    `}
     <div class="footer">
       <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">5</div>
@@ -972,37 +1569,12 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
       <span class="benchmark-indicator benchmark-${financierLevel.level}">${financierLevel.label}</span>
       <div class="analysis-box">
-        <p>La dimension financière représente <strong>35%</strong> du score global. Elle évalue la rentabilité, 
+        <p>La dimension financière représente <strong>${dimensionWeights.financier}%</strong> du score global. Elle évalue la rentabilité, 
         la productivité et la maîtrise des charges de votre structure.</p>
       </div>
     </div>
     <h3>Indicateurs Clés</h3>
-    <table class="table">
-      <tr>
-        <th>Indicateur</th>
-        <th>Valeur</th>
-        <th>Seuil Bon</th>
-        <th>Seuil Excellent</th>
-      </tr>
-      <tr>
-        <td>Marge Brute</td>
-        <td><strong>${formatPercent(n.margeBrutePct)}</strong></td>
-        <td>70%</td>
-        <td>75%</td>
-      </tr>
-      <tr>
-        <td>CA par ETP</td>
-        <td><strong>${caEtp !== "—" ? formatNumber(parseInt(caEtp)) + ' €' : '—'}</strong></td>
-        <td>100 000 €</td>
-        <td>130 000 €</td>
-      </tr>
-      <tr>
-        <td>Charges RH</td>
-        <td><strong>${formatPercent(n.chargesRhPct)}</strong></td>
-        <td>≤55%</td>
-        <td>≤50%</td>
-      </tr>
-    </table>
+    ${generateBenchmarkTable(scores.breakdown?.dimensions.financier?.metrics)}
     <div class="footer">
       <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">6</div>
@@ -1107,7 +1679,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
       <span class="benchmark-indicator benchmark-${operationnelLevel.level}">${operationnelLevel.label}</span>
       <div class="analysis-box">
-        <p>La dimension opérationnelle représente <strong>25%</strong> du score global. Elle mesure 
+        <p>La dimension opérationnelle représente <strong>${dimensionWeights.operationnel}%</strong> du score global. Elle mesure 
         l'efficacité des opérations quotidiennes et l'utilisation des ressources.</p>
       </div>
     </div>
@@ -1172,7 +1744,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </p>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">10</div>
     </div>
   </div>
@@ -1225,7 +1797,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </table>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">11</div>
     </div>
   </div>
@@ -1246,7 +1818,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
       <span class="benchmark-indicator benchmark-${commercialLevel.level}">${commercialLevel.label}</span>
       <div class="analysis-box">
-        <p>La dimension commerciale représente <strong>20%</strong> du score global. Elle évalue 
+        <p>La dimension commerciale représente <strong>${dimensionWeights.commercial}%</strong> du score global. Elle évalue 
         la maturité digitale et la capacité à fidéliser les clients.</p>
       </div>
     </div>
@@ -1267,7 +1839,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">12</div>
     </div>
   </div>
@@ -1306,7 +1878,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">13</div>
     </div>
   </div>
@@ -1362,7 +1934,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </tr>
     </table>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">14</div>
     </div>
   </div>
@@ -1383,7 +1955,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
       <span class="benchmark-indicator benchmark-${strategiqueLevel.level}">${strategiqueLevel.label}</span>
       <div class="analysis-box">
-        <p>La dimension stratégique représente <strong>20%</strong> du score global. Elle évalue 
+        <p>La dimension stratégique représente <strong>${dimensionWeights.strategique}%</strong> du score global. Elle évalue 
         la diversification de l'offre et le positionnement sur le marché.</p>
       </div>
     </div>
@@ -1397,7 +1969,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">15</div>
     </div>
   </div>
@@ -1446,7 +2018,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </tr>
     </table>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">16</div>
     </div>
   </div>
@@ -1482,7 +2054,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </ol>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">17</div>
     </div>
   </div>
@@ -1495,69 +2067,18 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
     </div>
     <h2>8. Benchmarks Sectoriels</h2>
     <div class="card">
-      <h3>Référentiel ${data?.secteur || 'Général'}</h3>
+      <h3>Référentiel ${n.secteur}</h3>
       <p style="color: #64748b; margin-bottom: 20px;">
         Les benchmarks utilisés sont issus d'études sectorielles actualisées 
-        et adaptés à la variante "${data?.variant || 'standard'}".
+        et adaptés à la variante "${n.variant}".
       </p>
     </div>
     <h3>Indicateurs Financiers</h3>
-    <table class="table">
-      <tr>
-        <th>Indicateur</th>
-        <th>Critique</th>
-        <th>Bon</th>
-        <th>Excellent</th>
-        <th>Vous</th>
-      </tr>
-      <tr>
-        <td>Marge brute</td>
-        <td>&lt;55%</td>
-        <td>70%</td>
-        <td>≥75%</td>
-        <td><strong>${formatPercent(data?.margebrutepct)}</strong></td>
-      </tr>
-      <tr>
-        <td>CA/ETP</td>
-        <td>&lt;70k€</td>
-        <td>100k€</td>
-        <td>≥130k€</td>
-        <td><strong>${caEtp !== "—" ? formatNumber(parseInt(caEtp)) + '€' : '—'}</strong></td>
-      </tr>
-      <tr>
-        <td>Charges RH</td>
-        <td>&gt;70%</td>
-        <td>≤55%</td>
-        <td>≤50%</td>
-        <td><strong>${formatPercent(data?.chargesrhpct)}</strong></td>
-      </tr>
-    </table>
+    ${generateBenchmarkTable(scores.breakdown?.dimensions.financier?.metrics)}
     <h3 style="margin-top: 30px;">Indicateurs Commerciaux</h3>
-    <table class="table">
-      <tr>
-        <th>Indicateur</th>
-        <th>Critique</th>
-        <th>Bon</th>
-        <th>Excellent</th>
-        <th>Vous</th>
-      </tr>
-      <tr>
-        <td>Digitalisation</td>
-        <td>&lt;30%</td>
-        <td>80%</td>
-        <td>≥95%</td>
-        <td><strong>${formatPercent(data?.digitalpct)}</strong></td>
-      </tr>
-      <tr>
-        <td>Fidélisation</td>
-        <td>&lt;60%</td>
-        <td>85%</td>
-        <td>≥92%</td>
-        <td><strong>${formatPercent(data?.fidelisationpct)}</strong></td>
-      </tr>
-    </table>
+    ${generateBenchmarkTable(scores.breakdown?.dimensions.commercial?.metrics)}
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">18</div>
     </div>
   </div>
@@ -1600,13 +2121,13 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
         Le scoring 4D est basé sur une méthodologie éprouvée combinant :
       </p>
       <ul style="margin-top: 10px; padding-left: 20px; color: #64748b;">
-        <li>Données sectorielles actualisées (v2.1)</li>
-        <li>Pondération adaptée au secteur ${data?.secteur || 'général'}</li>
+        <li>Données sectorielles actualisées (v${benchmarkVersion}), modèle de scoring ${modelVersion}</li>
+        <li>Pondération adaptée au secteur ${n.secteur}</li>
         <li>Comparaison avec les meilleures pratiques</li>
       </ul>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">19</div>
     </div>
   </div>
@@ -1662,7 +2183,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">20</div>
     </div>
   </div>
@@ -1675,34 +2196,36 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
     </div>
     <h2>9. Plan d'Actions Prioritaires (fin)</h2>
     <h3>Calendrier de Mise en Œuvre</h3>
-    <table class="table">
-      <tr>
-        <th>Phase</th>
-        <th>Actions</th>
-        <th>Échéance</th>
-        <th>Indicateur</th>
-      </tr>
-      <tr>
-        <td>Phase 1</td>
-        <td>Quick wins opérationnels</td>
-        <td>M+3</td>
-        <td>+5 pts score opérationnel</td>
-      </tr>
-      <tr>
-        <td>Phase 2</td>
-        <td>Transformation digitale</td>
-        <td>M+6</td>
-        <td>+10 pts digitalisation</td>
-      </tr>
-      <tr>
-        <td>Phase 3</td>
-        <td>Excellence opérationnelle</td>
-        <td>M+12</td>
-        <td>Score global ≥70</td>
-      </tr>
-    </table>
+    ${actionPlan?.length ? generateActionPlanCalendar(actionPlan) : `
+      <table class="table">
+        <tr>
+          <th>Phase</th>
+          <th>Actions</th>
+          <th>Échéance</th>
+          <th>Indicateur</th>
+        </tr>
+        <tr>
+          <td>Phase 1</td>
+          <td>Quick wins opérationnels</td>
+          <td>M+3</td>
+          <td>+5 pts score opérationnel</td>
+        </tr>
+        <tr>
+          <td>Phase 2</td>
+          <td>Transformation digitale</td>
+          <td>M+6</td>
+          <td>+10 pts digitalisation</td>
+        </tr>
+        <tr>
+          <td>Phase 3</td>
+          <td>Excellence opérationnelle</td>
+          <td>M+12</td>
+          <td>Score global ≥70</td>
+        </tr>
+      </table>
+    `}
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">21</div>
     </div>
   </div>
@@ -1740,7 +2263,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </ul>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">22</div>
     </div>
   </div>
@@ -1784,7 +2307,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </ul>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">23</div>
     </div>
   </div>
@@ -1803,7 +2326,7 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </div>
       <h3 style="margin-bottom: 20px;">Score Global : ${formatDecimal(scores.global)}/100</h3>
       <p style="color: #64748b; max-width: 500px; margin: 0 auto;">
-        ${data?.nom || 'Votre entreprise'} présente un profil ${globalLevel.label.toLowerCase()} 
+        ${n.nom} présente un profil ${globalLevel.label.toLowerCase()} 
         avec des axes d'amélioration identifiés et des points forts à capitaliser.
       </p>
     </div>
@@ -1836,11 +2359,12 @@ function generateHTMLReport(data: AuditData, scores: Scores): string {
       </p>
     </div>
     <div class="footer">
-      <span>Rapport confidentiel - ${data?.nom || 'Entreprise'}</span>
+      <span>Rapport confidentiel - ${n.nom}</span>
       <div class="page-number">24</div>
     </div>
   </div>
-
+${generateScoreBreakdownPages(scores.breakdown, n.nom, date, 25)}
+${generateDecisionTracePage(decisionTrace, decisionAdjustments, n.nom, date, scores.breakdown ? 27 : 25)}
 </body>
 </html>
   `;
@@ -1854,7 +2378,7 @@ serve(async (req) => {
 
   try {
     const body = await req.json();
-    const { auditData, scores } = body;
+    const { auditData, scores, confidence, uncertainty, sectorInfo, decision, metricInputs } = body;
 
     // Validate required fields
     if (!auditData) {
@@ -1878,11 +2402,49 @@ serve(async (req) => {
       operationnel: toNumber(scores?.operationnel) ?? 0,
       commercial: toNumber(scores?.commercial) ?? 0,
       strategique: toNumber(scores?.strategique) ?? 0,
+      modelVersion: typeof scores?.modelVersion === 'string' ? scores.modelVersion : undefined,
+      benchmarkVersion: typeof scores?.benchmarkVersion === 'string' ? scores.benchmarkVersion : undefined,
+      breakdown: validateBreakdown(scores?.breakdown),
     };
 
     console.log('Generating PDF report for:', auditData?.nom || 'Unknown company');
     
-    const htmlContent = generateHTMLReport(auditData, validatedScores);
+    const validatedConfidence: DataConfidence | undefined =
+      typeof confidence?.score === 'number' && confidence?.level in CONFIDENCE_STYLES ? confidence : undefined;
+
+    const validatedUncertainty: ScoreUncertainty | undefined =
+      typeof uncertainty?.samples === 'number' && uncertainty?.percentiles?.global ? uncertainty : undefined;
+
+    const validatedSectorInfo: SectorInfo | undefined =
+      typeof sectorInfo?.label === 'string' ? sectorInfo : undefined;
+
+    const validatedTrace: DecisionTraceEntry[] | undefined =
+      Array.isArray(decision?.trace) ? decision.trace : undefined;
+
+    const validatedActionPlan: ActionPlanItem[] | undefined =
+      Array.isArray(decision?.actionPlan) ? decision.actionPlan : undefined;
+
+    const validatedStrengths: StrengthOpportunity[] | undefined =
+      Array.isArray(decision?.strengths) ? decision.strengths : undefined;
+
+    const validatedAdjustments: DecisionAdjustment[] | undefined =
+      Array.isArray(decision?.adjustments) ? decision.adjustments : undefined;
+
+    const validatedMetricInputs: MetricInput[] | undefined =
+      Array.isArray(metricInputs) ? metricInputs.filter(m => typeof m?.label === 'string' && typeof m?.value === 'number') : undefined;
+
+    const htmlContent = generateHTMLReport(
+      auditData,
+      validatedScores,
+      validatedConfidence,
+      validatedUncertainty,
+      validatedSectorInfo,
+      validatedTrace,
+      validatedActionPlan,
+      validatedStrengths,
+      validatedAdjustments,
+      validatedMetricInputs
+    );
 
     // Return HTML content that can be converted to PDF on the client side
     return new Response(
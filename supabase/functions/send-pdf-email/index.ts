@@ -13,6 +13,7 @@ interface AuditData {
   businessName?: string;
   secteur?: string;
   sector?: string;
+  sectorVariant?: string;
 }
 
 interface Scores {
@@ -21,6 +22,8 @@ interface Scores {
   operationnel: number;
   commercial: number;
   strategique: number;
+  modelVersion?: string;
+  benchmarkVersion?: string;
 }
 
 interface QuantifiedRecommendation {
@@ -43,8 +46,26 @@ interface DecisionOutput {
   quantifiedRecommendations?: QuantifiedRecommendation[];
 }
 
+// Sector and variant labels resolved by the client-side sector registry
+interface SectorInfo {
+  id?: string;
+  label: string;
+  variantId?: string;
+  variantLabel?: string;
+}
+
+// Value entered for a metric of the client metric registry
+interface MetricInput {
+  id: string;
+  label: string;
+  value: number;
+  unit: string;
+}
+
 interface EmailRequest {
   auditData: AuditData;
+  sectorInfo?: SectorInfo;
+  metricInputs?: MetricInput[];
   scores: Scores;
   decision?: DecisionOutput;
   recipientEmail: string;
@@ -65,6 +86,16 @@ function getScoreLabel(score: number): string {
   return 'Critique';
 }
 
+// Strings sent by the client (names, labels, levers) are inserted in the HTML escaped
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 function formatCurrency(value: number): string {
   if (value >= 1000000) {
     return `${(value / 1000000).toFixed(1)}M €`;
@@ -75,6 +106,11 @@ function formatCurrency(value: number): string {
   return `${Math.round(value)} €`;
 }
 
+function formatMetricInput(metric: MetricInput): string {
+  const value = metric.value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+  return metric.unit === '%' ? `${value}%` : `${value} ${escapeHtml(metric.unit)}`;
+}
+
 function getConfidenceColor(level: string): string {
   switch (level) {
     case 'BON': return '#22c55e';
@@ -89,7 +125,7 @@ function getImpactTypeLabel(type: string): string {
     case 'MARGE': return 'Marge';
     case 'TRÉSORERIE': return 'Trésorerie';
     case 'COÛTS': return 'Réduction de coûts';
-    default: return type;
+    default: return escapeHtml(type);
   }
 }
 
@@ -99,12 +135,17 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { auditData, scores, decision, recipientEmail, businessName }: EmailRequest = await req.json();
+    const { auditData, sectorInfo, metricInputs, scores, decision, recipientEmail, businessName }: EmailRequest = await req.json();
 
     if (!recipientEmail || !recipientEmail.includes('@')) {
       throw new Error('Email invalide');
     }
 
+    // Registry labels first, the raw audit fields for clients that don't send them
+    const sectorLabel = escapeHtml(sectorInfo?.label || auditData?.sector || auditData?.secteur || 'Secteur non renseigné');
+    const variantLabel = sectorInfo?.variantLabel || auditData?.sectorVariant;
+    const sectorLine = variantLabel ? `${sectorLabel} — ${escapeHtml(variantLabel)}` : sectorLabel;
+
     const globalColor = getScoreColor(scores.global);
     const globalLabel = getScoreLabel(scores.global);
     
@@ -135,14 +176,14 @@ const handler = async (req: Request): Promise<Response> => {
           <tbody>
             ${decision.quantifiedRecommendations.slice(0, 4).map((rec, i) => `
               <tr style="background: ${i % 2 === 0 ? '#ffffff' : '#f8fafc'};">
-                <td style="padding: 10px; font-size: 13px; color: #334155;">${rec.lever}</td>
+                <td style="padding: 10px; font-size: 13px; color: #334155;">${escapeHtml(rec.lever)}</td>
                 <td style="padding: 10px; font-size: 12px; color: #64748b;">${getImpactTypeLabel(rec.impactType)}</td>
                 <td style="padding: 10px; text-align: right; font-size: 13px; font-weight: bold; color: #6366f1;">
                   ${formatCurrency(rec.estimatedImpactMin)} - ${formatCurrency(rec.estimatedImpactMax)}
                 </td>
                 <td style="padding: 10px; text-align: center;">
                   <span style="display: inline-block; padding: 2px 8px; border-radius: 4px; font-size: 11px; font-weight: bold; background: ${getConfidenceColor(rec.confidenceLevel)}20; color: ${getConfidenceColor(rec.confidenceLevel)};">
-                    ${rec.confidenceLevel}
+                    ${escapeHtml(rec.confidenceLevel)}
                   </span>
                 </td>
               </tr>
@@ -155,18 +196,35 @@ const handler = async (req: Request): Promise<Response> => {
       </div>
     ` : '';
 
+    const enteredMetrics = Array.isArray(metricInputs) ? metricInputs.filter(m => typeof m?.value === 'number') : [];
+    const metricInputsSection = enteredMetrics.length > 0 ? `
+      <div style="margin-top: 30px;">
+        <h3 style="margin: 0 0 10px; color: #1e293b;">Indicateurs saisis</h3>
+        <table style="width: 100%; border-collapse: collapse;">
+          <tbody>
+            ${enteredMetrics.map((m, i) => `
+              <tr style="background: ${i % 2 === 0 ? '#ffffff' : '#f8fafc'};">
+                <td style="padding: 8px 10px; font-size: 13px; color: #334155;">${escapeHtml(m.label)}</td>
+                <td style="padding: 8px 10px; text-align: right; font-size: 13px; font-weight: bold; color: #1e293b;">${formatMetricInput(m)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    ` : '';
+
     const decisionSection = decision ? `
       <div style="margin-top: 30px; padding: 20px; background: #f8fafc; border-radius: 12px; border-left: 4px solid ${priorityColor};">
         <h3 style="margin: 0 0 10px; color: #1e293b;">Synthèse Décisionnelle</h3>
         <div style="display: inline-block; padding: 4px 12px; background: ${priorityColor}; color: white; border-radius: 4px; font-weight: bold; margin-bottom: 10px;">
-          Priorité ${decision.priorityLevel}
+          Priorité ${escapeHtml(decision.priorityLevel)}
         </div>
-        <p style="color: #64748b; margin: 10px 0;">${decision.decisionSummary}</p>
+        <p style="color: #64748b; margin: 10px 0;">${escapeHtml(decision.decisionSummary)}</p>
         ${decision.topLevers.length > 0 ? `
           <div style="margin-top: 15px;">
             <strong style="color: #334155;">Leviers prioritaires :</strong>
             <ul style="margin: 5px 0; padding-left: 20px; color: #475569;">
-              ${decision.topLevers.slice(0, 3).map(l => `<li>${l}</li>`).join('')}
+              ${decision.topLevers.slice(0, 3).map(l => `<li>${escapeHtml(l)}</li>`).join('')}
             </ul>
           </div>
         ` : ''}
@@ -200,7 +258,8 @@ const handler = async (req: Request): Promise<Response> => {
   <div class="container">
     <div class="header">
       <h1>Rapport d'Audit 4D</h1>
-      <p>${businessName}</p>
+      <p>${escapeHtml(businessName)}</p>
+      <p>${sectorLine}</p>
     </div>
     <div class="content">
       <div class="score-global">
@@ -225,6 +284,7 @@ const handler = async (req: Request): Promise<Response> => {
           <div class="dimension-score" style="color: ${getScoreColor(scores.strategique)}">${scores.strategique}/100</div>
         </div>
       </div>
+      ${metricInputsSection}
       ${decisionSection}
       <p style="margin-top: 30px; color: #64748b; font-size: 14px;">
         Ce rapport a été généré automatiquement par AuditScore. 
@@ -235,7 +295,7 @@ const handler = async (req: Request): Promise<Response> => {
       </p>
     </div>
     <div class="footer">
-      <p>Scoring 4D paramétré • Benchmarks sectoriels v2.1</p>
+      <p>Scoring 4D paramétré (modèle ${escapeHtml(scores.modelVersion ?? '2.0')}) • Benchmarks sectoriels v${escapeHtml(scores.benchmarkVersion ?? '2.1')}</p>
       <p>© ${new Date().getFullYear()} AuditScore</p>
     </div>
   </div>